@@ -0,0 +1,106 @@
+// Offline gazetteer used to geocode job locations. Coordinates are city
+// centres; aliases cover former names, common spellings and abbreviations.
+
+export interface GazetteerCity {
+  name: string;
+  state: string;
+  country: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export const CITIES: GazetteerCity[] = [
+  // India - metros
+  { name: 'Mumbai', state: 'Maharashtra', country: 'India', lat: 19.076, lng: 72.8777, aliases: ['Bombay'] },
+  { name: 'Delhi', state: 'Delhi', country: 'India', lat: 28.6139, lng: 77.209, aliases: ['New Delhi', 'NCR', 'Delhi NCR'] },
+  { name: 'Bengaluru', state: 'Karnataka', country: 'India', lat: 12.9716, lng: 77.5946, aliases: ['Bangalore', 'Bengaluru Urban', 'Blr'] },
+  { name: 'Chennai', state: 'Tamil Nadu', country: 'India', lat: 13.0827, lng: 80.2707, aliases: ['Madras'] },
+  { name: 'Kolkata', state: 'West Bengal', country: 'India', lat: 22.5726, lng: 88.3639, aliases: ['Calcutta'] },
+  { name: 'Hyderabad', state: 'Telangana', country: 'India', lat: 17.385, lng: 78.4867, aliases: ['Secunderabad', 'Cyberabad'] },
+  { name: 'Pune', state: 'Maharashtra', country: 'India', lat: 18.5204, lng: 73.8567, aliases: ['Poona'] },
+  { name: 'Ahmedabad', state: 'Gujarat', country: 'India', lat: 23.0225, lng: 72.5714, aliases: ['Amdavad'] },
+
+  // India - NCR and satellite cities
+  { name: 'Gurugram', state: 'Haryana', country: 'India', lat: 28.4595, lng: 77.0266, aliases: ['Gurgaon'] },
+  { name: 'Noida', state: 'Uttar Pradesh', country: 'India', lat: 28.5355, lng: 77.391, aliases: ['Greater Noida'] },
+  { name: 'Ghaziabad', state: 'Uttar Pradesh', country: 'India', lat: 28.6692, lng: 77.4538 },
+  { name: 'Faridabad', state: 'Haryana', country: 'India', lat: 28.4089, lng: 77.3178 },
+  { name: 'Navi Mumbai', state: 'Maharashtra', country: 'India', lat: 19.033, lng: 73.0297, aliases: ['New Bombay'] },
+  { name: 'Thane', state: 'Maharashtra', country: 'India', lat: 19.2183, lng: 72.9781 },
+
+  // India - other cities
+  { name: 'Jaipur', state: 'Rajasthan', country: 'India', lat: 26.9124, lng: 75.7873 },
+  { name: 'Lucknow', state: 'Uttar Pradesh', country: 'India', lat: 26.8467, lng: 80.9462 },
+  { name: 'Kanpur', state: 'Uttar Pradesh', country: 'India', lat: 26.4499, lng: 80.3319, aliases: ['Cawnpore'] },
+  { name: 'Nagpur', state: 'Maharashtra', country: 'India', lat: 21.1458, lng: 79.0882 },
+  { name: 'Indore', state: 'Madhya Pradesh', country: 'India', lat: 22.7196, lng: 75.8577 },
+  { name: 'Bhopal', state: 'Madhya Pradesh', country: 'India', lat: 23.2599, lng: 77.4126 },
+  { name: 'Visakhapatnam', state: 'Andhra Pradesh', country: 'India', lat: 17.6868, lng: 83.2185, aliases: ['Vizag', 'Vishakhapatnam'] },
+  { name: 'Vijayawada', state: 'Andhra Pradesh', country: 'India', lat: 16.5062, lng: 80.648, aliases: ['Bezawada'] },
+  { name: 'Patna', state: 'Bihar', country: 'India', lat: 25.5941, lng: 85.1376 },
+  { name: 'Vadodara', state: 'Gujarat', country: 'India', lat: 22.3072, lng: 73.1812, aliases: ['Baroda'] },
+  { name: 'Surat', state: 'Gujarat', country: 'India', lat: 21.1702, lng: 72.8311 },
+  { name: 'Rajkot', state: 'Gujarat', country: 'India', lat: 22.3039, lng: 70.8022 },
+  { name: 'Gandhinagar', state: 'Gujarat', country: 'India', lat: 23.2156, lng: 72.6369, aliases: ['GIFT City'] },
+  { name: 'Ludhiana', state: 'Punjab', country: 'India', lat: 30.901, lng: 75.8573 },
+  { name: 'Amritsar', state: 'Punjab', country: 'India', lat: 31.634, lng: 74.8723 },
+  { name: 'Chandigarh', state: 'Chandigarh', country: 'India', lat: 30.7333, lng: 76.7794, aliases: ['Tricity'] },
+  { name: 'Mohali', state: 'Punjab', country: 'India', lat: 30.7046, lng: 76.7179, aliases: ['Sahibzada Ajit Singh Nagar', 'SAS Nagar'] },
+  { name: 'Dehradun', state: 'Uttarakhand', country: 'India', lat: 30.3165, lng: 78.0322, aliases: ['Dehra Dun'] },
+  { name: 'Agra', state: 'Uttar Pradesh', country: 'India', lat: 27.1767, lng: 78.0081 },
+  { name: 'Varanasi', state: 'Uttar Pradesh', country: 'India', lat: 25.3176, lng: 82.9739, aliases: ['Benares', 'Banaras', 'Kashi'] },
+  { name: 'Prayagraj', state: 'Uttar Pradesh', country: 'India', lat: 25.4358, lng: 81.8463, aliases: ['Allahabad'] },
+  { name: 'Meerut', state: 'Uttar Pradesh', country: 'India', lat: 28.9845, lng: 77.7064 },
+  { name: 'Nashik', state: 'Maharashtra', country: 'India', lat: 19.9975, lng: 73.7898, aliases: ['Nasik'] },
+  { name: 'Aurangabad', state: 'Maharashtra', country: 'India', lat: 19.8762, lng: 75.3433, aliases: ['Chhatrapati Sambhajinagar', 'Sambhajinagar'] },
+  { name: 'Kolhapur', state: 'Maharashtra', country: 'India', lat: 16.705, lng: 74.2433 },
+  { name: 'Mysuru', state: 'Karnataka', country: 'India', lat: 12.2958, lng: 76.6394, aliases: ['Mysore'] },
+  { name: 'Mangaluru', state: 'Karnataka', country: 'India', lat: 12.9141, lng: 74.856, aliases: ['Mangalore'] },
+  { name: 'Hubballi', state: 'Karnataka', country: 'India', lat: 15.3647, lng: 75.124, aliases: ['Hubli', 'Hubli-Dharwad'] },
+  { name: 'Belagavi', state: 'Karnataka', country: 'India', lat: 15.8497, lng: 74.4977, aliases: ['Belgaum'] },
+  { name: 'Coimbatore', state: 'Tamil Nadu', country: 'India', lat: 11.0168, lng: 76.9558, aliases: ['Kovai'] },
+  { name: 'Madurai', state: 'Tamil Nadu', country: 'India', lat: 9.9252, lng: 78.1198 },
+  { name: 'Tiruchirappalli', state: 'Tamil Nadu', country: 'India', lat: 10.7905, lng: 78.7047, aliases: ['Trichy', 'Tiruchi'] },
+  { name: 'Salem', state: 'Tamil Nadu', country: 'India', lat: 11.6643, lng: 78.146 },
+  { name: 'Puducherry', state: 'Puducherry', country: 'India', lat: 11.9416, lng: 79.8083, aliases: ['Pondicherry', 'Pondy'] },
+  { name: 'Kochi', state: 'Kerala', country: 'India', lat: 9.9312, lng: 76.2673, aliases: ['Cochin', 'Ernakulam'] },
+  { name: 'Thiruvananthapuram', state: 'Kerala', country: 'India', lat: 8.5241, lng: 76.9366, aliases: ['Trivandrum'] },
+  { name: 'Kozhikode', state: 'Kerala', country: 'India', lat: 11.2588, lng: 75.7804, aliases: ['Calicut'] },
+  { name: 'Thrissur', state: 'Kerala', country: 'India', lat: 10.5276, lng: 76.2144, aliases: ['Trichur'] },
+  { name: 'Bhubaneswar', state: 'Odisha', country: 'India', lat: 20.2961, lng: 85.8245, aliases: ['Bhubaneshwar'] },
+  { name: 'Cuttack', state: 'Odisha', country: 'India', lat: 20.4625, lng: 85.883 },
+  { name: 'Ranchi', state: 'Jharkhand', country: 'India', lat: 23.3441, lng: 85.3096 },
+  { name: 'Jamshedpur', state: 'Jharkhand', country: 'India', lat: 22.8046, lng: 86.2029, aliases: ['Tatanagar'] },
+  { name: 'Raipur', state: 'Chhattisgarh', country: 'India', lat: 21.2514, lng: 81.6296 },
+  { name: 'Guwahati', state: 'Assam', country: 'India', lat: 26.1445, lng: 91.7362, aliases: ['Gauhati'] },
+  { name: 'Shillong', state: 'Meghalaya', country: 'India', lat: 25.5788, lng: 91.8933 },
+  { name: 'Siliguri', state: 'West Bengal', country: 'India', lat: 26.7271, lng: 88.3953 },
+  { name: 'Durgapur', state: 'West Bengal', country: 'India', lat: 23.5204, lng: 87.3119 },
+  { name: 'Jodhpur', state: 'Rajasthan', country: 'India', lat: 26.2389, lng: 73.0243 },
+  { name: 'Udaipur', state: 'Rajasthan', country: 'India', lat: 24.5854, lng: 73.7125 },
+  { name: 'Kota', state: 'Rajasthan', country: 'India', lat: 25.2138, lng: 75.8648 },
+  { name: 'Gwalior', state: 'Madhya Pradesh', country: 'India', lat: 26.2183, lng: 78.1828 },
+  { name: 'Jabalpur', state: 'Madhya Pradesh', country: 'India', lat: 23.1815, lng: 79.9864 },
+  { name: 'Jammu', state: 'Jammu and Kashmir', country: 'India', lat: 32.7266, lng: 74.857 },
+  { name: 'Srinagar', state: 'Jammu and Kashmir', country: 'India', lat: 34.0837, lng: 74.7973 },
+  { name: 'Shimla', state: 'Himachal Pradesh', country: 'India', lat: 31.1048, lng: 77.1734, aliases: ['Simla'] },
+  { name: 'Panaji', state: 'Goa', country: 'India', lat: 15.4909, lng: 73.8278, aliases: ['Panjim', 'Goa'] },
+  { name: 'Warangal', state: 'Telangana', country: 'India', lat: 17.9689, lng: 79.5941 },
+  { name: 'Guntur', state: 'Andhra Pradesh', country: 'India', lat: 16.3067, lng: 80.4365 },
+  { name: 'Tirupati', state: 'Andhra Pradesh', country: 'India', lat: 13.6288, lng: 79.4192 },
+
+  // International
+  { name: 'Dubai', state: 'Dubai', country: 'United Arab Emirates', lat: 25.2048, lng: 55.2708 },
+  { name: 'Abu Dhabi', state: 'Abu Dhabi', country: 'United Arab Emirates', lat: 24.4539, lng: 54.3773 },
+  { name: 'Singapore', state: 'Singapore', country: 'Singapore', lat: 1.3521, lng: 103.8198 },
+  { name: 'London', state: 'England', country: 'United Kingdom', lat: 51.5074, lng: -0.1278 },
+  { name: 'New York', state: 'New York', country: 'United States', lat: 40.7128, lng: -74.006, aliases: ['NYC', 'New York City'] },
+  { name: 'San Francisco', state: 'California', country: 'United States', lat: 37.7749, lng: -122.4194, aliases: ['SF', 'Bay Area'] },
+  { name: 'Toronto', state: 'Ontario', country: 'Canada', lat: 43.6532, lng: -79.3832 },
+  { name: 'Sydney', state: 'New South Wales', country: 'Australia', lat: -33.8688, lng: 151.2093 },
+  { name: 'Berlin', state: 'Berlin', country: 'Germany', lat: 52.52, lng: 13.405 },
+  { name: 'Kathmandu', state: 'Bagmati', country: 'Nepal', lat: 27.7172, lng: 85.324 },
+  { name: 'Dhaka', state: 'Dhaka', country: 'Bangladesh', lat: 23.8103, lng: 90.4125, aliases: ['Dacca'] },
+  { name: 'Colombo', state: 'Western', country: 'Sri Lanka', lat: 6.9271, lng: 79.8612 }
+];
@@ -62,9 +62,6 @@ app.get("/test", (req, res) => {
 // Serve static files from uploads directory
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
-// Set up auth (required before routes)
-setupAuth(app);
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -96,6 +93,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Set up auth (required before routes), waiting for the session
+  // middleware so every route has a session
+  await setupAuth(app);
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
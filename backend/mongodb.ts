@@ -7,8 +7,24 @@ import {
   Company,
   CompanyReview,
   OTPVerification,
-  ServicePlan
+  ServicePlan,
+  SavedJob,
+  JobAlert,
+  JobDraft,
+  JobEventSession,
+  JobStatsDaily,
+  SponsoredSpendDaily,
+  JobRiskRules,
+  JobRevision,
+  JobTemplate,
+  HiringPipeline,
+  ApplicationEvent,
+  Notification,
+  ResumeSnapshot,
+  ApplicationNote,
+  HiringTeamMember
 } from '@shared/mongodb-types';
+import { JOB_TEXT_INDEX_NAME, JOB_TEXT_WEIGHTS } from './utils/search';
 
 // Load environment variables
 dotenv.config();
@@ -90,6 +106,20 @@ async function setupIndexes() {
     }
   };
 
+  // Helper function to drop an index that has been replaced, ignoring the
+  // error when it doesn't exist
+  const safeDropIndex = async (collection: string, indexName: string) => {
+    try {
+      await db.collection(collection).dropIndex(indexName);
+      return true;
+    } catch (error: any) {
+      if (error.codeName !== 'IndexNotFound' && error.codeName !== 'NamespaceNotFound') {
+        console.warn(`Failed to drop index ${indexName} on ${collection}:`, error.message);
+      }
+      return false;
+    }
+  };
+
   try {
     // User indexes
     await safeCreateIndex('users', { email: 1 }, { unique: true });
@@ -100,18 +130,101 @@ async function setupIndexes() {
     await safeCreateIndex('jobs', { postedBy: 1 });
     await safeCreateIndex('jobs', { status: 1 });
     await safeCreateIndex('jobs', { createdAt: -1 });
-    await safeCreateIndex('jobs', { 
-      title: 'text', 
-      description: 'text', 
+    await safeCreateIndex('jobs', { publishedAt: -1 });
+    // A collection can only have one text index, so the old unweighted one
+    // has to go before the weighted search index can be created
+    await safeDropIndex('jobs', 'title_text_description_text_company_text_requirements_text');
+    await safeCreateIndex('jobs', {
+      title: 'text',
+      description: 'text',
       company: 'text',
-      requirements: 'text'
+      requirements: 'text',
+      skills: 'text'
+    }, {
+      name: JOB_TEXT_INDEX_NAME,
+      weights: JOB_TEXT_WEIGHTS,
+      default_language: 'english'
+    });
+    await safeCreateIndex('jobs', { geo: '2dsphere' });
+    await safeCreateIndex('jobs', { locationCity: 1 });
+    await safeCreateIndex('jobs', {
+      'salaryRange.currency': 1,
+      'salaryRange.annualMin': 1,
+      'salaryRange.annualMax': 1
     });
+    await safeCreateIndex('jobs', { status: 1, deadline: 1 });
+    await safeCreateIndex('jobs', { status: 1, publishAt: 1 });
     
     // Application indexes
     await safeCreateIndex('applications', { jobId: 1 });
     await safeCreateIndex('applications', { userId: 1 });
     await safeCreateIndex('applications', { jobId: 1, userId: 1 }, { unique: true });
     
+    // Saved job indexes
+    await safeCreateIndex('savedJobs', { userId: 1, jobId: 1 }, { unique: true });
+    await safeCreateIndex('savedJobs', { userId: 1, savedAt: -1 });
+    
+    // Job alert indexes
+    await safeCreateIndex('jobAlerts', { userId: 1 });
+    await safeCreateIndex('jobAlerts', { unsubscribeToken: 1 }, { unique: true });
+    await safeCreateIndex('jobAlerts', { status: 1, frequency: 1, lastRunAt: 1 });
+    
+    // Job draft indexes
+    await safeCreateIndex('jobDrafts', { employerId: 1, updatedAt: -1 });
+    
+    // Job analytics indexes; session markers are only needed for the day they count
+    await safeCreateIndex('jobEventSessions', { jobId: 1, type: 1, sessionId: 1, day: 1 }, { unique: true });
+    await safeCreateIndex('jobEventSessions', { createdAt: 1 }, { expireAfterSeconds: 2 * 24 * 60 * 60 });
+    await safeCreateIndex('jobStatsDaily', { jobId: 1, day: 1 }, { unique: true });
+    await safeCreateIndex('jobStatsDaily', { employerId: 1, day: 1 });
+    
+    // Sponsored job indexes
+    await safeCreateIndex('jobs', { 'sponsorship.status': 1, 'sponsorship.endsAt': 1 });
+    await safeCreateIndex('sponsoredSpend', { jobId: 1, day: 1 }, { unique: true });
+    await safeCreateIndex('sponsoredSpend', { employerId: 1, day: 1 });
+    
+    // Job risk indexes
+    await safeCreateIndex('jobs', { contentHash: 1, postedBy: 1 });
+    await safeCreateIndex('jobs', { 'riskAssessment.held': 1, 'riskAssessment.assessedAt': -1 });
+    
+    // Duplicate job indexes
+    await safeCreateIndex('jobs', { postedBy: 1, duplicateKey: 1, status: 1 });
+    await safeCreateIndex('jobs', { duplicateGroupId: 1 });
+    
+    // Job revision indexes
+    await safeCreateIndex('jobRevisions', { jobId: 1, version: 1 }, { unique: true });
+    
+    // Job template indexes
+    await safeCreateIndex('jobTemplates', { company: 1, usageCount: -1 });
+    await safeCreateIndex('jobTemplates', { createdBy: 1 });
+    await safeCreateIndex('jobs', { templateId: 1 });
+    
+    // Hiring pipeline indexes
+    await safeCreateIndex('hiringPipelines', { jobId: 1 }, { unique: true, partialFilterExpression: { jobId: { $type: 'objectId' } } });
+    await safeCreateIndex('hiringPipelines', { company: 1, createdBy: 1, jobId: 1 });
+    
+    // Application history and candidate notifications
+    await safeCreateIndex('applicationEvents', { applicationId: 1, createdAt: 1 });
+    await safeCreateIndex('applicationEvents', { userId: 1, createdAt: 1 });
+    await safeCreateIndex('notifications', { userId: 1, createdAt: -1 });
+    
+    // Resumes as submitted with each application
+    await safeCreateIndex('resumeSnapshots', { applicationId: 1, createdAt: -1 });
+    
+    // Hiring team notes, and filtering applicants by review
+    await safeCreateIndex('applicationNotes', { applicationId: 1, createdAt: 1 });
+    await safeCreateIndex('hiringTeamMembers', { ownerId: 1, memberId: 1 }, { unique: true });
+    await safeCreateIndex('hiringTeamMembers', { memberId: 1 });
+    await safeCreateIndex('applications', { jobId: 1, tags: 1 });
+    await safeCreateIndex('applications', { jobId: 1, averageRating: -1 });
+    
+    // Bulk import matches rows to jobs by the employer's reference
+    await safeCreateIndex(
+      'jobs',
+      { postedBy: 1, externalId: 1 },
+      { unique: true, partialFilterExpression: { externalId: { $type: 'string' } } }
+    );
+    
     // Company indexes
     await safeCreateIndex('companies', { name: 1 }, { unique: true });
     
@@ -150,7 +263,22 @@ export const collections = {
   companyReviews: db.collection<CompanyReview>('companyReviews'),
   otpVerifications: db.collection<OTPVerification>('otpVerifications'),
   servicePlans: db.collection<ServicePlan>('servicePlans'),
-  flaggedJobs: db.collection('flaggedJobs')
+  flaggedJobs: db.collection('flaggedJobs'),
+  savedJobs: db.collection<SavedJob>('savedJobs'),
+  jobAlerts: db.collection<JobAlert>('jobAlerts'),
+  jobDrafts: db.collection<JobDraft>('jobDrafts'),
+  jobEventSessions: db.collection<JobEventSession>('jobEventSessions'),
+  jobStatsDaily: db.collection<JobStatsDaily>('jobStatsDaily'),
+  sponsoredSpend: db.collection<SponsoredSpendDaily>('sponsoredSpend'),
+  jobRiskRules: db.collection<JobRiskRules>('jobRiskRules'),
+  jobRevisions: db.collection<JobRevision>('jobRevisions'),
+  jobTemplates: db.collection<JobTemplate>('jobTemplates'),
+  hiringPipelines: db.collection<HiringPipeline>('hiringPipelines'),
+  applicationEvents: db.collection<ApplicationEvent>('applicationEvents'),
+  notifications: db.collection<Notification>('notifications'),
+  resumeSnapshots: db.collection<ResumeSnapshot>('resumeSnapshots'),
+  applicationNotes: db.collection<ApplicationNote>('applicationNotes'),
+  hiringTeamMembers: db.collection<HiringTeamMember>('hiringTeamMembers')
 };
 
 // Helper function to convert string ID to ObjectId
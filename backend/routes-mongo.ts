@@ -6,11 +6,123 @@ import { collections } from './mongodb';
 import { ObjectId } from 'mongodb';
 import verificationRoutes from './routes/verification';
 import resumeRoutes from './routes/resume';
+import savedJobRoutes from './routes/saved-jobs';
+import jobAlertRoutes from './routes/job-alerts';
+import jobDraftRoutes from './routes/job-drafts';
+import employerAnalyticsRoutes from './routes/employer-analytics';
+import sponsoredJobRoutes from './routes/sponsored-jobs';
+import jobRiskRoutes from './routes/job-risk';
+import jobRevisionRoutes from './routes/job-revisions';
+import jobTemplateRoutes from './routes/job-templates';
+import jobImportRoutes from './routes/job-imports';
+import feedRoutes from './routes/feeds';
+import hiringPipelineRoutes from './routes/hiring-pipelines';
+import notificationRoutes from './routes/notifications';
+import applicationReviewRoutes from './routes/application-reviews';
+import { buildHighlights } from './utils/search';
+import { buildJobQuery } from './utils/job-query';
+import { buildJobFacetPipeline, formatJobFacets, buildCompanyFacetPipeline } from './utils/facets';
+import { backfillSalaryRanges } from './utils/salary';
+import { backfillJobLocations, distanceKm } from './utils/geocode';
+import { startJobAlertScheduler } from './utils/job-alerts';
+import { getRecommendedJobs } from './utils/recommendations';
+import { startJobExpiryScheduler, getJobExpiryDate, isPastDeadline, renewJob, canRenewJob } from './utils/job-expiry';
+import { parsePublishAt, startScheduledJobPublisher } from './utils/scheduled-jobs';
+import { trackJobEvents, getEmployerListingViews, getAnalyticsSessionId } from './utils/job-analytics';
+import {
+  parseSponsorship,
+  selectSponsoredJobs,
+  insertSponsoredSlots,
+  trackSponsoredImpressions,
+  recordSponsoredClick
+} from './utils/sponsored-jobs';
+import { evaluateScreeningAnswers, hideKnockoutRules, PRIVATE_JOB_FIELDS_PROJECTION, privateJobFieldsProjection, KNOCKOUT_TAG } from './utils/screening';
+import {
+  describeDuplicate,
+  getRefreshableAt,
+  refreshJob,
+  getDuplicateOffenders,
+  backfillDuplicateGroups,
+  collapseDuplicatePostings
+} from './utils/job-duplicates';
+import { prepareNewJob, saveNewJob, prepareJobUpdate, saveJobUpdate } from './utils/job-posting';
+import { buildJobPostingSchema } from './utils/job-feeds';
+import { getSimilarJobs, DEFAULT_SIMILAR_JOBS_LIMIT, MAX_SIMILAR_JOBS_LIMIT } from './utils/similar-jobs';
+import { findTemplate } from './utils/job-templates';
+import { APPLICATION_STATUSES, getJobPipeline, getApplicationStage } from './utils/hiring-pipelines';
+import {
+  WITHDRAWABLE_STATUSES,
+  parseWithdrawalReason,
+  getReapplyRule,
+  canReapply,
+  withdrawApplication
+} from './utils/application-withdrawal';
+import {
+  parseTransitionOptions,
+  recordApplicationEvent,
+  getCandidateTimelines,
+  getEmployerTimeline
+} from './utils/application-events';
+import {
+  MAX_APPLICATION_DOCUMENTS,
+  applicationUpload,
+  parseJsonField,
+  parseResumeSource,
+  parseDocumentTypes,
+  toApplicationDocuments,
+  buildResumeSnapshot,
+  removeApplicationFiles,
+  removeReplacedMaterials,
+  findViewableApplication,
+  getApplicationFilePath,
+  withMaterialUrls
+} from './utils/application-materials';
+import { findReviewableJob, parseReviewFilters, buildReviewFilterQuery } from './utils/application-reviews';
+import { Job, Application, ApplicationStatus, ResumeSnapshot } from '@shared/mongodb-types';
+import { jobSchema, jobUpdateSchema, formatJobValidationError } from '@shared/job-schema';
+
+// Job fields only the posting employer and admins should see
+// The posting employer's view of a job. Risk scores and reasons stay with
+// the admins; the employer only learns that the job is waiting for review.
+const withReviewStatus = ({ riskAssessment, contentHash, ...job }: Job) => ({
+  ...job,
+  underReview: !!riskAssessment?.held
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Use our route modules
   app.use('/api/verify', verificationRoutes);
   app.use('/api/users/resume', resumeRoutes);
+  app.use('/api/saved-jobs', savedJobRoutes);
+  app.use('/api/job-alerts', jobAlertRoutes);
+  app.use('/api/job-drafts', jobDraftRoutes);
+  app.use('/api/employer/analytics', employerAnalyticsRoutes);
+  app.use('/api/sponsored-jobs', sponsoredJobRoutes);
+  app.use('/api/admin/job-risk', jobRiskRoutes);
+  app.use('/api/job-revisions', jobRevisionRoutes);
+  app.use('/api/job-templates', jobTemplateRoutes);
+  app.use('/api/job-imports', jobImportRoutes);
+  app.use('/api/hiring-pipelines', hiringPipelineRoutes);
+  app.use('/api/application-reviews', applicationReviewRoutes);
+  app.use('/api/notifications', notificationRoutes);
+  
+  // Outbound job feeds and the sitemap, outside the API
+  app.use(feedRoutes);
+
+  // Jobs posted before salaries were structured, locations geocoded or
+  // reposts grouped get those fields filled in once
+  backfillSalaryRanges().catch(error => console.error('Error backfilling job salaries:', error));
+  backfillJobLocations().catch(error => console.error('Error geocoding job locations:', error));
+  backfillDuplicateGroups().catch(error => console.error('Error grouping duplicate jobs:', error));
+  
+  // Send saved-search digests when they are due
+  startJobAlertScheduler();
+  
+  // Close jobs past their deadline and warn employers before it happens
+  startJobExpiryScheduler();
+  
+  // Publish scheduled jobs when their time comes
+  startScheduledJobPublisher();
 
   // User profile
   app.get('/api/user/profile', isAuthenticated, async (req: Request, res: Response) => {
@@ -71,58 +183,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get job listings with filters
   app.get('/api/jobs', async (req: Request, res: Response) => {
     try {
-      const { 
-        search, 
-        location, 
-        type, 
-        experience,
-        workMode,
-        page = 1, 
-        limit = 10 
+      const {
+        sort,
+        page = 1,
+        limit = 10
       } = req.query;
-      
-      // Build filter object
-      const filter: Record<string, any> = { status: 'active' };
-      
-      if (search) {
-        filter.$or = [
-          { title: { $regex: search, $options: 'i' } },
-          { description: { $regex: search, $options: 'i' } },
-          { company: { $regex: search, $options: 'i' } }
-        ];
-      }
-      
-      if (location) {
-        filter.location = { $regex: location, $options: 'i' };
-      }
-      
-      if (type) {
-        filter.type = type;
-      }
-      
-      if (experience) {
-        filter.experienceLevel = experience;
-      }
-      
-      if (workMode) {
-        filter.workMode = workMode;
+
+      // Personalized recommendations for signed-in job seekers
+      if (req.query.recommended === 'true' && req.user?.role === 'jobseeker') {
+        const recommended = await getRecommendedJobs(req.user, Number(limit));
+        trackJobEvents(req, recommended, 'impression');
+        return res.status(200).json({
+          jobs: recommended,
+          total: recommended.length,
+          page: 1,
+          limit: Number(limit),
+          totalPages: 1
+        });
       }
+
+      // Build filter object
+      const { filter, parsedSearch, textSearch, near } = buildJobQuery(req.query);
       
       // Paginate results
       const skip = (Number(page) - 1) * Number(limit);
       
-      // Get total count for pagination
-      const total = await collections.jobs?.countDocuments(filter);
+      // Rank keyword searches by relevance unless the caller asks for newest first
+      const sortByRelevance = !!textSearch && sort !== 'date';
+      const order: Record<string, 1 | -1> = sortByRelevance ? { score: -1, createdAt: -1 } : { createdAt: -1 };
+
+      // Get jobs with reposts of the same opening collapsed into the best
+      // ranked one, without the screening answers that pass knockout
+      // questions or other details private to the employer
+      const [listing] = await collections.jobs.aggregate<{ jobs: (Job & { duplicateCount: number })[]; total: { count: number }[] }>([
+        { $match: filter },
+        ...(textSearch ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+        { $sort: order },
+        ...collapseDuplicatePostings(),
+        { $sort: order },
+        {
+          $facet: {
+            jobs: [{ $skip: skip }, { $limit: Number(limit) }, { $project: PRIVATE_JOB_FIELDS_PROJECTION }],
+            total: [{ $count: 'count' }]
+          }
+        }
+      ]).toArray();
+      const jobs = listing?.jobs;
+      const total = listing?.total[0]?.count;
       
-      // Get jobs
-      const jobs = await collections.jobs?.find(filter)
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(Number(limit))
-        .toArray();
-        
+      // Sponsored jobs that match the same search get labelled slots on top
+      // of the organic results, which keep their order and count
+      const sponsored = await selectSponsoredJobs(filter, (jobs || []).map(job => job._id), Number(page));
+      trackSponsoredImpressions(sponsored);
+      
+      // Count each job shown as an impression for the employer's funnel
+      trackJobEvents(req, [...(jobs || []), ...sponsored], 'impression');
+
+      // Attach highlighted snippets so the listing can show why a job matched,
+      // and the distance from the searched place for radius searches
+      const withDetails = <T extends Job>(job: T) => ({
+        ...job,
+        ...(parsedSearch && textSearch ? { highlights: buildHighlights(job, parsedSearch) } : {}),
+        ...(near && job.geo ? { distanceKm: distanceKm(near, job.geo) } : {})
+      });
+      const results = insertSponsoredSlots(
+        (jobs || []).map(withDetails),
+        sponsored.map(({ sponsorship, riskAssessment, contentHash, ...job }) => withDetails(job))
+      );
+
       res.status(200).json({
-        jobs: jobs || [],
+        jobs: results,
         total: total || 0,
         page: Number(page),
         limit: Number(limit),
@@ -134,6 +264,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get live filter counts for the current job search
+  app.get('/api/jobs/facets', async (req: Request, res: Response) => {
+    try {
+      const jobQuery = buildJobQuery(req.query);
+      
+      const [result] = await collections.jobs.aggregate(buildJobFacetPipeline(jobQuery)).toArray();
+      
+      res.status(200).json(formatJobFacets(result));
+    } catch (error) {
+      console.error('Error fetching job facets:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get live filter counts for the company directory
+  app.get('/api/companies/facets', async (req: Request, res: Response) => {
+    try {
+      const [result] = await collections.companies.aggregate(buildCompanyFacetPipeline(req.query)).toArray();
+      
+      res.status(200).json({
+        location: result?.location || [],
+        industry: result?.industry || [],
+        experience: result?.experience || []
+      });
+    } catch (error) {
+      console.error('Error fetching company facets:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Get job by ID
   app.get('/api/jobs/:id', async (req: Request, res: Response) => {
     try {
@@ -149,13 +309,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Job not found' });
       }
       
-      res.status(200).json(job);
+      // Only the employer who posted the job sees its knockout rules
+      const isOwner = !!req.user && job.postedBy.equals(req.user._id);
+      if (job.status === 'active') {
+        trackJobEvents(req, [job], 'view');
+      }
+      if (isOwner) {
+        return res.status(200).json(withReviewStatus(job));
+      }
+      
+      // Budgets and risk checks are private to the employer too
+      const { sponsorship, riskAssessment, contentHash, ...publicJob } = hideKnockoutRules(job);
+      
+      // schema.org markup lets search engines list open jobs
+      res.status(200).json({
+        ...publicJob,
+        structuredData: job.status === 'active' ? buildJobPostingSchema(job) : null
+      });
     } catch (error) {
       console.error('Error fetching job:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
+  // Get open jobs like this one, including where its applicants also applied
+  app.get('/api/jobs/:id/similar', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+      
+      const job = await collections.jobs.findOne({ _id: new ObjectId(id) });
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      
+      const limit = Math.min(Number(req.query.limit) || DEFAULT_SIMILAR_JOBS_LIMIT, MAX_SIMILAR_JOBS_LIMIT);
+      const similarJobs = await getSimilarJobs(job, req.user?._id, limit);
+      trackJobEvents(req, similarJobs, 'impression');
+      
+      res.status(200).json(similarJobs);
+    } catch (error) {
+      console.error('Error fetching similar jobs:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Charge a sponsored job for a click from its sponsored slot
+  app.post('/api/jobs/:id/sponsored-click', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+      
+      const job = await collections.jobs?.findOne(
+        { _id: new ObjectId(id), status: 'active' },
+        { projection: { postedBy: 1, sponsorship: 1 } }
+      );
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found or not active' });
+      }
+      
+      // Employers aren't charged for clicking their own jobs
+      if (!req.user || !job.postedBy.equals(req.user._id)) {
+        await recordSponsoredClick(job, getAnalyticsSessionId(req));
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error recording sponsored click:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Record a click on the apply button, signed in or not
+  app.post('/api/jobs/:id/apply-click', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+      
+      const job = await collections.jobs?.findOne(
+        { _id: new ObjectId(id), status: 'active' },
+        { projection: { postedBy: 1 } }
+      );
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found or not active' });
+      }
+      
+      trackJobEvents(req, [job], 'apply_click');
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error recording apply click:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Create job (employers only)
   app.post('/api/jobs', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
     try {
@@ -163,54 +422,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Unauthorized' });
       }
       
-      const { 
-        title, 
-        company, 
-        description, 
-        location, 
-        type, 
-        workMode,
-        salary,
-        minSalary,
-        maxSalary,
-        requirements,
-        experienceLevel,
-        skills,
-        deadline 
-      } = req.body;
-      
-      // Validate required fields
-      if (!title || !company || !description || !location || !type) {
-        return res.status(400).json({ message: 'Missing required fields' });
-      }
-      
-      // Create job object
-      const job = {
-        title,
-        company,
-        description,
-        location,
-        type,
-        workMode: workMode || 'onsite',
-        salary: salary || '',
-        minSalary: minSalary || null,
-        maxSalary: maxSalary || null,
-        requirements: requirements || '',
-        experienceLevel: experienceLevel || 'entry',
-        skills: skills || [],
-        postedBy: req.user._id,
-        status: req.user.isApproved ? 'active' : 'pending', // If employer is approved, job is active immediately
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        deadline: deadline ? new Date(deadline) : null,
-      };
+      // Validate and normalize the job fields
+      const parsed = jobSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: formatJobValidationError(parsed.error) });
+      }
+      
+      // The salary details only go into the structured salary range
+      const { currency, salaryPeriod, payType, ...jobInput } = parsed.data;
+      const { publishAt: requestedPublishAt, draftId, templateId } = req.body;
       
-      const result = await collections.jobs?.insertOne(job);
+      const publishAt = parsePublishAt(requestedPublishAt);
+      if (typeof publishAt === 'string') {
+        return res.status(400).json({ message: publishAt });
+      }
+      
+      // Sponsorship starts when the job goes live
+      const sponsorship = parseSponsorship(req.body.sponsorship, publishAt || new Date());
+      if (typeof sponsorship === 'string') {
+        return res.status(400).json({ message: sponsorship });
+      }
+      
+      // Remember the template the job was posted from, for its usage figures
+      const template = typeof templateId === 'string' ? await findTemplate(templateId, req.user) : null;
+      
+      const { job, duplicate } = await prepareNewJob(jobInput, { currency, salaryPeriod, payType }, req.user, {
+        publishAt,
+        sponsorship,
+        templateId: template?._id || null
+      });
+      
+      // Warn about reposting an opening that is still listed, so the employer
+      // can refresh the existing posting instead
+      if (duplicate && req.body.allowDuplicate !== true) {
+        return res.status(409).json({
+          message: 'You already have an open posting for this job',
+          duplicate: describeDuplicate(duplicate)
+        });
+      }
+      
+      await saveNewJob(job, req.user._id);
+      
+      // The wizard's draft is no longer needed once the job is posted
+      if (draftId && ObjectId.isValid(draftId)) {
+        await collections.jobDrafts.deleteOne({ _id: new ObjectId(draftId), employerId: req.user._id });
+      }
       
       res.status(201).json({ 
-        message: 'Job created successfully',
-        jobId: result?.insertedId,
-        status: job.status
+        message: job.riskAssessment?.held
+          ? 'Job submitted for review before it is published'
+          : publishAt ? 'Job scheduled successfully' : 'Job created successfully',
+        jobId: job._id,
+        status: job.status,
+        publishAt
       });
     } catch (error) {
       console.error('Error creating job:', error);
@@ -241,44 +505,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Job not found or you do not have permission to update it' });
       }
       
-      // Extract fields to update
-      const updateFields = {};
-      const allowedFields = [
-        'title', 'description', 'location', 'type', 'workMode',
-        'salary', 'minSalary', 'maxSalary', 'requirements', 
-        'experienceLevel', 'skills', 'deadline'
-      ];
-      
-      // Only include fields that were provided in the request
-      for (const field of allowedFields) {
-        if (req.body[field] !== undefined) {
-          updateFields[field] = req.body[field];
-        }
+      // Validate the fields that were provided; the company can't be changed
+      const parsed = jobUpdateSchema.omit({ company: true }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: formatJobValidationError(parsed.error) });
       }
       
-      // Add updatedAt timestamp
-      updateFields['updatedAt'] = new Date();
+      const { currency, salaryPeriod, payType, ...fields } = parsed.data;
+      const changes: Record<string, unknown> = { ...fields };
       
-      // If deadline provided, convert to Date
-      if (updateFields['deadline']) {
-        updateFields['deadline'] = new Date(updateFields['deadline']);
+      // Reschedule a job that has not gone live yet, or publish it now
+      if (req.body.publishAt !== undefined && job.status === 'scheduled') {
+        const publishAt = parsePublishAt(req.body.publishAt);
+        if (typeof publishAt === 'string') {
+          return res.status(400).json({ message: publishAt });
+        }
+        changes['publishAt'] = publishAt;
+        if (!publishAt) {
+          const now = new Date();
+          changes['status'] = 'active';
+          changes['createdAt'] = now;
+          changes['publishedAt'] = now;
+        }
       }
       
-      if (Object.keys(updateFields).length === 0) {
-        return res.status(400).json({ message: 'No valid fields to update' });
+      const { updateFields, changed } = await prepareJobUpdate(job, changes, { currency, salaryPeriod, payType }, req.user);
+      if (changed.length === 0) {
+        return res.status(200).json({ message: 'Job updated successfully', version: job.version || 1 });
       }
       
-      // Update the job
-      const result = await collections.jobs?.updateOne(
-        { _id: new ObjectId(id), postedBy: req.user._id },
-        { $set: updateFields }
-      );
-      
-      if (result?.modifiedCount === 0) {
+      const version = await saveJobUpdate(job, updateFields, req.user._id);
+      if (version === null) {
         return res.status(404).json({ message: 'Job not found or no changes made' });
       }
       
-      res.status(200).json({ message: 'Job updated successfully' });
+      res.status(200).json({ message: 'Job updated successfully', version });
     } catch (error) {
       console.error('Error updating job:', error);
       res.status(500).json({ message: 'Server error' });
@@ -296,15 +557,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .sort({ createdAt: -1 })
         .toArray();
         
-      res.status(200).json(jobs || []);
+      // Include when each active job will close so the dashboard can offer renewal
+      res.status(200).json((jobs || []).map(job => ({
+        ...withReviewStatus(job),
+        expiresAt: job.status === 'active' ? getJobExpiryDate(job) : null
+      })));
     } catch (error) {
       console.error('Error fetching employer jobs:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Apply for a job
-  app.post('/api/jobs/:id/apply', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+  // Get employer dashboard statistics
+  app.get('/api/employer/stats', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const jobs = await collections.jobs?.find(
+        { postedBy: req.user._id },
+        { projection: { status: 1 } }
+      ).toArray() || [];
+      
+      const [totalApplicants, listingViews] = await Promise.all([
+        // Candidates who withdrew are no longer applicants
+        collections.applications?.countDocuments({ jobId: { $in: jobs.map(job => job._id) }, status: { $ne: 'withdrawn' } }),
+        getEmployerListingViews(req.user._id)
+      ]);
+      
+      res.status(200).json({
+        activeListings: jobs.filter(job => job.status === 'active').length,
+        totalApplicants: totalApplicants || 0,
+        listingViews
+      });
+    } catch (error) {
+      console.error('Error fetching employer stats:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Renew a job for another 30 days, reopening it if it has expired
+  app.post('/api/jobs/:id/renew', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+      
+      const job = await collections.jobs?.findOne({ 
+        _id: new ObjectId(id),
+        postedBy: req.user._id
+      });
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found or you do not have permission to update it' });
+      }
+      
+      if (!canRenewJob(job)) {
+        return res.status(409).json({
+          message: job.closedReason === 'manual'
+            ? 'This job was taken down after review and cannot be renewed'
+            : 'This job was closed and cannot be renewed'
+        });
+      }
+      
+      const renewal = await renewJob(job, req.user._id);
+      
+      res.status(200).json({ 
+        message: 'Job renewed successfully',
+        deadline: renewal.newDeadline,
+        status: job.status === 'closed' ? 'active' : job.status
+      });
+    } catch (error) {
+      console.error('Error renewing job:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Move an open job back to the top of the listings instead of reposting it
+  app.post('/api/jobs/:id/refresh', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+      
+      const job = await collections.jobs?.findOne({ 
+        _id: new ObjectId(id),
+        postedBy: req.user._id
+      });
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found or you do not have permission to update it' });
+      }
+      
+      if (job.status !== 'active') {
+        return res.status(400).json({ message: 'Only active jobs can be refreshed' });
+      }
+      
+      const refreshableAt = getRefreshableAt(job);
+      if (refreshableAt > new Date()) {
+        return res.status(429).json({
+          message: `This job can be refreshed again on ${refreshableAt.toDateString()}`,
+          refreshableAt
+        });
+      }
+      
+      const refreshedAt = await refreshJob(job, req.user._id);
+      
+      res.status(200).json({ 
+        message: 'Job refreshed successfully',
+        refreshedAt,
+        refreshableAt: getRefreshableAt({ createdAt: refreshedAt })
+      });
+    } catch (error) {
+      console.error('Error refreshing job:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Apply for a job. Sent as JSON, or as a multipart form when documents
+  // are attached, with `answers` and `documentTypes` as JSON text. `resume`
+  // picks the candidate's built or uploaded resume to send.
+  app.post('/api/jobs/:id/apply', isAuthenticated, hasRole(['jobseeker']), applicationUpload.array('documents', MAX_APPLICATION_DOCUMENTS), async (req: Request, res: Response) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    // Attached files are only kept once the application is saved
+    const storedFiles = files.map(file => file.filename);
+    let submitted = false;
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Unauthorized' });
@@ -312,12 +702,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { id } = req.params;
       const { coverLetter } = req.body;
+      const answers = parseJsonField(req.body.answers);
       
       if (!ObjectId.isValid(id)) {
         return res.status(400).json({ message: 'Invalid job ID' });
       }
       
-      // Check if job exists and is active
+      // Only published jobs take applications; pending, flagged, scheduled
+      // and closed ones don't
       const job = await collections.jobs?.findOne({ 
         _id: new ObjectId(id),
         status: 'active'
@@ -327,32 +719,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Job not found or not active' });
       }
       
+      // Reject late applications, including ones that arrive before the
+      // expiry worker has closed the job
+      if (isPastDeadline(job)) {
+        return res.status(400).json({ message: 'The application deadline for this job has passed' });
+      }
+      
       // Check if already applied
       const existingApplication = await collections.applications?.findOne({
         jobId: new ObjectId(id),
         userId: req.user._id
       });
       
+      // Candidates who withdrew may apply again under the job's re-apply rule
       if (existingApplication) {
-        return res.status(400).json({ message: 'You have already applied for this job' });
+        const reapply = canReapply(job, existingApplication);
+        if (!reapply.allowed) {
+          return res.status(400).json({ message: reapply.message });
+        }
+      }
+      
+      const screening = evaluateScreeningAnswers(job.screeningQuestions || [], answers);
+      if ('error' in screening) {
+        return res.status(400).json({ message: screening.error });
+      }
+      
+      // Applicants who fail a knockout question are tagged for the employer
+      // or rejected outright, depending on the job's setting
+      const { knockedOut } = screening;
+      const rejectKnockouts = job.knockoutAction === 'reject';
+      
+      const resumeChoice = parseResumeSource(req.body.resume);
+      if (typeof resumeChoice === 'string') {
+        return res.status(400).json({ message: resumeChoice });
+      }
+      if (job.resumeRequired && !resumeChoice.source) {
+        return res.status(400).json({ message: 'This job requires a resume' });
+      }
+      
+      const documentTypes = parseDocumentTypes(req.body.documentTypes, files.length);
+      if (typeof documentTypes === 'string') {
+        return res.status(400).json({ message: documentTypes });
+      }
+      
+      // Applying again replaces the withdrawn application, whose history is kept
+      const applicationId = existingApplication ? existingApplication._id : new ObjectId();
+      
+      // Freeze the chosen resume so the employer sees it as it was sent
+      const resume = resumeChoice.source
+        ? await buildResumeSnapshot(req.user._id, resumeChoice.source, applicationId)
+        : null;
+      if (typeof resume === 'string') {
+        return res.status(400).json({ message: resume });
+      }
+      if (resume?.file) {
+        storedFiles.push(resume.file.fileName);
       }
       
       // Create application
       const application = {
         jobId: new ObjectId(id),
         userId: req.user._id,
-        status: 'pending',
+        status: (knockedOut && rejectKnockouts ? 'rejected' : 'pending') as ApplicationStatus,
         coverLetter: coverLetter || '',
+        resumeId: resume ? resume._id : null,
+        documents: toApplicationDocuments(files, documentTypes),
+        screeningAnswers: screening.answers,
+        knockedOut,
+        tags: knockedOut && !rejectKnockouts ? [KNOCKOUT_TAG] : [],
+        jobVersion: job.version || 1,
         appliedAt: new Date(),
         updatedAt: new Date()
       };
       
-      await collections.applications?.insertOne(application);
+      if (!existingApplication) {
+        await collections.applications.insertOne({ ...application, _id: applicationId });
+      } else {
+        await collections.applications.updateOne(
+          { _id: existingApplication._id },
+          {
+            $set: {
+              ...application,
+              stageId: null,
+              withdrawnAt: null,
+              withdrawalReason: null,
+              reappliedAt: application.appliedAt
+            }
+          }
+        );
+      }
+      
+      if (resume) {
+        await collections.resumeSnapshots.insertOne(resume);
+      }
+      submitted = true;
+      
+      // The materials sent with the withdrawn application aren't linked to anything now
+      if (existingApplication) {
+        await removeReplacedMaterials(existingApplication);
+      }
+      
+      // Start (or continue) the application's history
+      await recordApplicationEvent(
+        { ...application, _id: applicationId },
+        job,
+        { fromStatus: existingApplication ? existingApplication.status : null, toStatus: application.status, candidateVisible: true },
+        req.user
+      );
+      
+      // Applications keep jobs without a deadline from expiring as inactive
+      await collections.jobs?.updateOne({ _id: job._id }, { $set: { lastActivityAt: application.appliedAt } });
+      
+      trackJobEvents(req, [job], 'application');
       
       res.status(201).json({ message: 'Application submitted successfully' });
     } catch (error) {
       console.error('Error applying for job:', error);
       res.status(500).json({ message: 'Server error' });
+    } finally {
+      if (!submitted) {
+        removeApplicationFiles(storedFiles);
+      }
+    }
+  });
+
+  // Withdraw the user's application, with an optional reason for the employer
+  app.post('/api/applications/:id/withdraw', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid application ID' });
+      }
+      
+      const application = await collections.applications.findOne({ _id: new ObjectId(id), userId: req.user._id });
+      
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+      
+      if (!WITHDRAWABLE_STATUSES.includes(application.status)) {
+        return res.status(400).json({
+          message: application.status === 'withdrawn'
+            ? 'You have already withdrawn this application'
+            : 'This application can no longer be withdrawn'
+        });
+      }
+      
+      const parsed = parseWithdrawalReason(req.body?.reason);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ message: parsed });
+      }
+      
+      const job = await collections.jobs.findOne(
+        { _id: application.jobId },
+        { projection: { title: 1, postedBy: 1, reapplyAfterDays: 1, reapplyAfterRepost: 1 } }
+      );
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      
+      await withdrawApplication(application, job, req.user, parsed.reason);
+      
+      const { afterDays, afterRepost } = getReapplyRule(job);
+      res.status(200).json({ message: 'Application withdrawn', reapplyAfterDays: afterDays, reapplyAfterRepost: afterRepost });
+    } catch (error) {
+      console.error('Error withdrawing application:', error);
+      res.status(500).json({ message: 'Server error' });
     }
   });
 
@@ -379,6 +917,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         {
           $unwind: '$job'
         },
+        {
+          // Screening results are for the employer only
+          $project: {
+            knockedOut: 0,
+            tags: 0,
+            reviewRatings: 0,
+            averageRating: 0,
+            ratingCount: 0,
+            'screeningAnswers.knockedOut': 0,
+            ...privateJobFieldsProjection('job')
+          }
+        },
         {
           $sort: { appliedAt: -1 }
         }
@@ -391,7 +941,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get applications for a job (employer only)
+  // Get the progress of each of the user's applications
+  app.get('/api/user/applications/timeline', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const applications = await collections.applications.aggregate<Application & { job: Pick<Job, '_id' | 'title' | 'company' | 'location'> }>([
+        { $match: { userId: req.user._id } },
+        { $sort: { appliedAt: -1 } },
+        { $lookup: { from: 'jobs', localField: 'jobId', foreignField: '_id', as: 'job' } },
+        { $unwind: '$job' },
+        {
+          $project: {
+            jobId: 1,
+            status: 1,
+            appliedAt: 1,
+            updatedAt: 1,
+            'job._id': 1,
+            'job.title': 1,
+            'job.company': 1,
+            'job.location': 1
+          }
+        }
+      ]).toArray();
+      
+      const timelines = await getCandidateTimelines(applications);
+      
+      res.status(200).json(applications.map(application => ({
+        ...application,
+        events: timelines[application._id.toString()]
+      })));
+    } catch (error) {
+      console.error('Error fetching application timelines:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get applications for a job, for its employer and their hiring team. Filter with `tag` (repeatable) and `minRating`/`maxRating`
+  // on the team's average rating.
   app.get('/api/jobs/:id/applications', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
     try {
       if (!req.user) {
@@ -404,20 +993,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid job ID' });
       }
       
-      // Check if job belongs to employer
-      const job = await collections.jobs?.findOne({
-        _id: new ObjectId(id),
-        postedBy: req.user._id
-      });
+      const filters = parseReviewFilters(req.query);
+      if (typeof filters === 'string') {
+        return res.status(400).json({ message: filters });
+      }
+      
+      // Check the employer is on the job's hiring team
+      const job = await findReviewableJob(new ObjectId(id), req.user);
       
       if (!job) {
         return res.status(404).json({ message: 'Job not found or you do not have permission to view applications' });
       }
       
-      // Get applications with user details (excluding password)
-      const applications = await collections.applications?.aggregate([
+      // Get applications with user details (excluding password) and the
+      // resume and documents exactly as they were submitted
+      const applications = await collections.applications?.aggregate<Application & { resume?: ResumeSnapshot }>([
         { 
-          $match: { jobId: new ObjectId(id) } 
+          $match: { jobId: job._id, ...buildReviewFilterQuery(filters) } 
         },
         {
           $lookup: {
@@ -431,8 +1023,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
           $unwind: '$user'
         },
         {
+          $lookup: {
+            from: 'resumeSnapshots',
+            localField: 'resumeId',
+            foreignField: '_id',
+            as: 'resume'
+          }
+        },
+        {
+          $unwind: { path: '$resume', preserveNullAndEmptyArrays: true }
+        },
+        {
+          $lookup: {
+            from: 'applicationNotes',
+            localField: '_id',
+            foreignField: 'applicationId',
+            as: 'notes'
+          }
+        },
+        {
+          $addFields: { noteCount: { $size: '$notes' } }
+        },
+        {
+          // The candidate's current resumes may differ from what they sent;
+          // notes are read one application at a time
           $project: {
-            'user.password': 0
+            notes: 0,
+            'user.password': 0,
+            'user.builtResume': 0,
+            'user.resumePath': 0
           }
         },
         {
@@ -440,7 +1059,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       ]).toArray();
       
-      res.status(200).json(applications || []);
+      res.status(200).json((applications || []).map(withMaterialUrls));
     } catch (error) {
       console.error('Error fetching job applications:', error);
       res.status(500).json({ message: 'Server error' });
@@ -461,10 +1080,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid application ID' });
       }
       
-      if (!status || !['pending', 'reviewed', 'interviewed', 'accepted', 'rejected'].includes(status)) {
+      if (!status || !APPLICATION_STATUSES.includes(status)) {
         return res.status(400).json({ message: 'Invalid status value' });
       }
       
+      const transition = parseTransitionOptions(req.body);
+      if (typeof transition === 'string') {
+        return res.status(400).json({ message: transition });
+      }
+      
       // Get application
       const application = await collections.applications?.findOne({ _id: new ObjectId(id) });
       
@@ -482,12 +1106,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'You do not have permission to update this application' });
       }
       
-      // Update application status
+      if (application.status === 'withdrawn') {
+        return res.status(400).json({ message: 'The candidate has withdrawn this application' });
+      }
+      
+      const { stages } = await getJobPipeline(job._id, req.user);
+      const fromStage = getApplicationStage(stages, application);
+      const toStage = getApplicationStage(stages, { status, stageId: null });
+      
+      if (application.status === status && fromStage.id === toStage.id) {
+        return res.status(400).json({ message: 'No changes made to application' });
+      }
+      
+      // Update application status; the application moves to the first
+      // pipeline stage for the new status
       const result = await collections.applications?.updateOne(
         { _id: new ObjectId(id) },
         { 
           $set: { 
             status,
+            stageId: null,
             updatedAt: new Date()
           } 
         }
@@ -497,6 +1135,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No changes made to application' });
       }
       
+      await recordApplicationEvent(application, job, {
+        fromStatus: application.status,
+        toStatus: status,
+        fromStage: fromStage.name,
+        toStage: toStage.name,
+        ...transition
+      }, req.user);
+      
       res.status(200).json({ message: 'Application status updated successfully' });
     } catch (error) {
       console.error('Error updating application status:', error);
@@ -504,6 +1150,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the status history of an application: all of it for the job's
+  // employer, the moves shared with them for the candidate
+  app.get('/api/applications/:id/timeline', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid application ID' });
+      }
+      
+      const application = await collections.applications.findOne({ _id: new ObjectId(id) });
+      
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+      
+      if (application.userId.equals(req.user._id)) {
+        const timelines = await getCandidateTimelines([application]);
+        return res.status(200).json(timelines[application._id.toString()]);
+      }
+      
+      const job = await collections.jobs.findOne({ _id: application.jobId, postedBy: req.user._id }, { projection: { _id: 1 } });
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+      
+      res.status(200).json(await getEmployerTimeline(application._id));
+    } catch (error) {
+      console.error('Error fetching application timeline:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get the resume and documents sent with an application, for its
+  // candidate or the job's employer
+  app.get('/api/applications/:id/materials', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid application ID' });
+      }
+      
+      const application = await findViewableApplication(new ObjectId(id), req.user);
+      
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+      
+      const resume = application.resumeId
+        ? await collections.resumeSnapshots.findOne({ _id: application.resumeId })
+        : null;
+      const { resume: snapshot, documents } = withMaterialUrls({ ...application, resume });
+      
+      res.status(200).json({ coverLetter: application.coverLetter, resume: snapshot, documents });
+    } catch (error) {
+      console.error('Error fetching application materials:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Download the resume file sent with an application
+  app.get('/api/applications/:id/resume/file', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const { id } = req.params;
+      
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid application ID' });
+      }
+      
+      const application = await findViewableApplication(new ObjectId(id), req.user);
+      const resume = application?.resumeId
+        ? await collections.resumeSnapshots.findOne({ _id: application.resumeId })
+        : null;
+      
+      if (!resume?.file) {
+        return res.status(404).json({ message: 'Resume file not found' });
+      }
+      
+      res.download(getApplicationFilePath(resume.file.fileName), resume.file.originalName);
+    } catch (error) {
+      console.error('Error serving application resume:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Download a document attached to an application
+  app.get('/api/applications/:id/documents/:documentId', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const { id, documentId } = req.params;
+      
+      if (!ObjectId.isValid(id) || !ObjectId.isValid(documentId)) {
+        return res.status(400).json({ message: 'Invalid application ID' });
+      }
+      
+      const application = await findViewableApplication(new ObjectId(id), req.user);
+      const document = application?.documents?.find(attached => attached._id.equals(new ObjectId(documentId)));
+      
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      
+      res.download(getApplicationFilePath(document.fileName), document.originalName);
+    } catch (error) {
+      console.error('Error serving application document:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Admin routes
   // Get pending employers for approval
   app.get('/api/admin/pending-employers', isAuthenticated, hasRole(['admin']), async (req: Request, res: Response) => {
@@ -548,10 +1320,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Employer not found or already approved' });
       }
       
-      // Also approve any pending jobs by this employer
+      // Also approve any pending jobs by this employer, except ones held
+      // back by the risk checks
+      // Jobs scheduled for later wait for their publish time, and jobs that
+      // were live before keep their original publish time
+      const now = new Date();
+      const scheduled = { $gt: ['$publishAt', now] };
       await collections.jobs?.updateMany(
-        { postedBy: new ObjectId(id), status: 'pending' },
-        { $set: { status: 'active' } }
+        { postedBy: new ObjectId(id), status: 'pending', 'riskAssessment.held': { $ne: true } },
+        [
+          {
+            $set: {
+              status: { $cond: [scheduled, 'scheduled', 'active'] },
+              publishedAt: { $cond: [scheduled, '$publishedAt', { $ifNull: ['$publishedAt', now] }] }
+            }
+          }
+        ]
       );
       
       res.status(200).json({ message: 'Employer approved successfully' });
@@ -579,6 +1363,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the employers who repost the same openings the most (for admin review)
+  app.get('/api/admin/duplicate-jobs', isAuthenticated, hasRole(['admin']), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const offenders = await getDuplicateOffenders();
+      
+      res.status(200).json(offenders);
+    } catch (error) {
+      console.error('Error fetching duplicate job report:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Flag a job (jobseekers can flag suspicious jobs)
   app.post('/api/jobs/:id/flag', isAuthenticated, async (req: Request, res: Response) => {
     try {
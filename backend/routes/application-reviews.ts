@@ -0,0 +1,252 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { User } from '@shared/mongodb-types';
+import {
+  getTeammates,
+  getTeamMembers,
+  addTeamMember,
+  findReviewableApplication,
+  parseNote,
+  parseRating,
+  parseReviewTags,
+  saveRating,
+  addNote,
+  getApplicationReview
+} from '../utils/application-reviews';
+
+// Notes, ratings and tags the hiring team keeps on applications. None of
+// this is ever sent to candidates.
+const router = express.Router();
+
+const findReviewable = (applicationId: string, reviewer: Pick<User, '_id'>) =>
+  ObjectId.isValid(applicationId) ? findReviewableApplication(new ObjectId(applicationId), reviewer) : null;
+
+// Get the employers the user has added to their hiring team
+router.get('/team', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    return res.status(200).json({ success: true, data: await getTeamMembers(req.user._id) });
+  } catch (error) {
+    console.error('Error getting hiring team:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Add an employer, by email, to review the applicants to all the user's jobs
+router.post('/team', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const member = await addTeamMember(req.user._id, req.body?.email);
+    if (typeof member === 'string') {
+      return res.status(400).json({ success: false, message: member });
+    }
+
+    return res.status(201).json({ success: true, data: member });
+  } catch (error) {
+    console.error('Error adding hiring team member:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Remove an employer from the user's hiring team. Their notes and ratings stay.
+router.delete('/team/:memberId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const ownerId = req.user?._id;
+    if (!ownerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { memberId } = req.params;
+    if (!ObjectId.isValid(memberId)) {
+      return res.status(400).json({ success: false, message: 'Invalid member ID' });
+    }
+
+    const result = await collections.hiringTeamMembers.deleteOne({ ownerId, memberId: new ObjectId(memberId) });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Team member not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Team member removed' });
+  } catch (error) {
+    console.error('Error removing hiring team member:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Get an application's notes, ratings and tags
+router.get('/:applicationId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const found = await findReviewable(req.params.applicationId, req.user);
+    if (!found) {
+      return res.status(404).json({ success: false, message: 'Application not found' });
+    }
+
+    return res.status(200).json({ success: true, data: await getApplicationReview(found.application, req.user._id) });
+  } catch (error) {
+    console.error('Error getting application review:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Get the rest of the application's hiring team, to mention in notes
+router.get('/:applicationId/teammates', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const found = await findReviewable(req.params.applicationId, req.user);
+    if (!found) {
+      return res.status(404).json({ success: false, message: 'Application not found' });
+    }
+
+    return res.status(200).json({ success: true, data: await getTeammates(found.job, req.user) });
+  } catch (error) {
+    console.error('Error getting teammates:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Add a note, notifying the teammates it mentions
+router.post('/:applicationId/notes', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const note = parseNote(req.body);
+    if (typeof note === 'string') {
+      return res.status(400).json({ success: false, message: note });
+    }
+
+    const found = await findReviewable(req.params.applicationId, req.user);
+    if (!found) {
+      return res.status(404).json({ success: false, message: 'Application not found' });
+    }
+
+    const saved = await addNote(found.application, found.job, req.user, note);
+    return res.status(201).json({ success: true, data: saved });
+  } catch (error) {
+    console.error('Error adding application note:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Delete one of the user's own notes
+router.delete('/:applicationId/notes/:noteId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const authorId = req.user?._id;
+    if (!authorId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { applicationId, noteId } = req.params;
+    if (!ObjectId.isValid(applicationId) || !ObjectId.isValid(noteId)) {
+      return res.status(400).json({ success: false, message: 'Invalid note ID' });
+    }
+
+    const result = await collections.applicationNotes.deleteOne({
+      _id: new ObjectId(noteId),
+      applicationId: new ObjectId(applicationId),
+      authorId
+    });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Note not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Note deleted' });
+  } catch (error) {
+    console.error('Error deleting application note:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Rate an application from 1 to 5, replacing the user's earlier rating
+router.put('/:applicationId/rating', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const rating = parseRating(req.body?.rating);
+    if (typeof rating === 'string') {
+      return res.status(400).json({ success: false, message: rating });
+    }
+
+    const found = await findReviewable(req.params.applicationId, req.user);
+    if (!found) {
+      return res.status(404).json({ success: false, message: 'Application not found' });
+    }
+
+    const updated = await saveRating(found.application._id, req.user._id, rating);
+    return res.status(200).json({
+      success: true,
+      data: { myRating: rating, averageRating: updated?.averageRating ?? null, ratingCount: updated?.ratingCount || 0 }
+    });
+  } catch (error) {
+    console.error('Error rating application:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Take back the user's rating
+router.delete('/:applicationId/rating', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const found = await findReviewable(req.params.applicationId, req.user);
+    if (!found) {
+      return res.status(404).json({ success: false, message: 'Application not found' });
+    }
+
+    const updated = await saveRating(found.application._id, req.user._id, null);
+    return res.status(200).json({
+      success: true,
+      data: { myRating: null, averageRating: updated?.averageRating ?? null, ratingCount: updated?.ratingCount || 0 }
+    });
+  } catch (error) {
+    console.error('Error removing application rating:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Replace an application's tags
+router.put('/:applicationId/tags', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    if (!req.user?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const tags = parseReviewTags(req.body?.tags);
+    if (typeof tags === 'string') {
+      return res.status(400).json({ success: false, message: tags });
+    }
+
+    const found = await findReviewable(req.params.applicationId, req.user);
+    if (!found) {
+      return res.status(404).json({ success: false, message: 'Application not found' });
+    }
+
+    await collections.applications.updateOne({ _id: found.application._id }, { $set: { tags } });
+    return res.status(200).json({ success: true, data: { tags } });
+  } catch (error) {
+    console.error('Error updating application tags:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,24 @@
+import express, { Request, Response } from 'express';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { getEmployerAnalytics, parseAnalyticsDays } from '../utils/job-analytics';
+
+const router = express.Router();
+
+// Funnel totals, per-job funnels and daily time series for the employer's jobs
+router.get('/', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const analytics = await getEmployerAnalytics(employerId, parseAnalyticsDays(req.query.days));
+
+    return res.status(200).json({ success: true, data: analytics });
+  } catch (error) {
+    console.error('Error getting employer analytics:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import express, { Request, Response } from 'express';
+import { buildJobQuery } from '../utils/job-query';
+import { appUrl } from '../utils/job-alerts';
+import {
+  MAX_AGGREGATOR_FEED_JOBS,
+  MAX_SEARCH_FEED_JOBS,
+  getFeedJobs,
+  buildAggregatorFeed,
+  buildRssFeed,
+  buildAtomFeed,
+  buildSitemap,
+  SearchFeedInfo
+} from '../utils/job-feeds';
+
+const router = express.Router();
+
+// Crawlers may cache feeds briefly; closed jobs drop out on the next fetch
+const FEED_CACHE_CONTROL = 'public, max-age=300';
+
+const sendXml = (res: Response, contentType: string, body: string) => {
+  res.set('Content-Type', `${contentType}; charset=utf-8`);
+  res.set('Cache-Control', FEED_CACHE_CONTROL);
+  return res.status(200).send(body);
+};
+
+// Title and links of the feed for a search with the `GET /api/jobs` parameters
+function describeSearchFeed(req: Request, path: string): SearchFeedInfo {
+  const queryString = new URLSearchParams(
+    Object.entries(req.query).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  ).toString();
+  const suffix = queryString ? `?${queryString}` : '';
+  const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+
+  return {
+    title: search ? `Jobs matching "${search}"` : 'Latest jobs',
+    link: `${appUrl()}/jobs${suffix}`,
+    selfUrl: `${appUrl()}${path}${suffix}`
+  };
+}
+
+// All active jobs, in the XML format job aggregators import
+router.get('/feeds/jobs.xml', async (_req: Request, res: Response) => {
+  try {
+    const jobs = await getFeedJobs({}, MAX_AGGREGATOR_FEED_JOBS);
+    return sendXml(res, 'application/xml', buildAggregatorFeed(jobs));
+  } catch (error) {
+    console.error('Error building job feed:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Newest jobs matching a search, as RSS
+router.get('/feeds/jobs.rss', async (req: Request, res: Response) => {
+  try {
+    const { filter } = buildJobQuery(req.query);
+    const jobs = await getFeedJobs(filter, MAX_SEARCH_FEED_JOBS);
+    return sendXml(res, 'application/rss+xml', buildRssFeed(jobs, describeSearchFeed(req, '/feeds/jobs.rss')));
+  } catch (error) {
+    console.error('Error building RSS feed:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Newest jobs matching a search, as Atom
+router.get('/feeds/jobs.atom', async (req: Request, res: Response) => {
+  try {
+    const { filter } = buildJobQuery(req.query);
+    const jobs = await getFeedJobs(filter, MAX_SEARCH_FEED_JOBS);
+    return sendXml(res, 'application/atom+xml', buildAtomFeed(jobs, describeSearchFeed(req, '/feeds/jobs.atom')));
+  } catch (error) {
+    console.error('Error building Atom feed:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Sitemap of active jobs and companies
+router.get('/sitemap.xml', async (_req: Request, res: Response) => {
+  try {
+    return sendXml(res, 'application/xml', await buildSitemap());
+  } catch (error) {
+    console.error('Error building sitemap:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Point crawlers at the sitemap
+router.get('/robots.txt', (_req: Request, res: Response) => {
+  res.set('Content-Type', 'text/plain; charset=utf-8');
+  return res.status(200).send(`User-agent: *\nDisallow: /api/\nSitemap: ${appUrl()}/sitemap.xml\n`);
+});
+
+export default router;
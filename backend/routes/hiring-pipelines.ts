@@ -0,0 +1,293 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { formatJobValidationError } from '@shared/job-schema';
+import {
+  DEFAULT_PIPELINE_STAGES,
+  pipelineStagesSchema,
+  companyPipelineScope,
+  getCompanyPipeline,
+  getJobPipeline,
+  savePipeline,
+  getApplicationStage
+} from '../utils/hiring-pipelines';
+import { parseTransitionOptions, recordApplicationEvent } from '../utils/application-events';
+import { parseReviewFilters, buildReviewFilterQuery } from '../utils/application-reviews';
+
+const router = express.Router();
+
+// The employer's job, or null when it isn't theirs
+const findEmployerJob = async (jobId: string, employerId: ObjectId) =>
+  ObjectId.isValid(jobId)
+    ? collections.jobs.findOne({ _id: new ObjectId(jobId), postedBy: employerId }, { projection: { title: 1, status: 1 } })
+    : null;
+
+// Get the company's stages, used by jobs without their own
+router.get('/company', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const pipeline = await getCompanyPipeline({ _id: employerId, company: req.user?.company });
+
+    return res.status(200).json({ success: true, data: pipeline });
+  } catch (error) {
+    console.error('Error getting company pipeline:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Replace the company's stages
+router.put('/company', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const parsed = pipelineStagesSchema.safeParse(req.body?.stages);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, message: formatJobValidationError(parsed.error) });
+    }
+
+    const owner = { _id: employerId, company: req.user?.company };
+    const pipeline = await savePipeline(companyPipelineScope(owner), parsed.data, owner);
+
+    return res.status(200).json({ success: true, message: 'Pipeline saved', data: pipeline });
+  } catch (error) {
+    console.error('Error saving company pipeline:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Go back to the default stages
+router.delete('/company', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    await collections.hiringPipelines.deleteOne(companyPipelineScope({ _id: employerId, company: req.user?.company }));
+
+    return res.status(200).json({ success: true, message: 'Pipeline reset', data: { stages: DEFAULT_PIPELINE_STAGES, source: 'default' } });
+  } catch (error) {
+    console.error('Error resetting company pipeline:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Get the stages in effect for a job
+router.get('/jobs/:jobId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const job = await findEmployerJob(req.params.jobId, employerId);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    const pipeline = await getJobPipeline(job._id, { _id: employerId, company: req.user?.company });
+
+    return res.status(200).json({ success: true, data: pipeline });
+  } catch (error) {
+    console.error('Error getting job pipeline:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Give a job its own stages
+router.put('/jobs/:jobId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const job = await findEmployerJob(req.params.jobId, employerId);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    const parsed = pipelineStagesSchema.safeParse(req.body?.stages);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, message: formatJobValidationError(parsed.error) });
+    }
+
+    const pipeline = await savePipeline({ jobId: job._id }, parsed.data, { _id: employerId, company: req.user?.company });
+
+    return res.status(200).json({ success: true, message: 'Pipeline saved', data: pipeline });
+  } catch (error) {
+    console.error('Error saving job pipeline:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Drop a job's own stages so it uses the company's again
+router.delete('/jobs/:jobId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const job = await findEmployerJob(req.params.jobId, employerId);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    await collections.hiringPipelines.deleteOne({ jobId: job._id });
+    const pipeline = await getJobPipeline(job._id, { _id: employerId, company: req.user?.company });
+
+    return res.status(200).json({ success: true, message: 'Pipeline reset', data: pipeline });
+  } catch (error) {
+    console.error('Error resetting job pipeline:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Kanban board for a job: its stages, with the applications in each and their counts.
+// Takes the same `tag`, `minRating` and `maxRating` filters as the applicant list.
+router.get('/jobs/:jobId/board', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const filters = parseReviewFilters(req.query);
+    if (typeof filters === 'string') {
+      return res.status(400).json({ success: false, message: filters });
+    }
+
+    const job = await findEmployerJob(req.params.jobId, employerId);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    const pipeline = await getJobPipeline(job._id, { _id: employerId, company: req.user?.company });
+
+    const applications = await collections.applications.aggregate([
+      { $match: { jobId: job._id, ...buildReviewFilterQuery(filters) } },
+      { $lookup: { from: 'users', localField: 'userId', foreignField: '_id', as: 'user' } },
+      { $unwind: '$user' },
+      {
+        $project: {
+          status: 1,
+          stageId: 1,
+          appliedAt: 1,
+          updatedAt: 1,
+          knockedOut: 1,
+          tags: 1,
+          averageRating: 1,
+          ratingCount: 1,
+          withdrawnAt: 1,
+          withdrawalReason: 1,
+          resumeId: 1,
+          'documents._id': 1,
+          'documents.type': 1,
+          'documents.originalName': 1,
+          'user._id': 1,
+          'user.name': 1,
+          'user.email': 1
+        }
+      },
+      { $sort: { appliedAt: -1 } }
+    ]).toArray();
+
+    // Withdrawn applications leave the pipeline but stay visible beside it
+    const byStage: Record<string, typeof applications> = {};
+    const withdrawn: typeof applications = [];
+    applications.forEach(application => {
+      if (application.status === 'withdrawn') {
+        withdrawn.push(application);
+        return;
+      }
+      const stage = getApplicationStage(pipeline.stages, { status: application.status, stageId: application.stageId });
+      (byStage[stage.id] = byStage[stage.id] || []).push({ ...application, stageId: stage.id });
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        job,
+        source: pipeline.source,
+        total: applications.length - withdrawn.length,
+        stages: pipeline.stages.map(stage => ({
+          ...stage,
+          count: byStage[stage.id]?.length || 0,
+          applications: byStage[stage.id] || []
+        })),
+        withdrawn
+      }
+    });
+  } catch (error) {
+    console.error('Error getting pipeline board:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Move an application to another stage of its job's pipeline
+router.patch('/applications/:id/stage', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!req.user || !employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const transition = parseTransitionOptions(req.body);
+    if (typeof transition === 'string') {
+      return res.status(400).json({ success: false, message: transition });
+    }
+
+    const application = ObjectId.isValid(req.params.id)
+      ? await collections.applications.findOne({ _id: new ObjectId(req.params.id) })
+      : null;
+    const job = application ? await findEmployerJob(application.jobId.toString(), employerId) : null;
+    if (!application || !job) {
+      return res.status(404).json({ success: false, message: 'Application not found' });
+    }
+
+    if (application.status === 'withdrawn') {
+      return res.status(400).json({ success: false, message: 'The candidate has withdrawn this application' });
+    }
+
+    const pipeline = await getJobPipeline(job._id, { _id: employerId, company: req.user?.company });
+    const stage = pipeline.stages.find(candidate => candidate.id === req.body?.stageId);
+    if (!stage) {
+      return res.status(400).json({ success: false, message: 'Unknown stage' });
+    }
+
+    const fromStage = getApplicationStage(pipeline.stages, application);
+    if (fromStage.id === stage.id) {
+      return res.status(400).json({ success: false, message: `Already in ${stage.name}` });
+    }
+
+    // Candidates see the status the stage stands for
+    await collections.applications.updateOne(
+      { _id: application._id },
+      { $set: { stageId: stage.id, status: stage.status, updatedAt: new Date() } }
+    );
+
+    await recordApplicationEvent(application, job, {
+      fromStatus: application.status,
+      toStatus: stage.status,
+      fromStage: fromStage.name,
+      toStage: stage.name,
+      ...transition
+    }, req.user);
+
+    return res.status(200).json({ success: true, message: `Moved to ${stage.name}`, data: { stageId: stage.id, status: stage.status } });
+  } catch (error) {
+    console.error('Error moving application:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
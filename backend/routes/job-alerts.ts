@@ -0,0 +1,202 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { JobAlert } from '@shared/mongodb-types';
+import {
+  ALERT_FREQUENCIES,
+  normalizeAlertFilters,
+  normalizeAlertName,
+  generateUnsubscribeToken
+} from '../utils/job-alerts';
+
+const router = express.Router();
+
+const MAX_ALERTS_PER_USER = 20;
+
+// Get the current user's job alerts
+router.get('/', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const alerts = await collections.jobAlerts
+      .find({ userId }, { projection: { unsubscribeToken: 0 } })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return res.status(200).json({ success: true, data: alerts });
+  } catch (error) {
+    console.error('Error getting job alerts:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Save the current search as a job alert
+router.post('/', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const filters = normalizeAlertFilters(req.body?.filters);
+    if (Object.keys(filters).length === 0) {
+      return res.status(400).json({ success: false, message: 'At least one search filter is required' });
+    }
+
+    const frequency = req.body?.frequency || 'daily';
+    if (!ALERT_FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({ success: false, message: 'Frequency must be daily or weekly' });
+    }
+
+    const alertCount = await collections.jobAlerts.countDocuments({ userId });
+    if (alertCount >= MAX_ALERTS_PER_USER) {
+      return res.status(400).json({ success: false, message: `You can have up to ${MAX_ALERTS_PER_USER} job alerts` });
+    }
+
+    const now = new Date();
+    const alert: JobAlert = {
+      _id: new ObjectId(),
+      userId,
+      name: normalizeAlertName(req.body?.name, filters),
+      filters,
+      frequency,
+      status: 'active',
+      unsubscribeToken: generateUnsubscribeToken(),
+      // Only jobs posted from now on are sent
+      lastRunAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await collections.jobAlerts.insertOne(alert);
+
+    const { unsubscribeToken, ...data } = alert;
+    return res.status(201).json({ success: true, message: 'Job alert created', data });
+  } catch (error) {
+    console.error('Error creating job alert:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Update an alert's name, filters or frequency, or pause and resume it
+router.patch('/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid alert ID' });
+    }
+
+    const alert = await collections.jobAlerts.findOne({ _id: new ObjectId(id), userId });
+    if (!alert) {
+      return res.status(404).json({ success: false, message: 'Job alert not found' });
+    }
+
+    const updateFields: Partial<JobAlert> = { updatedAt: new Date() };
+
+    if (req.body?.filters !== undefined) {
+      const filters = normalizeAlertFilters(req.body.filters);
+      if (Object.keys(filters).length === 0) {
+        return res.status(400).json({ success: false, message: 'At least one search filter is required' });
+      }
+      updateFields.filters = filters;
+    }
+
+    if (req.body?.name !== undefined) {
+      updateFields.name = normalizeAlertName(req.body.name, updateFields.filters || alert.filters);
+    }
+
+    if (req.body?.frequency !== undefined) {
+      if (!ALERT_FREQUENCIES.includes(req.body.frequency)) {
+        return res.status(400).json({ success: false, message: 'Frequency must be daily or weekly' });
+      }
+      updateFields.frequency = req.body.frequency;
+    }
+
+    if (req.body?.status !== undefined) {
+      if (!['active', 'paused'].includes(req.body.status)) {
+        return res.status(400).json({ success: false, message: 'Status must be active or paused' });
+      }
+      updateFields.status = req.body.status;
+      // Resuming starts from now rather than sending everything missed while paused
+      if (req.body.status === 'active' && alert.status === 'paused') {
+        updateFields.lastRunAt = new Date();
+      }
+    }
+
+    await collections.jobAlerts.updateOne({ _id: alert._id }, { $set: updateFields });
+
+    return res.status(200).json({ success: true, message: 'Job alert updated' });
+  } catch (error) {
+    console.error('Error updating job alert:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Delete a job alert
+router.delete('/:id', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid alert ID' });
+    }
+
+    const result = await collections.jobAlerts.deleteOne({ _id: new ObjectId(id), userId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Job alert not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Job alert deleted' });
+  } catch (error) {
+    console.error('Error deleting job alert:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Unsubscribe from the link in a digest email. Works without logging in;
+// POST is used by mail clients for one-click unsubscribe.
+const unsubscribe = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+    const result = await collections.jobAlerts.updateOne(
+      { unsubscribeToken: token },
+      { $set: { status: 'paused', updatedAt: new Date() } }
+    );
+
+    const message = result.matchedCount > 0
+      ? 'You have been unsubscribed from this job alert. You can turn it back on from your dashboard.'
+      : 'This unsubscribe link is no longer valid.';
+
+    if (req.method === 'POST') {
+      return res.status(result.matchedCount > 0 ? 200 : 404).json({ success: result.matchedCount > 0, message });
+    }
+
+    return res.status(result.matchedCount > 0 ? 200 : 404).send(`
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 40px auto; padding: 20px; text-align: center;">
+        <h2 style="color: #333;">Job alert</h2>
+        <p style="font-size: 16px; color: #555;">${message}</p>
+      </div>
+    `);
+  } catch (error) {
+    console.error('Error unsubscribing from job alert:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+router.get('/unsubscribe/:token', unsubscribe);
+router.post('/unsubscribe/:token', unsubscribe);
+
+export default router;
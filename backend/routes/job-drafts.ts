@@ -0,0 +1,182 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { JobDraft } from '@shared/mongodb-types';
+
+const router = express.Router();
+
+const MAX_DRAFTS_PER_EMPLOYER = 50;
+// Steps of the post-job wizard, DETAILS through REVIEW
+const FIRST_STEP = 1;
+const LAST_STEP = 8;
+const MAX_TITLE_LENGTH = 200;
+
+function normalizeStep(step: unknown): number | null {
+  const value = Number(step);
+  return Number.isInteger(value) && value >= FIRST_STEP && value <= LAST_STEP ? value : null;
+}
+
+function draftTitle(data: Record<string, any>): string {
+  const title = typeof data.title === 'string' ? data.title.trim() : '';
+  return (title || 'Untitled job').slice(0, MAX_TITLE_LENGTH);
+}
+
+function isDraftData(data: unknown): data is Record<string, any> {
+  return !!data && typeof data === 'object' && !Array.isArray(data);
+}
+
+// List the employer's drafts, most recently edited first
+router.get('/', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const drafts = await collections.jobDrafts
+      .find({ employerId }, { projection: { data: 0 } })
+      .sort({ updatedAt: -1 })
+      .toArray();
+
+    return res.status(200).json({ success: true, data: drafts });
+  } catch (error) {
+    console.error('Error getting job drafts:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Get a draft with its form values to resume the wizard
+router.get('/:id', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid draft ID' });
+    }
+
+    const draft = await collections.jobDrafts.findOne({ _id: new ObjectId(id), employerId });
+    if (!draft) {
+      return res.status(404).json({ success: false, message: 'Draft not found' });
+    }
+
+    return res.status(200).json({ success: true, data: draft });
+  } catch (error) {
+    console.error('Error getting job draft:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Start a new draft
+router.post('/', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const step = normalizeStep(req.body?.step ?? FIRST_STEP);
+    if (step === null) {
+      return res.status(400).json({ success: false, message: 'Invalid wizard step' });
+    }
+
+    const data = req.body?.data ?? {};
+    if (!isDraftData(data)) {
+      return res.status(400).json({ success: false, message: 'Draft data must be an object' });
+    }
+
+    const draftCount = await collections.jobDrafts.countDocuments({ employerId });
+    if (draftCount >= MAX_DRAFTS_PER_EMPLOYER) {
+      return res.status(400).json({ success: false, message: `You can have up to ${MAX_DRAFTS_PER_EMPLOYER} drafts` });
+    }
+
+    const now = new Date();
+    const draft: JobDraft = {
+      _id: new ObjectId(),
+      employerId,
+      title: draftTitle(data),
+      step,
+      data,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await collections.jobDrafts.insertOne(draft);
+
+    return res.status(201).json({ success: true, message: 'Draft saved', data: draft });
+  } catch (error) {
+    console.error('Error creating job draft:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Autosave the wizard's progress
+router.put('/:id', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid draft ID' });
+    }
+
+    const step = normalizeStep(req.body?.step);
+    if (step === null) {
+      return res.status(400).json({ success: false, message: 'Invalid wizard step' });
+    }
+
+    const data = req.body?.data;
+    if (!isDraftData(data)) {
+      return res.status(400).json({ success: false, message: 'Draft data must be an object' });
+    }
+
+    const updatedAt = new Date();
+    const result = await collections.jobDrafts.updateOne(
+      { _id: new ObjectId(id), employerId },
+      { $set: { title: draftTitle(data), step, data, updatedAt } }
+    );
+
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Draft not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Draft saved', data: { _id: id, step, updatedAt } });
+  } catch (error) {
+    console.error('Error saving job draft:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Discard a draft
+router.delete('/:id', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid draft ID' });
+    }
+
+    const result = await collections.jobDrafts.deleteOne({ _id: new ObjectId(id), employerId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Draft not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Draft deleted' });
+  } catch (error) {
+    console.error('Error deleting job draft:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import express, { Request, Response } from 'express';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import {
+  MAX_IMPORT_ROWS,
+  jobImportUpload,
+  parseImportFile,
+  parseColumnMapping,
+  resolveColumnMapping,
+  importJobs
+} from '../utils/job-import';
+
+const router = express.Router();
+
+// Import jobs from a CSV or JSON file. With dryRun=true, report what would
+// happen to each row without saving. The optional mapping is a JSON object
+// of column name to job field, overriding the columns matched by name.
+router.post('/', isAuthenticated, hasRole(['employer']), jobImportUpload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const employer = req.user;
+    if (!employer?._id) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ success: false, message: 'No file uploaded' });
+    }
+
+    const file = parseImportFile(req.file);
+    if (typeof file === 'string') {
+      return res.status(400).json({ success: false, message: file });
+    }
+    if (file.records.length === 0) {
+      return res.status(400).json({ success: false, message: 'The file has no jobs to import' });
+    }
+    if (file.records.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({ success: false, message: `You can import up to ${MAX_IMPORT_ROWS} jobs at a time` });
+    }
+
+    const requestedMapping = parseColumnMapping(req.body.mapping);
+    if (typeof requestedMapping === 'string') {
+      return res.status(400).json({ success: false, message: requestedMapping });
+    }
+
+    const mapping = resolveColumnMapping(file.columns, requestedMapping);
+    if (typeof mapping === 'string') {
+      return res.status(400).json({ success: false, message: mapping });
+    }
+
+    const dryRun = req.body.dryRun === 'true';
+    const report = await importJobs(file, mapping, employer, { dryRun });
+
+    return res.status(dryRun ? 200 : 201).json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error importing jobs:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
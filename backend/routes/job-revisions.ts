@@ -0,0 +1,154 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { diffJobSnapshots } from '../utils/job-revisions';
+
+const router = express.Router();
+
+// Employers can see the history of their own jobs, admins of any job
+async function findJobForHistory(req: Request) {
+  const { jobId } = req.params;
+  if (!ObjectId.isValid(jobId)) return null;
+
+  const filter: Record<string, any> = { _id: new ObjectId(jobId) };
+  if (req.user?.role !== 'admin') filter.postedBy = req.user?._id;
+
+  return collections.jobs.findOne(filter, { projection: { postedBy: 1, version: 1, createdAt: 1 } });
+}
+
+// List the versions of a job, newest first, with who changed what
+router.get('/:jobId', isAuthenticated, hasRole(['employer', 'admin']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const job = await findJobForHistory(req);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    const revisions = await collections.jobRevisions.aggregate([
+      { $match: { jobId: job._id } },
+      { $sort: { version: -1 } },
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'changedBy',
+          foreignField: '_id',
+          as: 'changedByUser'
+        }
+      },
+      { $unwind: { path: '$changedByUser', preserveNullAndEmptyArrays: true } },
+      {
+        $project: {
+          version: 1,
+          changedFields: 1,
+          changedAt: 1,
+          changedBy: 1,
+          'changedByUser.name': 1,
+          'changedByUser.role': 1
+        }
+      }
+    ]).toArray();
+
+    // Counts of applications made against each version
+    const applicationCounts = await collections.applications.aggregate<{ _id: number; count: number }>([
+      { $match: { jobId: job._id } },
+      { $group: { _id: { $ifNull: ['$jobVersion', 1] }, count: { $sum: 1 } } }
+    ]).toArray();
+    const applications: Record<number, number> = {};
+    applicationCounts.forEach(({ _id, count }) => {
+      applications[_id] = count;
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        currentVersion: job.version || 1,
+        revisions: revisions.map(revision => ({
+          ...revision,
+          applications: applications[revision.version] || 0
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Error getting job revisions:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Compare two versions of a job; defaults to the latest edit
+router.get('/:jobId/diff', isAuthenticated, hasRole(['employer', 'admin']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const job = await findJobForHistory(req);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    const to = req.query.to ? Number(req.query.to) : job.version || 1;
+    // The first version has nothing before it, so it is compared with itself
+    const from = req.query.from ? Number(req.query.from) : Math.max(to - 1, 1);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return res.status(400).json({ success: false, message: 'Versions must be whole numbers from 1' });
+    }
+
+    const revisions = await collections.jobRevisions
+      .find({ jobId: job._id, version: { $in: [from, to] } })
+      .toArray();
+    const fromRevision = revisions.find(revision => revision.version === from);
+    const toRevision = revisions.find(revision => revision.version === to);
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ success: false, message: 'Version not found' });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        from: { version: from, changedAt: fromRevision.changedAt },
+        to: { version: to, changedAt: toRevision.changedAt },
+        changes: diffJobSnapshots(fromRevision.snapshot, toRevision.snapshot)
+      }
+    });
+  } catch (error) {
+    console.error('Error comparing job revisions:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// What the job posting said at one version
+router.get('/:jobId/:version', isAuthenticated, hasRole(['employer', 'admin']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const job = await findJobForHistory(req);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    const revision = await collections.jobRevisions.findOne({
+      jobId: job._id,
+      version: Number(req.params.version)
+    });
+    if (!revision) {
+      return res.status(404).json({ success: false, message: 'Version not found' });
+    }
+
+    return res.status(200).json({ success: true, data: revision });
+  } catch (error) {
+    console.error('Error getting job revision:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
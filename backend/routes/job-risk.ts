@@ -0,0 +1,142 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { getJobRiskRules, jobRiskRulesUpdateSchema, updateJobRiskRules } from '../utils/job-risk';
+
+const router = express.Router();
+
+// Get the scam and spam detection rules
+router.get('/rules', isAuthenticated, hasRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const rules = await getJobRiskRules();
+    return res.status(200).json({ success: true, data: rules });
+  } catch (error) {
+    console.error('Error getting job risk rules:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Change the detection rules; they apply to jobs posted or edited from now on
+router.put('/rules', isAuthenticated, hasRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const adminId = req.user?._id;
+    if (!adminId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const parsed = jobRiskRulesUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      return res.status(400).json({
+        success: false,
+        message: issue ? `${issue.path.join('.')}: ${issue.message}` : 'Invalid rules'
+      });
+    }
+
+    const rules = await updateJobRiskRules(parsed.data, adminId);
+    return res.status(200).json({ success: true, message: 'Rules updated', data: rules });
+  } catch (error) {
+    console.error('Error updating job risk rules:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Jobs held for review, riskiest first, with the reasons they were held
+router.get('/queue', isAuthenticated, hasRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const jobs = await collections.jobs.aggregate([
+      { $match: { 'riskAssessment.held': true } },
+      { $sort: { 'riskAssessment.score': -1, 'riskAssessment.assessedAt': 1 } },
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'postedBy',
+          foreignField: '_id',
+          as: 'employer'
+        }
+      },
+      { $unwind: { path: '$employer', preserveNullAndEmptyArrays: true } },
+      {
+        $project: {
+          title: 1,
+          company: 1,
+          location: 1,
+          description: 1,
+          status: 1,
+          createdAt: 1,
+          updatedAt: 1,
+          riskAssessment: 1,
+          'employer._id': 1,
+          'employer.name': 1,
+          'employer.email': 1,
+          'employer.createdAt': 1,
+          'employer.emailVerified': 1,
+          'employer.phoneVerified': 1
+        }
+      }
+    ]).toArray();
+
+    return res.status(200).json({ success: true, data: jobs });
+  } catch (error) {
+    console.error('Error getting job risk queue:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Approve a held job, or remove it
+router.patch('/queue/:id', isAuthenticated, hasRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const adminId = req.user?._id;
+    if (!adminId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { id } = req.params;
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid job ID' });
+    }
+
+    const { decision } = req.body;
+    if (decision !== 'approve' && decision !== 'remove') {
+      return res.status(400).json({ success: false, message: 'Decision must be approve or remove' });
+    }
+
+    const job = await collections.jobs.findOne({ _id: new ObjectId(id), 'riskAssessment.held': true });
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found in the review queue' });
+    }
+
+    const now = new Date();
+    const review = {
+      'riskAssessment.held': false,
+      'riskAssessment.reviewedBy': adminId,
+      'riskAssessment.reviewedAt': now,
+      updatedAt: now
+    };
+
+    if (decision === 'remove') {
+      await collections.jobs.updateOne(
+        { _id: job._id },
+        { $set: { ...review, status: 'closed', closedAt: now, closedReason: 'manual' } }
+      );
+      return res.status(200).json({ success: true, message: 'Job removed' });
+    }
+
+    // Jobs from employers still awaiting approval go live when the employer is approved
+    const employer = await collections.users.findOne({ _id: job.postedBy }, { projection: { isApproved: 1 } });
+    const status = !employer?.isApproved
+      ? 'pending'
+      : job.publishAt && job.publishAt > now ? 'scheduled' : 'active';
+
+    const published = status === 'active' && !job.publishedAt ? { publishedAt: now } : {};
+    await collections.jobs.updateOne({ _id: job._id }, { $set: { ...review, status, ...published } });
+
+    return res.status(200).json({ success: true, message: 'Job approved', data: { status } });
+  } catch (error) {
+    console.error('Error reviewing held job:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,198 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { JobTemplate } from '@shared/mongodb-types';
+import { jobTemplateSchema, jobTemplateUpdateSchema, formatJobValidationError } from '@shared/job-schema';
+import {
+  MAX_TEMPLATES_PER_COMPANY,
+  templateScope,
+  pickTemplateFields,
+  findTemplate,
+  recordTemplateUse,
+  countJobsPostedFromTemplates
+} from '../utils/job-templates';
+
+const router = express.Router();
+
+// Template names are unique within a company, ignoring case
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// List the company's templates, most used first, with how often each was used
+router.get('/', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const templates = await collections.jobTemplates
+      .find(templateScope({ _id: employerId, company: req.user?.company }))
+      .sort({ usageCount: -1, updatedAt: -1 })
+      .toArray();
+
+    const jobsPosted = await countJobsPostedFromTemplates(templates.map(template => template._id));
+
+    return res.status(200).json({
+      success: true,
+      data: templates.map(template => ({
+        ...template,
+        jobsPosted: jobsPosted[template._id.toString()] || 0
+      }))
+    });
+  } catch (error) {
+    console.error('Error getting job templates:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Create a template, optionally from one of the employer's jobs
+router.post('/', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const owner = { _id: employerId, company: req.user?.company };
+    let base = {};
+    if (req.body?.jobId !== undefined) {
+      const job = ObjectId.isValid(req.body.jobId)
+        ? await collections.jobs.findOne({ _id: new ObjectId(req.body.jobId), postedBy: employerId })
+        : null;
+      if (!job) {
+        return res.status(404).json({ success: false, message: 'Job not found' });
+      }
+      base = pickTemplateFields(job);
+    }
+
+    const parsed = jobTemplateSchema.safeParse({ ...base, ...req.body });
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, message: formatJobValidationError(parsed.error) });
+    }
+
+    const scope = templateScope(owner);
+    const templateCount = await collections.jobTemplates.countDocuments(scope);
+    if (templateCount >= MAX_TEMPLATES_PER_COMPANY) {
+      return res.status(400).json({ success: false, message: `You can have up to ${MAX_TEMPLATES_PER_COMPANY} templates` });
+    }
+
+    const existing = await collections.jobTemplates.findOne(
+      { ...scope, name: parsed.data.name },
+      { collation: NAME_COLLATION }
+    );
+    if (existing) {
+      return res.status(409).json({ success: false, message: 'A template with this name already exists' });
+    }
+
+    const now = new Date();
+    const template: JobTemplate = {
+      ...parsed.data,
+      _id: new ObjectId(),
+      company: scope.company,
+      createdBy: employerId,
+      usageCount: 0,
+      lastUsedAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await collections.jobTemplates.insertOne(template);
+
+    return res.status(201).json({ success: true, message: 'Template saved', data: template });
+  } catch (error) {
+    console.error('Error creating job template:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Start the wizard from a template, counting the use
+router.post('/:id/use', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const template = await recordTemplateUse(req.params.id, { _id: employerId, company: req.user?.company });
+    if (!template) {
+      return res.status(404).json({ success: false, message: 'Template not found' });
+    }
+
+    return res.status(200).json({ success: true, data: template });
+  } catch (error) {
+    console.error('Error using job template:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Change a template's name or content
+router.put('/:id', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const owner = { _id: employerId, company: req.user?.company };
+    const template = await findTemplate(req.params.id, owner);
+    if (!template) {
+      return res.status(404).json({ success: false, message: 'Template not found' });
+    }
+
+    const parsed = jobTemplateUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, message: formatJobValidationError(parsed.error) });
+    }
+
+    const changes: Record<string, any> = {};
+    Object.entries(parsed.data).forEach(([field, value]) => {
+      if (value !== undefined) changes[field] = value;
+    });
+
+    if (changes.name) {
+      const existing = await collections.jobTemplates.findOne(
+        { ...templateScope(owner), name: changes.name, _id: { $ne: template._id } },
+        { collation: NAME_COLLATION }
+      );
+      if (existing) {
+        return res.status(409).json({ success: false, message: 'A template with this name already exists' });
+      }
+    }
+
+    const updated = await collections.jobTemplates.findOneAndUpdate(
+      { _id: template._id },
+      { $set: { ...changes, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    return res.status(200).json({ success: true, message: 'Template updated', data: updated });
+  } catch (error) {
+    console.error('Error updating job template:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Delete a template; jobs posted from it keep their content
+router.delete('/:id', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const template = await findTemplate(req.params.id, { _id: employerId, company: req.user?.company });
+    if (!template) {
+      return res.status(404).json({ success: false, message: 'Template not found' });
+    }
+
+    await collections.jobTemplates.deleteOne({ _id: template._id });
+
+    return res.status(200).json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    console.error('Error deleting job template:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
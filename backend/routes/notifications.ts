@@ -0,0 +1,74 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated } from '../auth-mongo';
+import { collections } from '../mongodb';
+
+const router = express.Router();
+
+const MAX_NOTIFICATIONS = 50;
+
+// Get the user's latest notifications and how many are unread
+router.get('/', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      collections.notifications.find({ userId }).sort({ createdAt: -1 }).limit(MAX_NOTIFICATIONS).toArray(),
+      collections.notifications.countDocuments({ userId, read: false })
+    ]);
+
+    return res.status(200).json({ success: true, data: { notifications, unreadCount } });
+  } catch (error) {
+    console.error('Error getting notifications:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Mark every notification as read
+router.post('/read-all', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    await collections.notifications.updateMany({ userId, read: false }, { $set: { read: true } });
+
+    return res.status(200).json({ success: true, message: 'Notifications marked as read' });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Mark one notification as read
+router.patch('/:id/read', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ success: false, message: 'Invalid notification ID' });
+    }
+
+    const result = await collections.notifications.updateOne(
+      { _id: new ObjectId(req.params.id), userId },
+      { $set: { read: true } }
+    );
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Notification not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Notification marked as read' });
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
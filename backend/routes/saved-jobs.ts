@@ -0,0 +1,179 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { getDeadlineEnd } from '../utils/job-expiry';
+import { privateJobFieldsProjection } from '../utils/screening';
+import { Job } from '@shared/mongodb-types';
+
+const router = express.Router();
+
+// Saved jobs closing within this many days get a warning
+const DEADLINE_WARNING_DAYS = 3;
+const MAX_NOTES_LENGTH = 2000;
+
+type SavedJobWarning = 'removed' | 'closed' | 'expired' | 'closing-soon';
+
+// Work out whether a saved job needs the job seeker's attention
+function getSavedJobWarning(job: Job | undefined, now: Date): SavedJobWarning | null {
+  if (!job) return 'removed';
+  if (job.status === 'closed') return 'closed';
+  if (job.deadline) {
+    const deadline = getDeadlineEnd(job.deadline);
+    if (deadline < now) return 'expired';
+    if (deadline.getTime() - now.getTime() <= DEADLINE_WARNING_DAYS * 24 * 60 * 60 * 1000) {
+      return 'closing-soon';
+    }
+  }
+  return null;
+}
+
+// Get the current user's saved jobs, newest first
+router.get('/', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const savedJobs = await collections.savedJobs.aggregate([
+      { $match: { userId } },
+      { $sort: { savedAt: -1 } },
+      {
+        $lookup: {
+          from: 'jobs',
+          localField: 'jobId',
+          foreignField: '_id',
+          as: 'job'
+        }
+      },
+      { $unwind: { path: '$job', preserveNullAndEmptyArrays: true } },
+      { $project: privateJobFieldsProjection('job') }
+    ]).toArray();
+
+    const now = new Date();
+    const data = savedJobs.map(savedJob => ({
+      ...savedJob,
+      warning: getSavedJobWarning(savedJob.job, now)
+    }));
+
+    return res.status(200).json({ success: true, data });
+  } catch (error) {
+    console.error('Error getting saved jobs:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Get the IDs of the current user's saved jobs, used to show bookmark state
+router.get('/ids', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const savedJobs = await collections.savedJobs
+      .find({ userId }, { projection: { jobId: 1 } })
+      .toArray();
+
+    return res.status(200).json({ success: true, data: savedJobs.map(savedJob => savedJob.jobId.toString()) });
+  } catch (error) {
+    console.error('Error getting saved job IDs:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Save a job, optionally with notes
+router.post('/:jobId', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { jobId } = req.params;
+    if (!ObjectId.isValid(jobId)) {
+      return res.status(400).json({ success: false, message: 'Invalid job ID' });
+    }
+
+    const job = await collections.jobs.findOne({ _id: new ObjectId(jobId) }, { projection: { _id: 1 } });
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    const notes = typeof req.body?.notes === 'string' ? req.body.notes.slice(0, MAX_NOTES_LENGTH) : '';
+    const now = new Date();
+
+    // Saving twice is a no-op apart from updating the notes
+    await collections.savedJobs.updateOne(
+      { userId, jobId: job._id },
+      {
+        $set: { updatedAt: now, ...(req.body?.notes !== undefined ? { notes } : {}) },
+        $setOnInsert: { savedAt: now, ...(req.body?.notes === undefined ? { notes: '' } : {}) }
+      },
+      { upsert: true }
+    );
+
+    return res.status(200).json({ success: true, message: 'Job saved' });
+  } catch (error) {
+    console.error('Error saving job:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Update the notes on a saved job
+router.patch('/:jobId', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { jobId } = req.params;
+    if (!ObjectId.isValid(jobId)) {
+      return res.status(400).json({ success: false, message: 'Invalid job ID' });
+    }
+
+    if (typeof req.body?.notes !== 'string') {
+      return res.status(400).json({ success: false, message: 'Notes are required' });
+    }
+
+    const result = await collections.savedJobs.updateOne(
+      { userId, jobId: new ObjectId(jobId) },
+      { $set: { notes: req.body.notes.slice(0, MAX_NOTES_LENGTH), updatedAt: new Date() } }
+    );
+
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Saved job not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Notes updated' });
+  } catch (error) {
+    console.error('Error updating saved job notes:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Remove a job from saved jobs
+router.delete('/:jobId', isAuthenticated, hasRole(['jobseeker']), async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { jobId } = req.params;
+    if (!ObjectId.isValid(jobId)) {
+      return res.status(400).json({ success: false, message: 'Invalid job ID' });
+    }
+
+    await collections.savedJobs.deleteOne({ userId, jobId: new ObjectId(jobId) });
+
+    return res.status(200).json({ success: true, message: 'Job removed from saved jobs' });
+  } catch (error) {
+    console.error('Error removing saved job:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,149 @@
+import express, { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
+import { isAuthenticated, hasRole } from '../auth-mongo';
+import { collections } from '../mongodb';
+import { parseAnalyticsDays } from '../utils/job-analytics';
+import { effectiveSponsorshipStatus, getSponsorshipReport, parseSponsorship } from '../utils/sponsored-jobs';
+
+const router = express.Router();
+
+// Budget and spend report for the employer's sponsored jobs
+router.get('/report', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const report = await getSponsorshipReport(employerId, parseAnalyticsDays(req.query.days));
+
+    return res.status(200).json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error getting sponsorship report:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Sponsor a job, or change the budget of one that is already sponsored
+router.put('/:jobId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { jobId } = req.params;
+    if (!ObjectId.isValid(jobId)) {
+      return res.status(400).json({ success: false, message: 'Invalid job ID' });
+    }
+
+    const job = await collections.jobs.findOne({ _id: new ObjectId(jobId), postedBy: employerId });
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+    if (job.status === 'closed') {
+      return res.status(400).json({ success: false, message: 'Closed jobs cannot be sponsored' });
+    }
+
+    const now = new Date();
+    const current = job.sponsorship && effectiveSponsorshipStatus(job.sponsorship, now) !== 'ended'
+      ? job.sponsorship
+      : null;
+
+    // Running sponsorships keep their start date, and their end date unless a
+    // new duration is given; new ones start when the job goes live
+    const startsAt = current ? current.startsAt : job.publishAt && job.publishAt > now ? job.publishAt : now;
+    const sponsorship = parseSponsorship(req.body, startsAt, now);
+    if (typeof sponsorship === 'string') {
+      return res.status(400).json({ success: false, message: sponsorship });
+    }
+    if (!sponsorship) {
+      return res.status(400).json({ success: false, message: 'Daily budget is required' });
+    }
+    if (current) {
+      sponsorship.status = current.status;
+      if (req.body.durationDays === undefined) {
+        sponsorship.endsAt = current.endsAt;
+      }
+    }
+
+    await collections.jobs.updateOne({ _id: job._id }, { $set: { sponsorship } });
+
+    return res.status(200).json({ success: true, message: 'Sponsorship saved', data: sponsorship });
+  } catch (error) {
+    console.error('Error saving sponsorship:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Pause or resume a sponsorship
+router.patch('/:jobId/status', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { jobId } = req.params;
+    if (!ObjectId.isValid(jobId)) {
+      return res.status(400).json({ success: false, message: 'Invalid job ID' });
+    }
+
+    const { status } = req.body;
+    if (status !== 'active' && status !== 'paused') {
+      return res.status(400).json({ success: false, message: 'Status must be active or paused' });
+    }
+
+    const job = await collections.jobs.findOne({ _id: new ObjectId(jobId), postedBy: employerId });
+    if (!job?.sponsorship) {
+      return res.status(404).json({ success: false, message: 'Sponsorship not found' });
+    }
+    if (effectiveSponsorshipStatus(job.sponsorship) === 'ended') {
+      return res.status(400).json({ success: false, message: 'This sponsorship has ended' });
+    }
+
+    await collections.jobs.updateOne(
+      { _id: job._id },
+      { $set: { 'sponsorship.status': status, 'sponsorship.updatedAt': new Date() } }
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: status === 'paused' ? 'Sponsorship paused' : 'Sponsorship resumed'
+    });
+  } catch (error) {
+    console.error('Error updating sponsorship status:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Stop sponsoring a job; its spend history is kept for reports
+router.delete('/:jobId', isAuthenticated, hasRole(['employer']), async (req: Request, res: Response) => {
+  try {
+    const employerId = req.user?._id;
+    if (!employerId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const { jobId } = req.params;
+    if (!ObjectId.isValid(jobId)) {
+      return res.status(400).json({ success: false, message: 'Invalid job ID' });
+    }
+
+    const now = new Date();
+    const result = await collections.jobs.updateOne(
+      { _id: new ObjectId(jobId), postedBy: employerId, sponsorship: { $type: 'object' } },
+      { $set: { 'sponsorship.status': 'ended', 'sponsorship.endsAt': now, 'sponsorship.updatedAt': now } }
+    );
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Sponsorship not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Sponsorship ended' });
+  } catch (error) {
+    console.error('Error ending sponsorship:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
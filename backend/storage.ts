@@ -7,7 +7,7 @@ import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db, pool } from "./db";
-import { eq, and, like, desc, asc, sql, count, gt, inArray } from "drizzle-orm";
+import { eq, ne, and, like, desc, asc, sql, count, gt, inArray } from "drizzle-orm";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
@@ -401,15 +401,16 @@ export class MemStorage implements IStorage {
     let totalApplicants = 0;
     
     for (const jobId of jobIds) {
+      // Candidates who withdrew are no longer applicants
       const applications = Array.from(this.applications.values()).filter(
-        (app) => app.jobId === jobId
+        (app) => app.jobId === jobId && app.status !== 'withdrawn'
       );
       totalApplicants += applications.length;
     }
     
-    // In a real application, we would track views per job
-    // For this implementation, we'll just generate a random number
-    const listingViews = Math.floor(Math.random() * 1000) + 200;
+    // Views are only tracked by the MongoDB API (see utils/job-analytics),
+    // so report none rather than a made-up figure
+    const listingViews = 0;
     
     return {
       activeListings: jobIds.length,
@@ -784,20 +785,25 @@ export class DatabaseStorage implements IStorage {
     
     const jobIds = employerJobs.map(job => job.id);
     
-    // Count total applicants across all jobs
+    // Count total applicants across all jobs, leaving out withdrawn applications
     let totalApplicants = 0;
     
     if (jobIds.length > 0) {
       const [{ value }] = await db.select({
         value: count()
-      }).from(applications).where(sql`${applications.jobId} IN (${jobIds.join(',')})`);
+      }).from(applications).where(
+        and(
+          sql`${applications.jobId} IN (${jobIds.join(',')})`,
+          ne(applications.status, 'withdrawn')
+        )
+      );
       
       totalApplicants = Number(value);
     }
     
-    // In a real application, we would track views per job
-    // For this implementation, we'll just generate a random number
-    const listingViews = Math.floor(Math.random() * 1000) + 200;
+    // Views are only tracked by the MongoDB API (see utils/job-analytics),
+    // so report none rather than a made-up figure
+    const listingViews = 0;
     
     return {
       activeListings: Number(activeListings),
@@ -0,0 +1,161 @@
+import { ObjectId } from 'mongodb';
+import { Application, ApplicationEvent, ApplicationStatus, Job, User } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+
+export const MAX_EVENT_NOTE_LENGTH = 1000;
+
+// How candidates see each status
+export const CANDIDATE_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  pending: 'Pending',
+  reviewed: 'Reviewed',
+  interviewed: 'Interviewed',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn'
+};
+
+export interface TransitionOptions {
+  note: string | null;
+  candidateVisible: boolean;
+}
+
+export type ApplicationTransition = Pick<
+  ApplicationEvent,
+  'fromStatus' | 'toStatus' | 'fromStage' | 'toStage' | 'note' | 'candidateVisible'
+>;
+
+// What a candidate sees of an event; who made the move stays with the employer
+export type CandidateTimelineEvent = Pick<
+  ApplicationEvent,
+  'fromStatus' | 'toStatus' | 'toStage' | 'note' | 'createdAt'
+> & { _id: ObjectId | null };
+
+/**
+ * Read the optional `note` and `notifyCandidate` fields sent with a status
+ * or stage change. Moves are shown to the candidate unless the employer
+ * says otherwise. Returns an error message for invalid values.
+ */
+export function parseTransitionOptions(body: any): TransitionOptions | string {
+  const { note, notifyCandidate } = body || {};
+
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    return 'Note must be text';
+  }
+  const trimmed = typeof note === 'string' ? note.trim() : '';
+  if (trimmed.length > MAX_EVENT_NOTE_LENGTH) {
+    return `Note can be at most ${MAX_EVENT_NOTE_LENGTH} characters`;
+  }
+
+  if (notifyCandidate !== undefined && typeof notifyCandidate !== 'boolean') {
+    return 'notifyCandidate must be true or false';
+  }
+
+  return { note: trimmed || null, candidateVisible: notifyCandidate !== false };
+}
+
+function notificationMessage(transition: ApplicationTransition): string {
+  const where = transition.toStage || CANDIDATE_STATUS_LABELS[transition.toStatus];
+  const message = `Your application has moved to "${where}".`;
+  return transition.note ? `${message} ${transition.note}` : message;
+}
+
+/**
+ * Store one move of an application and, when the employer made it visible,
+ * notify the candidate
+ */
+export async function recordApplicationEvent(
+  application: Pick<Application, '_id' | 'jobId' | 'userId'>,
+  job: Pick<Job, 'title'>,
+  transition: ApplicationTransition,
+  actor: Pick<User, '_id' | 'role'>,
+  now = new Date()
+): Promise<ApplicationEvent> {
+  const event: ApplicationEvent = {
+    _id: new ObjectId(),
+    applicationId: application._id,
+    jobId: application.jobId,
+    userId: application.userId,
+    fromStatus: transition.fromStatus,
+    toStatus: transition.toStatus,
+    fromStage: transition.fromStage ?? null,
+    toStage: transition.toStage ?? null,
+    actorId: actor._id,
+    actorRole: actor.role,
+    note: transition.note ?? null,
+    candidateVisible: transition.candidateVisible,
+    createdAt: now
+  };
+  await collections.applicationEvents.insertOne(event);
+
+  // Candidates aren't notified of their own actions
+  if (event.candidateVisible && !actor._id.equals(application.userId)) {
+    await collections.notifications.insertOne({
+      _id: new ObjectId(),
+      userId: application.userId,
+      type: 'application_status',
+      title: `Update on your application for ${job.title}`,
+      message: notificationMessage(transition),
+      read: false,
+      relatedId: application._id,
+      createdAt: now
+    });
+  }
+
+  return event;
+}
+
+/**
+ * The moves a candidate can see for each of their applications, oldest
+ * first. Applications from before history was kept start from when they
+ * were submitted.
+ */
+export async function getCandidateTimelines(
+  applications: Pick<Application, '_id' | 'appliedAt' | 'status'>[]
+): Promise<Record<string, CandidateTimelineEvent[]>> {
+  const events = applications.length > 0
+    ? await collections.applicationEvents
+      .find(
+        { applicationId: { $in: applications.map(application => application._id) }, candidateVisible: true },
+        { projection: { applicationId: 1, fromStatus: 1, toStatus: 1, toStage: 1, note: 1, createdAt: 1 } }
+      )
+      .sort({ createdAt: 1 })
+      .toArray()
+    : [];
+
+  const timelines: Record<string, CandidateTimelineEvent[]> = {};
+  applications.forEach(application => {
+    timelines[application._id.toString()] = [];
+  });
+  events.forEach(({ applicationId, ...event }) => {
+    timelines[applicationId.toString()]?.push(event);
+  });
+
+  applications.forEach(application => {
+    const timeline = timelines[application._id.toString()];
+    if (timeline[0]?.fromStatus !== null) {
+      timeline.unshift({
+        _id: null,
+        fromStatus: null,
+        toStatus: timeline[0]?.fromStatus || application.status,
+        toStage: null,
+        note: null,
+        createdAt: application.appliedAt
+      });
+    }
+  });
+
+  return timelines;
+}
+
+/**
+ * Every move of an application with who made it, for the employer
+ */
+export async function getEmployerTimeline(applicationId: ObjectId) {
+  return collections.applicationEvents.aggregate([
+    { $match: { applicationId } },
+    { $sort: { createdAt: 1 } },
+    { $lookup: { from: 'users', localField: 'actorId', foreignField: '_id', as: 'actor' } },
+    { $unwind: { path: '$actor', preserveNullAndEmptyArrays: true } },
+    { $project: { applicationId: 0, jobId: 0, userId: 0, actor: { _id: 1, name: 1, role: 1 } } }
+  ]).toArray();
+}
@@ -0,0 +1,258 @@
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { Request } from 'express';
+import { ObjectId } from 'mongodb';
+import {
+  Application,
+  ApplicationDocument,
+  ApplicationDocumentType,
+  ApplicationFile,
+  ResumeSnapshot,
+  ResumeSource,
+  User
+} from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { isOnHiringTeam } from './application-reviews';
+
+export const MAX_APPLICATION_DOCUMENTS = 5;
+
+export const RESUME_SOURCES: ResumeSource[] = ['built', 'uploaded'];
+export const APPLICATION_DOCUMENT_TYPES: ApplicationDocumentType[] = ['portfolio', 'certificate', 'other'];
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Kept out of /uploads, which is served to anyone; these files are only
+// sent to the candidate and the job's employer
+export const APPLICATION_FILES_DIR = path.join(__dirname, '../../application-files');
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg'
+};
+
+// Random names, so one candidate's file can't be found from another's
+function newFileName(originalName: string): string {
+  return crypto.randomBytes(16).toString('hex') + path.extname(originalName).toLowerCase();
+}
+
+const storage = multer.diskStorage({
+  destination: (_req: Request, _file: Express.Multer.File, cb) => {
+    if (!fs.existsSync(APPLICATION_FILES_DIR)) {
+      fs.mkdirSync(APPLICATION_FILES_DIR, { recursive: true });
+    }
+    cb(null, APPLICATION_FILES_DIR);
+  },
+  filename: (_req: Request, file: Express.Multer.File, cb) => {
+    cb(null, newFileName(file.originalname));
+  }
+});
+
+// Documents and scans of certificates
+const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const ext = path.extname(file.originalname).toLowerCase();
+
+  if (MIME_TYPES[ext]) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only PDF, DOC, DOCX, PNG and JPG files can be attached'));
+  }
+};
+
+export const applicationUpload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5 MB max file size
+    files: MAX_APPLICATION_DOCUMENTS
+  }
+});
+
+export function getApplicationFilePath(fileName: string): string {
+  return path.join(APPLICATION_FILES_DIR, path.basename(fileName));
+}
+
+/**
+ * Delete files stored for an application that was never saved, or that a
+ * new application replaced
+ */
+export function removeApplicationFiles(fileNames: string[]): void {
+  fileNames.forEach(fileName => {
+    const filePath = getApplicationFilePath(fileName);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  });
+}
+
+/**
+ * Delete the resume snapshot and documents a withdrawn application was sent
+ * with, once the candidate has applied again with new ones
+ */
+export async function removeReplacedMaterials(application: Pick<Application, 'resumeId' | 'documents'>): Promise<void> {
+  const fileNames = (application.documents || []).map(document => document.fileName);
+  if (application.resumeId) {
+    const resume = await collections.resumeSnapshots.findOneAndDelete({ _id: application.resumeId });
+    if (resume?.file) fileNames.push(resume.file.fileName);
+  }
+  removeApplicationFiles(fileNames);
+}
+
+/**
+ * Multipart forms send objects as JSON text; JSON bodies send them as is
+ */
+export function parseJsonField(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read which of their resumes the candidate chose. Returns an error message
+ * for invalid values.
+ */
+export function parseResumeSource(value: unknown): { source: ResumeSource | null } | string {
+  if (value === undefined || value === null || value === '' || value === 'none') return { source: null };
+  if (!RESUME_SOURCES.includes(value as ResumeSource)) {
+    return 'Resume must be "built" or "uploaded"';
+  }
+  return { source: value as ResumeSource };
+}
+
+/**
+ * Read the type of each attached document, in upload order. Documents
+ * without one are filed as "other". Returns an error message for invalid
+ * values.
+ */
+export function parseDocumentTypes(value: unknown, count: number): ApplicationDocumentType[] | string {
+  const parsed = parseJsonField(value);
+  if (parsed !== undefined && parsed !== null && !Array.isArray(parsed)) {
+    return 'Document types must be a list';
+  }
+
+  const types = (parsed as unknown[] | null | undefined) || [];
+  if (types.length > count) {
+    return 'There are more document types than documents';
+  }
+
+  const result: ApplicationDocumentType[] = [];
+  for (let i = 0; i < count; i++) {
+    const type = types[i] === undefined || types[i] === null || types[i] === '' ? 'other' : types[i];
+    if (!APPLICATION_DOCUMENT_TYPES.includes(type as ApplicationDocumentType)) {
+      return `Document type must be one of: ${APPLICATION_DOCUMENT_TYPES.join(', ')}`;
+    }
+    result.push(type as ApplicationDocumentType);
+  }
+  return result;
+}
+
+export function toApplicationDocuments(
+  files: Express.Multer.File[],
+  types: ApplicationDocumentType[],
+  now = new Date()
+): ApplicationDocument[] {
+  return files.map((file, index) => ({
+    _id: new ObjectId(),
+    type: types[index],
+    fileName: file.filename,
+    originalName: file.originalname,
+    mimeType: MIME_TYPES[path.extname(file.originalname).toLowerCase()] || file.mimetype,
+    size: file.size,
+    uploadedAt: now
+  }));
+}
+
+/**
+ * Freeze the chosen resume for an application. A built resume is copied as
+ * it stands; an uploaded one is copied to the application files, so editing
+ * or deleting the candidate's resume later leaves the snapshot unchanged.
+ * Returns an error message when the candidate has no such resume. The
+ * snapshot is not saved.
+ */
+export async function buildResumeSnapshot(
+  userId: ObjectId,
+  source: ResumeSource,
+  applicationId: ObjectId,
+  now = new Date()
+): Promise<ResumeSnapshot | string> {
+  const user = await collections.users.findOne(
+    { _id: userId },
+    { projection: { builtResume: 1, resumePath: 1 } }
+  );
+
+  const snapshot: ResumeSnapshot = { _id: new ObjectId(), applicationId, userId, source, createdAt: now };
+
+  if (source === 'built') {
+    if (!user?.builtResume) {
+      return "You haven't built a resume yet";
+    }
+    return { ...snapshot, builtResume: user.builtResume };
+  }
+
+  const uploadedPath = user?.resumePath ? path.join(__dirname, '../../', user.resumePath) : null;
+  if (!uploadedPath || !fs.existsSync(uploadedPath)) {
+    return "You haven't uploaded a resume yet";
+  }
+
+  const originalName = path.basename(uploadedPath);
+  const file: ApplicationFile = {
+    fileName: newFileName(originalName),
+    originalName,
+    mimeType: MIME_TYPES[path.extname(originalName).toLowerCase()] || 'application/octet-stream',
+    size: fs.statSync(uploadedPath).size
+  };
+
+  if (!fs.existsSync(APPLICATION_FILES_DIR)) {
+    fs.mkdirSync(APPLICATION_FILES_DIR, { recursive: true });
+  }
+  await fs.promises.copyFile(uploadedPath, getApplicationFilePath(file.fileName));
+
+  return { ...snapshot, file };
+}
+
+/**
+ * An application, if the user is its candidate or on the job's hiring team
+ */
+export async function findViewableApplication(
+  applicationId: ObjectId,
+  user: Pick<User, '_id'>
+): Promise<Application | null> {
+  const application = await collections.applications.findOne({ _id: applicationId });
+  if (!application) return null;
+  if (application.userId.equals(user._id)) return application;
+
+  const job = await collections.jobs.findOne({ _id: application.jobId }, { projection: { postedBy: 1 } });
+  return job && await isOnHiringTeam(job, user) ? application : null;
+}
+
+/**
+ * Add download links to an application's resume snapshot and documents
+ */
+export function withMaterialUrls<T extends { _id: ObjectId; resume?: ResumeSnapshot | null; documents?: ApplicationDocument[] }>(
+  application: T
+) {
+  const base = `/api/applications/${application._id.toString()}`;
+  return {
+    ...application,
+    resume: application.resume
+      ? {
+        ...application.resume,
+        file: application.resume.file ? { ...application.resume.file, url: `${base}/resume/file` } : undefined
+      }
+      : null,
+    documents: (application.documents || []).map(document => ({
+      ...document,
+      url: `${base}/documents/${document._id.toString()}`
+    }))
+  };
+}
@@ -0,0 +1,389 @@
+import { ObjectId } from 'mongodb';
+import { Application, ApplicationNote, Job, User } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { escapeRegex } from './search';
+
+export const MAX_NOTE_LENGTH = 2000;
+export const MAX_NOTE_MENTIONS = 10;
+export const MAX_REVIEW_TAGS = 20;
+export const MAX_REVIEW_TAG_LENGTH = 40;
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_HIRING_TEAM_MEMBERS = 50;
+
+type Reviewer = Pick<User, '_id'>;
+type TeamMember = Pick<User, '_id' | 'name' | 'email'>;
+
+export interface ReviewFilters {
+  tags: string[];
+  minRating: number | null;
+  maxRating: number | null;
+}
+
+/**
+ * The employers who review a job's applicants together: whoever posted it
+ * and the employers they have added to their hiring team
+ */
+export async function getHiringTeam(job: Pick<Job, 'postedBy'>): Promise<TeamMember[]> {
+  const members = await collections.hiringTeamMembers
+    .find({ ownerId: job.postedBy }, { projection: { memberId: 1 } })
+    .toArray();
+  return collections.users
+    .find(
+      { _id: { $in: [job.postedBy, ...members.map(member => member.memberId)] } },
+      { projection: { name: 1, email: 1 } }
+    )
+    .sort({ name: 1 })
+    .toArray();
+}
+
+/**
+ * The rest of a job's hiring team, who the reviewer can mention in notes
+ */
+export async function getTeammates(job: Pick<Job, 'postedBy'>, reviewer: Reviewer): Promise<TeamMember[]> {
+  const team = await getHiringTeam(job);
+  return team.filter(member => !member._id.equals(reviewer._id));
+}
+
+/**
+ * Whether the user posted the job or was added to its poster's hiring team
+ */
+export async function isOnHiringTeam(job: Pick<Job, 'postedBy'>, user: Reviewer): Promise<boolean> {
+  if (job.postedBy.equals(user._id)) return true;
+  const membership = await collections.hiringTeamMembers.findOne(
+    { ownerId: job.postedBy, memberId: user._id },
+    { projection: { _id: 1 } }
+  );
+  return !!membership;
+}
+
+/**
+ * The employers an owner has added to their hiring team
+ */
+export async function getTeamMembers(ownerId: ObjectId): Promise<(TeamMember & { addedAt: Date })[]> {
+  return collections.hiringTeamMembers.aggregate<TeamMember & { addedAt: Date }>([
+    { $match: { ownerId } },
+    { $lookup: { from: 'users', localField: 'memberId', foreignField: '_id', as: 'member' } },
+    { $unwind: '$member' },
+    { $project: { _id: '$member._id', name: '$member.name', email: '$member.email', addedAt: 1 } },
+    { $sort: { name: 1 } }
+  ]).toArray();
+}
+
+/**
+ * Add the employer with an email address to the owner's hiring team.
+ * Returns an error message when they can't be added.
+ */
+export async function addTeamMember(
+  ownerId: ObjectId,
+  email: unknown,
+  now = new Date()
+): Promise<TeamMember | string> {
+  if (typeof email !== 'string' || !email.trim()) {
+    return 'Email is required';
+  }
+
+  const member = await collections.users.findOne(
+    { role: 'employer', email: new RegExp(`^${escapeRegex(email.trim())}$`, 'i') },
+    { projection: { name: 1, email: 1 } }
+  );
+  if (!member) {
+    return 'No employer account uses that email';
+  }
+  if (member._id.equals(ownerId)) {
+    return "You're already on your own hiring team";
+  }
+
+  const count = await collections.hiringTeamMembers.countDocuments({ ownerId });
+  if (count >= MAX_HIRING_TEAM_MEMBERS) {
+    return `A hiring team can have at most ${MAX_HIRING_TEAM_MEMBERS} members`;
+  }
+
+  await collections.hiringTeamMembers.updateOne(
+    { ownerId, memberId: member._id },
+    { $setOnInsert: { _id: new ObjectId(), addedAt: now } },
+    { upsert: true }
+  );
+  return member;
+}
+
+/**
+ * A job whose applicants the employer may review, if any
+ */
+export async function findReviewableJob(jobId: ObjectId, reviewer: Reviewer): Promise<Job | null> {
+  const job = await collections.jobs.findOne({ _id: jobId });
+  return job && await isOnHiringTeam(job, reviewer) ? job : null;
+}
+
+/**
+ * An application the employer may review, with its job, if any
+ */
+export async function findReviewableApplication(
+  applicationId: ObjectId,
+  reviewer: Reviewer
+): Promise<{ application: Application; job: Job } | null> {
+  const application = await collections.applications.findOne({ _id: applicationId });
+  if (!application) return null;
+  const job = await findReviewableJob(application.jobId, reviewer);
+  return job ? { application, job } : null;
+}
+
+/**
+ * Read a new note and the IDs of the teammates it mentions. Returns an
+ * error message for invalid values.
+ */
+export function parseNote(body: any): { body: string; mentions: ObjectId[] } | string {
+  const { body: text, mentions } = body || {};
+
+  if (typeof text !== 'string' || !text.trim()) {
+    return 'Note cannot be empty';
+  }
+  if (text.trim().length > MAX_NOTE_LENGTH) {
+    return `Note can be at most ${MAX_NOTE_LENGTH} characters`;
+  }
+
+  if (mentions !== undefined && !Array.isArray(mentions)) {
+    return 'Mentions must be a list of user IDs';
+  }
+  const ids: string[] = mentions || [];
+  if (ids.some(id => typeof id !== 'string' || !ObjectId.isValid(id))) {
+    return 'Mentions must be a list of user IDs';
+  }
+  const unique = ids.filter((id, index) => ids.indexOf(id) === index);
+  if (unique.length > MAX_NOTE_MENTIONS) {
+    return `A note can mention at most ${MAX_NOTE_MENTIONS} people`;
+  }
+
+  return { body: text.trim(), mentions: unique.map(id => new ObjectId(id)) };
+}
+
+/**
+ * Read a star rating. Returns an error message for invalid values.
+ */
+export function parseRating(value: unknown): number | string {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < MIN_RATING || value > MAX_RATING) {
+    return `Rating must be a whole number from ${MIN_RATING} to ${MAX_RATING}`;
+  }
+  return value;
+}
+
+/**
+ * Read a full set of tags. Tags are trimmed and kept once each, ignoring
+ * case. Returns an error message for invalid values.
+ */
+export function parseReviewTags(value: unknown): string[] | string {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return 'Tags must be a list of text';
+  }
+
+  const tags: string[] = [];
+  const seen: Record<string, boolean> = {};
+  for (const raw of value as string[]) {
+    const tag = raw.trim().replace(/\s+/g, ' ');
+    if (!tag) continue;
+    if (tag.length > MAX_REVIEW_TAG_LENGTH) {
+      return `Tags can be at most ${MAX_REVIEW_TAG_LENGTH} characters`;
+    }
+    const key = tag.toLowerCase();
+    if (!seen[key]) {
+      seen[key] = true;
+      tags.push(tag);
+    }
+  }
+
+  if (tags.length > MAX_REVIEW_TAGS) {
+    return `An application can have at most ${MAX_REVIEW_TAGS} tags`;
+  }
+  return tags;
+}
+
+function parseRatingBound(value: unknown, name: string): number | null | string {
+  if (value === undefined || value === '') return null;
+  const bound = Number(value);
+  if (typeof value !== 'string' || isNaN(bound) || bound < MIN_RATING || bound > MAX_RATING) {
+    return `${name} must be a number from ${MIN_RATING} to ${MAX_RATING}`;
+  }
+  return bound;
+}
+
+/**
+ * Read the `tag` (repeatable, or comma-separated), `minRating` and
+ * `maxRating` query parameters. Returns an error message for invalid values.
+ */
+export function parseReviewFilters(query: Record<string, unknown>): ReviewFilters | string {
+  const rawTags = ([] as unknown[]).concat(query.tag === undefined ? [] : query.tag);
+  if (rawTags.some(tag => typeof tag !== 'string')) {
+    return 'Tag must be text';
+  }
+  const tags = (rawTags as string[])
+    .reduce<string[]>((all, tag) => all.concat(tag.split(',')), [])
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+  const minRating = parseRatingBound(query.minRating, 'minRating');
+  if (typeof minRating === 'string') return minRating;
+  const maxRating = parseRatingBound(query.maxRating, 'maxRating');
+  if (typeof maxRating === 'string') return maxRating;
+  if (minRating !== null && maxRating !== null && minRating > maxRating) {
+    return 'minRating cannot be above maxRating';
+  }
+
+  return { tags, minRating, maxRating };
+}
+
+/**
+ * Conditions on applications for review filters. Applicants must have every
+ * tag, matched ignoring case; rating bounds apply to the average, so unrated
+ * applicants drop out of any rating filter.
+ */
+export function buildReviewFilterQuery(filters: ReviewFilters): Record<string, any> {
+  const query: Record<string, any> = {};
+  if (filters.tags.length > 0) {
+    query.$and = filters.tags.map(tag => ({ tags: new RegExp(`^${escapeRegex(tag)}$`, 'i') }));
+  }
+  if (filters.minRating !== null || filters.maxRating !== null) {
+    query.averageRating = {
+      ...(filters.minRating !== null ? { $gte: filters.minRating } : {}),
+      ...(filters.maxRating !== null ? { $lte: filters.maxRating } : {}),
+      $ne: null
+    };
+  }
+  return query;
+}
+
+/**
+ * Set (or, with null, clear) a reviewer's rating of an application and
+ * refresh its average
+ */
+export async function saveRating(
+  applicationId: ObjectId,
+  reviewerId: ObjectId,
+  rating: number | null,
+  now = new Date()
+): Promise<Pick<Application, 'averageRating' | 'ratingCount'> | null> {
+  const others = {
+    $filter: {
+      input: { $ifNull: ['$reviewRatings', []] },
+      cond: { $ne: ['$$this.reviewerId', reviewerId] }
+    }
+  };
+
+  // One pipeline update, so ratings given at the same time aren't lost
+  return collections.applications.findOneAndUpdate(
+    { _id: applicationId },
+    [
+      {
+        $set: {
+          reviewRatings: rating === null
+            ? others
+            : { $concatArrays: [others, [{ reviewerId, rating, ratedAt: now }]] }
+        }
+      },
+      {
+        $set: {
+          ratingCount: { $size: '$reviewRatings' },
+          averageRating: {
+            $cond: [
+              { $gt: [{ $size: '$reviewRatings' }, 0] },
+              { $round: [{ $avg: '$reviewRatings.rating' }, 2] },
+              null
+            ]
+          }
+        }
+      }
+    ],
+    { returnDocument: 'after', projection: { averageRating: 1, ratingCount: 1 } }
+  );
+}
+
+/**
+ * Save a note and notify the teammates it mentions. Mentions of anyone
+ * outside the job's hiring team are dropped.
+ */
+export async function addNote(
+  application: Pick<Application, '_id' | 'jobId' | 'userId'>,
+  job: Pick<Job, 'title' | 'postedBy'>,
+  author: Pick<User, '_id' | 'name'>,
+  note: { body: string; mentions: ObjectId[] },
+  now = new Date()
+): Promise<ApplicationNote> {
+  const team = await getHiringTeam(job);
+  const mentions = note.mentions.filter(id =>
+    !id.equals(author._id) && team.some(member => member._id.equals(id))
+  );
+
+  const saved: ApplicationNote = {
+    _id: new ObjectId(),
+    applicationId: application._id,
+    jobId: application.jobId,
+    authorId: author._id,
+    body: note.body,
+    mentions,
+    createdAt: now
+  };
+  await collections.applicationNotes.insertOne(saved);
+
+  if (mentions.length > 0) {
+    const candidate = await collections.users.findOne({ _id: application.userId }, { projection: { name: 1 } });
+    await collections.notifications.insertMany(mentions.map(userId => ({
+      _id: new ObjectId(),
+      userId,
+      type: 'mention' as const,
+      title: `${author.name} mentioned you in a note`,
+      message: `${candidate?.name || 'An applicant'} for ${job.title}: "${note.body.slice(0, 140)}"`,
+      read: false,
+      relatedId: application._id,
+      createdAt: now
+    })));
+  }
+
+  return saved;
+}
+
+/**
+ * Everything the hiring team has said about an application, with names
+ */
+export async function getApplicationReview(application: Application, reviewerId: ObjectId) {
+  const notes = await collections.applicationNotes.aggregate([
+    { $match: { applicationId: application._id } },
+    { $sort: { createdAt: 1 } },
+    { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' } },
+    { $unwind: { path: '$author', preserveNullAndEmptyArrays: true } },
+    { $lookup: { from: 'users', localField: 'mentions', foreignField: '_id', as: 'mentioned' } },
+    // Reviewers can delete their own notes
+    { $addFields: { mine: { $eq: ['$authorId', reviewerId] } } },
+    {
+      $project: {
+        body: 1,
+        createdAt: 1,
+        mine: 1,
+        'author._id': 1,
+        'author.name': 1,
+        'mentioned._id': 1,
+        'mentioned.name': 1
+      }
+    }
+  ]).toArray();
+
+  const ratings = application.reviewRatings || [];
+  const reviewers = ratings.length > 0
+    ? await collections.users
+      .find({ _id: { $in: ratings.map(rating => rating.reviewerId) } }, { projection: { name: 1 } })
+      .toArray()
+    : [];
+
+  const mine = ratings.find(rating => rating.reviewerId.equals(reviewerId));
+
+  return {
+    notes,
+    ratings: ratings.map(rating => ({
+      reviewer: reviewers.find(reviewer => reviewer._id.equals(rating.reviewerId)) || { _id: rating.reviewerId, name: 'Former teammate' },
+      rating: rating.rating,
+      ratedAt: rating.ratedAt
+    })),
+    averageRating: application.averageRating ?? null,
+    ratingCount: application.ratingCount || 0,
+    myRating: mine ? mine.rating : null,
+    tags: application.tags || []
+  };
+}
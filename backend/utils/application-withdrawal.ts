@@ -0,0 +1,125 @@
+import { ObjectId } from 'mongodb';
+import { Application, ApplicationStatus, Job, User } from '@shared/mongodb-types';
+import { DEFAULT_REAPPLY_AFTER_DAYS } from '@shared/job-schema';
+import { collections } from '../mongodb';
+import { recordApplicationEvent } from './application-events';
+import { DAY_MS } from './job-analytics';
+
+export const MAX_WITHDRAWAL_REASON_LENGTH = 500;
+
+// A rejected application has nothing left to withdraw from
+export const WITHDRAWABLE_STATUSES: ApplicationStatus[] = ['pending', 'reviewed', 'interviewed', 'accepted'];
+
+export interface ReapplyRule {
+  afterDays: number | null;
+  afterRepost: boolean;
+}
+
+export type ReapplyDecision =
+  | { allowed: true }
+  | { allowed: false; message: string };
+
+/**
+ * Read the optional reason sent when withdrawing. Returns an error message
+ * for invalid values.
+ */
+export function parseWithdrawalReason(value: unknown): { reason: string | null } | string {
+  if (value === undefined || value === null) return { reason: null };
+  if (typeof value !== 'string') return 'Reason must be text';
+
+  const reason = value.trim();
+  if (reason.length > MAX_WITHDRAWAL_REASON_LENGTH) {
+    return `Reason can be at most ${MAX_WITHDRAWAL_REASON_LENGTH} characters`;
+  }
+  return { reason: reason || null };
+}
+
+// Jobs posted before re-apply rules existed get the default rule
+export function getReapplyRule(job: Pick<Job, 'reapplyAfterDays' | 'reapplyAfterRepost'>): ReapplyRule {
+  return {
+    afterDays: job.reapplyAfterDays === undefined ? DEFAULT_REAPPLY_AFTER_DAYS : job.reapplyAfterDays,
+    afterRepost: job.reapplyAfterRepost !== false
+  };
+}
+
+// When the employer last put the job back in front of candidates
+function lastRepostedAt(job: Pick<Job, 'renewals' | 'refreshedAt'>): Date | null {
+  const times = [
+    ...(job.renewals || []).map(renewal => new Date(renewal.renewedAt).getTime()),
+    job.refreshedAt ? new Date(job.refreshedAt).getTime() : 0
+  ];
+  const latest = Math.max(0, ...times);
+  return latest > 0 ? new Date(latest) : null;
+}
+
+/**
+ * Whether a candidate with an earlier application to a job may apply
+ * again. Only withdrawn applications can be replaced, and only once the
+ * job's waiting period has passed or it has been reposted since.
+ */
+export function canReapply(
+  job: Pick<Job, 'reapplyAfterDays' | 'reapplyAfterRepost' | 'renewals' | 'refreshedAt'>,
+  application: Pick<Application, 'status' | 'withdrawnAt' | 'updatedAt'>,
+  now = new Date()
+): ReapplyDecision {
+  if (application.status !== 'withdrawn') {
+    return { allowed: false, message: 'You have already applied for this job' };
+  }
+
+  const rule = getReapplyRule(job);
+  const withdrawnAt = new Date(application.withdrawnAt || application.updatedAt);
+
+  const availableAt = rule.afterDays === null ? null : new Date(withdrawnAt.getTime() + rule.afterDays * DAY_MS);
+  if (availableAt && availableAt <= now) {
+    return { allowed: true };
+  }
+
+  const repostedAt = lastRepostedAt(job);
+  if (rule.afterRepost && repostedAt && repostedAt > withdrawnAt) {
+    return { allowed: true };
+  }
+
+  if (availableAt) {
+    return { allowed: false, message: `You withdrew from this job and can apply again from ${availableAt.toDateString()}` };
+  }
+  return {
+    allowed: false,
+    message: rule.afterRepost
+      ? 'You withdrew from this job and can apply again if it is reposted'
+      : 'You withdrew from this job and cannot apply to it again'
+  };
+}
+
+/**
+ * Withdraw a candidate's application and let the employer know
+ */
+export async function withdrawApplication(
+  application: Application,
+  job: Pick<Job, '_id' | 'title' | 'postedBy'>,
+  candidate: Pick<User, '_id' | 'role' | 'name'>,
+  reason: string | null,
+  now = new Date()
+): Promise<void> {
+  await collections.applications.updateOne(
+    { _id: application._id },
+    { $set: { status: 'withdrawn', stageId: null, withdrawnAt: now, withdrawalReason: reason, updatedAt: now } }
+  );
+
+  await recordApplicationEvent(application, job, {
+    fromStatus: application.status,
+    toStatus: 'withdrawn',
+    note: reason,
+    candidateVisible: true
+  }, candidate, now);
+
+  await collections.notifications.insertOne({
+    _id: new ObjectId(),
+    userId: job.postedBy,
+    type: 'application_status',
+    title: `${candidate.name} withdrew their application`,
+    message: reason ? `${job.title}: "${reason}"` : job.title,
+    read: false,
+    relatedId: application._id,
+    createdAt: now
+  });
+}
@@ -0,0 +1,237 @@
+import { Request } from 'express';
+import { JobQuery, JobFacetField, parseListParam } from './job-query';
+import { DEFAULT_CURRENCY } from './salary';
+import { collapseDuplicatePostings } from './job-duplicates';
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+  min?: number;
+  max?: number;
+}
+
+// Annual salary buckets (INR) used for the salary facet
+export const SALARY_BUCKETS = [0, 300000, 600000, 1000000, 1500000, 2500000];
+
+const TOP_LOCATIONS = 15;
+const TOP_SKILLS = 20;
+
+// Stage that sorts grouped values by count and reshapes them into buckets
+const toBuckets = (limit?: number) => [
+  { $sort: { count: -1, _id: 1 } },
+  ...(limit ? [{ $limit: limit }] : []),
+  { $project: { _id: 0, value: '$_id', count: 1 } }
+];
+
+/**
+ * Build the `$facet` aggregation that returns live counts for every job
+ * filter. Counts for each facet respect all other active filters but not
+ * the facet's own selection, and count reposts of an opening once, as the
+ * listing shows them.
+ */
+export function buildJobFacetPipeline(jobQuery: JobQuery): Record<string, any>[] {
+  const { baseFilter, facetFilters, textSearch } = jobQuery;
+
+  // Match stage for a facet: every faceted condition except its own, then
+  // the same collapse of reposts as the listing
+  const matchExcept = (field?: JobFacetField) => {
+    const conditions = (Object.keys(facetFilters) as JobFacetField[])
+      .filter(key => key !== field)
+      .map(key => facetFilters[key]!);
+    return [
+      ...(conditions.length > 0 ? [{ $match: { $and: conditions } }] : []),
+      ...collapseDuplicatePostings()
+    ];
+  };
+
+  const bucketBoundaries = [...SALARY_BUCKETS, Number.MAX_SAFE_INTEGER];
+
+  return [
+    // $text has to be in the first stage of the pipeline, so the shared
+    // part of the filter runs before the facets split off
+    { $match: baseFilter },
+    // The listing's order, so reposts collapse into the same posting
+    ...(textSearch
+      ? [{ $addFields: { score: { $meta: 'textScore' } } }, { $sort: { score: -1, createdAt: -1 } }]
+      : [{ $sort: { createdAt: -1 } }]),
+    {
+      $facet: {
+        type: [
+          ...matchExcept('type'),
+          { $group: { _id: '$type', count: { $sum: 1 } } },
+          ...toBuckets()
+        ],
+        workMode: [
+          ...matchExcept('workMode'),
+          { $group: { _id: '$workMode', count: { $sum: 1 } } },
+          ...toBuckets()
+        ],
+        experienceLevel: [
+          ...matchExcept('experienceLevel'),
+          { $group: { _id: '$experienceLevel', count: { $sum: 1 } } },
+          ...toBuckets()
+        ],
+        location: [
+          ...matchExcept('location'),
+          { $match: { location: { $nin: [null, ''] } } },
+          // Geocoded jobs are grouped by city so "Bangalore" and
+          // "Whitefield, Bengaluru" count together
+          { $group: { _id: { $ifNull: ['$locationCity', '$location'] }, count: { $sum: 1 } } },
+          ...toBuckets(TOP_LOCATIONS)
+        ],
+        skills: [
+          ...matchExcept('skills'),
+          { $unwind: '$skills' },
+          { $group: { _id: { $toLower: '$skills' }, count: { $sum: 1 } } },
+          ...toBuckets(TOP_SKILLS)
+        ],
+        schedule: [
+          ...matchExcept('schedule'),
+          { $unwind: '$schedule' },
+          { $group: { _id: '$schedule', count: { $sum: 1 } } },
+          ...toBuckets()
+        ],
+        benefits: [
+          ...matchExcept('benefits'),
+          { $unwind: '$benefits' },
+          { $group: { _id: '$benefits', count: { $sum: 1 } } },
+          ...toBuckets()
+        ],
+        salary: [
+          ...matchExcept('salary'),
+          {
+            $match: {
+              'salaryRange.currency': DEFAULT_CURRENCY,
+              'salaryRange.annualMin': { $type: 'number' }
+            }
+          },
+          {
+            $bucket: {
+              groupBy: '$salaryRange.annualMin',
+              boundaries: bucketBoundaries,
+              default: 'other',
+              output: { count: { $sum: 1 } }
+            }
+          },
+          { $match: { _id: { $ne: 'other' } } }
+        ],
+        total: [
+          ...matchExcept(),
+          { $count: 'count' }
+        ]
+      }
+    }
+  ];
+}
+
+/**
+ * Turn the raw `$facet` result into the API response shape
+ */
+export function formatJobFacets(result: Record<string, any> | undefined) {
+  const salaryBuckets: FacetBucket[] = (result?.salary || []).map((bucket: { _id: number; count: number }) => {
+    const index = SALARY_BUCKETS.indexOf(bucket._id);
+    const max = SALARY_BUCKETS[index + 1];
+    return {
+      value: max !== undefined ? `${bucket._id}-${max}` : `${bucket._id}+`,
+      min: bucket._id,
+      max,
+      count: bucket.count
+    };
+  });
+
+  return {
+    type: (result?.type || []) as FacetBucket[],
+    workMode: (result?.workMode || []) as FacetBucket[],
+    experienceLevel: (result?.experienceLevel || []) as FacetBucket[],
+    location: (result?.location || []) as FacetBucket[],
+    skills: (result?.skills || []) as FacetBucket[],
+    schedule: (result?.schedule || []) as FacetBucket[],
+    benefits: (result?.benefits || []) as FacetBucket[],
+    salary: salaryBuckets,
+    total: result?.total?.[0]?.count || 0
+  };
+}
+
+type CompanyFacetField = 'location' | 'industry' | 'experience';
+
+/**
+ * Build the `$facet` aggregation for the company filter sidebar. The
+ * experience facet is derived from the levels of each company's active jobs.
+ */
+export function buildCompanyFacetPipeline(query: Request['query']): Record<string, any>[] {
+  const facetFilters: Partial<Record<CompanyFacetField, Record<string, any>>> = {};
+
+  const locations = parseListParam(query.location);
+  if (locations.length > 0) {
+    facetFilters.location = { location: { $in: locations } };
+  }
+
+  const industries = parseListParam(query.industry);
+  if (industries.length > 0) {
+    facetFilters.industry = { industry: { $in: industries } };
+  }
+
+  const experience = parseListParam(query.experience);
+  if (experience.length > 0) {
+    facetFilters.experience = { experience: { $in: experience } };
+  }
+
+  const matchExcept = (field: CompanyFacetField) => {
+    const conditions = (Object.keys(facetFilters) as CompanyFacetField[])
+      .filter(key => key !== field)
+      .map(key => facetFilters[key]!);
+    return conditions.length > 0 ? [{ $match: { $and: conditions } }] : [];
+  };
+
+  return [
+    {
+      $lookup: {
+        from: 'jobs',
+        localField: 'employerId',
+        foreignField: 'postedBy',
+        pipeline: [
+          { $match: { status: 'active' } },
+          { $project: { experienceLevel: 1 } }
+        ],
+        as: 'activeJobs'
+      }
+    },
+    {
+      $addFields: {
+        experience: {
+          $setUnion: [
+            {
+              $map: {
+                input: '$activeJobs',
+                as: 'job',
+                in: { $cond: [{ $eq: ['$$job.experienceLevel', 'entry'] }, 'entry-level', 'experienced'] }
+              }
+            }
+          ]
+        }
+      }
+    },
+    {
+      $facet: {
+        location: [
+          ...matchExcept('location'),
+          { $match: { location: { $nin: [null, ''] } } },
+          { $group: { _id: '$location', count: { $sum: 1 } } },
+          ...toBuckets(TOP_LOCATIONS)
+        ],
+        industry: [
+          ...matchExcept('industry'),
+          { $match: { industry: { $nin: [null, ''] } } },
+          { $group: { _id: '$industry', count: { $sum: 1 } } },
+          ...toBuckets()
+        ],
+        experience: [
+          ...matchExcept('experience'),
+          { $unwind: '$experience' },
+          { $group: { _id: '$experience', count: { $sum: 1 } } },
+          ...toBuckets()
+        ]
+      }
+    }
+  ];
+}
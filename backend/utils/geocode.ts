@@ -0,0 +1,203 @@
+import { GeoPoint } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { CITIES, GazetteerCity } from '../data/cities';
+import { escapeRegex } from './search';
+
+export const EARTH_RADIUS_KM = 6378.1;
+export const DEFAULT_RADIUS_KM = 25;
+export const MAX_RADIUS_KM = 500;
+
+// Longest place name in the gazetteer, in words ("sahibzada ajit singh nagar")
+const MAX_NAME_WORDS = 4;
+
+const REMOTE_PATTERN = /\b(remote|work\s+from\s+home|wfh|anywhere)\b/i;
+
+export interface GeocodedLocation {
+  city: GazetteerCity;
+  point: GeoPoint;
+}
+
+export interface GeocodedJobFields {
+  geo: GeoPoint | null;
+  locationCity: string | null;
+}
+
+function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Lookup from every normalized name and alias to its city
+const cityIndex: Record<string, GazetteerCity> = {};
+for (const city of CITIES) {
+  for (const name of [city.name, ...(city.aliases || [])]) {
+    cityIndex[normalizeName(name)] = city;
+  }
+}
+
+function toPoint(lat: number, lng: number): GeoPoint {
+  return { type: 'Point', coordinates: [lng, lat] };
+}
+
+/**
+ * Check whether a location string describes remote work
+ */
+export function isRemoteLocation(location: string): boolean {
+  return REMOTE_PATTERN.test(location);
+}
+
+/**
+ * Find the city a free-text location refers to, e.g. "Whitefield, Bangalore"
+ * or "Gurgaon (Hybrid)". Parts are tried left to right and the longest
+ * matching name within a part wins. Returns null for unknown places.
+ */
+export function geocodeLocation(location: string): GeocodedLocation | null {
+  const parts = location.split(/[,/|;()]|\s-\s/);
+
+  for (const part of parts) {
+    const words = normalizeName(part).split(' ').filter(Boolean);
+
+    for (let size = Math.min(MAX_NAME_WORDS, words.length); size > 0; size--) {
+      for (let start = 0; start + size <= words.length; start++) {
+        const city = cityIndex[words.slice(start, start + size).join(' ')];
+        if (city) {
+          return { city, point: toPoint(city.lat, city.lng) };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the `near` query parameter, which is either a place name or a
+ * "lat,lng" pair
+ */
+export function resolveNear(value: string): GeoPoint | null {
+  const coordinates = value.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (coordinates) {
+    const lat = parseFloat(coordinates[1]);
+    const lng = parseFloat(coordinates[2]);
+    if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+      return toPoint(lat, lng);
+    }
+    return null;
+  }
+
+  return geocodeLocation(value)?.point || null;
+}
+
+/**
+ * Derive the geo fields stored on a job from its location text
+ */
+export function geocodeJobLocation(location: string | undefined): GeocodedJobFields {
+  const geocoded = location ? geocodeLocation(location) : null;
+  return {
+    geo: geocoded?.point || null,
+    locationCity: geocoded?.city.name || null
+  };
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const [lng1, lat1] = from.coordinates;
+  const [lng2, lat2] = to.coordinates;
+
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return Math.round(2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a)) * 10) / 10;
+}
+
+/**
+ * Build the location condition for `GET /api/jobs`.
+ *
+ * - `near` + `radiusKm` match jobs within the radius of a place or "lat,lng"
+ * - `location` matches a city by any of its names, falling back to text
+ *   matching for places the gazetteer doesn't know
+ * - `includeRemote=true` also matches remote jobs wherever they are based
+ */
+export function buildLocationFilter(query: Record<string, unknown>): { filter: Record<string, any> | null; near: GeoPoint | null } {
+  const { near, location, radiusKm, includeRemote } = query;
+  let condition: Record<string, any> | null = null;
+  let nearPoint: GeoPoint | null = null;
+
+  if (typeof near === 'string' && near.trim()) {
+    nearPoint = resolveNear(near);
+
+    if (nearPoint) {
+      const requestedRadius = typeof radiusKm === 'string' ? parseFloat(radiusKm) : NaN;
+      const radius = isFinite(requestedRadius) && requestedRadius > 0
+        ? Math.min(requestedRadius, MAX_RADIUS_KM)
+        : DEFAULT_RADIUS_KM;
+
+      condition = {
+        geo: { $geoWithin: { $centerSphere: [nearPoint.coordinates, radius / EARTH_RADIUS_KM] } }
+      };
+    } else {
+      condition = { location: { $regex: escapeRegex(near.trim()), $options: 'i' } };
+    }
+  } else if (typeof location === 'string' && location.trim()) {
+    condition = buildPlaceCondition(location.trim());
+  }
+
+  if (condition && includeRemote === 'true') {
+    condition = { $or: [condition, { workMode: 'remote' }] };
+  }
+
+  return { filter: condition, near: nearPoint };
+}
+
+function buildPlaceCondition(location: string): Record<string, any> {
+  if (isRemoteLocation(location)) {
+    return { $or: [{ workMode: 'remote' }, { location: { $regex: REMOTE_PATTERN.source, $options: 'i' } }] };
+  }
+
+  const geocoded = geocodeLocation(location);
+  if (!geocoded) {
+    return { location: { $regex: escapeRegex(location), $options: 'i' } };
+  }
+
+  // Jobs that couldn't be geocoded only have their text location, so match
+  // that on every name the city goes by
+  const { city } = geocoded;
+  const names = [city.name, ...(city.aliases || [])].map(escapeRegex);
+  return {
+    $or: [
+      { locationCity: city.name },
+      { locationCity: null, location: { $regex: `\\b(${names.join('|')})\\b`, $options: 'i' } }
+    ]
+  };
+}
+
+/**
+ * Geocode jobs that were posted before locations were geocoded
+ */
+export async function backfillJobLocations(): Promise<number> {
+  try {
+    const jobs = await collections.jobs.find(
+      { locationCity: { $exists: false } },
+      { projection: { location: 1 } }
+    ).toArray();
+
+    let updated = 0;
+    for (const job of jobs) {
+      const fields = geocodeJobLocation(job.location);
+      await collections.jobs.updateOne({ _id: job._id }, { $set: fields });
+      if (fields.geo) updated++;
+    }
+
+    return updated;
+  } catch (error) {
+    console.error('Error geocoding job locations:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { ObjectId } from 'mongodb';
+import { Application, ApplicationStatus, HiringPipeline, PipelineStage } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+
+export const MAX_PIPELINE_STAGES = 15;
+
+// Statuses an employer can give an application or a stage
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['pending', 'reviewed', 'interviewed', 'accepted', 'rejected'];
+
+// One stage per status, so applications from before pipelines keep their place
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'applied', name: 'Applied', status: 'pending' },
+  { id: 'reviewed', name: 'Reviewed', status: 'reviewed' },
+  { id: 'interview', name: 'Interview', status: 'interviewed' },
+  { id: 'hired', name: 'Hired', status: 'accepted' },
+  { id: 'rejected', name: 'Rejected', status: 'rejected' }
+];
+
+export type PipelineSource = 'job' | 'company' | 'default';
+
+export interface ResolvedPipeline {
+  stages: PipelineStage[];
+  // Where the stages come from, so the employer knows what an edit changes
+  source: PipelineSource;
+  updatedAt: Date | null;
+}
+
+export interface PipelineOwner {
+  _id: ObjectId;
+  company?: string | null;
+}
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'stage';
+
+/**
+ * Validates an employer's stages, in order. New stages get an ID from their
+ * name; existing ones keep theirs so applications stay where they are.
+ */
+export const pipelineStagesSchema = z
+  .array(
+    z.object({
+      id: z.string().trim().regex(/^[a-z0-9-]+$/, 'Invalid stage ID').max(50).optional(),
+      name: z.string({ required_error: 'Stage name is required' }).trim().min(1, 'Stage name is required').max(50),
+      status: z.enum(APPLICATION_STATUSES as [ApplicationStatus, ...ApplicationStatus[]], {
+        errorMap: () => ({ message: 'Invalid stage status' })
+      })
+    }),
+    { invalid_type_error: 'Stages must be a list' }
+  )
+  .min(2, 'A pipeline needs at least two stages')
+  .max(MAX_PIPELINE_STAGES, `A pipeline can have at most ${MAX_PIPELINE_STAGES} stages`)
+  .superRefine((stages, ctx) => {
+    const names = stages.map(stage => stage.name.toLowerCase());
+    if (names.some((name, index) => names.indexOf(name) !== index)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Stage names must be unique' });
+    }
+    const ids = stages.map(stage => stage.id).filter(Boolean);
+    if (ids.some((id, index) => ids.indexOf(id) !== index)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Stage IDs must be unique' });
+    }
+    // New applications and knocked-out ones need somewhere to go
+    if (!stages.some(stage => stage.status === 'pending')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A pipeline needs a stage for new applications' });
+    }
+    if (!stages.some(stage => stage.status === 'rejected')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A pipeline needs a stage for rejected applications' });
+    }
+  })
+  .transform(stages => {
+    const taken = new Set(stages.map(stage => stage.id).filter((id): id is string => !!id));
+    return stages.map(stage => {
+      if (stage.id) return { id: stage.id, name: stage.name, status: stage.status };
+      const base = slugify(stage.name);
+      let id = base;
+      for (let suffix = 2; taken.has(id); suffix++) {
+        id = `${base}-${suffix}`;
+      }
+      taken.add(id);
+      return { id, name: stage.name, status: stage.status };
+    });
+  });
+
+/**
+ * The company-wide pipeline an employer edits: their company's, or their
+ * own when they have no company
+ */
+export function companyPipelineScope(owner: PipelineOwner): Record<string, any> {
+  const company = owner.company?.trim();
+  return company ? { company, jobId: null } : { company: null, createdBy: owner._id, jobId: null };
+}
+
+const resolved = (pipeline: HiringPipeline | null, source: PipelineSource): ResolvedPipeline =>
+  pipeline
+    ? { stages: pipeline.stages, source, updatedAt: pipeline.updatedAt }
+    : { stages: DEFAULT_PIPELINE_STAGES, source: 'default', updatedAt: null };
+
+export async function getCompanyPipeline(owner: PipelineOwner): Promise<ResolvedPipeline> {
+  return resolved(await collections.hiringPipelines.findOne(companyPipelineScope(owner)), 'company');
+}
+
+/**
+ * The stages in effect for a job: its own, else its company's, else the defaults
+ */
+export async function getJobPipeline(jobId: ObjectId, owner: PipelineOwner): Promise<ResolvedPipeline> {
+  const jobPipeline = await collections.hiringPipelines.findOne({ jobId });
+  if (jobPipeline) return resolved(jobPipeline, 'job');
+  return getCompanyPipeline(owner);
+}
+
+/**
+ * Replace the stages of a company or job pipeline
+ */
+export async function savePipeline(
+  scope: Record<string, any>,
+  stages: PipelineStage[],
+  owner: PipelineOwner,
+  now = new Date()
+): Promise<HiringPipeline | null> {
+  return collections.hiringPipelines.findOneAndUpdate(
+    scope,
+    {
+      $set: { stages, updatedAt: now },
+      $setOnInsert: {
+        company: owner.company?.trim() || null,
+        jobId: scope.jobId || null,
+        createdBy: owner._id,
+        createdAt: now
+      }
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+}
+
+/**
+ * The stage an application is in. Applications that were never moved, or
+ * whose stage was removed, sit in the first stage for their status.
+ */
+export function getApplicationStage(stages: PipelineStage[], application: Pick<Application, 'status' | 'stageId'>): PipelineStage {
+  return (
+    stages.find(stage => stage.id === application.stageId) ||
+    stages.find(stage => stage.status === application.status) ||
+    stages[0]
+  );
+}
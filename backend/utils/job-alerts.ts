@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import { JobAlert, Job } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { buildJobQuery, combineFilters } from './job-query';
+import { sendEmail } from './otp';
+
+// GET /api/jobs parameters that can be saved on an alert
+export const ALERT_FILTER_PARAMS = [
+  'search', 'location', 'near', 'radiusKm', 'includeRemote',
+  'type', 'experience', 'workMode', 'skills', 'schedule', 'benefits',
+  'minSalary', 'maxSalary', 'currency'
+];
+
+export const ALERT_FREQUENCIES: JobAlert['frequency'][] = ['daily', 'weekly'];
+
+const FREQUENCY_INTERVALS: Record<JobAlert['frequency'], number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// How often the scheduler looks for alerts that are due
+const SCHEDULER_INTERVAL = 60 * 60 * 1000;
+const MAX_JOBS_PER_DIGEST = 20;
+const MAX_ALERT_NAME_LENGTH = 100;
+
+export const appUrl = () => (process.env.APP_URL || 'http://localhost:5001').replace(/\/$/, '');
+
+/**
+ * Keep only the supported, non-empty filters from a request body or
+ * query string
+ */
+export function normalizeAlertFilters(input: unknown): Record<string, string> {
+  const filters: Record<string, string> = {};
+  if (!input || typeof input !== 'object') {
+    return filters;
+  }
+
+  for (const param of ALERT_FILTER_PARAMS) {
+    const value = (input as Record<string, unknown>)[param];
+    const normalized = Array.isArray(value) ? value.join(',') : value;
+    if ((typeof normalized === 'string' || typeof normalized === 'number') && String(normalized).trim()) {
+      filters[param] = String(normalized).trim();
+    }
+  }
+
+  return filters;
+}
+
+export function normalizeAlertName(name: unknown, filters: Record<string, string>): string {
+  if (typeof name === 'string' && name.trim()) {
+    return name.trim().slice(0, MAX_ALERT_NAME_LENGTH);
+  }
+  // Default to a name built from the main filters, e.g. "React in Pune"
+  const what = filters.search || 'Jobs';
+  const where = filters.location || filters.near;
+  return (where ? `${what} in ${where}` : what).slice(0, MAX_ALERT_NAME_LENGTH);
+}
+
+export function generateUnsubscribeToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+export function getUnsubscribeUrl(alert: Pick<JobAlert, 'unsubscribeToken'>): string {
+  return `${appUrl()}/api/job-alerts/unsubscribe/${alert.unsubscribeToken}`;
+}
+
+/**
+ * Find active jobs matching an alert that went live after `since`. Jobs
+ * approved after a review count from their approval, not when they were
+ * first submitted; jobs from before publish times were kept use their
+ * creation time.
+ */
+export async function findAlertMatches(alert: JobAlert, since: Date, limit = MAX_JOBS_PER_DIGEST) {
+  const { filter } = buildJobQuery(alert.filters);
+  return collections.jobs
+    .find(combineFilters(filter, [{
+      $or: [
+        { publishedAt: { $gt: since } },
+        { publishedAt: null, createdAt: { $gt: since } }
+      ]
+    }]))
+    .sort({ publishedAt: -1, createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Email a digest of new jobs for one alert
+async function sendAlertDigest(alert: JobAlert, email: string, jobs: Job[]): Promise<boolean> {
+  const unsubscribeUrl = getUnsubscribeUrl(alert);
+  const searchUrl = `${appUrl()}/jobs?${new URLSearchParams(alert.filters).toString()}`;
+  const period = alert.frequency === 'daily' ? 'today' : 'this week';
+
+  const text = [
+    `${jobs.length} new job${jobs.length === 1 ? '' : 's'} for "${alert.name}" ${period}:`,
+    '',
+    ...jobs.map(job => `- ${job.title} at ${job.company} (${job.location})\n  ${appUrl()}/jobs/${job._id}`),
+    '',
+    `See all matches: ${searchUrl}`,
+    `Unsubscribe from this alert: ${unsubscribeUrl}`
+  ].join('\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
+      <h2 style="color: #333;">New jobs for "${escapeHtml(alert.name)}"</h2>
+      <p style="font-size: 16px; color: #555;">${jobs.length} new job${jobs.length === 1 ? '' : 's'} matched your alert ${period}.</p>
+      ${jobs.map(job => `
+        <div style="padding: 12px 0; border-bottom: 1px solid #f0f0f0;">
+          <a href="${appUrl()}/jobs/${job._id}" style="font-size: 16px; font-weight: bold; color: #2563eb; text-decoration: none;">${escapeHtml(job.title)}</a>
+          <p style="margin: 4px 0 0; font-size: 14px; color: #555;">${escapeHtml(job.company)} · ${escapeHtml(job.location)}</p>
+        </div>
+      `).join('')}
+      <p style="margin-top: 20px;"><a href="${searchUrl}" style="color: #2563eb;">See all matching jobs</a></p>
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0;">
+        <p style="font-size: 12px; color: #999;">You are receiving this because you created a job alert on JobPortal. <a href="${unsubscribeUrl}" style="color: #999;">Unsubscribe</a></p>
+        <p style="font-size: 12px; color: #999;">© ${new Date().getFullYear()} JobPortal. All rights reserved.</p>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `${jobs.length} new job${jobs.length === 1 ? '' : 's'} for "${alert.name}"`,
+    text,
+    html,
+    // Lets mail clients offer one-click unsubscribe (RFC 8058)
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    }
+  });
+}
+
+/**
+ * Send digests for every active alert that is due. Each alert covers the
+ * jobs created since its previous run.
+ */
+export async function runJobAlerts(now = new Date()): Promise<number> {
+  let sent = 0;
+
+  for (const frequency of ALERT_FREQUENCIES) {
+    const dueBefore = new Date(now.getTime() - FREQUENCY_INTERVALS[frequency]);
+    const alerts = await collections.jobAlerts
+      .find({ status: 'active', frequency, lastRunAt: { $lte: dueBefore } })
+      .toArray();
+
+    for (const alert of alerts) {
+      try {
+        const jobs = await findAlertMatches(alert, alert.lastRunAt);
+        const user = jobs.length > 0
+          ? await collections.users.findOne({ _id: alert.userId }, { projection: { email: 1 } })
+          : null;
+
+        const delivered = !!user?.email && await sendAlertDigest(alert, user.email, jobs);
+        if (delivered) sent++;
+
+        await collections.jobAlerts.updateOne(
+          { _id: alert._id },
+          { $set: { lastRunAt: now, ...(delivered ? { lastSentAt: now } : {}) } }
+        );
+      } catch (error) {
+        console.error(`Error running job alert ${alert._id}:`, error);
+      }
+    }
+  }
+
+  return sent;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Check for due job alerts every hour
+ */
+export function startJobAlertScheduler() {
+  if (schedulerTimer) return;
+
+  const run = () => {
+    runJobAlerts()
+      .then(sent => {
+        if (sent > 0) console.log(`Sent ${sent} job alert digest(s)`);
+      })
+      .catch(error => console.error('Error running job alerts:', error));
+  };
+
+  schedulerTimer = setInterval(run, SCHEDULER_INTERVAL);
+  schedulerTimer.unref();
+  run();
+}
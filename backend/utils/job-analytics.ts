@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { MongoBulkWriteError, ObjectId, WriteError } from 'mongodb';
+import { Job, JobEventSession, JobEventType, JobStatsDaily } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+
+type FunnelCounts = Pick<JobStatsDaily, 'impressions' | 'views' | 'applyClicks' | 'applications'>;
+
+// Rollup counter incremented by each event type
+const EVENT_COUNTERS: Record<JobEventType, keyof FunnelCounts> = {
+  impression: 'impressions',
+  view: 'views',
+  apply_click: 'applyClicks',
+  application: 'applications'
+};
+
+const DUPLICATE_KEY_ERROR = 11000;
+const DEFAULT_ANALYTICS_DAYS = 30;
+const MAX_ANALYTICS_DAYS = 365;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC calendar day used to key the daily rollups
+ */
+export function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const emptyCounts = (): FunnelCounts => ({ impressions: 0, views: 0, applyClicks: 0, applications: 0 });
+
+/**
+ * The visitor's analytics ID: the user for signed-in visitors, otherwise a
+ * hash of their IP address and browser. Nothing is stored on the session, so
+ * signed-out visitors don't each get one saved.
+ */
+export function getAnalyticsSessionId(req: Request): string {
+  if (req.user?._id) {
+    return `user:${req.user._id.toString()}`;
+  }
+  const fingerprint = `${req.ip || ''}|${req.get('user-agent') || ''}`;
+  return `anon:${crypto.createHash('sha256').update(fingerprint).digest('hex')}`;
+}
+
+/**
+ * Mark the session as counted for each job today, returning the jobs it had
+ * not been counted for yet
+ */
+export async function markFirstInSession<T extends Pick<Job, '_id'>>(
+  jobs: T[],
+  type: JobEventSession['type'],
+  sessionId: string,
+  now = new Date()
+): Promise<T[]> {
+  if (jobs.length === 0) return [];
+
+  const day = dayKey(now);
+
+  // The unique index on the markers rejects sessions already counted today
+  try {
+    await collections.jobEventSessions.insertMany(
+      jobs.map(job => ({ jobId: job._id, type, sessionId, day, createdAt: now })),
+      { ordered: false }
+    );
+    return jobs;
+  } catch (error) {
+    if (!(error instanceof MongoBulkWriteError)) throw error;
+    const writeErrors = ([] as WriteError[]).concat(error.writeErrors);
+    if (writeErrors.some(writeError => writeError.code !== DUPLICATE_KEY_ERROR)) throw error;
+    const duplicates = writeErrors.map(writeError => writeError.index);
+    return jobs.filter((_, index) => !duplicates.includes(index));
+  }
+}
+
+/**
+ * Count an event for each job, at most once per session per day
+ */
+export async function recordJobEvents(
+  jobs: Pick<Job, '_id' | 'postedBy'>[],
+  type: JobEventType,
+  sessionId: string,
+  now = new Date()
+): Promise<number> {
+  const counted = await markFirstInSession(jobs, type, sessionId, now);
+  if (counted.length === 0) return 0;
+
+  const day = dayKey(now);
+
+  await collections.jobStatsDaily.bulkWrite(
+    counted.map(job => ({
+      updateOne: {
+        filter: { jobId: job._id, day },
+        update: {
+          $inc: { [EVENT_COUNTERS[type]]: 1 },
+          $setOnInsert: { employerId: job.postedBy }
+        },
+        upsert: true
+      }
+    })),
+    { ordered: false }
+  );
+
+  return counted.length;
+}
+
+/**
+ * Record events in the background so tracking never slows down or fails a
+ * request. Employers looking at their own jobs are not counted.
+ */
+export function trackJobEvents(req: Request, jobs: Pick<Job, '_id' | 'postedBy'>[], type: JobEventType) {
+  const viewerId = req.user?._id;
+  const visitorJobs = viewerId ? jobs.filter(job => !job.postedBy.equals(viewerId)) : jobs;
+  if (visitorJobs.length === 0) return;
+
+  recordJobEvents(visitorJobs, type, getAnalyticsSessionId(req))
+    .catch(error => console.error('Error recording job analytics:', error));
+}
+
+/**
+ * Number of days of analytics to report, from the request's query
+ */
+export function parseAnalyticsDays(value: unknown): number {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1) return DEFAULT_ANALYTICS_DAYS;
+  return Math.min(days, MAX_ANALYTICS_DAYS);
+}
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+/**
+ * Funnel totals, per-job funnels and a daily time series for an employer's
+ * jobs over the last `days` days, including today
+ */
+export async function getEmployerAnalytics(employerId: ObjectId, days: number, now = new Date()) {
+  const since = dayKey(new Date(now.getTime() - (days - 1) * DAY_MS));
+
+  const [rollups, jobs] = await Promise.all([
+    collections.jobStatsDaily.find({ employerId, day: { $gte: since } }).toArray(),
+    collections.jobs
+      .find({ postedBy: employerId }, { projection: { title: 1, status: 1, createdAt: 1 } })
+      .sort({ createdAt: -1 })
+      .toArray()
+  ]);
+
+  const totals = emptyCounts();
+  const byJob: Record<string, FunnelCounts> = {};
+  const byDay: Record<string, FunnelCounts> = {};
+
+  rollups.forEach(rollup => {
+    const jobCounts = byJob[rollup.jobId.toString()] = byJob[rollup.jobId.toString()] || emptyCounts();
+    const dayCounts = byDay[rollup.day] = byDay[rollup.day] || emptyCounts();
+    (Object.keys(totals) as (keyof FunnelCounts)[]).forEach(counter => {
+      const count = rollup[counter] || 0;
+      totals[counter] += count;
+      jobCounts[counter] += count;
+      dayCounts[counter] += count;
+    });
+  });
+
+  // Every day in the range, so charts show quiet days as zero
+  const series = Array.from({ length: days }, (_, index) => {
+    const date = dayKey(new Date(now.getTime() - (days - 1 - index) * DAY_MS));
+    return { date, ...(byDay[date] || emptyCounts()) };
+  });
+
+  const funnel = (counts: FunnelCounts) => ({
+    ...counts,
+    // Share of each step that went on to the next one, as a percentage
+    viewRate: rate(counts.views, counts.impressions),
+    applyClickRate: rate(counts.applyClicks, counts.views),
+    completionRate: rate(counts.applications, counts.applyClicks)
+  });
+
+  return {
+    days,
+    totals: funnel(totals),
+    jobs: jobs.map(job => ({
+      jobId: job._id,
+      title: job.title,
+      status: job.status,
+      ...funnel(byJob[job._id.toString()] || emptyCounts())
+    })),
+    series
+  };
+}
+
+/**
+ * Unique detail-page views of an employer's jobs, all time
+ */
+export async function getEmployerListingViews(employerId: ObjectId): Promise<number> {
+  const [result] = await collections.jobStatsDaily.aggregate<{ views: number }>([
+    { $match: { employerId } },
+    { $group: { _id: null, views: { $sum: '$views' } } }
+  ]).toArray();
+  return result?.views || 0;
+}
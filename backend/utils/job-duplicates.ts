@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { Job } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { normalizeText } from './job-risk';
+import { recordJobEdit } from './job-revisions';
+import { DAY_MS } from './job-analytics';
+
+// Descriptions sharing at least this share of their phrases are the same opening
+export const DESCRIPTION_SIMILARITY_THRESHOLD = 0.8;
+
+// Words per phrase when comparing descriptions
+const SHINGLE_SIZE = 3;
+
+// How often an employer can move a posting back to the top of the listings
+export const JOB_REFRESH_INTERVAL_DAYS = 7;
+
+// A new job is only a repost of postings that are still open
+const OPEN_STATUSES: Job['status'][] = ['active', 'scheduled', 'pending'];
+
+const DEFAULT_OFFENDERS_LIMIT = 20;
+
+export type DuplicateCheckedJob = Pick<Job, 'title' | 'company' | 'location' | 'description'>;
+
+export type DuplicateJob = Job & { similarity: number };
+
+/**
+ * Fingerprint of the opening a job is for, ignoring case, spacing and punctuation
+ */
+export function getDuplicateKey(job: Pick<Job, 'title' | 'company' | 'location'>): string {
+  const opening = [job.title, job.company, job.location].map(normalizeText).join('|');
+  return crypto.createHash('sha1').update(opening).digest('hex');
+}
+
+function shingles(text: string): Set<string> {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  if (words.length <= SHINGLE_SIZE) {
+    return new Set(words.length > 0 ? [words.join(' ')] : []);
+  }
+
+  const phrases = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    phrases.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return phrases;
+}
+
+/**
+ * Jaccard similarity of two descriptions' three-word phrases, from 0 to 1
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = shingles(a);
+  const right = shingles(b);
+  if (left.size === 0 && right.size === 0) return 1;
+
+  let shared = 0;
+  left.forEach(phrase => {
+    if (right.has(phrase)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * The employer's open posting that is most likely the same opening as this job
+ */
+export async function findDuplicateJob(
+  job: DuplicateCheckedJob,
+  employerId: ObjectId,
+  excludeId?: ObjectId
+): Promise<DuplicateJob | null> {
+  const filter: Record<string, any> = {
+    postedBy: employerId,
+    duplicateKey: getDuplicateKey(job),
+    status: { $in: OPEN_STATUSES }
+  };
+  if (excludeId) filter._id = { $ne: excludeId };
+
+  const candidates = await collections.jobs.find(filter).sort({ createdAt: 1 }).toArray();
+
+  let best: DuplicateJob | null = null;
+  candidates.forEach(candidate => {
+    const similarity = descriptionSimilarity(job.description, candidate.description);
+    if (similarity >= DESCRIPTION_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { ...candidate, similarity };
+    }
+  });
+  return best;
+}
+
+/**
+ * Reposts share the group of the first posting, so listings can show one per opening
+ */
+export function getDuplicateGroupId(duplicate: Pick<Job, '_id' | 'duplicateGroupId'> | null): ObjectId | null {
+  return duplicate ? duplicate.duplicateGroupId || duplicate._id : null;
+}
+
+/**
+ * Aggregation stages that keep one posting per opening: the first in the
+ * current order, with the number of reposts it stands for
+ */
+export function collapseDuplicatePostings(): Record<string, any>[] {
+  return [
+    {
+      $group: {
+        _id: { $ifNull: ['$duplicateGroupId', '$_id'] },
+        job: { $first: '$$ROOT' },
+        postings: { $sum: 1 }
+      }
+    },
+    { $replaceRoot: { newRoot: { $mergeObjects: ['$job', { duplicateCount: { $subtract: ['$postings', 1] } }] } } }
+  ];
+}
+
+/**
+ * Summary of a matching posting the employer can refresh instead of reposting
+ */
+export function describeDuplicate(duplicate: DuplicateJob) {
+  return {
+    _id: duplicate._id,
+    title: duplicate.title,
+    company: duplicate.company,
+    location: duplicate.location,
+    status: duplicate.status,
+    createdAt: duplicate.createdAt,
+    similarity: Math.round(duplicate.similarity * 100),
+    refreshableAt: getRefreshableAt(duplicate)
+  };
+}
+
+/**
+ * When a posting can next be moved back to the top of the listings
+ */
+export function getRefreshableAt(job: Pick<Job, 'createdAt'>): Date {
+  return new Date(new Date(job.createdAt).getTime() + JOB_REFRESH_INTERVAL_DAYS * DAY_MS);
+}
+
+/**
+ * Move a posting back to the top of the listings as if it was just posted,
+ * keeping its applications and history
+ */
+export async function refreshJob(job: Job, refreshedBy: ObjectId, now = new Date()): Promise<Date> {
+  await recordJobEdit(job, {
+    createdAt: now,
+    updatedAt: now,
+    refreshedAt: now,
+    firstPostedAt: job.firstPostedAt || job.createdAt,
+    expiryReminderSentAt: null
+  }, refreshedBy, { now });
+  return now;
+}
+
+/**
+ * Employers with the most reposts of the same openings, with their worst openings
+ */
+export async function getDuplicateOffenders(limit = DEFAULT_OFFENDERS_LIMIT) {
+  return collections.jobs.aggregate([
+    { $match: { duplicateGroupId: { $ne: null } } },
+    {
+      $group: {
+        _id: { employerId: '$postedBy', groupId: '$duplicateGroupId' },
+        title: { $first: '$title' },
+        location: { $first: '$location' },
+        reposts: { $sum: 1 },
+        openReposts: { $sum: { $cond: [{ $eq: ['$status', 'active'] }, 1, 0] } },
+        lastRepostedAt: { $max: '$createdAt' }
+      }
+    },
+    { $sort: { reposts: -1 } },
+    {
+      $group: {
+        _id: '$_id.employerId',
+        reposts: { $sum: '$reposts' },
+        openReposts: { $sum: '$openReposts' },
+        repostedOpenings: { $sum: 1 },
+        lastRepostedAt: { $max: '$lastRepostedAt' },
+        openings: {
+          $push: { groupId: '$_id.groupId', title: '$title', location: '$location', reposts: '$reposts' }
+        }
+      }
+    },
+    { $sort: { reposts: -1, lastRepostedAt: -1 } },
+    { $limit: limit },
+    {
+      $lookup: {
+        from: 'users',
+        localField: '_id',
+        foreignField: '_id',
+        as: 'employer'
+      }
+    },
+    { $unwind: { path: '$employer', preserveNullAndEmptyArrays: true } },
+    {
+      $project: {
+        _id: 0,
+        employerId: '$_id',
+        reposts: 1,
+        openReposts: 1,
+        repostedOpenings: 1,
+        lastRepostedAt: 1,
+        openings: { $slice: ['$openings', 5] },
+        'employer.name': 1,
+        'employer.email': 1,
+        'employer.company': 1
+      }
+    }
+  ]).toArray();
+}
+
+/**
+ * Group reposts among jobs posted before duplicate detection, oldest first so
+ * the original posting of each opening leads its group
+ */
+export async function backfillDuplicateGroups(): Promise<number> {
+  try {
+    const jobs = await collections.jobs.find(
+      { duplicateKey: { $exists: false } },
+      { projection: { title: 1, company: 1, location: 1, description: 1, postedBy: 1 } }
+    ).sort({ createdAt: 1 }).toArray();
+
+    let grouped = 0;
+    for (const job of jobs) {
+      const duplicate = await findDuplicateJob(job, job.postedBy, job._id);
+      const duplicateGroupId = getDuplicateGroupId(duplicate);
+      await collections.jobs.updateOne(
+        { _id: job._id },
+        { $set: { duplicateKey: getDuplicateKey(job), duplicateGroupId } }
+      );
+      if (duplicateGroupId) grouped++;
+    }
+
+    return grouped;
+  } catch (error) {
+    console.error('Error grouping duplicate jobs:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,244 @@
+import { ObjectId } from 'mongodb';
+import { Job, JobClosedReason, JobRenewal } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { sendEmail } from './otp';
+import { escapeHtml, appUrl } from './job-alerts';
+import { recordJobEdit } from './job-revisions';
+import { DAY_MS } from './job-analytics';
+
+// How long a renewal keeps a job open
+export const JOB_RENEWAL_DAYS = 30;
+
+// Jobs that closed on their own can be renewed; ones taken down by a
+// moderator (or closed for a reason we don't know) stay closed
+export const RENEWABLE_CLOSED_REASONS: JobClosedReason[] = ['deadline', 'inactive'];
+
+// How often the scheduler closes expired jobs and sends reminders
+const SCHEDULER_INTERVAL = 60 * 60 * 1000;
+
+// Jobs without a deadline close after this many days without an edit or
+// an application
+export function getInactivityDays(): number {
+  const days = parseInt(process.env.JOB_INACTIVITY_DAYS || '', 10);
+  return days > 0 ? days : 60;
+}
+
+// Employers are emailed this many days before their job expires
+export function getReminderDays(): number {
+  const days = parseInt(process.env.JOB_EXPIRY_REMINDER_DAYS || '', 10);
+  return days > 0 ? days : 3;
+}
+
+type ExpiringJob = Pick<Job, 'deadline' | 'lastActivityAt' | 'updatedAt' | 'createdAt'>;
+
+// A deadline given as a date without a time is stored as midnight UTC
+const isDateOnly = (deadline: Date) => deadline.getTime() % DAY_MS === 0;
+
+/**
+ * When a deadline passes: a date-only deadline still accepts applications
+ * for the whole of that day
+ */
+export function getDeadlineEnd(deadline: Date | string): Date {
+  const date = new Date(deadline);
+  return isDateOnly(date) ? new Date(date.getTime() + DAY_MS) : date;
+}
+
+/**
+ * When a job stops accepting applications: the end of its deadline if it
+ * has one, otherwise the inactivity period after its last edit or application
+ */
+export function getJobExpiryDate(job: ExpiringJob): Date {
+  if (job.deadline) {
+    return getDeadlineEnd(job.deadline);
+  }
+  const lastActivity = Math.max(
+    new Date(job.updatedAt || job.createdAt).getTime(),
+    job.lastActivityAt ? new Date(job.lastActivityAt).getTime() : 0
+  );
+  return new Date(lastActivity + getInactivityDays() * DAY_MS);
+}
+
+export function isPastDeadline(job: Pick<Job, 'deadline'>, now = new Date()): boolean {
+  return !!job.deadline && getDeadlineEnd(job.deadline).getTime() < now.getTime();
+}
+
+// Filter for jobs without a deadline whose last activity was before `cutoff`
+function inactiveSince(cutoff: Date): Record<string, any> {
+  return {
+    deadline: null,
+    updatedAt: { $lte: cutoff },
+    lastActivityAt: { $not: { $gt: cutoff } }
+  };
+}
+
+/**
+ * Close active jobs that are past their deadline or have been inactive
+ * for too long
+ */
+export async function expireJobs(now = new Date()): Promise<number> {
+  const closeAs = (closedReason: Job['closedReason']) => ({
+    $set: { status: 'closed' as const, closedReason, closedAt: now, updatedAt: now }
+  });
+
+  // Date-only deadlines close a day after the midnight they are stored as
+  const pastDeadline: Record<string, any> = {
+    status: 'active',
+    deadline: { $lt: now },
+    $or: [
+      { deadline: { $lt: new Date(now.getTime() - DAY_MS) } },
+      { $expr: { $ne: [{ $mod: [{ $toLong: '$deadline' }, DAY_MS] }, 0] } }
+    ]
+  };
+  const deadlineResult = await collections.jobs.updateMany(pastDeadline, closeAs('deadline'));
+
+  const inactive: Record<string, any> = { status: 'active', ...inactiveSince(new Date(now.getTime() - getInactivityDays() * DAY_MS)) };
+  const inactiveResult = await collections.jobs.updateMany(inactive, closeAs('inactive'));
+
+  return deadlineResult.modifiedCount + inactiveResult.modifiedCount;
+}
+
+// Email the employer that a job is about to expire
+async function sendExpiryReminder(job: Job, email: string): Promise<boolean> {
+  const expiresAt = getJobExpiryDate(job);
+  const daysLeft = Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / DAY_MS));
+  const when = `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+  const dashboardUrl = `${appUrl()}/dashboard`;
+  const why = job.deadline
+    ? `its application deadline is ${expiresAt.toDateString()}`
+    : `it has had no new applications or edits in a while`;
+
+  const text = [
+    `Your job "${job.title}" will close ${when} because ${why}.`,
+    '',
+    `To keep receiving applications, renew it for another ${JOB_RENEWAL_DAYS} days from your dashboard:`,
+    dashboardUrl
+  ].join('\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
+      <h2 style="color: #333;">Your job listing is about to expire</h2>
+      <p style="font-size: 16px; color: #555;"><strong>${escapeHtml(job.title)}</strong> will close ${when} because ${why}.</p>
+      <p style="font-size: 16px; color: #555;">To keep receiving applications, renew it for another ${JOB_RENEWAL_DAYS} days.</p>
+      <p style="margin-top: 20px;"><a href="${dashboardUrl}" style="color: #2563eb;">Go to your dashboard</a></p>
+      <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0;">
+        <p style="font-size: 12px; color: #999;">© ${new Date().getFullYear()} JobPortal. All rights reserved.</p>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `"${job.title}" closes ${when}`,
+    text,
+    html
+  });
+}
+
+/**
+ * Warn employers about active jobs that will expire within the reminder
+ * window. Each job is only reminded once per expiry date.
+ */
+export async function sendExpiryReminders(now = new Date()): Promise<number> {
+  const reminderWindow = getReminderDays() * DAY_MS;
+  const inactivityCutoff = new Date(now.getTime() + reminderWindow - getInactivityDays() * DAY_MS);
+
+  const expiringSoon: Record<string, any> = {
+    status: 'active',
+    expiryReminderSentAt: null,
+    $or: [
+      // Date-only deadlines run to the end of the day; jobs past any other
+      // deadline were closed by expireJobs already
+      { deadline: { $gte: new Date(now.getTime() - DAY_MS), $lte: new Date(now.getTime() + reminderWindow) } },
+      inactiveSince(inactivityCutoff)
+    ]
+  };
+
+  const jobs = await collections.jobs.find(expiringSoon).toArray();
+  let sent = 0;
+
+  for (const job of jobs) {
+    try {
+      const employer = await collections.users.findOne({ _id: job.postedBy }, { projection: { email: 1 } });
+      const delivered = !!employer?.email && await sendExpiryReminder(job, employer.email);
+      if (delivered) sent++;
+
+      // Marked even when the email fails so a broken address isn't retried hourly
+      await collections.jobs.updateOne({ _id: job._id }, { $set: { expiryReminderSentAt: now } });
+    } catch (error) {
+      console.error(`Error sending expiry reminder for job ${job._id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+export function canRenewJob(job: Pick<Job, 'status' | 'closedReason'>): boolean {
+  return job.status !== 'closed' || (!!job.closedReason && RENEWABLE_CLOSED_REASONS.includes(job.closedReason));
+}
+
+/**
+ * Extend a job by JOB_RENEWAL_DAYS and reopen it if it had expired. The
+ * extension starts from the current deadline when that is still ahead.
+ * Callers check canRenewJob first.
+ */
+export async function renewJob(job: Job, renewedBy: ObjectId, now = new Date()): Promise<JobRenewal> {
+  const currentExpiry = job.status === 'active' ? getJobExpiryDate(job) : now;
+  const from = Math.max(now.getTime(), currentExpiry.getTime());
+
+  const renewal: JobRenewal = {
+    renewedAt: now,
+    renewedBy,
+    previousDeadline: job.deadline || null,
+    newDeadline: new Date(from + JOB_RENEWAL_DAYS * DAY_MS),
+    previousStatus: job.status
+  };
+
+  const update: Record<string, any> = {
+    deadline: renewal.newDeadline,
+    expiryReminderSentAt: null,
+    updatedAt: now
+  };
+
+  // Pending and flagged jobs keep waiting for review
+  if (job.status === 'closed' && canRenewJob(job)) {
+    update.status = 'active';
+    update.closedAt = null;
+    update.closedReason = null;
+  }
+
+  // The new deadline is kept as a version of the posting like any edit
+  await recordJobEdit(job, update, renewedBy, { push: { renewals: renewal }, now });
+
+  return renewal;
+}
+
+/**
+ * Close expired jobs, then remind employers about the ones expiring soon
+ */
+export async function runJobExpiry(now = new Date()) {
+  const closed = await expireJobs(now);
+  const reminded = await sendExpiryReminders(now);
+  return { closed, reminded };
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Check for expired and expiring jobs every hour
+ */
+export function startJobExpiryScheduler() {
+  if (schedulerTimer) return;
+
+  const run = () => {
+    runJobExpiry()
+      .then(({ closed, reminded }) => {
+        if (closed > 0) console.log(`Closed ${closed} expired job(s)`);
+        if (reminded > 0) console.log(`Sent ${reminded} job expiry reminder(s)`);
+      })
+      .catch(error => console.error('Error running job expiry:', error));
+  };
+
+  schedulerTimer = setInterval(run, SCHEDULER_INTERVAL);
+  schedulerTimer.unref();
+  run();
+}
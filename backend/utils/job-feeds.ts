@@ -0,0 +1,332 @@
+import { Job, Company, SalaryPeriod } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { geocodeLocation, isRemoteLocation } from './geocode';
+import { getJobExpiryDate } from './job-expiry';
+import { appUrl } from './job-alerts';
+
+const SITE_NAME = 'JobPortal';
+
+// Most jobs in the aggregator feed, newest first
+export const MAX_AGGREGATOR_FEED_JOBS = 5000;
+
+// Most jobs in a search's RSS or Atom feed
+export const MAX_SEARCH_FEED_JOBS = 50;
+
+export const getJobUrl = (job: Pick<Job, '_id'>) => `${appUrl()}/jobs/${job._id}`;
+
+// Pages listed in the sitemap besides jobs and companies
+const STATIC_PAGES = ['/', '/jobs', '/companies', '/services'];
+
+const EMPLOYMENT_TYPES: Record<Job['type'], string> = {
+  'full-time': 'FULL_TIME',
+  'part-time': 'PART_TIME',
+  contract: 'CONTRACTOR',
+  internship: 'INTERN',
+  temporary: 'TEMPORARY',
+  volunteer: 'VOLUNTEER'
+};
+
+const SALARY_UNITS: Record<SalaryPeriod, string> = {
+  hourly: 'HOUR',
+  daily: 'DAY',
+  weekly: 'WEEK',
+  monthly: 'MONTH',
+  annual: 'YEAR'
+};
+
+const SALARY_PERIOD_NAMES: Record<SalaryPeriod, string> = {
+  hourly: 'hour',
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  annual: 'year'
+};
+
+// Gazetteer countries as ISO 3166 codes, which search engines expect
+const COUNTRY_CODES: Record<string, string> = {
+  India: 'IN',
+  Australia: 'AU',
+  Bangladesh: 'BD',
+  Canada: 'CA',
+  Germany: 'DE',
+  Nepal: 'NP',
+  Singapore: 'SG',
+  'Sri Lanka': 'LK',
+  'United Arab Emirates': 'AE',
+  'United Kingdom': 'GB',
+  'United States': 'US'
+};
+
+// Fields the feeds need; nothing private to the employer
+const FEED_JOB_PROJECTION = {
+  title: 1,
+  company: 1,
+  description: 1,
+  location: 1,
+  type: 1,
+  workMode: 1,
+  salary: 1,
+  salaryRange: 1,
+  experienceLevel: 1,
+  skills: 1,
+  deadline: 1,
+  lastActivityAt: 1,
+  createdAt: 1,
+  updatedAt: 1
+};
+
+export type FeedJob = Pick<
+  Job,
+  '_id' | 'title' | 'company' | 'description' | 'location' | 'type' | 'workMode' | 'salary' | 'salaryRange' |
+  'experienceLevel' | 'skills' | 'deadline' | 'lastActivityAt' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Newest active jobs matching a filter, for a feed
+ */
+export async function getFeedJobs(filter: Record<string, any>, limit: number): Promise<FeedJob[]> {
+  return collections.jobs
+    .find<FeedJob>({ ...filter, status: 'active' }, { projection: FEED_JOB_PROJECTION })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Wrap text in a CDATA section, splitting any "]]>" it contains
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function jobAddress(job: Pick<Job, 'location'>) {
+  const geocoded = geocodeLocation(job.location);
+  return {
+    city: geocoded?.city.name || job.location,
+    state: geocoded?.city.state || '',
+    country: geocoded ? COUNTRY_CODES[geocoded.city.country] || geocoded.city.country : ''
+  };
+}
+
+const isRemoteJob = (job: Pick<Job, 'workMode' | 'location'>) => job.workMode === 'remote' || isRemoteLocation(job.location);
+
+/**
+ * Pay as one line of text, e.g. "INR 500000 - 800000 per year"
+ */
+export function formatFeedSalary(job: Pick<Job, 'salary' | 'salaryRange'>): string {
+  const range = job.salaryRange;
+  if (range && (range.min !== undefined || range.max !== undefined)) {
+    const amounts = [range.min, range.max].filter(amount => amount !== undefined).join(' - ');
+    return `${range.currency} ${amounts} per ${SALARY_PERIOD_NAMES[range.period]}`;
+  }
+  return job.salary || '';
+}
+
+/**
+ * schema.org JobPosting for a job, for search engines to list it in their
+ * job results
+ */
+export function buildJobPostingSchema(job: FeedJob): Record<string, unknown> {
+  const address = jobAddress(job);
+  const range = job.salaryRange;
+  const hasSalary = !!range && (range.min !== undefined || range.max !== undefined);
+
+  return {
+    '@context': 'https://schema.org/',
+    '@type': 'JobPosting',
+    title: job.title,
+    // Descriptions are plain text; keep their line breaks
+    description: escapeXml(job.description).replace(/\r?\n/g, '<br>'),
+    identifier: {
+      '@type': 'PropertyValue',
+      name: job.company,
+      value: job._id.toString()
+    },
+    datePosted: new Date(job.createdAt).toISOString(),
+    validThrough: getJobExpiryDate(job).toISOString(),
+    employmentType: EMPLOYMENT_TYPES[job.type] || 'OTHER',
+    hiringOrganization: {
+      '@type': 'Organization',
+      name: job.company
+    },
+    jobLocation: {
+      '@type': 'Place',
+      address: {
+        '@type': 'PostalAddress',
+        addressLocality: address.city,
+        ...(address.state ? { addressRegion: address.state } : {}),
+        ...(address.country ? { addressCountry: address.country } : {})
+      }
+    },
+    ...(isRemoteJob(job)
+      ? {
+          jobLocationType: 'TELECOMMUTE',
+          ...(address.country ? { applicantLocationRequirements: { '@type': 'Country', name: address.country } } : {})
+        }
+      : {}),
+    ...(hasSalary && range
+      ? {
+          baseSalary: {
+            '@type': 'MonetaryAmount',
+            currency: range.currency,
+            value: {
+              '@type': 'QuantitativeValue',
+              ...(range.min !== undefined ? { minValue: range.min } : {}),
+              ...(range.max !== undefined ? { maxValue: range.max } : {}),
+              ...(range.min !== undefined && range.min === range.max ? { value: range.min } : {}),
+              unitText: SALARY_UNITS[range.period]
+            }
+          }
+        }
+      : {}),
+    ...(job.skills?.length ? { skills: job.skills.join(', ') } : {}),
+    directApply: true,
+    url: getJobUrl(job)
+  };
+}
+
+/**
+ * Every active job in the XML format job aggregators crawl
+ */
+export function buildAggregatorFeed(jobs: FeedJob[], now = new Date()): string {
+  const items = jobs.map(job => {
+    const address = jobAddress(job);
+    return [
+      '  <job>',
+      `    <title>${cdata(job.title)}</title>`,
+      `    <date>${cdata(new Date(job.createdAt).toUTCString())}</date>`,
+      `    <referencenumber>${cdata(job._id.toString())}</referencenumber>`,
+      `    <url>${cdata(getJobUrl(job))}</url>`,
+      `    <company>${cdata(job.company)}</company>`,
+      `    <city>${cdata(address.city)}</city>`,
+      `    <state>${cdata(address.state)}</state>`,
+      `    <country>${cdata(address.country)}</country>`,
+      `    <description>${cdata(job.description)}</description>`,
+      `    <salary>${cdata(formatFeedSalary(job))}</salary>`,
+      `    <jobtype>${cdata(job.type)}</jobtype>`,
+      `    <experience>${cdata(job.experienceLevel)}</experience>`,
+      `    <expirationdate>${cdata(getJobExpiryDate(job).toUTCString())}</expirationdate>`,
+      ...(job.workMode === 'remote' ? [`    <remotetype>${cdata('Fully remote')}</remotetype>`] : []),
+      ...(job.workMode === 'hybrid' ? [`    <remotetype>${cdata('Hybrid remote')}</remotetype>`] : []),
+      '  </job>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<source>',
+    `  <publisher>${SITE_NAME}</publisher>`,
+    `  <publisherurl>${escapeXml(appUrl())}</publisherurl>`,
+    `  <lastBuildDate>${now.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '</source>'
+  ].join('\n');
+}
+
+export interface SearchFeedInfo {
+  title: string;
+  // Search results page the feed mirrors
+  link: string;
+  // The feed's own address
+  selfUrl: string;
+}
+
+/**
+ * Jobs matching a search as an RSS 2.0 feed
+ */
+export function buildRssFeed(jobs: FeedJob[], feed: SearchFeedInfo, now = new Date()): string {
+  const items = jobs.map(job => [
+    '    <item>',
+    `      <title>${escapeXml(`${job.title} at ${job.company} (${job.location})`)}</title>`,
+    `      <link>${escapeXml(getJobUrl(job))}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(getJobUrl(job))}</guid>`,
+    `      <pubDate>${new Date(job.createdAt).toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(job.description)}</description>`,
+    '    </item>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <description>${escapeXml(`${feed.title} on ${SITE_NAME}`)}</description>`,
+    `    <lastBuildDate>${now.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>'
+  ].join('\n');
+}
+
+/**
+ * Jobs matching a search as an Atom feed
+ */
+export function buildAtomFeed(jobs: FeedJob[], feed: SearchFeedInfo, now = new Date()): string {
+  const updated = jobs.length > 0 ? new Date(jobs[0].createdAt) : now;
+  const entries = jobs.map(job => [
+    '  <entry>',
+    `    <title>${escapeXml(`${job.title} at ${job.company} (${job.location})`)}</title>`,
+    `    <link href="${escapeXml(getJobUrl(job))}" />`,
+    `    <id>${escapeXml(getJobUrl(job))}</id>`,
+    `    <published>${new Date(job.createdAt).toISOString()}</published>`,
+    `    <updated>${new Date(job.updatedAt || job.createdAt).toISOString()}</updated>`,
+    `    <author><name>${escapeXml(job.company)}</name></author>`,
+    `    <summary>${escapeXml(job.description)}</summary>`,
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <link href="${escapeXml(feed.link)}" />`,
+    `  <link href="${escapeXml(feed.selfUrl)}" rel="self" />`,
+    `  <id>${escapeXml(feed.selfUrl)}</id>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>'
+  ].join('\n');
+}
+
+/**
+ * Sitemap of the site's pages, active jobs and companies. It is built on
+ * each request, so jobs drop out as soon as they close.
+ */
+export async function buildSitemap(): Promise<string> {
+  const [jobs, companies] = await Promise.all([
+    collections.jobs
+      .find<Pick<Job, '_id' | 'updatedAt' | 'createdAt'>>({ status: 'active' }, { projection: { updatedAt: 1, createdAt: 1 } })
+      .sort({ createdAt: -1 })
+      .limit(MAX_AGGREGATOR_FEED_JOBS)
+      .toArray(),
+    collections.companies
+      .find<Pick<Company, '_id' | 'updatedAt'>>({}, { projection: { updatedAt: 1 } })
+      .toArray()
+  ]);
+
+  const url = (loc: string, lastmod?: Date, changefreq?: string) => [
+    '  <url>',
+    `    <loc>${escapeXml(loc)}</loc>`,
+    ...(lastmod ? [`    <lastmod>${new Date(lastmod).toISOString()}</lastmod>`] : []),
+    ...(changefreq ? [`    <changefreq>${changefreq}</changefreq>`] : []),
+    '  </url>'
+  ].join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...STATIC_PAGES.map(page => url(`${appUrl()}${page === '/' ? '' : page}`, undefined, 'daily')),
+    ...jobs.map(job => url(getJobUrl(job), job.updatedAt || job.createdAt, 'weekly')),
+    ...companies.map(company => url(`${appUrl()}/companies/${company._id}`, company.updatedAt, 'monthly')),
+    '</urlset>'
+  ].join('\n');
+}
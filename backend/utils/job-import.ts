@@ -0,0 +1,538 @@
+import multer from 'multer';
+import path from 'path';
+import { Request } from 'express';
+import { ObjectId } from 'mongodb';
+import { Job, User } from '@shared/mongodb-types';
+import { jobSchema, jobUpdateSchema, JobInput } from '@shared/job-schema';
+import { collections } from '../mongodb';
+import { prepareNewJob, saveNewJob, prepareJobUpdate, saveJobUpdate, JobSalaryInputs } from './job-posting';
+
+export const MAX_IMPORT_ROWS = 500;
+const MAX_EXTERNAL_ID_LENGTH = 100;
+
+// Job fields a column can be mapped to. Currency, period and pay type only
+// feed the structured salary, as they do when posting a single job.
+export const JOB_IMPORT_FIELDS = [
+  'externalId',
+  'title',
+  'company',
+  'description',
+  'location',
+  'type',
+  'workMode',
+  'salary',
+  'minSalary',
+  'maxSalary',
+  'currency',
+  'salaryPeriod',
+  'payType',
+  'salaryNegotiable',
+  'supplementalPay',
+  'benefits',
+  'requirements',
+  'additionalQualifications',
+  'experienceLevel',
+  'skills',
+  'preferredSkills',
+  'schedule',
+  'numberOfOpenings',
+  'recruitmentTimeline',
+  'startDate',
+  'deadline',
+  'contactEmail',
+  'allowContact',
+  'emailUpdates',
+  'resumeRequired',
+  'showCompanyDetails',
+  'featured',
+  'urgentlyHiring',
+  'screeningQuestions',
+  'knockoutAction',
+  'reapplyAfterDays',
+  'reapplyAfterRepost'
+] as const;
+
+export type JobImportField = typeof JOB_IMPORT_FIELDS[number];
+
+export type JobImportMapping = Record<string, JobImportField | null>;
+
+const LIST_FIELDS: JobImportField[] = ['supplementalPay', 'benefits', 'skills', 'preferredSkills', 'schedule'];
+
+const BOOLEAN_FIELDS: JobImportField[] = [
+  'salaryNegotiable',
+  'allowContact',
+  'emailUpdates',
+  'resumeRequired',
+  'showCompanyDetails',
+  'featured',
+  'urgentlyHiring',
+  'reapplyAfterRepost'
+];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Other common names for the columns, compared without case, spaces or punctuation
+const COLUMN_ALIASES: Record<string, JobImportField> = {
+  reference: 'externalId',
+  referenceid: 'externalId',
+  ref: 'externalId',
+  jobid: 'externalId',
+  jobreference: 'externalId',
+  requisitionid: 'externalId',
+  reqid: 'externalId',
+  jobtitle: 'title',
+  position: 'title',
+  role: 'title',
+  companyname: 'company',
+  employer: 'company',
+  jobdescription: 'description',
+  joblocation: 'location',
+  city: 'location',
+  jobtype: 'type',
+  employmenttype: 'type',
+  remote: 'workMode',
+  workplacetype: 'workMode',
+  pay: 'salary',
+  compensation: 'salary',
+  salarymin: 'minSalary',
+  minimumsalary: 'minSalary',
+  salarymax: 'maxSalary',
+  maximumsalary: 'maxSalary',
+  salarycurrency: 'currency',
+  payperiod: 'salaryPeriod',
+  negotiable: 'salaryNegotiable',
+  qualifications: 'requirements',
+  experience: 'experienceLevel',
+  seniority: 'experienceLevel',
+  requiredskills: 'skills',
+  shifts: 'schedule',
+  openings: 'numberOfOpenings',
+  vacancies: 'numberOfOpenings',
+  hiringtimeline: 'recruitmentTimeline',
+  applicationdeadline: 'deadline',
+  closingdate: 'deadline',
+  email: 'contactEmail',
+  urgent: 'urgentlyHiring'
+};
+
+const normalizeColumn = (column: string) => column.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Accept CSV and JSON files held in memory, since they are only read once
+const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const ext = path.extname(file.originalname).toLowerCase();
+
+  if (['.csv', '.json'].includes(ext)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only CSV and JSON files can be imported'));
+  }
+};
+
+export const jobImportUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5 MB max file size
+  }
+});
+
+export interface ImportedFile {
+  columns: string[];
+  records: Record<string, unknown>[];
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells containing commas,
+ * line breaks and doubled quotes. Returns an error message for malformed text.
+ */
+export function parseCsv(text: string): string[][] | string {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    return 'The file has a quoted value that is never closed';
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines are not rows
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Read the rows of an uploaded CSV or JSON file. A JSON file holds an array
+ * of jobs, or an object with a "jobs" array. Returns an error message when
+ * the file can't be read.
+ */
+export function parseImportFile(file: Pick<Express.Multer.File, 'originalname' | 'buffer'>): ImportedFile | string {
+  // Drop the byte order mark spreadsheet programs write
+  const text = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+
+  if (path.extname(file.originalname).toLowerCase() === '.json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return 'The file is not valid JSON';
+    }
+
+    const items = Array.isArray(data) ? data : (data as { jobs?: unknown })?.jobs;
+    if (!Array.isArray(items)) {
+      return 'The file must contain a list of jobs';
+    }
+    if (items.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+      return 'Each job in the file must be an object';
+    }
+
+    const records = items as Record<string, unknown>[];
+    const columns: string[] = [];
+    records.forEach(record => {
+      Object.keys(record).forEach(column => {
+        if (!columns.includes(column)) columns.push(column);
+      });
+    });
+    return { columns, records };
+  }
+
+  const rows = parseCsv(text);
+  if (typeof rows === 'string') return rows;
+  if (rows.length === 0) {
+    return 'The file is empty';
+  }
+
+  const columns = rows[0].map(column => column.trim());
+  if (columns.some(column => !column)) {
+    return 'Every column needs a name in the first row';
+  }
+  if (columns.some((column, index) => columns.indexOf(column) !== index)) {
+    return 'Column names in the first row must be unique';
+  }
+
+  const records = rows.slice(1).map(cells => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      record[column] = cells[index] ?? '';
+    });
+    return record;
+  });
+  return { columns, records };
+}
+
+/**
+ * Read the employer's column mapping, sent as JSON text: an object of column
+ * name to job field, or null to skip the column. Returns an error message
+ * for anything else.
+ */
+export function parseColumnMapping(value: unknown): Record<string, string | null> | string {
+  if (value === undefined || value === '') return {};
+  if (typeof value !== 'string') return 'Invalid column mapping';
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return 'Invalid column mapping';
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return 'Column mapping must be an object of column names to job fields';
+  }
+  const mapping = parsed as Record<string, unknown>;
+  if (Object.keys(mapping).some(column => mapping[column] !== null && typeof mapping[column] !== 'string')) {
+    return 'Column mapping must be an object of column names to job fields';
+  }
+  return mapping as Record<string, string | null>;
+}
+
+/**
+ * The job field each column holds, matching names like "Job Title" or
+ * "min_salary". The employer's choices replace the guesses. Returns an error
+ * message for an unknown field or one mapped from two columns.
+ */
+export function resolveColumnMapping(columns: string[], requested: Record<string, unknown> = {}): JobImportMapping | string {
+  const mapping: JobImportMapping = {};
+
+  columns.forEach(column => {
+    const normalized = normalizeColumn(column);
+    const field = JOB_IMPORT_FIELDS.find(candidate => normalizeColumn(candidate) === normalized) || COLUMN_ALIASES[normalized];
+    // A guess only applies to the first column that looks like the field
+    const taken = Object.keys(mapping).some(other => mapping[other] === field);
+    mapping[column] = field && !taken ? field : null;
+  });
+
+  for (const column of Object.keys(requested)) {
+    const field = requested[column];
+    if (!columns.includes(column)) {
+      return `The file has no column named "${column}"`;
+    }
+    if (field !== null && !JOB_IMPORT_FIELDS.includes(field as JobImportField)) {
+      return `"${column}" is mapped to an unknown field`;
+    }
+    // Moving a field to another column unmaps it from the guessed one
+    columns.forEach(other => {
+      if (field !== null && mapping[other] === field) mapping[other] = null;
+    });
+    mapping[column] = field as JobImportField | null;
+  }
+
+  return mapping;
+}
+
+// Turn a spreadsheet cell into the value the job schema expects. Values from
+// JSON files that are already lists, numbers or booleans are kept as they are.
+function coerceCell(field: JobImportField, value: unknown): unknown {
+  if (typeof value !== 'string') return value ?? undefined;
+
+  const text = value.trim();
+  if (!text) return undefined;
+
+  if (LIST_FIELDS.includes(field)) {
+    // Lists are separated by semicolons or pipes, or commas when neither is used
+    const separator = /[;|\n]/.test(text) ? /[;|\n]/ : /,/;
+    return text.split(separator).map(item => item.trim()).filter(Boolean);
+  }
+  if (BOOLEAN_FIELDS.includes(field)) {
+    const answer = text.toLowerCase();
+    if (TRUE_VALUES.includes(answer)) return true;
+    if (FALSE_VALUES.includes(answer)) return false;
+    return text;
+  }
+  if (field === 'screeningQuestions') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * The job fields in one row of the file. Empty cells are left out.
+ */
+export function mapImportRecord(record: Record<string, unknown>, mapping: JobImportMapping): Partial<Record<JobImportField, unknown>> {
+  const fields: Partial<Record<JobImportField, unknown>> = {};
+  Object.keys(mapping).forEach(column => {
+    const field = mapping[column];
+    if (!field) return;
+    const value = coerceCell(field, record[column]);
+    if (value !== undefined) fields[field] = value;
+  });
+  return fields;
+}
+
+export interface JobImportRowResult {
+  // Position of the job in the file, counting from 1 after the header row
+  row: number;
+  externalId: string | null;
+  title: string | null;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  errors: string[];
+  warnings: string[];
+  jobId?: ObjectId;
+  status?: Job['status'];
+}
+
+export interface JobImportReport {
+  dryRun: boolean;
+  columns: string[];
+  mapping: JobImportMapping;
+  fields: readonly JobImportField[];
+  rows: JobImportRowResult[];
+  summary: Record<JobImportRowResult['action'], number> & { total: number; held: number };
+}
+
+type ImportingEmployer = Pick<User, '_id' | 'company' | 'isApproved' | 'createdAt' | 'emailVerified' | 'phoneVerified'>;
+
+const issueMessages = (error: { errors: { message: string }[] }) => error.errors.map(issue => issue.message);
+
+/**
+ * Create or update a job for each row of an import, matching rows to the
+ * employer's existing jobs by their external reference. Rows are validated
+ * with the same rules as a single posting. A dry run reports what would
+ * happen to each row without saving anything.
+ */
+export async function importJobs(
+  file: ImportedFile,
+  mapping: JobImportMapping,
+  employer: ImportingEmployer,
+  options: { dryRun: boolean; now?: Date }
+): Promise<JobImportReport> {
+  const now = options.now || new Date();
+  const rows = file.records.map(record => mapImportRecord(record, mapping));
+
+  // References in JSON files may be numbers
+  const rowExternalIds = rows.map(fields => (fields.externalId === undefined ? null : String(fields.externalId).trim()));
+  const externalIds = rowExternalIds.filter((externalId): externalId is string => !!externalId);
+  const existingJobs = await collections.jobs
+    .find({ postedBy: employer._id, externalId: { $in: externalIds } })
+    .toArray();
+  const jobsByExternalId: Record<string, Job> = {};
+  existingJobs.forEach(job => {
+    if (job.externalId) jobsByExternalId[job.externalId] = job;
+  });
+
+  const seenIn: Record<string, number> = {};
+  const results: JobImportRowResult[] = [];
+
+  for (let index = 0; index < rows.length; index++) {
+    const { externalId: _externalId, ...fields } = rows[index];
+    const externalId = rowExternalIds[index];
+    const result: JobImportRowResult = {
+      row: index + 1,
+      externalId,
+      title: typeof fields.title === 'string' ? fields.title : null,
+      action: 'error',
+      errors: [],
+      warnings: []
+    };
+    results.push(result);
+
+    if (!externalId) {
+      result.errors.push('External reference ID is required');
+    } else if (externalId.length > MAX_EXTERNAL_ID_LENGTH) {
+      result.errors.push(`External reference ID can be at most ${MAX_EXTERNAL_ID_LENGTH} characters`);
+    } else if (seenIn[externalId]) {
+      result.errors.push(`External reference ID "${externalId}" is already used in row ${seenIn[externalId]}`);
+    } else {
+      seenIn[externalId] = result.row;
+    }
+
+    const existing = externalId ? jobsByExternalId[externalId] : undefined;
+
+    if (existing) {
+      // Existing jobs keep their company, as when editing a job
+      if (fields.company !== undefined && fields.company !== existing.company) {
+        result.warnings.push('The company of an existing job can\'t be changed');
+      }
+      delete fields.company;
+
+      const parsed = jobUpdateSchema.omit({ company: true }).safeParse(fields);
+      if (!parsed.success) {
+        result.errors.push(...issueMessages(parsed.error));
+      }
+      if (result.errors.length > 0 || !parsed.success) continue;
+
+      const { currency, salaryPeriod, payType, ...changes } = parsed.data;
+      await importJobUpdate(existing, changes, { currency, salaryPeriod, payType }, employer, result, options.dryRun, now);
+      continue;
+    }
+
+    // New jobs are posted under the employer's company unless the file says otherwise
+    const parsed = jobSchema.safeParse({ company: employer.company || undefined, ...fields });
+    if (!parsed.success) {
+      result.errors.push(...issueMessages(parsed.error));
+    }
+    if (result.errors.length > 0 || !parsed.success || !externalId) continue;
+
+    const { currency, salaryPeriod, payType, ...jobInput } = parsed.data;
+    await importJobCreate(externalId, jobInput, { currency, salaryPeriod, payType }, employer, result, options.dryRun, now);
+  }
+
+  const summary: JobImportReport['summary'] = { total: results.length, create: 0, update: 0, unchanged: 0, error: 0, held: 0 };
+  results.forEach(result => {
+    summary[result.action]++;
+    if (result.status === 'pending') summary.held++;
+  });
+
+  return {
+    dryRun: options.dryRun,
+    columns: file.columns,
+    mapping,
+    fields: JOB_IMPORT_FIELDS,
+    rows: results,
+    summary
+  };
+}
+
+// Post a new job from a row, as POST /api/jobs does
+async function importJobCreate(
+  externalId: string,
+  jobInput: Omit<JobInput, keyof JobSalaryInputs>,
+  salaryInputs: JobSalaryInputs,
+  employer: ImportingEmployer,
+  result: JobImportRowResult,
+  dryRun: boolean,
+  now: Date
+): Promise<void> {
+  result.action = 'create';
+
+  const { job, duplicate } = await prepareNewJob(jobInput, salaryInputs, employer, { externalId, now });
+  result.status = job.status;
+
+  // Imports are not blocked by reposts, but the employer is told about them
+  if (duplicate) {
+    result.warnings.push(`Repeats your open posting "${duplicate.title}"`);
+  }
+  if (job.riskAssessment?.held) {
+    result.warnings.push('Will be held for review before it is published');
+  }
+
+  if (dryRun) return;
+
+  await saveNewJob(job, employer._id);
+  result.jobId = job._id;
+}
+
+// Apply a row to the job it matches, as PATCH /api/jobs/:id does
+async function importJobUpdate(
+  job: Job,
+  changes: Record<string, unknown>,
+  salaryInputs: JobSalaryInputs,
+  employer: ImportingEmployer,
+  result: JobImportRowResult,
+  dryRun: boolean,
+  now: Date
+): Promise<void> {
+  result.jobId = job._id;
+  result.status = job.status;
+
+  // Re-importing the same file leaves the jobs alone
+  const { updateFields, changed } = await prepareJobUpdate(job, changes, salaryInputs, employer, now);
+  if (changed.length === 0) {
+    result.action = 'unchanged';
+    return;
+  }
+  result.action = 'update';
+
+  result.status = updateFields['status'] || job.status;
+  if (updateFields['riskAssessment']?.held) {
+    result.warnings.push('Will be held for review before it is published');
+  }
+
+  if (dryRun) return;
+
+  await saveJobUpdate(job, updateFields, employer._id, now);
+}
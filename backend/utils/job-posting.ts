@@ -0,0 +1,180 @@
+import { ObjectId } from 'mongodb';
+import { Job, JobSponsorship, User } from '@shared/mongodb-types';
+import { JobInput } from '@shared/job-schema';
+import { collections } from '../mongodb';
+import { buildSalaryRange } from './salary';
+import { geocodeJobLocation } from './geocode';
+import { assessJobRisk, getContentHash, RiskCheckedEmployer } from './job-risk';
+import { findDuplicateJob, getDuplicateKey, getDuplicateGroupId, DuplicateJob } from './job-duplicates';
+import { recordJobCreated, recordJobEdit } from './job-revisions';
+
+// Salary details that only go into the structured salary range
+export type JobSalaryInputs = Partial<Pick<JobInput, 'currency' | 'salaryPeriod' | 'payType'>>;
+
+export type JobPoster = RiskCheckedEmployer & Pick<User, 'isApproved'>;
+
+export interface NewJobOptions {
+  // Set for jobs scheduled to go live later
+  publishAt?: Date | null;
+  sponsorship?: JobSponsorship | null;
+  templateId?: ObjectId | null;
+  externalId?: string;
+  now?: Date;
+}
+
+// Edits to these are checked again for signs of a scam
+const RISK_FIELDS = ['title', 'description', 'requirements', 'additionalQualifications', 'contactEmail', 'experienceLevel', 'salaryRange'];
+// Edits to these can make the job a repost of a different opening
+const DUPLICATE_FIELDS = ['title', 'location', 'description'];
+
+/**
+ * A new job as it will be saved: with its structured salary, risk check and
+ * group of reposts, going live now, later or after review. Nothing is saved
+ * yet; the open posting it repeats, if any, is returned for a warning.
+ */
+export async function prepareNewJob(
+  jobInput: Omit<JobInput, keyof JobSalaryInputs>,
+  salaryInputs: JobSalaryInputs,
+  employer: JobPoster,
+  options: NewJobOptions = {}
+): Promise<{ job: Job; duplicate: DuplicateJob | null }> {
+  const now = options.now || new Date();
+  const publishAt = options.publishAt || null;
+
+  const duplicate = await findDuplicateJob(jobInput, employer._id);
+
+  const salaryRange = buildSalaryRange({
+    salary: jobInput.salary,
+    minSalary: jobInput.minSalary,
+    maxSalary: jobInput.maxSalary,
+    ...salaryInputs
+  });
+
+  // Check for signs of a scam or spam before the job can go live
+  const riskAssessment = await assessJobRisk({ ...jobInput, salaryRange }, employer, { now });
+
+  // Jobs from unapproved employers, and risky ones, wait for review
+  // whether or not they are scheduled
+  const status = !employer.isApproved || riskAssessment.held ? 'pending' : publishAt ? 'scheduled' : 'active';
+
+  const job = {
+    _id: new ObjectId(),
+    ...jobInput,
+    ...geocodeJobLocation(jobInput.location),
+    salaryRange,
+    ...(options.externalId ? { externalId: options.externalId } : {}),
+    postedBy: employer._id,
+    status,
+    publishAt,
+    publishedAt: status === 'active' ? now : null,
+    sponsorship: options.sponsorship || null,
+    contentHash: getContentHash(jobInput.description),
+    riskAssessment,
+    duplicateKey: getDuplicateKey(jobInput),
+    duplicateGroupId: getDuplicateGroupId(duplicate),
+    version: 1,
+    templateId: options.templateId || null,
+    createdAt: now,
+    updatedAt: now,
+    expiryReminderSentAt: null,
+  } as Job;
+
+  return { job, duplicate };
+}
+
+/**
+ * Save a job from prepareNewJob, keeping what it said when it was posted
+ */
+export async function saveNewJob(job: Job, postedBy: ObjectId): Promise<void> {
+  await collections.jobs.insertOne(job);
+  await recordJobCreated(job._id, job, postedBy, job.createdAt);
+}
+
+/**
+ * The fields to set for an edit to a job: the changes themselves, with the
+ * salary and location derived again, changed content checked again for
+ * risk and the job regrouped with its reposts. `changed` lists the fields
+ * the edit actually changes. Nothing is saved yet.
+ */
+export async function prepareJobUpdate(
+  job: Job,
+  changes: Record<string, unknown>,
+  salaryInputs: JobSalaryInputs,
+  employer: RiskCheckedEmployer,
+  now = new Date()
+): Promise<{ updateFields: Record<string, any>; changed: string[] }> {
+  const updateFields: Record<string, any> = {};
+  Object.entries(changes).forEach(([field, value]) => {
+    if (value !== undefined) updateFields[field] = value;
+  });
+
+  // Re-derive the structured salary when any salary input changes
+  const salaryChanged = ['salary', 'minSalary', 'maxSalary'].some(field => updateFields[field] !== undefined);
+  if (salaryChanged || Object.values(salaryInputs).some(value => value !== undefined)) {
+    updateFields['salaryRange'] = buildSalaryRange({
+      salary: updateFields['salary'] ?? job.salary,
+      // Fall back to the stored figures only if no amount was resent
+      minSalary: salaryChanged ? updateFields['minSalary'] : job.minSalary,
+      maxSalary: salaryChanged ? updateFields['maxSalary'] : job.maxSalary,
+      currency: salaryInputs.currency ?? job.salaryRange?.currency,
+      salaryPeriod: salaryInputs.salaryPeriod ?? job.salaryRange?.period,
+      payType: salaryInputs.payType
+    });
+  }
+
+  // Resending the values the job already has changes nothing
+  const jobFields = job as unknown as Record<string, unknown>;
+  const changed = Object.keys(updateFields).filter(
+    field => JSON.stringify(jobFields[field] ?? null) !== JSON.stringify(updateFields[field] ?? null)
+  );
+  if (changed.length === 0) {
+    return { updateFields, changed };
+  }
+
+  // A new deadline, or any edit to a job that expires through
+  // inactivity, moves the expiry date so the employer is reminded again
+  if (updateFields['deadline'] !== undefined || !job.deadline) {
+    updateFields['expiryReminderSentAt'] = null;
+  }
+
+  if (updateFields['location'] !== undefined) {
+    Object.assign(updateFields, geocodeJobLocation(updateFields['location']));
+  }
+
+  if (RISK_FIELDS.some(field => changed.includes(field))) {
+    const editedJob = { ...job, ...updateFields };
+    const riskAssessment = await assessJobRisk(editedJob, employer, { jobId: job._id, now });
+    updateFields['contentHash'] = getContentHash(editedJob.description);
+
+    // A held job waits for an admin even when the edit fixes what held it back
+    const held = riskAssessment.held || !!job.riskAssessment?.held;
+    updateFields['riskAssessment'] = { ...riskAssessment, held };
+    if (held) {
+      updateFields['status'] = 'pending';
+    }
+  }
+
+  if (DUPLICATE_FIELDS.some(field => changed.includes(field))) {
+    const editedJob = { ...job, ...updateFields };
+    const duplicate = await findDuplicateJob(editedJob, job.postedBy, job._id);
+    updateFields['duplicateKey'] = getDuplicateKey(editedJob);
+    updateFields['duplicateGroupId'] = getDuplicateGroupId(duplicate);
+  }
+
+  updateFields['updatedAt'] = now;
+  return { updateFields, changed };
+}
+
+/**
+ * Save the fields from prepareJobUpdate, keeping the edited content as a new
+ * version of the posting. Returns the job's version after the edit, or null
+ * when the job is gone.
+ */
+export async function saveJobUpdate(
+  job: Job,
+  updateFields: Record<string, any>,
+  changedBy: ObjectId,
+  now = new Date()
+): Promise<number | null> {
+  return recordJobEdit(job, updateFields, changedBy, { filter: { postedBy: job.postedBy }, now });
+}
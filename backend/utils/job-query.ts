@@ -0,0 +1,127 @@
+import { Request } from 'express';
+import { parseSearchQuery, buildTextSearch, buildExclusionFilter, escapeRegex, ParsedSearchQuery } from './search';
+import { buildSalaryFilter } from './salary';
+import { buildLocationFilter } from './geocode';
+import { GeoPoint } from '@shared/mongodb-types';
+
+// Filters that have a facet in the job search sidebar. Each facet's counts
+// are computed with every filter applied except its own, so selecting
+// "full-time" doesn't hide the count for "part-time".
+export type JobFacetField =
+  | 'type' | 'workMode' | 'experienceLevel' | 'location' | 'skills' | 'salary'
+  | 'schedule' | 'benefits';
+
+export interface JobQuery {
+  // Complete filter for fetching matching jobs
+  filter: Record<string, any>;
+  // Filter without any of the faceted conditions
+  baseFilter: Record<string, any>;
+  // Faceted conditions, keyed by the facet they belong to
+  facetFilters: Partial<Record<JobFacetField, Record<string, any>>>;
+  parsedSearch: ParsedSearchQuery | null;
+  textSearch: string | null;
+  // Centre of a `near` search, used to report distances
+  near: GeoPoint | null;
+}
+
+/**
+ * Split a query parameter that may be repeated or comma-separated
+ * (`type=full-time,part-time`) into its values
+ */
+export function parseListParam(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(v => (typeof v === 'string' ? v.split(',') : []))
+    .map(v => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build the MongoDB filter for the `GET /api/jobs` query parameters
+ */
+export function buildJobQuery(query: Request['query']): JobQuery {
+  const { search } = query;
+
+  const baseFilter: Record<string, any> = { status: 'active' };
+  const facetFilters: JobQuery['facetFilters'] = {};
+
+  // Keyword search goes through the weighted text index. Supports
+  // quoted phrases and -excluded terms.
+  const parsedSearch = typeof search === 'string' && search ? parseSearchQuery(search) : null;
+  const textSearch = parsedSearch ? buildTextSearch(parsedSearch) : null;
+
+  if (textSearch) {
+    baseFilter.$text = { $search: textSearch };
+  } else if (parsedSearch) {
+    Object.assign(baseFilter, buildExclusionFilter(parsedSearch));
+  }
+
+  // Location matches by city name or alias, or by distance with `near`
+  const locationFilter = buildLocationFilter(query);
+  if (locationFilter.filter) {
+    facetFilters.location = locationFilter.filter;
+  }
+
+  const types = parseListParam(query.type);
+  if (types.length > 0) {
+    facetFilters.type = { type: { $in: types } };
+  }
+
+  const experienceLevels = parseListParam(query.experience);
+  if (experienceLevels.length > 0) {
+    facetFilters.experienceLevel = { experienceLevel: { $in: experienceLevels } };
+  }
+
+  const workModes = parseListParam(query.workMode);
+  if (workModes.length > 0) {
+    facetFilters.workMode = { workMode: { $in: workModes } };
+  }
+
+  const skills = parseListParam(query.skills);
+  if (skills.length > 0) {
+    facetFilters.skills = {
+      skills: { $in: skills.map(skill => new RegExp(`^${escapeRegex(skill)}$`, 'i')) }
+    };
+  }
+
+  // Wizard options such as "Night shift" or "Health insurance"
+  const schedules = parseListParam(query.schedule);
+  if (schedules.length > 0) {
+    facetFilters.schedule = {
+      schedule: { $in: schedules.map(schedule => new RegExp(`^${escapeRegex(schedule)}$`, 'i')) }
+    };
+  }
+
+  const benefits = parseListParam(query.benefits);
+  if (benefits.length > 0) {
+    facetFilters.benefits = {
+      benefits: { $in: benefits.map(benefit => new RegExp(`^${escapeRegex(benefit)}$`, 'i')) }
+    };
+  }
+
+  // Salary filters match any job whose range overlaps the requested one,
+  // compared on annual figures
+  const salaryFilter = buildSalaryFilter(query);
+  if (salaryFilter) {
+    facetFilters.salary = salaryFilter;
+  }
+
+  return {
+    filter: combineFilters(baseFilter, Object.values(facetFilters)),
+    baseFilter,
+    facetFilters,
+    parsedSearch,
+    textSearch,
+    near: locationFilter.near
+  };
+}
+
+/**
+ * AND a list of conditions onto a base filter
+ */
+export function combineFilters(base: Record<string, any>, conditions: Record<string, any>[]): Record<string, any> {
+  if (conditions.length === 0) {
+    return { ...base };
+  }
+  return { ...base, $and: [...(base.$and || []), ...conditions] };
+}
@@ -0,0 +1,233 @@
+import { Filter, ObjectId, UpdateFilter } from 'mongodb';
+import { Job, JobRevisionField, JobRevisionSnapshot } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+
+export const JOB_REVISION_FIELDS: JobRevisionField[] = [
+  'title',
+  'company',
+  'location',
+  'description',
+  'type',
+  'workMode',
+  'salary',
+  'minSalary',
+  'maxSalary',
+  'salaryRange',
+  'salaryNegotiable',
+  'supplementalPay',
+  'benefits',
+  'requirements',
+  'additionalQualifications',
+  'experienceLevel',
+  'skills',
+  'preferredSkills',
+  'schedule',
+  'numberOfOpenings',
+  'recruitmentTimeline',
+  'startDate',
+  'deadline',
+  'contactEmail',
+  'screeningQuestions',
+  'knockoutAction'
+];
+
+// Long text fields are compared line by line in the diff view
+const TEXT_FIELDS: JobRevisionField[] = ['description', 'requirements', 'additionalQualifications'];
+
+// Largest line-by-line comparison table built for a diff, about 2 MB
+const MAX_DIFF_CELLS = 250000;
+
+export interface LineChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface JobRevisionChange {
+  field: JobRevisionField;
+  before: unknown;
+  after: unknown;
+  lines?: LineChange[];
+}
+
+/**
+ * The versioned content of a job, leaving out fields it doesn't have
+ */
+export function takeJobSnapshot(job: Partial<Record<JobRevisionField, unknown>>): JobRevisionSnapshot {
+  const snapshot: Record<string, unknown> = {};
+  JOB_REVISION_FIELDS.forEach(field => {
+    if (job[field] !== undefined) snapshot[field] = job[field];
+  });
+  return snapshot as JobRevisionSnapshot;
+}
+
+// Dates and nested values compare by content; missing and null are the same
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function getChangedFields(before: Partial<Job>, after: Partial<Job>): JobRevisionField[] {
+  return JOB_REVISION_FIELDS.filter(field => !sameValue(before[field], after[field]));
+}
+
+/**
+ * Save a new job's content as its first version
+ */
+export async function recordJobCreated(
+  jobId: ObjectId,
+  job: Partial<Record<JobRevisionField, unknown>>,
+  createdBy: ObjectId,
+  createdAt: Date
+): Promise<void> {
+  await collections.jobRevisions.insertOne({
+    _id: new ObjectId(),
+    jobId,
+    version: 1,
+    snapshot: takeJobSnapshot(job),
+    changedFields: [],
+    changedBy: createdBy,
+    changedAt: createdAt
+  });
+}
+
+export interface JobEditOptions {
+  // Further conditions the job must still meet for the edit to apply
+  filter?: Filter<Job>;
+  // Entries appended to the job's array fields in the same write
+  push?: Record<string, unknown>;
+  now?: Date;
+}
+
+/**
+ * Write an edit to a job, saving it as the job's next version when any of
+ * the versioned content changes. The version is bumped in the same write
+ * as the edit so concurrent edits can't share one. Returns the job's
+ * version after the edit, or null when the job no longer matches.
+ */
+export async function recordJobEdit(
+  before: Job,
+  changes: Record<string, any>,
+  changedBy: ObjectId,
+  { filter = {}, push, now = new Date() }: JobEditOptions = {}
+): Promise<number | null> {
+  const after = { ...before, ...changes } as Job;
+  const changedFields = getChangedFields(before, after);
+  const query: Filter<Job> = { ...filter, _id: before._id };
+  const update: UpdateFilter<Job> = { $set: changes };
+  if (push) update.$push = push;
+
+  if (changedFields.length === 0) {
+    const result = await collections.jobs.updateOne(query, update);
+    return result.matchedCount === 0 ? null : before.version || 1;
+  }
+
+  // Jobs posted before revisions were kept get their content up to now
+  // saved as the first version
+  if (!before.version) {
+    await collections.jobRevisions.updateOne(
+      { jobId: before._id, version: 1 },
+      {
+        $setOnInsert: {
+          snapshot: takeJobSnapshot(before),
+          changedFields: [],
+          changedBy: before.postedBy,
+          changedAt: before.updatedAt || before.createdAt
+        }
+      },
+      { upsert: true }
+    );
+    await collections.jobs.updateOne({ _id: before._id, version: { $exists: false } }, { $set: { version: 1 } });
+  }
+
+  update.$inc = { version: 1 };
+  const updated = await collections.jobs.findOneAndUpdate(query, update, {
+    returnDocument: 'after',
+    projection: { version: 1 }
+  });
+  if (!updated) return null;
+  const version = updated.version || 1;
+
+  await collections.jobRevisions.insertOne({
+    _id: new ObjectId(),
+    jobId: before._id,
+    version,
+    snapshot: takeJobSnapshot(after),
+    changedFields,
+    changedBy,
+    changedAt: now
+  });
+
+  return version;
+}
+
+/**
+ * Line-by-line diff of two texts, from the longest run of lines they share.
+ * Lines shared at the start and end are matched first; when what is left
+ * between them is too long to compare, it is shown as removed then added.
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: LineChange[] = a.slice(0, start).map(text => ({ type: 'same' as const, text }));
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+
+  if ((middleA.length + 1) * (middleB.length + 1) > MAX_DIFF_CELLS) {
+    middleA.forEach(text => lines.push({ type: 'removed', text }));
+    middleB.forEach(text => lines.push({ type: 'added', text }));
+  } else {
+    lines.push(...diffMiddle(middleA, middleB));
+  }
+
+  a.slice(endA).forEach(text => lines.push({ type: 'same', text }));
+  return lines;
+}
+
+function diffMiddle(a: string[], b: string[]): LineChange[] {
+  // common[i][j] is the number of shared lines between a[i..] and b[j..]
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * The fields that differ between two versions of a job, with line diffs for long text
+ */
+export function diffJobSnapshots(from: JobRevisionSnapshot, to: JobRevisionSnapshot): JobRevisionChange[] {
+  return getChangedFields(from, to).map(field => {
+    const change: JobRevisionChange = { field, before: from[field] ?? null, after: to[field] ?? null };
+    if (TEXT_FIELDS.includes(field)) {
+      change.lines = diffLines(String(from[field] ?? ''), String(to[field] ?? ''));
+    }
+    return change;
+  });
+}
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+import { Job, JobRiskAssessment, JobRiskReason, JobRiskRules, User } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { DAY_MS } from './job-analytics';
+
+const RULES_ID = 'job-risk-rules';
+// Most matched phrases quoted in a reason, to keep the review queue readable
+const MAX_QUOTED_MATCHES = 3;
+
+export const DEFAULT_JOB_RISK_RULES: Omit<JobRiskRules, 'updatedAt'> = {
+  _id: RULES_ID,
+  threshold: 50,
+  upfrontFee: {
+    enabled: true,
+    weight: 50,
+    phrases: [
+      'registration fee',
+      'registration charges',
+      'application fee',
+      'processing fee',
+      'training fee',
+      'joining fee',
+      'interview fee',
+      'security deposit',
+      'refundable deposit',
+      'advance payment',
+      'kit charges',
+      'pay to apply'
+    ]
+  },
+  messagingApps: {
+    enabled: true,
+    weight: 25,
+    keywords: ['whatsapp', 'whats app', 'telegram', 't.me/', 'wa.me/', 'signal app', 'wechat', 'viber']
+  },
+  unrealisticSalary: {
+    enabled: true,
+    weight: 30,
+    currency: 'INR',
+    maxAnnualByLevel: {
+      entry: 2000000,
+      intermediate: 5000000,
+      senior: 12000000,
+      executive: 60000000
+    }
+  },
+  duplicateContent: {
+    enabled: true,
+    weight: 30,
+    minLength: 200
+  },
+  newEmployer: {
+    enabled: true,
+    weight: 20,
+    accountAgeDays: 7
+  }
+};
+
+const ruleSettings = {
+  enabled: z.boolean(),
+  weight: z.number().int().min(0).max(100)
+};
+
+const phraseList = z.array(z.string().trim().toLowerCase().min(2).max(100)).max(200);
+
+/**
+ * Validates admin changes to the rules. Each section that is sent replaces
+ * the stored one.
+ */
+export const jobRiskRulesUpdateSchema = z
+  .object({
+    threshold: z.number().int().min(1).max(500),
+    upfrontFee: z.object({ ...ruleSettings, phrases: phraseList }),
+    messagingApps: z.object({ ...ruleSettings, keywords: phraseList }),
+    unrealisticSalary: z.object({
+      ...ruleSettings,
+      currency: z.string().trim().toUpperCase().length(3),
+      maxAnnualByLevel: z.object({
+        entry: z.number().positive(),
+        intermediate: z.number().positive(),
+        senior: z.number().positive(),
+        executive: z.number().positive()
+      })
+    }),
+    duplicateContent: z.object({ ...ruleSettings, minLength: z.number().int().min(20).max(5000) }),
+    newEmployer: z.object({ ...ruleSettings, accountAgeDays: z.number().int().min(1).max(365) })
+  })
+  .partial();
+
+/**
+ * The current rules, falling back to the defaults for anything not yet configured
+ */
+export async function getJobRiskRules(): Promise<JobRiskRules> {
+  const stored = await collections.jobRiskRules.findOne({ _id: RULES_ID });
+  return { ...DEFAULT_JOB_RISK_RULES, updatedAt: new Date(0), ...stored };
+}
+
+export async function updateJobRiskRules(
+  changes: z.infer<typeof jobRiskRulesUpdateSchema>,
+  adminId: ObjectId
+): Promise<JobRiskRules> {
+  const rules = { ...(await getJobRiskRules()), ...changes, updatedAt: new Date(), updatedBy: adminId };
+  await collections.jobRiskRules.replaceOne({ _id: RULES_ID }, rules, { upsert: true });
+  return rules;
+}
+
+// Lowercase words only, so spacing and punctuation changes don't hide a copy
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Fingerprint of a job description for spotting copies
+ */
+export function getContentHash(description: string): string {
+  return crypto.createHash('sha1').update(normalizeText(description)).digest('hex');
+}
+
+function findPhrases(text: string, phrases: string[]): string[] {
+  const haystack = text.toLowerCase().replace(/\s+/g, ' ');
+  return phrases.filter(phrase => haystack.includes(phrase.toLowerCase()));
+}
+
+const quote = (matches: string[]) => matches.slice(0, MAX_QUOTED_MATCHES).map(match => `"${match}"`).join(', ');
+
+export type RiskCheckedJob = Pick<Job, 'title' | 'description' | 'experienceLevel' | 'salaryRange'> &
+  Partial<Pick<Job, 'requirements' | 'additionalQualifications' | 'contactEmail'>>;
+
+export type RiskCheckedEmployer = Pick<User, '_id' | 'createdAt' | 'emailVerified' | 'phoneVerified'>;
+
+/**
+ * Score a job for signs of scams and spam. Jobs that reach the configured
+ * threshold should be held for admin review.
+ */
+export async function assessJobRisk(
+  job: RiskCheckedJob,
+  employer: RiskCheckedEmployer,
+  options: { jobId?: ObjectId; now?: Date } = {}
+): Promise<JobRiskAssessment> {
+  const rules = await getJobRiskRules();
+  const now = options.now || new Date();
+  const reasons: JobRiskReason[] = [];
+  const text = [job.title, job.description, job.requirements, job.additionalQualifications, job.contactEmail]
+    .filter(Boolean)
+    .join('\n');
+
+  if (rules.upfrontFee.enabled) {
+    const matches = findPhrases(text, rules.upfrontFee.phrases);
+    if (matches.length > 0) {
+      reasons.push({
+        rule: 'upfront-fee',
+        score: rules.upfrontFee.weight,
+        detail: `Asks candidates to pay: ${quote(matches)}`
+      });
+    }
+  }
+
+  if (rules.messagingApps.enabled) {
+    const matches = findPhrases(text, rules.messagingApps.keywords);
+    if (matches.length > 0) {
+      reasons.push({
+        rule: 'messaging-app',
+        score: rules.messagingApps.weight,
+        detail: `Moves contact to messaging apps: ${quote(matches)}`
+      });
+    }
+  }
+
+  const salary = job.salaryRange;
+  const offered = salary ? salary.annualMin ?? salary.annualMax : undefined;
+  const salaryCap = rules.unrealisticSalary.maxAnnualByLevel[job.experienceLevel];
+  if (
+    rules.unrealisticSalary.enabled &&
+    salary?.currency === rules.unrealisticSalary.currency &&
+    offered !== undefined &&
+    salaryCap !== undefined &&
+    offered > salaryCap
+  ) {
+    reasons.push({
+      rule: 'unrealistic-salary',
+      score: rules.unrealisticSalary.weight,
+      detail: `Offers ${salary.currency} ${offered.toLocaleString('en-IN')} a year for a ${job.experienceLevel} role, above ${salaryCap.toLocaleString('en-IN')}`
+    });
+  }
+
+  if (rules.duplicateContent.enabled && normalizeText(job.description).length >= rules.duplicateContent.minLength) {
+    const duplicateFilter: Record<string, any> = {
+      contentHash: getContentHash(job.description),
+      postedBy: { $ne: employer._id }
+    };
+    if (options.jobId) duplicateFilter._id = { $ne: options.jobId };
+
+    const copies = await collections.jobs.countDocuments(duplicateFilter);
+    if (copies > 0) {
+      reasons.push({
+        rule: 'duplicate-content',
+        score: rules.duplicateContent.weight,
+        detail: `Description matches ${copies} job${copies === 1 ? '' : 's'} posted by other employers`
+      });
+    }
+  }
+
+  const accountAgeDays = (now.getTime() - new Date(employer.createdAt).getTime()) / DAY_MS;
+  if (
+    rules.newEmployer.enabled &&
+    accountAgeDays < rules.newEmployer.accountAgeDays &&
+    !employer.emailVerified &&
+    !employer.phoneVerified
+  ) {
+    reasons.push({
+      rule: 'new-employer',
+      score: rules.newEmployer.weight,
+      detail: `Posted by an account created ${Math.floor(accountAgeDays)} day(s) ago with no verified email or phone`
+    });
+  }
+
+  const score = reasons.reduce((total, reason) => total + reason.score, 0);
+
+  return {
+    score,
+    reasons,
+    held: score >= rules.threshold,
+    assessedAt: now
+  };
+}
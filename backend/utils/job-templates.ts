@@ -0,0 +1,80 @@
+import { ObjectId } from 'mongodb';
+import { Job, JobTemplate, JobTemplateField } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+
+export const MAX_TEMPLATES_PER_COMPANY = 100;
+
+export const JOB_TEMPLATE_FIELDS: JobTemplateField[] = [
+  'title',
+  'description',
+  'requirements',
+  'additionalQualifications',
+  'type',
+  'workMode',
+  'experienceLevel',
+  'skills',
+  'preferredSkills',
+  'benefits',
+  'supplementalPay',
+  'schedule',
+  'screeningQuestions',
+  'knockoutAction'
+];
+
+export interface TemplateOwner {
+  _id: ObjectId;
+  company?: string | null;
+}
+
+/**
+ * Templates an employer can use: their company's, or their own when they
+ * have no company
+ */
+export function templateScope(owner: TemplateOwner): Record<string, any> {
+  const company = owner.company?.trim();
+  return company ? { company } : { company: null, createdBy: owner._id };
+}
+
+/**
+ * The reusable content of an existing job
+ */
+export function pickTemplateFields(job: Job): Partial<Pick<Job, JobTemplateField>> {
+  const fields: Record<string, unknown> = {};
+  JOB_TEMPLATE_FIELDS.forEach(field => {
+    if (job[field] !== undefined) fields[field] = job[field];
+  });
+  return fields;
+}
+
+export async function findTemplate(id: string, owner: TemplateOwner): Promise<JobTemplate | null> {
+  if (!ObjectId.isValid(id)) return null;
+  return collections.jobTemplates.findOne({ _id: new ObjectId(id), ...templateScope(owner) });
+}
+
+/**
+ * Count a use of the template and return it, for starting the wizard from
+ */
+export async function recordTemplateUse(id: string, owner: TemplateOwner, now = new Date()): Promise<JobTemplate | null> {
+  if (!ObjectId.isValid(id)) return null;
+  return collections.jobTemplates.findOneAndUpdate(
+    { _id: new ObjectId(id), ...templateScope(owner) },
+    { $inc: { usageCount: 1 }, $set: { lastUsedAt: now } },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Number of jobs posted from each template
+ */
+export async function countJobsPostedFromTemplates(templateIds: ObjectId[]): Promise<Record<string, number>> {
+  const counts = await collections.jobs.aggregate<{ _id: ObjectId; count: number }>([
+    { $match: { templateId: { $in: templateIds } } },
+    { $group: { _id: '$templateId', count: { $sum: 1 } } }
+  ]).toArray();
+
+  const byTemplate: Record<string, number> = {};
+  counts.forEach(({ _id, count }) => {
+    byTemplate[_id.toString()] = count;
+  });
+  return byTemplate;
+}
@@ -64,6 +64,31 @@ try {
   console.error('Failed to initialize email transport:', error);
 }
 
+// Function to send an email through the shared transport
+export const sendEmail = async (options: {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}): Promise<boolean> => {
+  try {
+    if (!transporter) {
+      console.error('Email transporter not configured');
+      return false;
+    }
+
+    await transporter.sendMail({
+      from: `"JobPortal" <${process.env.EMAIL_USER}>`,
+      ...options
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending email:', error);
+    return false;
+  }
+};
+
 // Function to generate a 6-digit OTP
 export const generateOTP = (): string => {
   // Generate a random 6-digit number
@@ -0,0 +1,231 @@
+import { ObjectId } from 'mongodb';
+import { GeoPoint, Job, User } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { geocodeLocation, distanceKm } from './geocode';
+import { PRIVATE_JOB_FIELDS_PROJECTION } from './screening';
+
+// Maximum points each signal contributes to a job's match score (sums to 100)
+const SCORE_WEIGHTS = {
+  skills: 45,
+  title: 15,
+  experience: 15,
+  workMode: 10,
+  location: 10,
+  history: 5
+};
+
+const EXPERIENCE_LEVELS: Job['experienceLevel'][] = ['entry', 'intermediate', 'senior', 'executive'];
+
+// Jobs scoring below this are too weak a match to recommend
+const MIN_MATCH_SCORE = 20;
+
+// Jobs within this distance of the candidate count as local
+const NEARBY_KM = 50;
+// Number of recent active jobs scored per request
+const CANDIDATE_POOL_SIZE = 500;
+const MAX_REASON_SKILLS = 3;
+
+// Words that say nothing about the kind of role
+const TITLE_STOP_WORDS = new Set([
+  'and', 'or', 'the', 'of', 'for', 'in', 'at', 'a', 'an', 'to', 'with',
+  'senior', 'junior', 'sr', 'jr', 'lead', 'head', 'intern', 'trainee', 'associate', 'ii', 'iii'
+]);
+
+export interface CandidateProfile {
+  // Lowercased skill -> skill as the candidate wrote it
+  skills: Map<string, string>;
+  titleWords: Set<string>;
+  recentTitle?: string;
+  experienceLevel?: Job['experienceLevel'];
+  preferredWorkMode?: User['preferredWorkMode'];
+  locationCity?: string;
+  locationPoint?: GeoPoint;
+  // Skills and job types of jobs the candidate applied to
+  appliedSkills: Set<string>;
+  appliedTypes: Set<string>;
+  appliedJobIds: ObjectId[];
+}
+
+// The parts of a user recommendations look at
+export type CandidateUser = Pick<User, '_id' | 'skills' | 'builtResume' | 'location' | 'preferredWorkMode'>;
+
+export interface JobMatch {
+  score: number;
+  reasons: string[];
+}
+
+export function titleWords(title: string): string[] {
+  return title
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .filter(word => word.length > 1 && !TITLE_STOP_WORDS.has(word));
+}
+
+// Estimate the candidate's total years of experience from their resume
+function yearsOfExperience(experience: NonNullable<User['builtResume']>['experience']): number {
+  const now = Date.now();
+  const totalMs = experience.reduce((total, entry) => {
+    const start = Date.parse(entry.startDate);
+    const end = entry.endDate ? Date.parse(entry.endDate) : now;
+    if (isNaN(start) || isNaN(end) || end < start) return total;
+    return total + (end - start);
+  }, 0);
+  return totalMs / (365.25 * 24 * 60 * 60 * 1000);
+}
+
+function experienceLevelForYears(years: number): Job['experienceLevel'] {
+  if (years < 2) return 'entry';
+  if (years < 5) return 'intermediate';
+  if (years < 10) return 'senior';
+  return 'executive';
+}
+
+/**
+ * Gather everything recommendations are based on: profile and resume
+ * skills, resume experience, location and work-mode preferences, and the
+ * jobs the candidate has applied to
+ */
+export async function buildCandidateProfile(user: CandidateUser): Promise<CandidateProfile> {
+  const skills = new Map<string, string>();
+  for (const skill of [...(user.skills || []), ...(user.builtResume?.skills || [])]) {
+    const trimmed = skill.trim();
+    if (trimmed) skills.set(trimmed.toLowerCase(), trimmed);
+  }
+
+  const experience = user.builtResume?.experience || [];
+  const words = new Set<string>();
+  experience.forEach(entry => titleWords(entry.jobTitle || '').forEach(word => words.add(word)));
+
+  const applications = await collections.applications
+    .find({ userId: user._id }, { projection: { jobId: 1 } })
+    .toArray();
+  const appliedJobIds = applications.map(application => application.jobId);
+
+  const appliedJobs = appliedJobIds.length > 0
+    ? await collections.jobs
+      .find({ _id: { $in: appliedJobIds } }, { projection: { skills: 1, type: 1 } })
+      .toArray()
+    : [];
+
+  const appliedSkills = new Set<string>();
+  const appliedTypes = new Set<string>();
+  for (const job of appliedJobs) {
+    (job.skills || []).forEach(skill => appliedSkills.add(skill.toLowerCase()));
+    if (job.type) appliedTypes.add(job.type);
+  }
+
+  const geocoded = user.location ? geocodeLocation(user.location) : null;
+
+  return {
+    skills,
+    titleWords: words,
+    recentTitle: experience[0]?.jobTitle,
+    experienceLevel: experience.length > 0 ? experienceLevelForYears(yearsOfExperience(experience)) : undefined,
+    preferredWorkMode: user.preferredWorkMode,
+    locationCity: geocoded?.city.name,
+    locationPoint: geocoded?.point,
+    appliedSkills,
+    appliedTypes,
+    appliedJobIds
+  };
+}
+
+/**
+ * Score how well a job fits a candidate, from 0 to 100, with the reasons
+ * behind the score
+ */
+export function scoreJob(job: Job, profile: CandidateProfile): JobMatch {
+  let score = 0;
+  const reasons: string[] = [];
+
+  // Skills: share of the job's skills the candidate has
+  const jobSkills = job.skills || [];
+  const knownSkills = jobSkills.filter(skill => profile.skills.has(skill.toLowerCase()));
+  if (jobSkills.length > 0 && knownSkills.length > 0) {
+    score += SCORE_WEIGHTS.skills * (knownSkills.length / jobSkills.length);
+    const shown = knownSkills.slice(0, MAX_REASON_SKILLS).map(skill => profile.skills.get(skill.toLowerCase()) || skill);
+    const more = knownSkills.length - shown.length;
+    reasons.push(`Because you know ${shown.join(', ')}${more > 0 ? ` and ${more} more` : ''}`);
+  }
+
+  // Title: overlap with the roles on the candidate's resume
+  const jobTitleWords = titleWords(job.title || '');
+  const sharedWords = jobTitleWords.filter(word => profile.titleWords.has(word));
+  if (jobTitleWords.length > 0 && sharedWords.length > 0) {
+    score += SCORE_WEIGHTS.title * Math.min(1, sharedWords.length / Math.min(jobTitleWords.length, 2));
+    if (profile.recentTitle) {
+      reasons.push(`Matches your experience as ${profile.recentTitle}`);
+    }
+  }
+
+  // Experience: full points for the same level, half for a neighbouring one
+  if (profile.experienceLevel && job.experienceLevel) {
+    const gap = Math.abs(
+      EXPERIENCE_LEVELS.indexOf(profile.experienceLevel) - EXPERIENCE_LEVELS.indexOf(job.experienceLevel)
+    );
+    if (gap === 0) {
+      score += SCORE_WEIGHTS.experience;
+      reasons.push('Fits your experience level');
+    } else if (gap === 1) {
+      score += SCORE_WEIGHTS.experience / 2;
+    }
+  }
+
+  // Work mode
+  if (profile.preferredWorkMode && job.workMode === profile.preferredWorkMode) {
+    score += SCORE_WEIGHTS.workMode;
+    reasons.push(job.workMode === 'remote' ? 'Remote, as you prefer' : `${job.workMode === 'hybrid' ? 'Hybrid' : 'On-site'}, as you prefer`);
+  }
+
+  // Location: remote jobs are open from anywhere
+  if (job.workMode === 'remote') {
+    score += SCORE_WEIGHTS.location;
+  } else if (profile.locationCity && job.locationCity === profile.locationCity) {
+    score += SCORE_WEIGHTS.location;
+    reasons.push(`In ${profile.locationCity}`);
+  } else if (profile.locationPoint && job.geo && distanceKm(profile.locationPoint, job.geo) <= NEARBY_KM) {
+    score += SCORE_WEIGHTS.location * 0.7;
+    reasons.push(`Near ${profile.locationCity}`);
+  }
+
+  // Application history
+  const similarToApplied = jobSkills.some(skill => profile.appliedSkills.has(skill.toLowerCase())) ||
+    profile.appliedTypes.has(job.type);
+  if (similarToApplied) {
+    score += SCORE_WEIGHTS.history;
+    if (knownSkills.length === 0) {
+      reasons.push('Similar to jobs you applied for');
+    }
+  }
+
+  return { score: Math.round(score), reasons };
+}
+
+/**
+ * Recommend active jobs for a job seeker, best match first. Jobs the
+ * candidate already applied to and jobs past their deadline are left out.
+ */
+export async function getRecommendedJobs(user: CandidateUser, limit: number) {
+  const profile = await buildCandidateProfile(user);
+
+  const openJobs: Record<string, any> = {
+    status: 'active',
+    _id: { $nin: profile.appliedJobIds },
+    $or: [{ deadline: null }, { deadline: { $gte: new Date() } }]
+  };
+
+  const jobs = await collections.jobs
+    .find(openJobs, { projection: PRIVATE_JOB_FIELDS_PROJECTION })
+    .sort({ createdAt: -1 })
+    .limit(CANDIDATE_POOL_SIZE)
+    .toArray();
+
+  return jobs
+    .map(job => {
+      const match = scoreJob(job, profile);
+      return { ...job, matchScore: match.score, matchReasons: match.reasons };
+    })
+    .filter(job => job.matchScore >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.matchScore - a.matchScore || b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, limit);
+}
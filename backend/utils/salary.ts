@@ -0,0 +1,291 @@
+import { SalaryPeriod, SalaryRange } from '@shared/mongodb-types';
+import { SALARY_PERIODS, SALARY_PERIOD_ALIASES } from '@shared/job-schema';
+import { collections } from '../mongodb';
+
+export const DEFAULT_CURRENCY = 'INR';
+
+const LAKH = 100000;
+const CRORE = 10000000;
+
+// Multipliers used to turn a salary for one period into an annual figure.
+// Hourly assumes a 40 hour week, daily a 5 day week.
+const ANNUAL_MULTIPLIERS: Record<SalaryPeriod, number> = {
+  hourly: 40 * 52,
+  daily: 5 * 52,
+  weekly: 52,
+  monthly: 12,
+  annual: 1
+};
+
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+  [/₹|\brs\.?|\binr\b/, 'INR'],
+  [/\$|\busd\b/, 'USD'],
+  [/€|\beur\b/, 'EUR'],
+  [/£|\bgbp\b/, 'GBP']
+];
+
+const PERIOD_PATTERNS: [RegExp, SalaryPeriod][] = [
+  [/\blpa\b|per\s+annum|\bp\.?\s?a\b|\/\s*(yr|year)|\b(per|a)\s+year|\bannual(ly)?\b|\byearly\b/, 'annual'],
+  [/per\s+month|\bp\.?\s?m\b|\/\s*(mo|month)|\bmonthly\b|\ba\s+month\b/, 'monthly'],
+  [/per\s+week|\/\s*(wk|week)|\bweekly\b/, 'weekly'],
+  [/per\s+day|\/\s*day|\bdaily\b/, 'daily'],
+  [/per\s+hour|\/\s*(hr|hour)|\bhourly\b|\bp\.?\s?h\b|\ban\s+hour\b/, 'hourly']
+];
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  l: LAKH,
+  lac: LAKH,
+  lacs: LAKH,
+  lakh: LAKH,
+  lakhs: LAKH,
+  lpa: LAKH,
+  cr: CRORE,
+  crore: CRORE,
+  crores: CRORE
+};
+
+export interface ParsedSalary {
+  currency?: string;
+  period?: SalaryPeriod;
+  min?: number;
+  max?: number;
+}
+
+export interface SalaryInput {
+  salary?: string;
+  minSalary?: number | string | null;
+  maxSalary?: number | string | null;
+  currency?: string | null;
+  salaryPeriod?: string | null;
+  payType?: string | null;
+}
+
+/**
+ * Map a period name from a form or query string ("yearly", "per month")
+ * onto a SalaryPeriod
+ */
+export function parseSalaryPeriod(value: unknown): SalaryPeriod | undefined {
+  if (typeof value !== 'string') return undefined;
+  const key = value.toLowerCase().replace(/^per\s+/, '').trim();
+  const period = SALARY_PERIOD_ALIASES[key] || key;
+  return (SALARY_PERIODS as readonly string[]).includes(period) ? period as SalaryPeriod : undefined;
+}
+
+/**
+ * Convert an amount for the given period into an annual amount
+ */
+export function toAnnual(amount: number, period: SalaryPeriod): number {
+  return Math.round(amount * ANNUAL_MULTIPLIERS[period]);
+}
+
+/**
+ * Parse free-text salaries such as "6-8 LPA", "₹25,000 - 35,000 per month",
+ * "1.2 crore" or "$40/hr". Amounts are returned in currency units for the
+ * detected period. Returns null when no amount can be found.
+ */
+export function parseSalaryText(text: string): ParsedSalary | null {
+  const lower = text.toLowerCase();
+  const isUpperBound = /\b(up\s*to|upto|max(imum)?|under)\b/.test(lower);
+  const isLowerBound = /\b(from|starting|min(imum)?)\b|\+/.test(lower);
+  const normalized = lower
+    .replace(/(\d),(?=\d)/g, '$1')
+    .replace(/\s*(–|—|\bto\b)\s*/g, '-');
+
+  const amounts: { value: number; unit?: string }[] = [];
+  const amountPattern = /(\d+(?:\.\d+)?)\s*(crores?|cr|lakhs?|lacs?|lac|lpa|l|k)?(?![a-z])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = amountPattern.exec(normalized)) !== null && amounts.length < 2) {
+    amounts.push({ value: parseFloat(match[1]), unit: match[2] });
+  }
+
+  if (amounts.length === 0) {
+    return null;
+  }
+
+  // "6-8 LPA": a unit written once after a range applies to both ends
+  const sharedUnit = amounts[amounts.length - 1].unit;
+  const values = amounts.map(({ value, unit }) => {
+    const multiplier = UNIT_MULTIPLIERS[unit || sharedUnit || ''] || 1;
+    return Math.round(value * multiplier);
+  });
+
+  const parsed: ParsedSalary = {};
+
+  const currency = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(normalized));
+  if (currency) {
+    parsed.currency = currency[1];
+  }
+
+  // Lakh and crore figures are rupees quoted per annum unless stated otherwise
+  const usesIndianUnits = amounts.some(({ unit }) => unit && unit !== 'k');
+  if (usesIndianUnits && !parsed.currency) {
+    parsed.currency = 'INR';
+  }
+
+  const period = PERIOD_PATTERNS.find(([pattern]) => pattern.test(normalized));
+  if (period) {
+    parsed.period = period[1];
+  } else if (usesIndianUnits) {
+    parsed.period = 'annual';
+  }
+
+  if (values.length === 2) {
+    parsed.min = Math.min(values[0], values[1]);
+    parsed.max = Math.max(values[0], values[1]);
+  } else if (isUpperBound) {
+    parsed.max = values[0];
+  } else if (isLowerBound) {
+    parsed.min = values[0];
+  } else {
+    parsed.min = values[0];
+    parsed.max = values[0];
+  }
+
+  return parsed;
+}
+
+/**
+ * Build the structured salary for a job from whatever the employer supplied.
+ * Explicit min/max figures win over the free-text salary, which is only
+ * parsed when no numbers were given. Returns null when there is no usable
+ * salary information.
+ */
+export function buildSalaryRange(input: SalaryInput): SalaryRange | null {
+  const toAmount = (value: unknown) => {
+    const amount = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof amount === 'number' && isFinite(amount) && amount > 0 ? amount : undefined;
+  };
+
+  let min = toAmount(input.minSalary);
+  let max = toAmount(input.maxSalary);
+  let currency = input.currency?.toUpperCase();
+  let period = parseSalaryPeriod(input.salaryPeriod);
+
+  if (min === undefined && max === undefined && input.salary) {
+    const parsed = parseSalaryText(input.salary);
+    if (parsed) {
+      min = parsed.min;
+      max = parsed.max;
+      currency = currency || parsed.currency;
+      period = period || parsed.period;
+    }
+  } else {
+    // Pay types from the post-job wizard decide which ends of the range apply
+    switch (input.payType?.toLowerCase()) {
+      case 'starting':
+        max = undefined;
+        break;
+      case 'maximum':
+        max = max ?? min;
+        min = undefined;
+        break;
+      case 'exact':
+        max = min ?? max;
+        min = max;
+        break;
+    }
+  }
+
+  if (min === undefined && max === undefined) {
+    return null;
+  }
+
+  if (min !== undefined && max !== undefined && min > max) {
+    [min, max] = [max, min];
+  }
+
+  const salaryPeriod = period || 'annual';
+  const range: SalaryRange = {
+    currency: currency || DEFAULT_CURRENCY,
+    period: salaryPeriod
+  };
+
+  if (min !== undefined) {
+    range.min = min;
+    range.annualMin = toAnnual(min, salaryPeriod);
+  }
+  if (max !== undefined) {
+    range.max = max;
+    range.annualMax = toAnnual(max, salaryPeriod);
+  }
+
+  return range;
+}
+
+/**
+ * Build the filter for jobs whose salary range overlaps the requested one.
+ * Query amounts are annual unless a `salaryPeriod` is given. Jobs without a
+ * salary never match a salary filter.
+ */
+export function buildSalaryFilter(query: Record<string, unknown>): Record<string, any> | null {
+  const period = parseSalaryPeriod(query.salaryPeriod) || 'annual';
+  const toAnnualAmount = (value: unknown) => {
+    const amount = typeof value === 'string' ? parseFloat(value) : NaN;
+    return isFinite(amount) && amount >= 0 ? toAnnual(amount, period) : undefined;
+  };
+
+  const min = toAnnualAmount(query.minSalary);
+  const max = toAnnualAmount(query.maxSalary);
+  const currency = typeof query.currency === 'string' && query.currency
+    ? query.currency.toUpperCase()
+    : undefined;
+
+  if (min === undefined && max === undefined && !currency) {
+    return null;
+  }
+
+  const conditions: Record<string, any>[] = [
+    { 'salaryRange.currency': currency || DEFAULT_CURRENCY }
+  ];
+
+  // A job with no upper bound ("starting at") overlaps any minimum
+  if (min !== undefined) {
+    conditions.push({
+      $or: [
+        { 'salaryRange.annualMax': { $gte: min } },
+        { 'salaryRange.annualMax': null, 'salaryRange.annualMin': { $ne: null } }
+      ]
+    });
+  }
+
+  // A job with no lower bound ("up to") overlaps any maximum
+  if (max !== undefined) {
+    conditions.push({
+      $or: [
+        { 'salaryRange.annualMin': { $lte: max } },
+        { 'salaryRange.annualMin': null, 'salaryRange.annualMax': { $ne: null } }
+      ]
+    });
+  }
+
+  return { $and: conditions };
+}
+
+/**
+ * Fill in structured salaries for jobs posted before they were recorded
+ */
+export async function backfillSalaryRanges(): Promise<number> {
+  try {
+    const jobs = await collections.jobs.find(
+      { salaryRange: { $exists: false } },
+      { projection: { salary: 1, minSalary: 1, maxSalary: 1 } }
+    ).toArray();
+
+    let updated = 0;
+    for (const job of jobs) {
+      const salaryRange = buildSalaryRange(job);
+      await collections.jobs.updateOne(
+        { _id: job._id },
+        salaryRange ? { $set: { salaryRange } } : { $set: { salaryRange: null } }
+      );
+      if (salaryRange) updated++;
+    }
+
+    return updated;
+  } catch (error) {
+    console.error('Error backfilling job salaries:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,61 @@
+import { collections } from '../mongodb';
+
+// How often the scheduler looks for jobs that are due to go live
+const SCHEDULER_INTERVAL = 60 * 1000;
+
+// Publishing can be scheduled at most this far ahead
+const MAX_SCHEDULE_DAYS = 90;
+
+/**
+ * Parse a requested publish time. Returns null to publish immediately,
+ * or a string describing why the time is invalid.
+ */
+export function parsePublishAt(value: unknown, now = new Date()): Date | null | string {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const publishAt = new Date(value as string);
+  if (isNaN(publishAt.getTime())) {
+    return 'Invalid publish time';
+  }
+  if (publishAt.getTime() - now.getTime() > MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return `Jobs can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead`;
+  }
+
+  // A time that has already passed just means "now"
+  return publishAt > now ? publishAt : null;
+}
+
+/**
+ * Make scheduled jobs whose publish time has passed active. They count as
+ * posted when they go live, so job alerts and "Posted" dates pick them up.
+ */
+export async function publishScheduledJobs(now = new Date()): Promise<number> {
+  const result = await collections.jobs.updateMany(
+    { status: 'scheduled', publishAt: { $lte: now } },
+    { $set: { status: 'active', createdAt: now, publishedAt: now, updatedAt: now } }
+  );
+  return result.modifiedCount;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Check for jobs due to be published every minute
+ */
+export function startScheduledJobPublisher() {
+  if (schedulerTimer) return;
+
+  const run = () => {
+    publishScheduledJobs()
+      .then(published => {
+        if (published > 0) console.log(`Published ${published} scheduled job(s)`);
+      })
+      .catch(error => console.error('Error publishing scheduled jobs:', error));
+  };
+
+  schedulerTimer = setInterval(run, SCHEDULER_INTERVAL);
+  schedulerTimer.unref();
+  run();
+}
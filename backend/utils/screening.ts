@@ -0,0 +1,137 @@
+import { Job, ScreeningAnswer, ScreeningQuestion } from '@shared/mongodb-types';
+
+// Tag added to applicants who fail a knockout question
+export const KNOCKOUT_TAG = 'Failed screening';
+
+const MAX_TEXT_ANSWER_LENGTH = 2000;
+
+/**
+ * Excludes knockout rules from job queries so candidates can't read the
+ * answers that pass
+ */
+export const KNOCKOUT_RULE_PROJECTION = {
+  'screeningQuestions.knockout': 0,
+  knockoutAction: 0
+};
+
+/**
+ * Excludes everything only the employer and admins see from job queries
+ * for candidates: knockout rules, sponsorship budgets and risk checks
+ */
+export const PRIVATE_JOB_FIELDS_PROJECTION = {
+  ...KNOCKOUT_RULE_PROJECTION,
+  sponsorship: 0,
+  riskAssessment: 0,
+  contentHash: 0
+};
+
+/**
+ * PRIVATE_JOB_FIELDS_PROJECTION for a job joined into another document under `field`
+ */
+export function privateJobFieldsProjection(field: string): Record<string, number> {
+  const projection: Record<string, number> = {};
+  Object.keys(PRIVATE_JOB_FIELDS_PROJECTION).forEach(key => {
+    projection[`${field}.${key}`] = 0;
+  });
+  return projection;
+}
+
+/**
+ * Strip knockout rules from a job that is shown to someone other than its employer
+ */
+export function hideKnockoutRules<T extends Partial<Job>>(job: T): T {
+  const { knockoutAction, ...rest } = job;
+  if (!rest.screeningQuestions) return rest as T;
+
+  return {
+    ...rest,
+    screeningQuestions: rest.screeningQuestions.map(({ knockout, ...question }) => question)
+  } as T;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Convert a submitted answer to the question's type. Returns undefined when
+ * the answer doesn't fit the question.
+ */
+function parseAnswer(question: ScreeningQuestion, value: unknown): boolean | number | string | undefined {
+  switch (question.type) {
+    case 'yes-no':
+      if (typeof value === 'boolean') return value;
+      if (value === 'yes' || value === 'true') return true;
+      if (value === 'no' || value === 'false') return false;
+      return undefined;
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      return typeof number === 'number' && isFinite(number) ? number : undefined;
+    }
+    case 'multiple-choice':
+      return typeof value === 'string' && (question.options || []).includes(value) ? value : undefined;
+    case 'text':
+      return typeof value === 'string' && value.length <= MAX_TEXT_ANSWER_LENGTH ? value.trim() : undefined;
+  }
+}
+
+/**
+ * Whether an answer fails the question's knockout rule. Unanswered optional
+ * questions never knock an applicant out.
+ */
+export function failsKnockout(question: ScreeningQuestion, answer: boolean | number | string | null): boolean {
+  const rule = question.knockout;
+  if (!rule || answer === null) return false;
+
+  switch (question.type) {
+    case 'yes-no':
+      return rule.expected !== undefined && answer !== rule.expected;
+    case 'number':
+      return (rule.min !== undefined && (answer as number) < rule.min) ||
+        (rule.max !== undefined && (answer as number) > rule.max);
+    case 'multiple-choice':
+      return !!rule.acceptedOptions?.length && !rule.acceptedOptions.includes(answer as string);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check an applicant's answers, keyed by question ID, against the job's
+ * screening questions. Returns an error message for missing or invalid answers.
+ */
+export function evaluateScreeningAnswers(
+  questions: ScreeningQuestion[],
+  submitted: unknown
+): { answers: ScreeningAnswer[]; knockedOut: boolean } | { error: string } {
+  const values = submitted && typeof submitted === 'object' && !Array.isArray(submitted)
+    ? submitted as Record<string, unknown>
+    : {};
+
+  const answers: ScreeningAnswer[] = [];
+  for (const question of questions) {
+    const value = values[question.id];
+
+    if (isBlank(value)) {
+      if (question.required) {
+        return { error: `Please answer "${question.question}"` };
+      }
+      answers.push({ questionId: question.id, question: question.question, answer: null, knockedOut: false });
+      continue;
+    }
+
+    const answer = parseAnswer(question, value);
+    if (answer === undefined) {
+      return { error: `Invalid answer to "${question.question}"` };
+    }
+
+    answers.push({
+      questionId: question.id,
+      question: question.question,
+      answer,
+      knockedOut: failsKnockout(question, answer)
+    });
+  }
+
+  return { answers, knockedOut: answers.some(answer => answer.knockedOut) };
+}
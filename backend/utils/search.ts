@@ -0,0 +1,210 @@
+import { Job, SearchHighlight, SearchHighlightFragment } from '@shared/mongodb-types';
+
+// Weights for the jobs text index. A hit in the title counts ten times as
+// much as a hit somewhere in the description.
+export const JOB_TEXT_WEIGHTS = {
+  title: 10,
+  skills: 6,
+  company: 5,
+  requirements: 3,
+  description: 1
+};
+
+export const JOB_TEXT_INDEX_NAME = 'jobs_text_search';
+
+// Letters and digits, including accented Latin and Devanagari characters
+const WORD_CHARS = 'A-Za-z0-9\\u00C0-\\u024F\\u0900-\\u097F';
+const NON_QUERY_CHARS = new RegExp(`[^${WORD_CHARS}\\s+#.]`, 'g');
+
+const MAX_QUERY_LENGTH = 200;
+const STEM_SUFFIXES = ['ing', 'ers', 'er', 'es', 'ed', 's'];
+const SNIPPET_RADIUS = 80;
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+}
+
+/**
+ * Parse a free-text query into plain terms, quoted phrases and excluded
+ * terms, e.g. `"react native" -senior remote`.
+ */
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], excluded: [] };
+  let input = raw.slice(0, MAX_QUERY_LENGTH);
+
+  // Pull out quoted phrases first so their words aren't treated as terms
+  input = input.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const cleaned = sanitizeToken(phrase).trim();
+    if (cleaned) {
+      parsed.phrases.push(cleaned.toLowerCase());
+    }
+    return ' ';
+  });
+
+  for (const token of input.split(/\s+/)) {
+    if (!token) continue;
+
+    const isExcluded = token.startsWith('-');
+    const cleaned = sanitizeToken(isExcluded ? token.slice(1) : token).replace(/\s+/g, '');
+    if (!cleaned) continue;
+
+    if (isExcluded) {
+      parsed.excluded.push(cleaned.toLowerCase());
+    } else {
+      parsed.terms.push(cleaned.toLowerCase());
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Build the `$search` string for a MongoDB `$text` query. Returns null when
+ * there is nothing positive to search for, since `$text` cannot run on
+ * exclusions alone.
+ */
+export function buildTextSearch(parsed: ParsedSearchQuery): string | null {
+  if (parsed.terms.length === 0 && parsed.phrases.length === 0) {
+    return null;
+  }
+
+  return [
+    ...parsed.phrases.map(phrase => `"${phrase}"`),
+    ...parsed.terms,
+    ...parsed.excluded.map(term => `-${term}`)
+  ].join(' ');
+}
+
+/**
+ * Build the filter for a search made only of exclusions, e.g. `-sales`,
+ * which `$text` can't run. Jobs whose indexed fields contain an excluded word
+ * are left out. Returns null when nothing is excluded.
+ */
+export function buildExclusionFilter(parsed: ParsedSearchQuery): Record<string, any> | null {
+  if (parsed.excluded.length === 0) {
+    return null;
+  }
+
+  const fields = Object.keys(JOB_TEXT_WEIGHTS);
+  return {
+    $nor: parsed.excluded.flatMap(term => {
+      // The whole word, or another form of it as the text index's stemming would match
+      const word = `${escapeRegex(stem(term))}(${STEM_SUFFIXES.join('|')})?`;
+      const pattern = new RegExp(`(^|[^${WORD_CHARS}])${word}([^${WORD_CHARS}]|$)`, 'i');
+      return fields.map(field => ({ [field]: pattern }));
+    })
+  };
+}
+
+/**
+ * Build highlighted snippets showing where a job matched the query. Titles
+ * are returned whole, longer fields are cut down to a window around the
+ * first match.
+ */
+export function buildHighlights(job: Partial<Job>, parsed: ParsedSearchQuery): SearchHighlight[] {
+  const matcher = buildMatcher(parsed);
+  if (!matcher) {
+    return [];
+  }
+
+  const fields: { field: SearchHighlight['field']; value?: string; snippet: boolean }[] = [
+    { field: 'title', value: job.title, snippet: false },
+    { field: 'company', value: job.company, snippet: false },
+    { field: 'skills', value: job.skills?.join(', '), snippet: false },
+    { field: 'requirements', value: job.requirements, snippet: true },
+    { field: 'description', value: job.description, snippet: true }
+  ];
+
+  const highlights: SearchHighlight[] = [];
+
+  for (const { field, value, snippet } of fields) {
+    if (!value) continue;
+
+    matcher.lastIndex = 0;
+    const firstMatch = matcher.exec(value);
+    if (!firstMatch) continue;
+
+    const matchStart = firstMatch.index + firstMatch[1].length;
+
+    let text = value;
+    let prefix = '';
+    let suffix = '';
+
+    if (snippet && value.length > SNIPPET_RADIUS * 2) {
+      const start = Math.max(0, matchStart - SNIPPET_RADIUS);
+      const end = Math.min(value.length, matchStart + firstMatch[2].length + SNIPPET_RADIUS);
+      text = value.slice(start, end);
+      prefix = start > 0 ? '…' : '';
+      suffix = end < value.length ? '…' : '';
+    }
+
+    highlights.push({
+      field,
+      fragments: splitFragments(prefix + text.replace(/\s+/g, ' ') + suffix, matcher)
+    });
+  }
+
+  return highlights;
+}
+
+// Strip everything that isn't part of a word so user input can't change the
+// meaning of the $text search string
+function sanitizeToken(token: string): string {
+  return token.replace(NON_QUERY_CHARS, ' ').replace(/(^\.+|\.+$)/g, '');
+}
+
+// Approximate the stemming done by the text index so "developers" still
+// highlights "developer" and "development"
+function stem(term: string): string {
+  for (const suffix of STEM_SUFFIXES) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= 3) {
+      return term.slice(0, -suffix.length);
+    }
+  }
+  return term;
+}
+
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildMatcher(parsed: ParsedSearchQuery): RegExp | null {
+  const patterns = [
+    ...parsed.phrases.map(phrase => escapeRegex(phrase).replace(/\s+/g, '\\s+')),
+    ...parsed.terms.map(term => `${escapeRegex(stem(term))}[${WORD_CHARS}]*`)
+  ];
+
+  if (patterns.length === 0) {
+    return null;
+  }
+
+  // Longest patterns first so phrases win over their individual words
+  patterns.sort((a, b) => b.length - a.length);
+  // The first group eats the character before the match so that terms only
+  // match at the start of a word
+  return new RegExp(`(^|[^${WORD_CHARS}])(${patterns.join('|')})`, 'gi');
+}
+
+function splitFragments(text: string, matcher: RegExp): SearchHighlightFragment[] {
+  const fragments: SearchHighlightFragment[] = [];
+  let cursor = 0;
+
+  matcher.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = matcher.exec(text)) !== null) {
+    const index = match.index + match[1].length;
+    if (index > cursor) {
+      fragments.push({ text: text.slice(cursor, index), highlight: false });
+    }
+    fragments.push({ text: match[2], highlight: true });
+    cursor = index + match[2].length;
+  }
+
+  if (cursor < text.length) {
+    fragments.push({ text: text.slice(cursor), highlight: false });
+  }
+
+  return fragments;
+}
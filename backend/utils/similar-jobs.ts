@@ -0,0 +1,192 @@
+import { ObjectId } from 'mongodb';
+import { Job } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { normalizeText } from './job-risk';
+import { titleWords } from './recommendations';
+import { PRIVATE_JOB_FIELDS_PROJECTION } from './screening';
+
+// Maximum points each signal contributes to a job's similarity (sums to 100)
+const SIMILARITY_WEIGHTS = {
+  skills: 35,
+  title: 30,
+  description: 15,
+  coApplied: 20
+};
+
+export const DEFAULT_SIMILAR_JOBS_LIMIT = 6;
+export const MAX_SIMILAR_JOBS_LIMIT = 20;
+
+// Jobs scoring below this are too loosely related to show
+const MIN_SIMILARITY_SCORE = 15;
+
+// Jobs fetched by keyword match before scoring
+const CANDIDATE_POOL_SIZE = 200;
+
+// Applicants of the viewed job whose other applications are counted
+const MAX_CO_APPLICANTS = 1000;
+const MAX_CO_APPLIED_JOBS = 100;
+
+// Co-application counts are only shown once several candidates share
+// them, so they can't point to one person's applications
+const MIN_CO_APPLICANTS_SHOWN = 2;
+
+// This many shared applicants gives the full co-application score
+const CO_APPLICATION_SATURATION = 5;
+
+// Descriptions of the same kind of role rarely share more than a third of
+// their terms, so that much overlap gives the full description score
+const DESCRIPTION_OVERLAP_SATURATION = 0.33;
+
+const MAX_REASON_SKILLS = 3;
+
+// Common words that say nothing about the role
+const DESCRIPTION_STOP_WORDS = new Set([
+  'with', 'that', 'this', 'will', 'have', 'from', 'your', 'their', 'about', 'able', 'also', 'into',
+  'work', 'working', 'team', 'role', 'must', 'should', 'other', 'more', 'such', 'well', 'using',
+  'including', 'looking', 'candidate', 'company', 'experience', 'skills', 'good', 'strong', 'job'
+]);
+
+export type SimilarJob = Job & {
+  similarityScore: number;
+  similarityReasons: string[];
+  // Applicants of the viewed job who also applied to this one
+  alsoAppliedCount: number;
+};
+
+function descriptionTerms(text: string): Set<string> {
+  return new Set(
+    normalizeText(text)
+      .split(' ')
+      .filter(word => word.length > 3 && !DESCRIPTION_STOP_WORDS.has(word))
+  );
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Other jobs the applicants of a job applied to, with how many of them did.
+ * Withdrawn applications don't count on either side.
+ */
+async function getCoAppliedJobs(jobId: ObjectId): Promise<Record<string, number>> {
+  const applicants = await collections.applications
+    .find({ jobId, status: { $ne: 'withdrawn' } }, { projection: { userId: 1 } })
+    .limit(MAX_CO_APPLICANTS)
+    .toArray();
+  if (applicants.length === 0) return {};
+
+  const counts = await collections.applications.aggregate<{ _id: ObjectId; count: number }>([
+    {
+      $match: {
+        userId: { $in: applicants.map(application => application.userId) },
+        jobId: { $ne: jobId },
+        status: { $ne: 'withdrawn' }
+      }
+    },
+    { $group: { _id: '$jobId', count: { $sum: 1 } } },
+    { $sort: { count: -1 } },
+    { $limit: MAX_CO_APPLIED_JOBS }
+  ]).toArray();
+
+  const byJob: Record<string, number> = {};
+  counts.forEach(({ _id, count }) => {
+    byJob[_id.toString()] = count;
+  });
+  return byJob;
+}
+
+/**
+ * Score how alike two jobs are, from 0 to 100, with the reasons to show
+ */
+export function scoreSimilarJob(job: Job, candidate: Job, coApplicants: number): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const jobSkills = new Set((job.skills || []).map(skill => skill.toLowerCase()));
+  const sharedSkills = (candidate.skills || []).filter(skill => jobSkills.has(skill.toLowerCase()));
+  if (sharedSkills.length > 0) {
+    score += SIMILARITY_WEIGHTS.skills * overlap(jobSkills, new Set((candidate.skills || []).map(skill => skill.toLowerCase())));
+    const shown = sharedSkills.slice(0, MAX_REASON_SKILLS);
+    const more = sharedSkills.length - shown.length;
+    reasons.push(`Also needs ${shown.join(', ')}${more > 0 ? ` and ${more} more` : ''}`);
+  }
+
+  const jobTitleWords = titleWords(job.title || '');
+  const candidateTitleWords = titleWords(candidate.title || '');
+  const sharedWords = candidateTitleWords.filter(word => jobTitleWords.includes(word));
+  if (jobTitleWords.length > 0 && sharedWords.length > 0) {
+    score += SIMILARITY_WEIGHTS.title * Math.min(1, sharedWords.length / Math.min(jobTitleWords.length, 2));
+    reasons.push('Similar role');
+  }
+
+  const descriptionOverlap = overlap(descriptionTerms(job.description || ''), descriptionTerms(candidate.description || ''));
+  score += SIMILARITY_WEIGHTS.description * Math.min(1, descriptionOverlap / DESCRIPTION_OVERLAP_SATURATION);
+
+  if (coApplicants > 0) {
+    score += SIMILARITY_WEIGHTS.coApplied * Math.min(1, coApplicants / CO_APPLICATION_SATURATION);
+    if (coApplicants >= MIN_CO_APPLICANTS_SHOWN) {
+      reasons.push(`${coApplicants} people who applied here also applied`);
+    }
+  }
+
+  return { score: Math.round(score), reasons };
+}
+
+/**
+ * Open jobs like the given one, from shared title words, skills and
+ * description terms and from where its applicants also applied. Closed
+ * jobs, reposts of the same opening and jobs the user already applied
+ * to are left out.
+ */
+export async function getSimilarJobs(job: Job, userId: ObjectId | undefined, limit: number): Promise<SimilarJob[]> {
+  const appliedJobIds = userId
+    ? (await collections.applications.find({ userId }, { projection: { jobId: 1 } }).toArray()).map(application => application.jobId)
+    : [];
+  const groupId = job.duplicateGroupId || job._id;
+
+  const openJobs: Record<string, any> = {
+    status: 'active',
+    _id: { $nin: [job._id, groupId, ...appliedJobIds] },
+    duplicateGroupId: { $ne: groupId },
+    $or: [{ deadline: null }, { deadline: { $gte: new Date() } }]
+  };
+
+  // Jobs sharing a title word or skill, through the text index
+  const terms = [...titleWords(job.title || ''), ...(job.skills || [])].join(' ');
+  const keywordMatches = terms
+    ? await collections.jobs
+      .find({ ...openJobs, $text: { $search: terms } }, { projection: { ...PRIVATE_JOB_FIELDS_PROJECTION, score: { $meta: 'textScore' } } })
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(CANDIDATE_POOL_SIZE)
+      .toArray()
+    : [];
+
+  const coApplied = await getCoAppliedJobs(job._id);
+  const seen = new Set(keywordMatches.map(candidate => candidate._id.toString()));
+  const coAppliedIds = Object.keys(coApplied).filter(id => !seen.has(id)).map(id => new ObjectId(id));
+  const coAppliedJobs = coAppliedIds.length > 0
+    ? await collections.jobs.find({ ...openJobs, _id: { $in: coAppliedIds, $nin: openJobs._id.$nin } }, { projection: PRIVATE_JOB_FIELDS_PROJECTION }).toArray()
+    : [];
+
+  return [...keywordMatches, ...coAppliedJobs]
+    .map(({ score: _textScore, ...candidate }: Job & { score?: number }) => {
+      const coApplicants = coApplied[candidate._id.toString()] || 0;
+      const match = scoreSimilarJob(job, candidate, coApplicants);
+      return {
+        ...candidate,
+        similarityScore: match.score,
+        similarityReasons: match.reasons,
+        alsoAppliedCount: coApplicants >= MIN_CO_APPLICANTS_SHOWN ? coApplicants : 0
+      };
+    })
+    // Jobs several applicants also applied to are worth showing on that alone
+    .filter(candidate => candidate.similarityScore >= MIN_SIMILARITY_SCORE || candidate.alsoAppliedCount > 0)
+    .sort((a, b) => b.similarityScore - a.similarityScore || b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,293 @@
+import { ObjectId } from 'mongodb';
+import { Job, JobSponsorship, SponsorshipStatus } from '@shared/mongodb-types';
+import { collections } from '../mongodb';
+import { DAY_MS, dayKey, markFirstInSession } from './job-analytics';
+import { KNOCKOUT_RULE_PROJECTION } from './screening';
+
+const DEFAULT_COST_PER_CLICK = 20;
+const DEFAULT_DURATION_DAYS = 30;
+const DEFAULT_CURRENCY = 'INR';
+const MIN_DAILY_BUDGET = 100;
+const MAX_DAILY_BUDGET = 1000000;
+const MIN_COST_PER_CLICK = 1;
+const MAX_DURATION_DAYS = 90;
+// Positions on a results page that sponsored jobs are inserted at. They are
+// added alongside the organic results rather than replacing any of them.
+const SPONSORED_SLOTS = [0, 5];
+
+// Most sponsored candidates considered for one results page
+const MAX_SPONSORED_CANDIDATES = 50;
+
+// Share of the daily budget that can be spent ahead of an even pace
+const PACING_HEAD_START = 0.05;
+
+export type SponsoredJob<T> = T & { sponsored: true };
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Validate a sponsorship request from the employer. Returns null when the job
+ * isn't sponsored, or a string describing why the request is invalid.
+ */
+export function parseSponsorship(
+  input: unknown,
+  startsAt: Date,
+  now = new Date()
+): JobSponsorship | null | string {
+  if (input === undefined || input === null || input === false) {
+    return null;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return 'Invalid sponsorship';
+  }
+
+  const { dailyBudget, costPerClick, durationDays, currency } = input as Record<string, unknown>;
+
+  const budget = Number(dailyBudget);
+  if (!isFinite(budget) || budget < MIN_DAILY_BUDGET || budget > MAX_DAILY_BUDGET) {
+    return `Daily budget must be between ${MIN_DAILY_BUDGET} and ${MAX_DAILY_BUDGET}`;
+  }
+
+  const cpc = costPerClick === undefined || costPerClick === null || costPerClick === ''
+    ? DEFAULT_COST_PER_CLICK
+    : Number(costPerClick);
+  if (!isFinite(cpc) || cpc < MIN_COST_PER_CLICK || cpc > budget) {
+    return `Cost per click must be between ${MIN_COST_PER_CLICK} and the daily budget`;
+  }
+
+  const days = durationDays === undefined || durationDays === null ? DEFAULT_DURATION_DAYS : Number(durationDays);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DURATION_DAYS) {
+    return `Sponsorships can run for 1 to ${MAX_DURATION_DAYS} days`;
+  }
+
+  return {
+    status: 'active',
+    dailyBudget: round(budget),
+    costPerClick: round(cpc),
+    currency: typeof currency === 'string' && currency ? currency.toUpperCase() : DEFAULT_CURRENCY,
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + days * DAY_MS),
+    updatedAt: now
+  };
+}
+
+/**
+ * Sponsorship status as the employer sees it; active sponsorships past their
+ * end date have ended
+ */
+export function effectiveSponsorshipStatus(sponsorship: JobSponsorship, now = new Date()): SponsorshipStatus {
+  if (sponsorship.status === 'active' && sponsorship.endsAt && sponsorship.endsAt <= now) {
+    return 'ended';
+  }
+  return sponsorship.status;
+}
+
+/**
+ * Whether a job can be charged for another click without overspending.
+ * Budgets reset at midnight UTC and are released evenly through the day, so
+ * a popular job can't use up its budget in the first hour.
+ */
+export function canSpend(sponsorship: JobSponsorship, spentToday: number, now = new Date()): boolean {
+  if (spentToday + sponsorship.costPerClick > sponsorship.dailyBudget) {
+    return false;
+  }
+
+  const startOfDay = new Date(dayKey(now)).getTime();
+  const elapsed = (now.getTime() - startOfDay) / DAY_MS;
+  const pacedBudget = sponsorship.dailyBudget * Math.min(1, elapsed + PACING_HEAD_START);
+  return spentToday < pacedBudget;
+}
+
+async function getSpentToday(jobIds: ObjectId[], now: Date): Promise<Record<string, number>> {
+  const rows = await collections.sponsoredSpend
+    .find({ jobId: { $in: jobIds }, day: dayKey(now) }, { projection: { jobId: 1, spend: 1 } })
+    .toArray();
+
+  const spent: Record<string, number> = {};
+  rows.forEach(row => {
+    spent[row.jobId.toString()] = row.spend || 0;
+  });
+  return spent;
+}
+
+/**
+ * Pick sponsored jobs for a page of search results. Only jobs that match the
+ * same search and still have budget to spend are eligible, highest cost per
+ * click first, rotating through them from page to page.
+ */
+export async function selectSponsoredJobs(
+  filter: Record<string, any>,
+  excludeIds: ObjectId[],
+  page: number,
+  now = new Date()
+) {
+  const candidates = await collections.jobs
+    .find(
+      {
+        $and: [
+          filter,
+          {
+            _id: { $nin: excludeIds },
+            'sponsorship.status': 'active',
+            'sponsorship.startsAt': { $lte: now },
+            $or: [{ 'sponsorship.endsAt': null }, { 'sponsorship.endsAt': { $gt: now } }]
+          }
+        ]
+      },
+      { projection: KNOCKOUT_RULE_PROJECTION }
+    )
+    .limit(MAX_SPONSORED_CANDIDATES)
+    .toArray();
+
+  if (candidates.length === 0) return [];
+
+  const spentToday = await getSpentToday(candidates.map(job => job._id), now);
+  const spent = (job: Job) => spentToday[job._id.toString()] || 0;
+
+  const eligible = candidates
+    .filter(job => job.sponsorship && canSpend(job.sponsorship, spent(job), now))
+    .sort((a, b) =>
+      b.sponsorship!.costPerClick - a.sponsorship!.costPerClick ||
+      // Favour the jobs that have used the least of their budget today
+      spent(a) / a.sponsorship!.dailyBudget - spent(b) / b.sponsorship!.dailyBudget
+    );
+
+  const count = Math.min(SPONSORED_SLOTS.length, eligible.length);
+  const offset = ((Math.max(page, 1) - 1) * SPONSORED_SLOTS.length) % Math.max(eligible.length, 1);
+  return Array.from({ length: count }, (_, index) => eligible[(offset + index) % eligible.length]);
+}
+
+/**
+ * Insert sponsored jobs into their slots on a page of organic results,
+ * labelled so they can be told apart
+ */
+export function insertSponsoredSlots<T, S>(results: T[], sponsored: S[]): (T | SponsoredJob<S>)[] {
+  const page: (T | SponsoredJob<S>)[] = results.slice();
+  sponsored.forEach((job, index) => {
+    page.splice(Math.min(SPONSORED_SLOTS[index], page.length), 0, { ...job, sponsored: true as const });
+  });
+  return page;
+}
+
+// Create the day's spend row so conditional updates can match it
+async function ensureSpendRow(job: Pick<Job, '_id' | 'postedBy'>, day: string) {
+  await collections.sponsoredSpend.updateOne(
+    { jobId: job._id, day },
+    { $setOnInsert: { employerId: job.postedBy, impressions: 0, clicks: 0, spend: 0 } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Count sponsored placements shown, in the background
+ */
+export function trackSponsoredImpressions(jobs: Pick<Job, '_id' | 'postedBy'>[], now = new Date()) {
+  if (jobs.length === 0) return;
+
+  const day = dayKey(now);
+  collections.sponsoredSpend
+    .bulkWrite(
+      jobs.map(job => ({
+        updateOne: {
+          filter: { jobId: job._id, day },
+          update: { $inc: { impressions: 1 }, $setOnInsert: { employerId: job.postedBy, clicks: 0, spend: 0 } },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    )
+    .catch(error => console.error('Error recording sponsored impressions:', error));
+}
+
+/**
+ * Charge a sponsored job for a click, once per session per day and never past
+ * the daily budget. Returns the amount charged.
+ */
+export async function recordSponsoredClick(
+  job: Pick<Job, '_id' | 'postedBy' | 'sponsorship'>,
+  sessionId: string,
+  now = new Date()
+): Promise<number> {
+  const sponsorship = job.sponsorship;
+  if (!sponsorship || effectiveSponsorshipStatus(sponsorship, now) !== 'active') return 0;
+
+  const [firstClick] = await markFirstInSession([job], 'sponsored_click', sessionId, now);
+  if (!firstClick) return 0;
+
+  const day = dayKey(now);
+  await ensureSpendRow(job, day);
+
+  // Only charge while the day's spend leaves room for the click
+  const charged = await collections.sponsoredSpend.updateOne(
+    { jobId: job._id, day, spend: { $lte: sponsorship.dailyBudget - sponsorship.costPerClick } },
+    { $inc: { clicks: 1, spend: sponsorship.costPerClick } }
+  );
+  if (charged.modifiedCount > 0) return sponsorship.costPerClick;
+
+  await collections.sponsoredSpend.updateOne({ jobId: job._id, day }, { $inc: { clicks: 1 } });
+  return 0;
+}
+
+/**
+ * Budget, spend and placement results for each of an employer's sponsored
+ * jobs over the last `days` days, with a daily time series
+ */
+export async function getSponsorshipReport(employerId: ObjectId, days: number, now = new Date()) {
+  const since = dayKey(new Date(now.getTime() - (days - 1) * DAY_MS));
+  const today = dayKey(now);
+
+  const [jobs, rows] = await Promise.all([
+    collections.jobs
+      .find(
+        { postedBy: employerId, sponsorship: { $type: 'object' } },
+        { projection: { title: 1, status: 1, sponsorship: 1, createdAt: 1 } }
+      )
+      .sort({ createdAt: -1 })
+      .toArray(),
+    collections.sponsoredSpend.find({ employerId, day: { $gte: since } }).toArray()
+  ]);
+
+  const emptyTotals = () => ({ impressions: 0, clicks: 0, spend: 0 });
+  const totals = emptyTotals();
+  const byJob: Record<string, ReturnType<typeof emptyTotals> & { spentToday: number }> = {};
+  const byDay: Record<string, ReturnType<typeof emptyTotals>> = {};
+
+  rows.forEach(row => {
+    const jobTotals = byJob[row.jobId.toString()] = byJob[row.jobId.toString()] || { ...emptyTotals(), spentToday: 0 };
+    const dayTotals = byDay[row.day] = byDay[row.day] || emptyTotals();
+    [totals, jobTotals, dayTotals].forEach(target => {
+      target.impressions += row.impressions || 0;
+      target.clicks += row.clicks || 0;
+      target.spend = round(target.spend + (row.spend || 0));
+    });
+    if (row.day === today) jobTotals.spentToday = row.spend || 0;
+  });
+
+  const series = Array.from({ length: days }, (_, index) => {
+    const date = dayKey(new Date(now.getTime() - (days - 1 - index) * DAY_MS));
+    return { date, ...(byDay[date] || emptyTotals()) };
+  });
+
+  return {
+    days,
+    totals,
+    jobs: jobs.map(job => {
+      const sponsorship = job.sponsorship!;
+      const jobTotals = byJob[job._id.toString()] || { ...emptyTotals(), spentToday: 0 };
+      return {
+        jobId: job._id,
+        title: job.title,
+        jobStatus: job.status,
+        status: effectiveSponsorshipStatus(sponsorship, now),
+        dailyBudget: sponsorship.dailyBudget,
+        costPerClick: sponsorship.costPerClick,
+        currency: sponsorship.currency,
+        endsAt: sponsorship.endsAt,
+        ...jobTotals,
+        averageCostPerClick: jobTotals.clicks > 0 ? round(jobTotals.spend / jobTotals.clicks) : 0,
+        clickThroughRate: jobTotals.impressions > 0 ? round((jobTotals.clicks / jobTotals.impressions) * 100) : 0
+      };
+    }),
+    series
+  };
+}
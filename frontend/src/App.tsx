@@ -8,9 +8,11 @@ import AuthPage from "@/pages/auth-page";
 import JobListings from "@/pages/job-listings";
 import JobDetails from "@/pages/job-details";
 import JobPostPage from "@/pages/job-post";
+import JobPostWizard from "@/pages/post-job";
 import ProfilePage from "@/pages/profile";
 import JobSeekerDashboard from "@/pages/dashboard/job-seeker";
 import EmployerDashboard from "@/pages/dashboard/employer";
+import PipelineBoardPage from "@/pages/dashboard/pipeline-board";
 import AdminDashboard from "@/pages/dashboard/admin";
 import Companies from "@/pages/companies";
 import CompanyDetails from "@/pages/company-details";
@@ -32,6 +34,7 @@ function Router() {
           <Route path="/" component={HomePage} />
           <Route path="/auth" component={AuthPage} />
           <Route path="/jobs" component={JobListings} />
+          <ProtectedRoute path="/jobs/:id/applicants" component={PipelineBoardPage} />
           <Route path="/jobs/:id" component={JobDetails} />
           <Route path="/companies" component={Companies} />
           <Route path="/companies/:id" component={CompanyDetails} />
@@ -40,6 +43,7 @@ function Router() {
           <ProtectedRoute path="/dashboard" component={JobSeekerDashboard} />
           <ProtectedRoute path="/employer/dashboard" component={EmployerDashboard} />
           <ProtectedRoute path="/admin/dashboard" component={AdminDashboard} />
+          <ProtectedRoute path="/post-job/wizard" component={JobPostWizard} />
           <ProtectedRoute path="/post-job" component={JobPostPage} />
           <ProtectedRoute path="/profile" component={ProfilePage} />
           <ProtectedRoute path="/resume" component={ResumeManagement} />
@@ -0,0 +1,181 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { ApplicationDocumentType, BuiltResume, ResumeSource } from "@shared/mongodb-types";
+import { DOCUMENT_TYPE_LABELS } from "@/components/jobs/application-materials-form";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, Loader2 } from "lucide-react";
+
+interface MaterialFile {
+  originalName: string;
+  size: number;
+  url: string;
+}
+
+interface ApplicationMaterials {
+  coverLetter: string;
+  resume: {
+    source: ResumeSource;
+    builtResume?: BuiltResume;
+    file?: MaterialFile;
+    createdAt: string;
+  } | null;
+  documents: (MaterialFile & { _id: string; type: ApplicationDocumentType })[];
+}
+
+interface ApplicationMaterialsDialogProps {
+  applicationId: string | null;
+  candidateName?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const FileLink = ({ file }: { file: MaterialFile }) => (
+  <a
+    href={file.url}
+    className="flex items-center gap-2 text-sm text-primary hover:underline"
+  >
+    <Download className="h-4 w-4 flex-shrink-0" />
+    <span className="truncate">{file.originalName}</span>
+    <span className="flex-shrink-0 text-xs text-gray-400">{formatSize(file.size)}</span>
+  </a>
+);
+
+const BuiltResumeView = ({ resume }: { resume: BuiltResume }) => (
+  <div className="space-y-3 rounded-md border border-gray-200 p-3 text-sm">
+    <div>
+      <p className="font-medium text-gray-900">{resume.personalInfo.name}</p>
+      <p className="text-gray-500">
+        {[resume.personalInfo.email, resume.personalInfo.phone, resume.personalInfo.address].filter(Boolean).join(" · ")}
+      </p>
+      {resume.personalInfo.summary && <p className="mt-2 text-gray-700">{resume.personalInfo.summary}</p>}
+    </div>
+    {resume.experience.length > 0 && (
+      <div>
+        <p className="font-medium text-gray-900">Experience</p>
+        {resume.experience.map((entry, index) => (
+          <div key={index} className="mt-1">
+            <p className="text-gray-800">
+              {entry.jobTitle}, {entry.company}
+            </p>
+            <p className="text-xs text-gray-500">
+              {entry.startDate} – {entry.endDate || "Present"}
+            </p>
+            <p className="whitespace-pre-line text-gray-600">{entry.description}</p>
+          </div>
+        ))}
+      </div>
+    )}
+    {resume.education.length > 0 && (
+      <div>
+        <p className="font-medium text-gray-900">Education</p>
+        {resume.education.map((entry, index) => (
+          <p key={index} className="mt-1 text-gray-800">
+            {entry.degree}
+            {entry.fieldOfStudy ? ` in ${entry.fieldOfStudy}` : ""}, {entry.institution}
+          </p>
+        ))}
+      </div>
+    )}
+    {resume.skills.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {resume.skills.map((skill) => (
+          <Badge key={skill} variant="secondary">
+            {skill}
+          </Badge>
+        ))}
+      </div>
+    )}
+    {resume.certifications && resume.certifications.length > 0 && (
+      <div>
+        <p className="font-medium text-gray-900">Certifications</p>
+        {resume.certifications.map((certification, index) => (
+          <p key={index} className="mt-1 text-gray-800">
+            {certification.name}, {certification.issuer}
+          </p>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+// What a candidate sent with their application, as they sent it
+const ApplicationMaterialsDialog = ({ applicationId, candidateName, onOpenChange }: ApplicationMaterialsDialogProps) => {
+  const { data: materials, isLoading } = useQuery<ApplicationMaterials>({
+    queryKey: [`/api/applications/${applicationId}/materials`],
+    enabled: !!applicationId,
+  });
+
+  return (
+    <Dialog open={!!applicationId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{candidateName ? `${candidateName}'s application` : "Application"}</DialogTitle>
+          <DialogDescription>The resume and documents exactly as they were submitted.</DialogDescription>
+        </DialogHeader>
+        {isLoading || !materials ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900">Resume</h3>
+              {!materials.resume ? (
+                <p className="text-sm text-gray-500">No resume was sent.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500">
+                    {materials.resume.source === "built" ? "Built on the site" : "Uploaded file"}, as of{" "}
+                    {format(new Date(materials.resume.createdAt), "d MMM yyyy")}
+                  </p>
+                  {materials.resume.file && <FileLink file={materials.resume.file} />}
+                  {materials.resume.builtResume && <BuiltResumeView resume={materials.resume.builtResume} />}
+                </>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900">Documents</h3>
+              {materials.documents.length === 0 ? (
+                <p className="text-sm text-gray-500">No documents were attached.</p>
+              ) : (
+                materials.documents.map((document) => (
+                  <div key={document._id} className="flex items-center gap-2">
+                    <Badge variant="outline" className="flex-shrink-0">
+                      {DOCUMENT_TYPE_LABELS[document.type]}
+                    </Badge>
+                    <FileLink file={document} />
+                  </div>
+                ))
+              )}
+            </div>
+
+            {materials.coverLetter && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-900">Cover letter</h3>
+                  <p className="whitespace-pre-line text-sm text-gray-700">{materials.coverLetter}</p>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApplicationMaterialsDialog;
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Star, Trash2, X } from "lucide-react";
+
+interface Teammate {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+interface ReviewNote {
+  _id: string;
+  body: string;
+  createdAt: string;
+  mine: boolean;
+  author?: { _id: string; name: string };
+  mentioned: { _id: string; name: string }[];
+}
+
+interface ApplicationReview {
+  notes: ReviewNote[];
+  ratings: { reviewer: { _id: string; name: string }; rating: number; ratedAt: string }[];
+  averageRating: number | null;
+  ratingCount: number;
+  myRating: number | null;
+  tags: string[];
+}
+
+interface ApplicationReviewDialogProps {
+  applicationId: string | null;
+  candidateName?: string;
+  onOpenChange: (open: boolean) => void;
+  // Called after anything that changes how the applicant is listed
+  onReviewChange: () => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+export const StarRating = ({ value, className = "h-4 w-4" }: { value: number; className?: string }) => (
+  <span className="inline-flex">
+    {RATINGS.map((star) => (
+      <Star
+        key={star}
+        className={`${className} ${star <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+      />
+    ))}
+  </span>
+);
+
+// The hiring team's private notes, ratings and tags for one applicant
+const ApplicationReviewDialog = ({
+  applicationId,
+  candidateName,
+  onOpenChange,
+  onReviewChange,
+}: ApplicationReviewDialogProps) => {
+  const { toast } = useToast();
+  const [noteBody, setNoteBody] = useState("");
+  const [mentions, setMentions] = useState<Teammate[]>([]);
+  const [newTag, setNewTag] = useState("");
+
+  const reviewKey = [`/api/application-reviews/${applicationId}`];
+
+  const { data: reviewResponse, isLoading } = useQuery<{ success: boolean; data: ApplicationReview }>({
+    queryKey: reviewKey,
+    enabled: !!applicationId,
+  });
+  const review = reviewResponse?.data;
+
+  const { data: teammatesResponse } = useQuery<{ success: boolean; data: Teammate[] }>({
+    queryKey: [`/api/application-reviews/${applicationId}/teammates`],
+    enabled: !!applicationId,
+  });
+  const teammates = teammatesResponse?.data || [];
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: reviewKey });
+    onReviewChange();
+  };
+  const onFailed = (error: Error) => {
+    toast({ title: "Error saving review", description: error.message, variant: "destructive" });
+  };
+
+  const rateMutation = useMutation({
+    mutationFn: async (rating: number | null) => {
+      const res = rating === null
+        ? await apiRequest("DELETE", `/api/application-reviews/${applicationId}/rating`)
+        : await apiRequest("PUT", `/api/application-reviews/${applicationId}/rating`, { rating });
+      return await res.json();
+    },
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+
+  const tagsMutation = useMutation({
+    mutationFn: async (tags: string[]) => {
+      const res = await apiRequest("PUT", `/api/application-reviews/${applicationId}/tags`, { tags });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setNewTag("");
+      onSaved();
+    },
+    onError: onFailed,
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: async () => {
+      // Only teammates still named in the note are notified
+      const mentioned = mentions.filter((teammate) => noteBody.includes(`@${teammate.name}`));
+      const res = await apiRequest("POST", `/api/application-reviews/${applicationId}/notes`, {
+        body: noteBody,
+        mentions: mentioned.map((teammate) => teammate._id),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setNoteBody("");
+      setMentions([]);
+      onSaved();
+    },
+    onError: onFailed,
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      const res = await apiRequest("DELETE", `/api/application-reviews/${applicationId}/notes/${noteId}`);
+      return await res.json();
+    },
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+
+  const mention = (teammateId: string) => {
+    const teammate = teammates.find((candidate) => candidate._id === teammateId);
+    if (!teammate) return;
+    setNoteBody((body) => `${body}${body && !body.endsWith(" ") ? " " : ""}@${teammate.name} `);
+    if (!mentions.some((mentioned) => mentioned._id === teammate._id)) {
+      setMentions([...mentions, teammate]);
+    }
+  };
+
+  const addTag = () => {
+    if (!review || !newTag.trim()) return;
+    tagsMutation.mutate([...review.tags, newTag]);
+  };
+
+  return (
+    <Dialog
+      open={!!applicationId}
+      onOpenChange={(open) => {
+        if (!open) {
+          setNoteBody("");
+          setMentions([]);
+          setNewTag("");
+        }
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Review {candidateName || "applicant"}</DialogTitle>
+          <DialogDescription>Only your hiring team sees these notes, ratings and tags.</DialogDescription>
+        </DialogHeader>
+        {isLoading || !review ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="max-h-[65vh] space-y-4 overflow-y-auto">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-900">Your rating</h3>
+                {review.averageRating !== null && (
+                  <span className="flex items-center gap-1 text-sm text-gray-500">
+                    <StarRating value={review.averageRating} />
+                    {review.averageRating.toFixed(1)} from {review.ratingCount} reviewer
+                    {review.ratingCount !== 1 ? "s" : ""}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {RATINGS.map((star) => (
+                  <button
+                    key={star}
+                    type="button"
+                    aria-label={`Rate ${star} out of 5`}
+                    disabled={rateMutation.isPending}
+                    onClick={() => rateMutation.mutate(star)}
+                  >
+                    <Star
+                      className={`h-6 w-6 ${
+                        review.myRating !== null && star <= review.myRating
+                          ? "fill-yellow-400 text-yellow-400"
+                          : "text-gray-300 hover:text-yellow-400"
+                      }`}
+                    />
+                  </button>
+                ))}
+                {review.myRating !== null && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto px-2 text-xs"
+                    disabled={rateMutation.isPending}
+                    onClick={() => rateMutation.mutate(null)}
+                  >
+                    Clear
+                  </Button>
+                )}
+              </div>
+              {review.ratings.length > 0 && (
+                <ul className="space-y-1">
+                  {review.ratings.map((rating) => (
+                    <li key={rating.reviewer._id} className="flex items-center justify-between text-sm text-gray-600">
+                      <span>{rating.reviewer.name}</span>
+                      <StarRating value={rating.rating} className="h-3 w-3" />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900">Tags</h3>
+              <div className="flex flex-wrap gap-1">
+                {review.tags.length === 0 && <span className="text-sm text-gray-500">No tags yet.</span>}
+                {review.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${tag}`}
+                      disabled={tagsMutation.isPending}
+                      onClick={() => tagsMutation.mutate(review.tags.filter((current) => current !== tag))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  addTag();
+                }}
+              >
+                <Input
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  placeholder='e.g. "strong React"'
+                  maxLength={40}
+                />
+                <Button type="submit" variant="outline" disabled={!newTag.trim() || tagsMutation.isPending}>
+                  Add tag
+                </Button>
+              </form>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-gray-900">Notes</h3>
+              {review.notes.length === 0 && <p className="text-sm text-gray-500">No notes yet.</p>}
+              {review.notes.map((note) => (
+                <div key={note._id} className="rounded-md bg-gray-50 p-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                      <span className="font-medium text-gray-700">{note.author?.name || "Former teammate"}</span> ·{" "}
+                      {formatDistanceToNow(new Date(note.createdAt), { addSuffix: true })}
+                    </p>
+                    {note.mine && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={deleteNoteMutation.isPending}
+                        onClick={() => deleteNoteMutation.mutate(note._id)}
+                      >
+                        <span className="sr-only">Delete note</span>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="mt-1 whitespace-pre-line text-sm text-gray-800">{note.body}</p>
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="review-note">Add a note</Label>
+                <Textarea
+                  id="review-note"
+                  value={noteBody}
+                  onChange={(e) => setNoteBody(e.target.value)}
+                  placeholder="Share your thoughts with the team..."
+                  maxLength={2000}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  {teammates.length > 0 ? (
+                    <Select value="" onValueChange={mention}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="@ Mention a teammate" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {teammates.map((teammate) => (
+                          <SelectItem key={teammate._id} value={teammate._id}>
+                            {teammate.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span />
+                  )}
+                  <Button
+                    onClick={() => addNoteMutation.mutate()}
+                    disabled={!noteBody.trim() || addNoteMutation.isPending}
+                  >
+                    Add note
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApplicationReviewDialog;
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Building, CheckCircle, ChevronDown, ChevronUp, Circle, XCircle } from "lucide-react";
+
+type ApplicationStatus = "pending" | "reviewed" | "interviewed" | "accepted" | "rejected" | "withdrawn";
+
+interface TimelineEvent {
+  _id: string | null;
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus;
+  toStage?: string | null;
+  note?: string | null;
+  createdAt: string;
+}
+
+interface ApplicationProgressEntry {
+  _id: string;
+  status: ApplicationStatus;
+  appliedAt: string;
+  job: { _id: string; title: string; company: string; location: string };
+  events: TimelineEvent[];
+}
+
+const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  pending: "Pending",
+  reviewed: "Reviewed",
+  interviewed: "Interviewed",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+const WITHDRAWABLE_STATUSES: ApplicationStatus[] = ["pending", "reviewed", "interviewed", "accepted"];
+
+// The usual path an application takes, for the progress bar
+const PROGRESS_STEPS: ApplicationStatus[] = ["pending", "reviewed", "interviewed", "accepted"];
+
+const MAX_COLLAPSED = 5;
+
+const eventTitle = (event: TimelineEvent) =>
+  event.fromStatus === null
+    ? "Application submitted"
+    : event.fromStatus === "withdrawn"
+      ? "Applied again"
+      : event.toStatus === "withdrawn"
+        ? "You withdrew your application"
+        : event.toStage || STATUS_LABELS[event.toStatus];
+
+const ProgressSteps = ({ status }: { status: ApplicationStatus }) => {
+  const stopped = status === "rejected" || status === "withdrawn";
+  const reached = stopped ? -1 : PROGRESS_STEPS.indexOf(status);
+  return (
+    <ol className="mt-3 flex items-center gap-2">
+      {PROGRESS_STEPS.map((step, index) => (
+        <li key={step} className="flex flex-1 items-center gap-2">
+          <span
+            className={`h-1.5 flex-1 rounded-full ${
+              status === "rejected" ? "bg-red-200" : stopped ? "bg-gray-300" : index <= reached ? "bg-primary" : "bg-gray-200"
+            }`}
+          />
+          <span className={`text-xs ${index <= reached ? "text-gray-900" : "text-gray-400"}`}>
+            {STATUS_LABELS[step]}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const ApplicationProgressItem = ({ application }: { application: ApplicationProgressEntry }) => {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState(false);
+  const [isWithdrawOpen, setIsWithdrawOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const withdrawMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/applications/${application._id}/withdraw`, { reason });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setIsWithdrawOpen(false);
+      toast({
+        title: "Application withdrawn",
+        description: `The employer for ${application.job.title} has been told.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/applications/timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error withdrawing application",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Newest first, so the latest move is always in view
+  const events = [...application.events].reverse();
+  const shown = expanded ? events : events.slice(0, 1);
+
+  return (
+    <li className="py-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <Link href={`/jobs/${application.job._id}`}>
+            <h3 className="font-medium text-primary-600 hover:text-primary-800">{application.job.title}</h3>
+          </Link>
+          <p className="mt-1 flex items-center text-sm text-gray-500">
+            <Building className="mr-1 h-4 w-4 text-gray-400" />
+            {application.job.company}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {events.length > 1 && (
+            <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+              {expanded ? <ChevronUp className="mr-1 h-4 w-4" /> : <ChevronDown className="mr-1 h-4 w-4" />}
+              {expanded ? "Hide history" : `History (${events.length})`}
+            </Button>
+          )}
+          {WITHDRAWABLE_STATUSES.includes(application.status) && (
+            <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" onClick={() => {
+              setReason("");
+              setIsWithdrawOpen(true);
+            }}>
+              Withdraw
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={isWithdrawOpen} onOpenChange={setIsWithdrawOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Withdraw your application?</DialogTitle>
+            <DialogDescription>
+              {application.job.company} will no longer consider you for {application.job.title}. You may not be
+              able to apply to this job again straight away.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`withdraw-reason-${application._id}`}>Reason (optional, shared with the employer)</Label>
+            <Textarea
+              id={`withdraw-reason-${application._id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsWithdrawOpen(false)}>
+              Keep application
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => withdrawMutation.mutate()}
+              disabled={withdrawMutation.isPending}
+            >
+              Withdraw
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ProgressSteps status={application.status} />
+
+      <ol className="mt-3 space-y-3 border-l border-gray-200 pl-4">
+        {shown.map((event, index) => (
+          <li key={event._id || `submitted-${index}`} className="relative">
+            <span className="absolute -left-[22px] top-0.5 bg-white">
+              {event.toStatus === "rejected" ? (
+                <XCircle className="h-3 w-3 text-red-500" />
+              ) : event.toStatus === "accepted" ? (
+                <CheckCircle className="h-3 w-3 text-green-600" />
+              ) : (
+                <Circle className="h-3 w-3 text-primary" />
+              )}
+            </span>
+            <p className="text-sm font-medium text-gray-900">{eventTitle(event)}</p>
+            <p className="text-xs text-gray-500">{format(new Date(event.createdAt), "d MMM yyyy, HH:mm")}</p>
+            {event.note && <p className="mt-1 text-sm text-gray-600">{event.note}</p>}
+          </li>
+        ))}
+      </ol>
+    </li>
+  );
+};
+
+// Where each of the candidate's applications stands, with the moves the
+// employer has shared with them
+const ApplicationTimeline = () => {
+  const [showAll, setShowAll] = useState(false);
+  const { data: applications } = useQuery<ApplicationProgressEntry[]>({
+    queryKey: ["/api/user/applications/timeline"],
+  });
+
+  if (!applications || applications.length === 0) return null;
+
+  const shown = showAll ? applications : applications.slice(0, MAX_COLLAPSED);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Application Progress</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-200">
+          {shown.map((application) => (
+            <ApplicationProgressItem key={application._id} application={application} />
+          ))}
+        </ul>
+        {applications.length > MAX_COLLAPSED && (
+          <div className="mt-4 text-center">
+            <Button variant="outline" onClick={() => setShowAll(!showAll)}>
+              {showAll ? "Show fewer" : `Show all ${applications.length} applications`}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApplicationTimeline;
@@ -0,0 +1,113 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle, Loader2 } from "lucide-react";
+
+interface RepostedOpening {
+  groupId: string;
+  title: string;
+  location: string;
+  reposts: number;
+}
+
+interface DuplicateOffender {
+  employerId: string;
+  // Postings that repeat an earlier posting of the same opening
+  reposts: number;
+  openReposts: number;
+  repostedOpenings: number;
+  lastRepostedAt: string;
+  openings: RepostedOpening[];
+  employer?: {
+    name: string;
+    email: string;
+    company?: string;
+  };
+}
+
+const DuplicateOffendersReport = () => {
+  const { data: offenders = [], isLoading } = useQuery<DuplicateOffender[]>({
+    queryKey: ["/api/admin/duplicate-jobs"],
+  });
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-medium">Repeat Reposters</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : offenders.length === 0 ? (
+          <div className="py-10 text-center">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900">No reposts</h3>
+            <p className="mt-1 text-sm text-gray-500">No employer has posted the same opening more than once.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employer</TableHead>
+                <TableHead>Most reposted</TableHead>
+                <TableHead className="text-right">Reposts</TableHead>
+                <TableHead className="text-right">Still open</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {offenders.map((offender) => (
+                <TableRow key={offender.employerId}>
+                  <TableCell>
+                    <p className="font-medium">{offender.employer?.company || offender.employer?.name || "Unknown employer"}</p>
+                    {offender.employer && <p className="text-xs text-gray-500">{offender.employer.email}</p>}
+                    <p className="text-xs text-gray-400">
+                      Last reposted {formatDistanceToNow(new Date(offender.lastRepostedAt), { addSuffix: true })}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <ul className="space-y-1 text-sm">
+                      {offender.openings.map((opening) => (
+                        <li key={opening.groupId}>
+                          {opening.title} · {opening.location}{" "}
+                          <span className="text-xs text-gray-500">×{opening.reposts + 1}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {offender.reposts}
+                    <p className="text-xs text-gray-500">
+                      {offender.repostedOpenings} opening{offender.repostedOpenings === 1 ? "" : "s"}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {offender.openReposts > 0 ? (
+                      <Badge variant="outline" className="bg-amber-100 text-amber-800">
+                        {offender.openReposts}
+                      </Badge>
+                    ) : (
+                      0
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateOffendersReport;
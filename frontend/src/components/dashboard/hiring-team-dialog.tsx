@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface TeamMember {
+  _id: string;
+  name: string;
+  email: string;
+  addedAt: string;
+}
+
+interface HiringTeamDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TEAM_KEY = ["/api/application-reviews/team"];
+
+// The employers who can review applicants to the user's jobs with them
+const HiringTeamDialog = ({ open, onOpenChange }: HiringTeamDialogProps) => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const { data: teamResponse, isLoading } = useQuery<{ success: boolean; data: TeamMember[] }>({
+    queryKey: TEAM_KEY,
+    enabled: open,
+  });
+  const members = teamResponse?.data || [];
+
+  const onFailed = (error: Error) => {
+    toast({ title: "Error updating hiring team", description: error.message, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/application-reviews/team", { email });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: TEAM_KEY });
+    },
+    onError: onFailed,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const res = await apiRequest("DELETE", `/api/application-reviews/team/${memberId}`);
+      return await res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TEAM_KEY }),
+    onError: onFailed,
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEmail("");
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Hiring team</DialogTitle>
+          <DialogDescription>
+            Teammates can see applicants to all your jobs and their materials, and leave notes, ratings and tags.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addMutation.mutate();
+            }}
+          >
+            <Label htmlFor="team-member-email">Add an employer by email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="team-member-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="colleague@company.com"
+              />
+              <Button type="submit" disabled={!email.trim() || addMutation.isPending}>
+                Add
+              </Button>
+            </div>
+          </form>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : members.length === 0 ? (
+            <p className="text-sm text-gray-500">You haven't added anyone yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {members.map((member) => (
+                <li key={member._id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{member.name}</p>
+                    <p className="text-xs text-gray-500">{member.email}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate(member._id)}
+                  >
+                    <span className="sr-only">Remove {member.name}</span>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HiringTeamDialog;
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Bell, Edit, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface JobAlertEntry {
+  _id: string;
+  name: string;
+  filters: Record<string, string>;
+  frequency: "daily" | "weekly";
+  status: "active" | "paused";
+  lastSentAt?: string;
+  createdAt: string;
+}
+
+interface JobAlertItemProps {
+  alert: JobAlertEntry;
+}
+
+const filterLabels: Record<string, string> = {
+  search: "Keywords",
+  location: "Location",
+  near: "Near",
+  radiusKm: "Radius (km)",
+  includeRemote: "Include remote",
+  type: "Job type",
+  experience: "Experience",
+  workMode: "Work mode",
+  skills: "Skills",
+  schedule: "Schedule",
+  benefits: "Benefits",
+  minSalary: "Min salary",
+  maxSalary: "Max salary",
+  currency: "Currency",
+};
+
+const JobAlertItem = ({ alert }: JobAlertItemProps) => {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(alert.name);
+  const [frequency, setFrequency] = useState<string>(alert.frequency);
+
+  const updateAlertMutation = useMutation({
+    mutationFn: async (changes: Partial<Pick<JobAlertEntry, "name" | "frequency" | "status">>) => {
+      const res = await apiRequest("PATCH", `/api/job-alerts/${alert._id}`, changes);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/job-alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating job alert",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAlertMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/job-alerts/${alert._id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Job alert deleted",
+        description: "You will no longer receive emails for this search.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting job alert",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const searchLink = `/jobs?${new URLSearchParams(alert.filters).toString()}`;
+
+  return (
+    <li className="py-4">
+      <div className="flex items-start justify-between">
+        <div className="min-w-0 flex-1">
+          {isEditing ? (
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                className="sm:max-w-xs"
+              />
+              <Select value={frequency} onValueChange={setFrequency}>
+                <SelectTrigger className="sm:w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                onClick={() => updateAlertMutation.mutate({ name, frequency: frequency as JobAlertEntry["frequency"] })}
+                disabled={updateAlertMutation.isPending}
+              >
+                Save
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setName(alert.name);
+                  setFrequency(alert.frequency);
+                  setIsEditing(false);
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Bell className="h-4 w-4 text-gray-400" />
+              <Link href={searchLink}>
+                <h3 className="text-lg font-medium text-primary-600 hover:text-primary-800 truncate">
+                  {alert.name}
+                </h3>
+              </Link>
+              <Badge variant="outline" className="capitalize">{alert.frequency}</Badge>
+              {alert.status === "paused" && (
+                <Badge className="bg-gray-100 text-gray-800">Paused</Badge>
+              )}
+            </div>
+          )}
+          <div className="mt-2 flex flex-wrap gap-2">
+            {Object.entries(alert.filters).map(([key, value]) => (
+              <Badge key={key} variant="outline" className="bg-blue-50 text-blue-700 border-blue-100">
+                {filterLabels[key] || key}: {value}
+              </Badge>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {alert.lastSentAt
+              ? `Last email sent ${formatDistanceToNow(new Date(alert.lastSentAt))} ago`
+              : `Created ${formatDistanceToNow(new Date(alert.createdAt))} ago`}
+          </p>
+        </div>
+        <div className="ml-4 flex flex-shrink-0 items-center gap-2">
+          <Switch
+            checked={alert.status === "active"}
+            onCheckedChange={(checked) => updateAlertMutation.mutate({ status: checked ? "active" : "paused" })}
+            disabled={updateAlertMutation.isPending}
+            aria-label={alert.status === "active" ? "Pause alert" : "Resume alert"}
+          />
+          {!isEditing && (
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+              <Edit className="h-4 w-4" />
+              <span className="sr-only">Edit</span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => deleteAlertMutation.mutate()}
+            disabled={deleteAlertMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export default JobAlertItem;
@@ -0,0 +1,78 @@
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { FileText, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface JobDraftEntry {
+  _id: string;
+  title: string;
+  step: number;
+  updatedAt: string;
+}
+
+interface JobDraftItemProps {
+  draft: JobDraftEntry;
+}
+
+// Number of steps in the post-job wizard
+const WIZARD_STEPS = 8;
+
+const JobDraftItem = ({ draft }: JobDraftItemProps) => {
+  const { toast } = useToast();
+
+  const deleteDraftMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/job-drafts/${draft._id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Draft deleted",
+        description: `"${draft.title}" has been discarded.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-drafts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting draft",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <li className="px-4 py-4 sm:px-6">
+      <div className="flex items-center justify-between">
+        <div className="flex min-w-0 items-center">
+          <FileText className="mr-3 h-5 w-5 flex-shrink-0 text-gray-400" />
+          <div className="min-w-0">
+            <h3 className="truncate text-base font-medium text-gray-900">{draft.title}</h3>
+            <p className="text-sm text-gray-500">
+              Step {draft.step} of {WIZARD_STEPS} · Edited {formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+        <div className="ml-4 flex flex-shrink-0 items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/post-job/wizard?draft=${draft._id}`}>Resume</Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => deleteDraftMutation.mutate()}
+            disabled={deleteDraftMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export default JobDraftItem;
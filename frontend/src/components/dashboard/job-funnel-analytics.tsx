@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Loader2 } from "lucide-react";
+
+interface FunnelCounts {
+  impressions: number;
+  views: number;
+  applyClicks: number;
+  applications: number;
+}
+
+interface Funnel extends FunnelCounts {
+  viewRate: number;
+  applyClickRate: number;
+  completionRate: number;
+}
+
+interface EmployerAnalytics {
+  days: number;
+  totals: Funnel;
+  jobs: (Funnel & { jobId: string; title: string; status: string })[];
+  series: (FunnelCounts & { date: string })[];
+}
+
+const RANGES = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+const FUNNEL_STEPS: { key: keyof FunnelCounts; label: string; color: string }[] = [
+  { key: "impressions", label: "Search impressions", color: "#94A3B8" },
+  { key: "views", label: "Detail views", color: "#3B82F6" },
+  { key: "applyClicks", label: "Apply clicks", color: "#F59E0B" },
+  { key: "applications", label: "Applications", color: "#10B981" },
+];
+
+const JobFunnelAnalytics = () => {
+  const [days, setDays] = useState("30");
+
+  const { data: response, isLoading } = useQuery<{ success: boolean; data: EmployerAnalytics }>({
+    queryKey: [`/api/employer/analytics?days=${days}`],
+  });
+
+  const analytics = response?.data;
+  // Only list jobs that were seen at all in the range
+  const activeJobs = analytics?.jobs.filter((job) => job.impressions > 0 || job.views > 0) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Job Funnel</CardTitle>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map((range) => (
+              <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !analytics ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {FUNNEL_STEPS.map((step) => (
+                <div key={step.key} className="rounded-lg border p-4">
+                  <p className="text-sm text-gray-500">{step.label}</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">{analytics.totals[step.key]}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={analytics.series} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+                  <XAxis dataKey="date" tickFormatter={(date) => format(parseISO(date), "MMM d")} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip labelFormatter={(date) => format(parseISO(String(date)), "MMM d, yyyy")} />
+                  <Legend />
+                  {FUNNEL_STEPS.map((step) => (
+                    <Line
+                      key={step.key}
+                      type="monotone"
+                      dataKey={step.key}
+                      name={step.label}
+                      stroke={step.color}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {activeJobs.length === 0 ? (
+              <p className="text-center text-sm text-gray-500">
+                None of your jobs have been seen by candidates in this period.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead className="text-right">Impressions</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead className="text-right">Apply clicks</TableHead>
+                    <TableHead className="text-right">Applications</TableHead>
+                    <TableHead className="text-right">View → apply</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {activeJobs.map((job) => (
+                    <TableRow key={job.jobId}>
+                      <TableCell className="font-medium">{job.title}</TableCell>
+                      <TableCell className="text-right">{job.impressions}</TableCell>
+                      <TableCell className="text-right">
+                        {job.views} <span className="text-xs text-gray-500">({job.viewRate}%)</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {job.applyClicks} <span className="text-xs text-gray-500">({job.applyClickRate}%)</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {job.applications} <span className="text-xs text-gray-500">({job.completionRate}%)</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {job.views > 0 ? `${Math.round((job.applications / job.views) * 1000) / 10}%` : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobFunnelAnalytics;
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Upload } from "lucide-react";
+
+type ImportAction = "create" | "update" | "unchanged" | "error";
+
+interface ImportRowResult {
+  row: number;
+  externalId: string | null;
+  title: string | null;
+  action: ImportAction;
+  errors: string[];
+  warnings: string[];
+  status?: string;
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  columns: string[];
+  mapping: Record<string, string | null>;
+  fields: string[];
+  rows: ImportRowResult[];
+  summary: Record<ImportAction, number> & { total: number; held: number };
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  externalId: "External reference ID",
+  title: "Job title",
+  company: "Company",
+  description: "Description",
+  location: "Location",
+  type: "Job type",
+  workMode: "Work mode",
+  salary: "Salary",
+  minSalary: "Minimum salary",
+  maxSalary: "Maximum salary",
+  currency: "Salary currency",
+  salaryPeriod: "Salary period",
+  payType: "Pay type",
+  salaryNegotiable: "Salary negotiable",
+  supplementalPay: "Supplemental pay",
+  benefits: "Benefits",
+  requirements: "Requirements",
+  additionalQualifications: "Additional qualifications",
+  experienceLevel: "Experience level",
+  skills: "Required skills",
+  preferredSkills: "Preferred skills",
+  schedule: "Schedule",
+  numberOfOpenings: "Openings",
+  recruitmentTimeline: "Hiring timeline",
+  startDate: "Start date",
+  deadline: "Application deadline",
+  contactEmail: "Contact email",
+  allowContact: "Allow contact",
+  emailUpdates: "Email updates",
+  resumeRequired: "Resume required",
+  showCompanyDetails: "Show company details",
+  featured: "Featured",
+  urgentlyHiring: "Urgently hiring",
+  screeningQuestions: "Screening questions",
+  knockoutAction: "Knockout action",
+  reapplyAfterDays: "Re-apply after (days)",
+  reapplyAfterRepost: "Re-apply after repost",
+};
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "New job",
+  update: "Update",
+  unchanged: "No changes",
+  error: "Error",
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-800",
+  error: "bg-red-100 text-red-800",
+};
+
+// Radix selects can't hold an empty value
+const UNMAPPED = "none";
+
+interface JobImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Post or update many jobs at once from a CSV or JSON file. The file is
+// checked first, so the employer can fix the column mapping and see what
+// will happen to each row before anything is saved.
+const JobImportDialog = ({ open, onOpenChange }: JobImportDialogProps) => {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async ({ dryRun, columnMapping }: { dryRun: boolean; columnMapping: Record<string, string | null> }) => {
+      const formData = new FormData();
+      formData.append("file", file as File);
+      formData.append("dryRun", String(dryRun));
+      formData.append("mapping", JSON.stringify(columnMapping));
+
+      const res = await fetch("/api/job-imports", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.message || "Failed to import jobs");
+      }
+      return result.data as ImportReport;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      setMapping(data.mapping);
+      if (!data.dryRun) {
+        toast({
+          title: "Jobs imported",
+          description: `${data.summary.create} posted, ${data.summary.update} updated.`,
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/employer/stats"] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not import jobs",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reset = () => {
+    setFile(null);
+    setMapping({});
+    setReport(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setMapping({});
+    setReport(null);
+  };
+
+  // Re-check the file whenever a column is mapped differently
+  const handleMappingChange = (column: string, field: string) => {
+    const columnMapping = { ...mapping, [column]: field === UNMAPPED ? null : field };
+    setMapping(columnMapping);
+    importMutation.mutate({ dryRun: true, columnMapping });
+  };
+
+  const importable = report ? report.summary.create + report.summary.update : 0;
+  const isImported = report !== null && !report.dryRun;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import jobs</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with one job per row. Each job needs an external reference ID;
+            importing a job again with the same ID updates it instead of posting it twice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] space-y-6 overflow-y-auto">
+          <div className="space-y-2">
+            <Label htmlFor="job-import-file">File</Label>
+            <Input id="job-import-file" type="file" accept=".csv,.json" onChange={handleFileChange} />
+            <p className="text-xs text-gray-500">
+              Separate list values such as skills with semicolons. Empty cells leave an existing job's value unchanged.
+            </p>
+          </div>
+
+          {report && (
+            <>
+              <div>
+                <h3 className="mb-2 text-sm font-medium text-gray-900">Columns</h3>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {report.columns.map((column) => (
+                    <div key={column} className="flex items-center gap-3">
+                      <span className="w-1/2 truncate text-sm text-gray-700" title={column}>{column}</span>
+                      <Select
+                        value={mapping[column] || UNMAPPED}
+                        onValueChange={(field) => handleMappingChange(column, field)}
+                        disabled={importMutation.isPending || isImported}
+                      >
+                        <SelectTrigger className="w-1/2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                          {report.fields.map((field) => (
+                            <SelectItem key={field} value={field}>
+                              {FIELD_LABELS[field] || field}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="mb-2 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium text-gray-900">
+                    {report.dryRun ? "What will happen" : "Import results"}
+                  </span>
+                  {(Object.keys(ACTION_LABELS) as ImportAction[]).map((action) =>
+                    report.summary[action] > 0 ? (
+                      <Badge key={action} variant="outline" className={ACTION_STYLES[action]}>
+                        {ACTION_LABELS[action]}: {report.summary[action]}
+                      </Badge>
+                    ) : null
+                  )}
+                  {report.summary.held > 0 && (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800">
+                      Held for review: {report.summary.held}
+                    </Badge>
+                  )}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.externalId || "—"}</TableCell>
+                        <TableCell>{row.title || "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={ACTION_STYLES[row.action]}>
+                            {ACTION_LABELS[row.action]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.errors.map((error) => (
+                            <p key={error} className="text-red-600">{error}</p>
+                          ))}
+                          {row.warnings.map((warning) => (
+                            <p key={warning} className="text-amber-600">{warning}</p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {isImported ? "Done" : "Cancel"}
+          </Button>
+          {!isImported && (
+            report ? (
+              <Button
+                className="bg-primary hover:bg-primary-600"
+                onClick={() => importMutation.mutate({ dryRun: false, columnMapping: mapping })}
+                disabled={importMutation.isPending || importable === 0}
+              >
+                {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {importable} job{importable === 1 ? "" : "s"}
+              </Button>
+            ) : (
+              <Button
+                className="bg-primary hover:bg-primary-600"
+                onClick={() => importMutation.mutate({ dryRun: true, columnMapping: mapping })}
+                disabled={importMutation.isPending || !file}
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                Check file
+              </Button>
+            )
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JobImportDialog;
@@ -1,5 +1,7 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { Job } from "@shared/schema";
+import type { JobClosedReason } from "@shared/mongodb-types";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -10,20 +12,35 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Clock, MapPin, Users, Edit, MoreVertical, RefreshCw } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import JobRevisionHistory from "@/components/jobs/job-revision-history";
+import SaveJobTemplateDialog from "@/components/dashboard/save-job-template-dialog";
+import { differenceInDays, format, formatDistanceToNow } from "date-fns";
 import { Link } from "wouter";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+// Expiry details returned by GET /api/employer/jobs
+type EmployerJob = Job & {
+  publishAt?: string | null;
+  expiresAt?: string | null;
+  closedReason?: JobClosedReason | null;
+  renewals?: { renewedAt: string }[];
+};
+
 interface JobListItemProps {
-  job: Job;
+  job: EmployerJob;
   applicantsCount?: number;
 }
 
+// Active jobs closing within this many days get a renew button
+const RENEW_PROMPT_DAYS = 7;
+
 const JobListItem = ({ job, applicantsCount = 0 }: JobListItemProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
   
   const getInitials = (name: string) => {
     return name
@@ -33,47 +50,53 @@ const JobListItem = ({ job, applicantsCount = 0 }: JobListItemProps) => {
       .toUpperCase();
   };
   
+  const isExpired = job.status === "closed" && (job.closedReason === "deadline" || job.closedReason === "inactive");
+  const expiresInDays = job.expiresAt ? differenceInDays(new Date(job.expiresAt), new Date()) : null;
+  const isExpiringSoon = job.status === "active" && expiresInDays !== null && expiresInDays < RENEW_PROMPT_DAYS;
+  const renewalCount = job.renewals?.length || 0;
+  
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "active":
         return <Badge className="bg-green-100 text-green-800">Active</Badge>;
       case "closed":
-        return <Badge className="bg-gray-100 text-gray-800">Closed</Badge>;
+        return isExpired
+          ? <Badge className="bg-orange-100 text-orange-800">Expired</Badge>
+          : <Badge className="bg-gray-100 text-gray-800">Closed</Badge>;
       case "pending":
         return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
       case "flagged":
         return <Badge className="bg-red-100 text-red-800">Flagged</Badge>;
+      case "scheduled":
+        return <Badge className="bg-blue-100 text-blue-800">Scheduled</Badge>;
       default:
         return null;
     }
   };
   
-  const reopenJobMutation = useMutation({
+  const renewJobMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("PUT", `/api/jobs/${job.id}`, {
-        ...job,
-        status: "active",
-      });
+      const res = await apiRequest("POST", `/api/jobs/${job.id}/renew`);
       return await res.json();
     },
     onSuccess: () => {
       toast({
-        title: "Job reopened",
-        description: "This job listing is now active again.",
+        title: "Job renewed",
+        description: "This job listing will accept applications for another 30 days.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs"] });
     },
     onError: (error: Error) => {
       toast({
-        title: "Error reopening job",
+        title: "Error renewing job",
         description: error.message,
         variant: "destructive",
       });
     },
   });
   
-  const handleReopen = () => {
-    reopenJobMutation.mutate();
+  const handleRenew = () => {
+    renewJobMutation.mutate();
   };
   
   return (
@@ -96,10 +119,23 @@ const JobListItem = ({ job, applicantsCount = 0 }: JobListItemProps) => {
                 <div className="mr-2 flex items-center">
                   <Clock className="mr-1 h-4 w-4 text-gray-400" />
                   {job.status === "closed" ? 
-                    `Closed ${formatDistanceToNow(new Date(job.updatedAt), { addSuffix: true })}` :
+                    `${isExpired ? "Expired" : "Closed"} ${formatDistanceToNow(new Date(job.updatedAt), { addSuffix: true })}` :
+                    (job.status as string) === "scheduled" && job.publishAt ?
+                    `Goes live ${format(new Date(job.publishAt), "MMM d, yyyy 'at' h:mm a")}` :
                     `Posted ${formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}`
                   }
                 </div>
+                {isExpiringSoon && job.expiresAt && (
+                  <div className="mr-2 flex items-center text-orange-600">
+                    Expires {formatDistanceToNow(new Date(job.expiresAt), { addSuffix: true })}
+                  </div>
+                )}
+                {renewalCount > 0 && (
+                  <div className="mr-2 flex items-center">
+                    <RefreshCw className="mr-1 h-4 w-4 text-gray-400" />
+                    Renewed {renewalCount} time{renewalCount !== 1 ? 's' : ''}
+                  </div>
+                )}
                 <div className="mr-2 flex items-center">
                   <MapPin className="mr-1 h-4 w-4 text-gray-400" />
                   {job.location}
@@ -137,16 +173,16 @@ const JobListItem = ({ job, applicantsCount = 0 }: JobListItemProps) => {
                 </Button>
               )}
               
-              {job.status === "closed" && (
+              {(job.status === "closed" || isExpiringSoon) && (
                 <Button 
                   variant="default" 
                   size="sm"
-                  onClick={handleReopen}
-                  disabled={reopenJobMutation.isPending}
+                  onClick={handleRenew}
+                  disabled={renewJobMutation.isPending}
                   className="bg-primary hover:bg-primary-600"
                 >
                   <RefreshCw className="mr-1 h-4 w-4" />
-                  Repost
+                  Renew for 30 days
                 </Button>
               )}
               
@@ -160,10 +196,28 @@ const JobListItem = ({ job, applicantsCount = 0 }: JobListItemProps) => {
                   <DropdownMenuItem asChild>
                     <Link href={`/jobs/${job.id}`}>View Job</Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href={`/post-job/wizard?clone=${job.id}`}>Duplicate Job</Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setShowSaveTemplate(true)}>Save as Template</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setShowHistory(true)}>Revision History</DropdownMenuItem>
                   <DropdownMenuItem>Close Job</DropdownMenuItem>
                   <DropdownMenuItem className="text-red-600">Delete Job</DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
+              
+              <JobRevisionHistory
+                jobId={String(job.id)}
+                jobTitle={job.title}
+                open={showHistory}
+                onOpenChange={setShowHistory}
+              />
+              <SaveJobTemplateDialog
+                jobId={String(job.id)}
+                jobTitle={job.title}
+                open={showSaveTemplate}
+                onOpenChange={setShowSaveTemplate}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,81 @@
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { LayoutTemplate, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface JobTemplateEntry {
+  _id: string;
+  name: string;
+  title?: string;
+  usageCount: number;
+  lastUsedAt: string | null;
+  // Jobs posted after starting the wizard from the template
+  jobsPosted: number;
+}
+
+interface JobTemplateItemProps {
+  template: JobTemplateEntry;
+}
+
+const JobTemplateItem = ({ template }: JobTemplateItemProps) => {
+  const { toast } = useToast();
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/job-templates/${template._id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Template deleted",
+        description: `"${template.name}" has been removed.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-templates"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <li className="px-4 py-4 sm:px-6">
+      <div className="flex items-center justify-between">
+        <div className="flex min-w-0 items-center">
+          <LayoutTemplate className="mr-3 h-5 w-5 flex-shrink-0 text-gray-400" />
+          <div className="min-w-0">
+            <h3 className="truncate text-base font-medium text-gray-900">{template.name}</h3>
+            <p className="text-sm text-gray-500">
+              Used {template.usageCount} time{template.usageCount !== 1 ? "s" : ""} ·{" "}
+              {template.jobsPosted} job{template.jobsPosted !== 1 ? "s" : ""} posted
+              {template.lastUsedAt &&
+                ` · Last used ${formatDistanceToNow(new Date(template.lastUsedAt), { addSuffix: true })}`}
+            </p>
+          </div>
+        </div>
+        <div className="ml-4 flex flex-shrink-0 items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/post-job/wizard?template=${template._id}`}>Use template</Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => deleteTemplateMutation.mutate()}
+            disabled={deleteTemplateMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export default JobTemplateItem;
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+
+export type ApplicationStatus = "pending" | "reviewed" | "interviewed" | "accepted" | "rejected";
+
+export type PipelineSource = "job" | "company" | "default";
+
+export interface PipelineStageEntry {
+  id?: string;
+  name: string;
+  status: ApplicationStatus;
+}
+
+interface ResolvedPipeline {
+  stages: PipelineStageEntry[];
+  source: PipelineSource;
+}
+
+// What candidates see while their application is in a stage
+export const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  pending: "Applied",
+  reviewed: "Under review",
+  interviewed: "Interviewing",
+  accepted: "Hired",
+  rejected: "Rejected",
+};
+
+const MAX_PIPELINE_STAGES = 15;
+
+interface PipelineStagesEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this job's stages; without one, the company's
+  jobId?: string;
+}
+
+// Dialog for naming, ordering and mapping the stages of a hiring pipeline
+const PipelineStagesEditor = ({ open, onOpenChange, jobId }: PipelineStagesEditorProps) => {
+  const { toast } = useToast();
+  const [stages, setStages] = useState<PipelineStageEntry[]>([]);
+
+  const pipelineUrl = jobId ? `/api/hiring-pipelines/jobs/${jobId}` : "/api/hiring-pipelines/company";
+
+  const { data: pipelineResponse, isLoading } = useQuery<{ success: boolean; data: ResolvedPipeline }>({
+    queryKey: [pipelineUrl],
+    enabled: open,
+  });
+  const pipeline = pipelineResponse?.data;
+
+  // Start from the saved stages each time the dialog opens
+  useEffect(() => {
+    if (open && pipeline) {
+      setStages(pipeline.stages.map((stage) => ({ ...stage })));
+    }
+  }, [open, pipeline]);
+
+  const onSaved = (message: string) => {
+    toast({ title: message });
+    queryClient.invalidateQueries({ queryKey: ["/api/hiring-pipelines/company"] });
+    if (jobId) {
+      queryClient.invalidateQueries({ queryKey: [pipelineUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/hiring-pipelines/jobs/${jobId}/board`] });
+    }
+    onOpenChange(false);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", pipelineUrl, {
+        stages: stages.map((stage) => ({ ...stage, name: stage.name.trim() })),
+      });
+      return await res.json();
+    },
+    onSuccess: () => onSaved("Pipeline saved"),
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving pipeline",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", pipelineUrl);
+      return await res.json();
+    },
+    onSuccess: () => onSaved(jobId ? "This job now uses your company pipeline" : "Pipeline reset to the default stages"),
+    onError: (error: Error) => {
+      toast({
+        title: "Error resetting pipeline",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStage = (index: number, changes: Partial<PipelineStageEntry>) => {
+    setStages((current) => current.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setStages((current) => {
+      const next = [...current];
+      const [stage] = next.splice(index, 1);
+      next.splice(index + offset, 0, stage);
+      return next;
+    });
+  };
+
+  const removeStage = (index: number) => {
+    setStages((current) => current.filter((_, i) => i !== index));
+  };
+
+  const addStage = () => {
+    setStages((current) => [...current, { name: "", status: "reviewed" }]);
+  };
+
+  // Only a pipeline saved at this level can be reset from here
+  const canReset = pipeline?.source === (jobId ? "job" : "company");
+  const isSaving = saveMutation.isPending || resetMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{jobId ? "Stages for this job" : "Company hiring pipeline"}</DialogTitle>
+          <DialogDescription>
+            {jobId
+              ? pipeline?.source === "job"
+                ? "This job has its own stages."
+                : "This job uses your company's stages. Saving here gives it its own."
+              : "These stages apply to every job that doesn't have its own."}{" "}
+            Each stage shows candidates the status it maps to.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {stages.map((stage, index) => (
+              <div key={stage.id || `new-${index}`} className="flex items-center gap-2">
+                <Input
+                  value={stage.name}
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                  placeholder="Stage name"
+                  maxLength={50}
+                  className="flex-1"
+                />
+                <Select
+                  value={stage.status}
+                  onValueChange={(value) => updateStage(index, { status: value as ApplicationStatus })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STATUS_LABELS) as ApplicationStatus[]).map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" onClick={() => moveStage(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                  <span className="sr-only">Move up</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveStage(index, 1)}
+                  disabled={index === stages.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                  <span className="sr-only">Move down</span>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => removeStage(index)} disabled={stages.length <= 2}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove</span>
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addStage} disabled={stages.length >= MAX_PIPELINE_STAGES}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add stage
+            </Button>
+            <p className="text-xs text-gray-500">
+              Applications in a removed stage move to the first stage with the same status.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={() => resetMutation.mutate()} disabled={!canReset || isSaving}>
+            {jobId ? "Use company stages" : "Reset to defaults"}
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={isLoading || isSaving}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save stages
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PipelineStagesEditor;
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { JobRiskReason } from "@shared/mongodb-types";
+import JobRevisionHistory from "@/components/jobs/job-revision-history";
+import { CheckCircle, Eye, History, Loader2, ShieldAlert } from "lucide-react";
+
+interface HeldJob {
+  _id: string;
+  title: string;
+  company: string;
+  location: string;
+  createdAt: string;
+  riskAssessment: {
+    score: number;
+    reasons: JobRiskReason[];
+    assessedAt: string;
+  };
+  employer?: {
+    name: string;
+    email: string;
+  };
+}
+
+const QUEUE_QUERY_KEY = "/api/admin/job-risk/queue";
+
+const RiskReviewQueue = () => {
+  const { toast } = useToast();
+  const [historyJob, setHistoryJob] = useState<HeldJob | null>(null);
+
+  const { data: response, isLoading } = useQuery<{ success: boolean; data: HeldJob[] }>({
+    queryKey: [QUEUE_QUERY_KEY],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ jobId, decision }: { jobId: string; decision: "approve" | "remove" }) => {
+      const res = await apiRequest("PATCH", `/api/admin/job-risk/queue/${jobId}`, { decision });
+      return await res.json();
+    },
+    onSuccess: (response) => {
+      toast({ title: response.message });
+      queryClient.invalidateQueries({ queryKey: [QUEUE_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not review job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const heldJobs = response?.data || [];
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-lg font-medium">Held for Review</CardTitle>
+        {heldJobs.length > 0 && (
+          <Badge variant="outline" className="bg-amber-100 text-amber-800">
+            {heldJobs.length} Held
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : heldJobs.length === 0 ? (
+          <div className="py-10 text-center">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900">Nothing held</h3>
+            <p className="mt-1 text-sm text-gray-500">No new jobs have tripped the scam and spam checks.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border-t border-gray-200">
+            {heldJobs.map((job) => (
+              <li key={job._id} className="px-6 py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{job.title}</p>
+                    <p className="text-sm text-gray-500">
+                      {job.company} · {job.location}
+                      {job.employer && ` · ${job.employer.name} (${job.employer.email})`}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Held {formatDistanceToNow(new Date(job.riskAssessment.assessedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="flex-shrink-0 bg-red-100 text-red-800">
+                    <ShieldAlert className="mr-1 h-3 w-3" />
+                    Risk {job.riskAssessment.score}
+                  </Badge>
+                </div>
+                <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                  {job.riskAssessment.reasons.map((reason) => (
+                    <li key={reason.rule}>
+                      <span className="font-medium">+{reason.score}</span> {reason.detail}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-3 flex justify-end space-x-2">
+                  <Button
+                    size="sm"
+                    className="bg-primary hover:bg-primary-600"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ jobId: job._id, decision: "approve" })}
+                  >
+                    Approve
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setHistoryJob(job)}>
+                    <History className="mr-1 h-3 w-3" />
+                    History
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/jobs/${job._id}`}>
+                      <Eye className="mr-1 h-3 w-3" />
+                      Review
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ jobId: job._id, decision: "remove" })}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+      
+      {historyJob && (
+        <JobRevisionHistory
+          jobId={historyJob._id}
+          jobTitle={historyJob.title}
+          open
+          onOpenChange={(open) => !open && setHistoryJob(null)}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default RiskReviewQueue;
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { JobRiskRules } from "@shared/mongodb-types";
+import { Loader2 } from "lucide-react";
+
+type RuleKey = "upfrontFee" | "messagingApps" | "unrealisticSalary" | "duplicateContent" | "newEmployer";
+
+const RULE_LABELS: Record<RuleKey, { title: string; description: string }> = {
+  upfrontFee: {
+    title: "Upfront fees",
+    description: "Phrases that ask candidates to pay before being hired, one per line.",
+  },
+  messagingApps: {
+    title: "Messaging-app contact",
+    description: "Words that move candidates off the platform, one per line.",
+  },
+  unrealisticSalary: {
+    title: "Unrealistic salary",
+    description: "Highest believable annual salary for each experience level.",
+  },
+  duplicateContent: {
+    title: "Copied descriptions",
+    description: "Descriptions identical to a job from another employer.",
+  },
+  newEmployer: {
+    title: "New unverified employers",
+    description: "Accounts without a verified email or phone, created in the last few days.",
+  },
+};
+
+const SALARY_LEVELS = ["entry", "intermediate", "senior", "executive"] as const;
+
+const RULES_QUERY_KEY = "/api/admin/job-risk/rules";
+
+const RiskRulesSettings = () => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<JobRiskRules | null>(null);
+
+  const { data: response, isLoading } = useQuery<{ success: boolean; data: JobRiskRules }>({
+    queryKey: [RULES_QUERY_KEY],
+  });
+
+  useEffect(() => {
+    if (response?.data) setRules(response.data);
+  }, [response]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: JobRiskRules) => {
+      const { _id, updatedAt, updatedBy, ...changes } = updated;
+      const res = await apiRequest("PUT", "/api/admin/job-risk/rules", changes);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Rules saved", description: "New and edited jobs will be checked with these rules." });
+      queryClient.invalidateQueries({ queryKey: [RULES_QUERY_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save rules",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !rules) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const updateRule = <K extends RuleKey>(key: K, changes: Partial<JobRiskRules[K]>) => {
+    setRules({ ...rules, [key]: { ...rules[key], ...changes } });
+  };
+
+  const toLines = (values: string[]) => values.join("\n");
+  const fromLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-medium">Scam &amp; Spam Rules</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Label htmlFor="risk-threshold">Hold jobs scoring at least</Label>
+          <Input
+            id="risk-threshold"
+            type="number"
+            className="w-24"
+            value={rules.threshold}
+            onChange={(e) => setRules({ ...rules, threshold: Number(e.target.value) })}
+          />
+        </div>
+
+        {(Object.keys(RULE_LABELS) as RuleKey[]).map((key) => (
+          <div key={key} className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">{RULE_LABELS[key].title}</p>
+                <p className="text-xs text-gray-500">{RULE_LABELS[key].description}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <Input
+                  type="number"
+                  className="w-20"
+                  aria-label={`${RULE_LABELS[key].title} weight`}
+                  value={rules[key].weight}
+                  onChange={(e) => updateRule(key, { weight: Number(e.target.value) })}
+                />
+                <Switch
+                  checked={rules[key].enabled}
+                  onCheckedChange={(enabled) => updateRule(key, { enabled })}
+                  aria-label={`Enable ${RULE_LABELS[key].title}`}
+                />
+              </div>
+            </div>
+
+            {key === "upfrontFee" && (
+              <Textarea
+                rows={4}
+                value={toLines(rules.upfrontFee.phrases)}
+                onChange={(e) => updateRule("upfrontFee", { phrases: fromLines(e.target.value) })}
+              />
+            )}
+            {key === "messagingApps" && (
+              <Textarea
+                rows={3}
+                value={toLines(rules.messagingApps.keywords)}
+                onChange={(e) => updateRule("messagingApps", { keywords: fromLines(e.target.value) })}
+              />
+            )}
+            {key === "unrealisticSalary" && (
+              <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                {SALARY_LEVELS.map((level) => (
+                  <div key={level} className="space-y-1">
+                    <Label className="text-xs capitalize">
+                      {level} ({rules.unrealisticSalary.currency})
+                    </Label>
+                    <Input
+                      type="number"
+                      value={rules.unrealisticSalary.maxAnnualByLevel[level]}
+                      onChange={(e) =>
+                        updateRule("unrealisticSalary", {
+                          maxAnnualByLevel: {
+                            ...rules.unrealisticSalary.maxAnnualByLevel,
+                            [level]: Number(e.target.value),
+                          },
+                        })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            {key === "duplicateContent" && (
+              <div className="flex items-center gap-3 text-sm">
+                <span>Ignore descriptions shorter than</span>
+                <Input
+                  type="number"
+                  className="w-24"
+                  value={rules.duplicateContent.minLength}
+                  onChange={(e) => updateRule("duplicateContent", { minLength: Number(e.target.value) })}
+                />
+                <span>characters</span>
+              </div>
+            )}
+            {key === "newEmployer" && (
+              <div className="flex items-center gap-3 text-sm">
+                <span>Accounts younger than</span>
+                <Input
+                  type="number"
+                  className="w-24"
+                  value={rules.newEmployer.accountAgeDays}
+                  onChange={(e) => updateRule("newEmployer", { accountAgeDays: Number(e.target.value) })}
+                />
+                <span>days</span>
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <Button
+            className="bg-primary hover:bg-primary-600"
+            disabled={saveMutation.isPending}
+            onClick={() => saveMutation.mutate(rules)}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskRulesSettings;
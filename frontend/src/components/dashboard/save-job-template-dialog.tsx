@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface SaveJobTemplateDialogProps {
+  jobId: string;
+  jobTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Save a job's description, requirements, skills, benefits and screening
+// questions as a template the whole company can post from
+const SaveJobTemplateDialog = ({ jobId, jobTitle, open, onOpenChange }: SaveJobTemplateDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState(jobTitle);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/job-templates", { name, jobId });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Template saved",
+        description: `Start your next posting from "${name}".`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-templates"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            Recruiters at your company can start new postings from this job's content.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Template name</Label>
+          <Input
+            id="template-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Customer Support Executive"
+            maxLength={100}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary-600"
+            onClick={() => saveTemplateMutation.mutate()}
+            disabled={saveTemplateMutation.isPending || !name.trim()}
+          >
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveJobTemplateDialog;
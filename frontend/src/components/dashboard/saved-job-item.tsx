@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Job } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Building, Clock, MapPin, StickyNote, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export type SavedJobWarning = "removed" | "closed" | "expired" | "closing-soon";
+
+export interface SavedJobEntry {
+  _id: string;
+  jobId: string;
+  notes: string;
+  savedAt: string;
+  job?: Job;
+  warning: SavedJobWarning | null;
+}
+
+interface SavedJobItemProps {
+  savedJob: SavedJobEntry;
+}
+
+const warningMessages: Record<SavedJobWarning, string> = {
+  removed: "This job is no longer available.",
+  closed: "The employer has closed this job.",
+  expired: "The application deadline for this job has passed.",
+  "closing-soon": "Applications for this job close soon.",
+};
+
+const SavedJobItem = ({ savedJob }: SavedJobItemProps) => {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState(savedJob.notes || "");
+  const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const { job, warning } = savedJob;
+
+  const invalidateSavedJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs/ids"] });
+  };
+
+  const updateNotesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/saved-jobs/${savedJob.jobId}`, { notes });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Notes saved",
+        description: "Your notes for this job have been updated.",
+      });
+      setIsEditingNotes(false);
+      invalidateSavedJobs();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving notes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/saved-jobs/${savedJob.jobId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Job removed from saved jobs",
+        description: "The job has been removed from your saved jobs",
+      });
+      invalidateSavedJobs();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <li className="py-4">
+      <div className="flex items-start justify-between">
+        <div className="min-w-0">
+          {job ? (
+            <Link href={`/jobs/${savedJob.jobId}`}>
+              <h3 className="text-lg font-medium text-primary-600 hover:text-primary-800 truncate">
+                {job.title}
+              </h3>
+            </Link>
+          ) : (
+            <h3 className="text-lg font-medium text-gray-500">Job unavailable</h3>
+          )}
+          {job && (
+            <div className="mt-1 flex flex-wrap items-center text-sm text-gray-500 gap-x-4 gap-y-1">
+              <div className="flex items-center">
+                <Building className="mr-1 h-4 w-4 text-gray-400" />
+                {job.company}
+              </div>
+              <div className="flex items-center">
+                <MapPin className="mr-1 h-4 w-4 text-gray-400" />
+                {job.location}
+              </div>
+              <div className="flex items-center">
+                <Clock className="mr-1 h-4 w-4 text-gray-400" />
+                Saved {formatDistanceToNow(new Date(savedJob.savedAt))} ago
+              </div>
+              {job.deadline && (
+                <div className="flex items-center">
+                  Deadline {new Date(job.deadline).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="ml-4 flex flex-shrink-0 items-center gap-2">
+          {warning === "closing-soon" && (
+            <Badge className="bg-yellow-100 text-yellow-800">Closing soon</Badge>
+          )}
+          {warning && warning !== "closing-soon" && (
+            <Badge className="bg-gray-100 text-gray-800">Closed</Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeMutation.mutate()}
+            disabled={removeMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove</span>
+          </Button>
+        </div>
+      </div>
+
+      {warning && (
+        <div className={`mt-3 flex items-center rounded-md px-3 py-2 text-sm ${
+          warning === "closing-soon" ? "bg-yellow-50 text-yellow-800" : "bg-gray-50 text-gray-700"
+        }`}>
+          <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0" />
+          {warningMessages[warning]}
+        </div>
+      )}
+
+      <div className="mt-3">
+        {isEditingNotes ? (
+          <div className="space-y-2">
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add notes about this job, e.g. who referred you or what to mention when applying"
+              maxLength={2000}
+              rows={3}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setNotes(savedJob.notes || "");
+                  setIsEditingNotes(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => updateNotesMutation.mutate()}
+                disabled={updateNotesMutation.isPending}
+              >
+                Save notes
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            className="flex items-start text-left text-sm text-gray-600 hover:text-gray-900"
+            onClick={() => setIsEditingNotes(true)}
+          >
+            <StickyNote className="mr-2 mt-0.5 h-4 w-4 flex-shrink-0 text-gray-400" />
+            {savedJob.notes ? (
+              <span className="whitespace-pre-line">{savedJob.notes}</span>
+            ) : (
+              <span className="text-gray-400">Add a note</span>
+            )}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default SavedJobItem;
@@ -0,0 +1,194 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { SponsorshipStatus } from "@shared/mongodb-types";
+
+interface SpendTotals {
+  impressions: number;
+  clicks: number;
+  spend: number;
+}
+
+interface SponsoredJobReport extends SpendTotals {
+  jobId: string;
+  title: string;
+  status: SponsorshipStatus;
+  dailyBudget: number;
+  costPerClick: number;
+  currency: string;
+  endsAt: string | null;
+  spentToday: number;
+  averageCostPerClick: number;
+  clickThroughRate: number;
+}
+
+interface SponsorshipReport {
+  days: number;
+  totals: SpendTotals;
+  jobs: SponsoredJobReport[];
+  series: (SpendTotals & { date: string })[];
+}
+
+const REPORT_QUERY_KEY = "/api/sponsored-jobs/report?days=30";
+
+const statusStyles: Record<SponsorshipStatus, string> = {
+  active: "bg-green-100 text-green-800 border-green-200",
+  paused: "bg-amber-100 text-amber-800 border-amber-200",
+  ended: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency, maximumFractionDigits: 2 }).format(amount);
+
+const SponsoredSpendReport = () => {
+  const { toast } = useToast();
+
+  const { data: response } = useQuery<{ success: boolean; data: SponsorshipReport }>({
+    queryKey: [REPORT_QUERY_KEY],
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ jobId, status }: { jobId: string; status: "active" | "paused" }) => {
+      const res = await apiRequest("PATCH", `/api/sponsored-jobs/${jobId}/status`, { status });
+      return await res.json();
+    },
+    onSuccess: (response) => {
+      toast({ title: response.message });
+      queryClient.invalidateQueries({ queryKey: [REPORT_QUERY_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update sponsorship",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const report = response?.data;
+  if (!report || report.jobs.length === 0) {
+    return null;
+  }
+
+  const currency = report.jobs[0].currency;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sponsored Jobs · last {report.days} days</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div className="rounded-lg border p-4">
+            <p className="text-sm text-gray-500">Spend</p>
+            <p className="mt-1 text-2xl font-semibold text-gray-900">{formatMoney(report.totals.spend, currency)}</p>
+          </div>
+          <div className="rounded-lg border p-4">
+            <p className="text-sm text-gray-500">Sponsored clicks</p>
+            <p className="mt-1 text-2xl font-semibold text-gray-900">{report.totals.clicks}</p>
+          </div>
+          <div className="rounded-lg border p-4">
+            <p className="text-sm text-gray-500">Sponsored impressions</p>
+            <p className="mt-1 text-2xl font-semibold text-gray-900">{report.totals.impressions}</p>
+          </div>
+        </div>
+
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={report.series} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+              <XAxis dataKey="date" tickFormatter={(date) => format(parseISO(date), "MMM d")} />
+              <YAxis />
+              <Tooltip
+                labelFormatter={(date) => format(parseISO(String(date)), "MMM d, yyyy")}
+                formatter={(value) => formatMoney(Number(value), currency)}
+              />
+              <Bar dataKey="spend" name="Spend" fill="#8B5CF6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Job</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Spent today</TableHead>
+              <TableHead className="text-right">Cost per click</TableHead>
+              <TableHead className="text-right">Clicks</TableHead>
+              <TableHead className="text-right">CTR</TableHead>
+              <TableHead className="text-right">Spend</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.jobs.map((job) => (
+              <TableRow key={job.jobId}>
+                <TableCell className="font-medium">
+                  {job.title}
+                  {job.endsAt && job.status !== "ended" && (
+                    <p className="text-xs text-gray-500">Ends {format(new Date(job.endsAt), "MMM d")}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge className={statusStyles[job.status]}>{job.status}</Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatMoney(job.spentToday, job.currency)}
+                  <span className="text-xs text-gray-500"> / {formatMoney(job.dailyBudget, job.currency)}</span>
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatMoney(job.costPerClick, job.currency)}
+                  {job.clicks > 0 && (
+                    <p className="text-xs text-gray-500">avg {formatMoney(job.averageCostPerClick, job.currency)}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{job.clicks}</TableCell>
+                <TableCell className="text-right">{job.clickThroughRate}%</TableCell>
+                <TableCell className="text-right">{formatMoney(job.spend, job.currency)}</TableCell>
+                <TableCell className="text-right">
+                  {job.status !== "ended" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={statusMutation.isPending}
+                      onClick={() =>
+                        statusMutation.mutate({
+                          jobId: job.jobId,
+                          status: job.status === "active" ? "paused" : "active",
+                        })
+                      }
+                    >
+                      {job.status === "active" ? "Pause" : "Resume"}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SponsoredSpendReport;
@@ -0,0 +1,206 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import type { ApplicationDocumentType, ResumeSource } from "@shared/mongodb-types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Paperclip, X } from "lucide-react";
+
+export interface AttachedDocument {
+  file: File;
+  type: ApplicationDocumentType;
+}
+
+// Limits enforced by POST /api/jobs/:id/apply
+export const MAX_APPLICATION_DOCUMENTS = 5;
+const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024;
+const DOCUMENT_EXTENSIONS = [".pdf", ".doc", ".docx", ".png", ".jpg", ".jpeg"];
+
+export const DOCUMENT_TYPE_LABELS: Record<ApplicationDocumentType, string> = {
+  portfolio: "Portfolio",
+  certificate: "Certificate",
+  other: "Other",
+};
+
+interface ResumeSummary {
+  hasBuiltResume: boolean;
+  hasUploadedResume: boolean;
+}
+
+interface ApplicationMaterialsFormProps {
+  resumeRequired: boolean;
+  resumeSource: ResumeSource | null;
+  onResumeSourceChange: (source: ResumeSource | null) => void;
+  documents: AttachedDocument[];
+  onDocumentsChange: (documents: AttachedDocument[]) => void;
+  onInvalidFile: (message: string) => void;
+}
+
+/**
+ * The resume and documents to send with an application, as a multipart
+ * form for POST /api/jobs/:id/apply
+ */
+export const buildApplicationFormData = (
+  fields: { coverLetter: string; answers: unknown },
+  resumeSource: ResumeSource | null,
+  documents: AttachedDocument[]
+) => {
+  const formData = new FormData();
+  formData.append("coverLetter", fields.coverLetter);
+  formData.append("answers", JSON.stringify(fields.answers));
+  if (resumeSource) {
+    formData.append("resume", resumeSource);
+  }
+  documents.forEach((document) => formData.append("documents", document.file));
+  formData.append("documentTypes", JSON.stringify(documents.map((document) => document.type)));
+  return formData;
+};
+
+const ApplicationMaterialsForm = ({
+  resumeRequired,
+  resumeSource,
+  onResumeSourceChange,
+  documents,
+  onDocumentsChange,
+  onInvalidFile,
+}: ApplicationMaterialsFormProps) => {
+  const { data: resumeResponse, isLoading } = useQuery<{ success: boolean; data: ResumeSummary }>({
+    queryKey: ["/api/resume"],
+  });
+  const resumes = resumeResponse?.data;
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const added: AttachedDocument[] = [];
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const ext = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+      if (!DOCUMENT_EXTENSIONS.includes(ext)) {
+        onInvalidFile(`${file.name} isn't a PDF, DOC, DOCX, PNG or JPG file`);
+        continue;
+      }
+      if (file.size > MAX_DOCUMENT_SIZE) {
+        onInvalidFile(`${file.name} is larger than 5 MB`);
+        continue;
+      }
+      added.push({ file, type: "other" });
+    }
+    const next = [...documents, ...added];
+    if (next.length > MAX_APPLICATION_DOCUMENTS) {
+      onInvalidFile(`You can attach up to ${MAX_APPLICATION_DOCUMENTS} documents`);
+    }
+    onDocumentsChange(next.slice(0, MAX_APPLICATION_DOCUMENTS));
+  };
+
+  const setType = (index: number, type: ApplicationDocumentType) =>
+    onDocumentsChange(documents.map((document, i) => (i === index ? { ...document, type } : document)));
+
+  const hasAnyResume = resumes?.hasBuiltResume || resumes?.hasUploadedResume;
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-2">
+        <Label>
+          Resume
+          {resumeRequired ? <span className="text-red-500"> *</span> : " (Optional)"}
+        </Label>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading your resumes...</p>
+        ) : !hasAnyResume ? (
+          <p className="text-sm text-gray-500">
+            You don't have a resume yet.{" "}
+            <Link href="/resume" className="text-primary hover:underline">
+              Add one
+            </Link>{" "}
+            to send it with your applications.
+          </p>
+        ) : (
+          <RadioGroup
+            value={resumeSource || "none"}
+            onValueChange={(value) => onResumeSourceChange(value === "none" ? null : (value as ResumeSource))}
+          >
+            {resumes?.hasBuiltResume && (
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="built" id="resume-built" />
+                <Label htmlFor="resume-built">The resume I built on the site</Label>
+              </div>
+            )}
+            {resumes?.hasUploadedResume && (
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="uploaded" id="resume-uploaded" />
+                <Label htmlFor="resume-uploaded">My uploaded resume file</Label>
+              </div>
+            )}
+            {!resumeRequired && (
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="none" id="resume-none" />
+                <Label htmlFor="resume-none">Don't send a resume</Label>
+              </div>
+            )}
+          </RadioGroup>
+        )}
+        {resumeSource && (
+          <p className="text-xs text-gray-500">
+            The employer will see this resume as it is now, even if you change it later.
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="application-documents">Other documents (Optional)</Label>
+        <p className="text-xs text-gray-500">
+          A portfolio, certificates or anything else that supports your application. Up to{" "}
+          {MAX_APPLICATION_DOCUMENTS} files, 5 MB each.
+        </p>
+        {documents.map((document, index) => (
+          <div key={`${document.file.name}-${index}`} className="flex items-center gap-2">
+            <Paperclip className="h-4 w-4 flex-shrink-0 text-gray-400" />
+            <span className="flex-1 truncate text-sm">{document.file.name}</span>
+            <Select value={document.type} onValueChange={(value) => setType(index, value as ApplicationDocumentType)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DOCUMENT_TYPE_LABELS) as ApplicationDocumentType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {DOCUMENT_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onDocumentsChange(documents.filter((_, i) => i !== index))}
+            >
+              <span className="sr-only">Remove {document.file.name}</span>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {documents.length < MAX_APPLICATION_DOCUMENTS && (
+          <Input
+            id="application-documents"
+            type="file"
+            multiple
+            accept={DOCUMENT_EXTENSIONS.join(",")}
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationMaterialsForm;
@@ -0,0 +1,122 @@
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { DuplicateJobWarning } from "@/utils/api";
+import { Copy, Loader2, RefreshCw } from "lucide-react";
+
+interface DuplicateJobDialogProps {
+  duplicate: DuplicateJobWarning | null;
+  isPosting: boolean;
+  onRefreshed: () => void;
+  onPostAnyway: () => void;
+  onClose: () => void;
+}
+
+// Offers to refresh the employer's existing posting instead of reposting the same job
+const DuplicateJobDialog = ({
+  duplicate,
+  isPosting,
+  onRefreshed,
+  onPostAnyway,
+  onClose,
+}: DuplicateJobDialogProps) => {
+  const { toast } = useToast();
+
+  const refreshMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/refresh`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Job refreshed",
+        description: "Your existing posting is back at the top of the listings.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs"] });
+      onRefreshed();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not refresh job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  const isRefreshing = refreshMutation.isPending;
+
+  const canRefresh =
+    duplicate?.status === "active" && new Date(duplicate.refreshableAt).getTime() <= Date.now();
+
+  return (
+    <Dialog open={!!duplicate} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Copy className="mr-2 h-5 w-5 text-amber-500" />
+            You already posted this job
+          </DialogTitle>
+          <DialogDescription>
+            Reposting the same job clutters the listings, and candidates only see one of the postings.
+          </DialogDescription>
+        </DialogHeader>
+
+        {duplicate && (
+          <div className="space-y-3">
+            <div className="rounded-lg border p-4">
+              <Link href={`/jobs/${duplicate._id}`} className="font-medium text-primary hover:underline">
+                {duplicate.title}
+              </Link>
+              <p className="text-sm text-gray-500">
+                {duplicate.company} · {duplicate.location}
+              </p>
+              <p className="mt-1 text-xs text-gray-400">
+                Posted {formatDistanceToNow(new Date(duplicate.createdAt), { addSuffix: true })} ·{" "}
+                {duplicate.similarity}% of the description matches
+              </p>
+            </div>
+            <p className="text-sm text-gray-600">
+              {canRefresh
+                ? "Refreshing moves your existing posting back to the top of the listings and keeps its applicants."
+                : duplicate.status === "active"
+                  ? `Your existing posting can be refreshed on ${format(new Date(duplicate.refreshableAt), "MMM d")}.`
+                  : "Your existing posting is still waiting to go live."}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={onPostAnyway} disabled={isPosting || isRefreshing}>
+            {isPosting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Post as a new job
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary-600"
+            onClick={() => duplicate && refreshMutation.mutate(duplicate._id)}
+            disabled={!canRefresh || isRefreshing || isPosting}
+          >
+            {isRefreshing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Refresh existing posting
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateJobDialog;
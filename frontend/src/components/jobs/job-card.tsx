@@ -1,25 +1,57 @@
-import { useState } from "react";
 import { Link } from "wouter";
-import { Bookmark, Clock, MapPin, Building } from "lucide-react";
+import { Bookmark, Clock, MapPin, Building, Sparkles, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Job } from "@shared/schema";
+import type { SearchHighlight } from "@shared/mongodb-types";
 import { useAuth } from "@/hooks/use-auth";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
 
 interface JobCardProps {
-  job: Job;
+  job: Job & { urgentlyHiring?: boolean };
   isDashboardView?: boolean;
+  highlights?: SearchHighlight[];
+  // Distance from the searched place, for radius searches
+  distanceKm?: number;
+  // Recommendation score (0-100) and why the job was recommended
+  matchScore?: number;
+  matchReasons?: string[];
+  // Shown in a paid slot of the search results
+  sponsored?: boolean;
 }
 
-const JobCard = ({ job, isDashboardView = false }: JobCardProps) => {
+const highlightFieldLabels: Record<SearchHighlight["field"], string> = {
+  title: "title",
+  company: "company",
+  skills: "skills",
+  requirements: "requirements",
+  description: "description",
+};
+
+const JobCard = ({
+  job,
+  isDashboardView = false,
+  highlights = [],
+  distanceKm,
+  matchScore,
+  matchReasons = [],
+  sponsored = false,
+}: JobCardProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [isSaved, setIsSaved] = useState(false);
+  const isJobSeeker = user?.role === "jobseeker";
+  
+  // IDs of the job seeker's saved jobs, shared by every card on the page
+  const { data: savedJobIds } = useQuery<{ success: boolean; data: string[] }>({
+    queryKey: ["/api/saved-jobs/ids"],
+    enabled: isJobSeeker,
+  });
+  
+  const isSaved = !!savedJobIds?.data.includes(String(job.id));
   
   const applyMutation = useMutation({
     mutationFn: async (jobId: number) => {
@@ -67,23 +99,73 @@ const JobCard = ({ job, isDashboardView = false }: JobCardProps) => {
     applyMutation.mutate(job.id);
   };
 
+  const saveMutation = useMutation({
+    mutationFn: async (save: boolean) => {
+      const res = await apiRequest(save ? "POST" : "DELETE", `/api/saved-jobs/${job.id}`);
+      return await res.json();
+    },
+    onSuccess: (_data, save) => {
+      toast({
+        title: save ? "Job saved" : "Job removed from saved jobs",
+        description: save ? "The job has been added to your saved jobs" : "The job has been removed from your saved jobs",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs/ids"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update saved jobs",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   const handleSave = (e: React.MouseEvent<HTMLButtonElement>) => {
     e.stopPropagation();
     e.preventDefault();
     
-    // Toggle saved state (this would be connected to an API in a real implementation)
-    setIsSaved(!isSaved);
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please login to save this job",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (!isJobSeeker) {
+      toast({
+        title: "Action not allowed",
+        description: "Only job seekers can save jobs",
+        variant: "destructive",
+      });
+      return;
+    }
     
-    toast({
-      title: isSaved ? "Job removed from saved jobs" : "Job saved",
-      description: isSaved ? "The job has been removed from your saved jobs" : "The job has been added to your saved jobs",
-    });
+    saveMutation.mutate(!isSaved);
+  };
+
+  // Sponsored jobs are charged when opened from their sponsored slot
+  const handleOpen = () => {
+    if (sponsored) {
+      apiRequest("POST", `/api/jobs/${job.id}/sponsored-click`).catch(() => {});
+    }
   };
 
+  // Prefer a snippet from the body of the posting, since title matches are
+  // already visible in the heading
+  const snippet =
+    highlights.find((h) => h.field === "description" || h.field === "requirements") ||
+    highlights.find((h) => h.field === "skills");
+
   return (
     <Card className="mb-4 hover:shadow-md transition-shadow">
-      <Link href={`/jobs/${job.id}`}>
+      <Link href={`/jobs/${job.id}`} onClick={handleOpen}>
         <CardContent className="p-4 sm:p-6">
+          {sponsored && (
+            <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-400">Sponsored</p>
+          )}
           <div className="flex items-center justify-between">
             <div className="truncate">
               <h3 className="text-lg font-medium text-primary-600 truncate">{job.title}</h3>
@@ -92,7 +174,18 @@ const JobCard = ({ job, isDashboardView = false }: JobCardProps) => {
                 <span>{job.company}</span>
               </div>
             </div>
-            <div className="ml-2 flex-shrink-0 flex">
+            <div className="ml-2 flex-shrink-0 flex gap-1">
+              {job.urgentlyHiring && (
+                <Badge className="bg-red-50 text-red-700 border-red-100">
+                  <Zap className="mr-1 h-3 w-3" />
+                  Urgently hiring
+                </Badge>
+              )}
+              {matchScore !== undefined && (
+                <Badge className="bg-primary-50 text-primary-700 border-primary-100">
+                  {matchScore}% match
+                </Badge>
+              )}
               {job.status === 'new' && (
                 <Badge className="bg-green-100 text-green-800 border-green-200">
                   New
@@ -123,15 +216,47 @@ const JobCard = ({ job, isDashboardView = false }: JobCardProps) => {
             </div>
           </div>
           
-          <p className="mt-3 text-sm text-gray-600 line-clamp-2">
-            {job.description}
-          </p>
+          {matchReasons.length > 0 && (
+            <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+              {matchReasons.map((reason) => (
+                <li key={reason} className="flex items-center">
+                  <Sparkles className="mr-1 h-3 w-3 text-primary" />
+                  {reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          
+          {/* Show why the job matched a keyword search, falling back to the description */}
+          {snippet ? (
+            <p className="mt-3 text-sm text-gray-600 line-clamp-2">
+              <span className="mr-1 text-xs font-medium text-gray-400">
+                Matched in {highlightFieldLabels[snippet.field]}:
+              </span>
+              {snippet.fragments.map((fragment, index) =>
+                fragment.highlight ? (
+                  <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">
+                    {fragment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{fragment.text}</span>
+                )
+              )}
+            </p>
+          ) : (
+            <p className="mt-3 text-sm text-gray-600 line-clamp-2">
+              {job.description}
+            </p>
+          )}
           
           <div className="mt-4 sm:flex sm:justify-between items-center">
             <div className="sm:flex text-sm text-gray-500">
               <div className="flex items-center">
                 <MapPin className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
                 <span>{job.location}</span>
+                {distanceKm !== undefined && (
+                  <span className="ml-1 text-gray-400">· {distanceKm} km away</span>
+                )}
               </div>
               {job.salary && (
                 <div className="mt-2 flex items-center sm:mt-0 sm:ml-6">
@@ -155,8 +280,9 @@ const JobCard = ({ job, isDashboardView = false }: JobCardProps) => {
                 size="sm" 
                 className={isSaved ? "text-primary border-primary" : "text-gray-700 border-gray-300"} 
                 onClick={handleSave}
+                disabled={saveMutation.isPending}
               >
-                <Bookmark className="mr-2 h-4 w-4" />
+                <Bookmark className={`mr-2 h-4 w-4 ${isSaved ? "fill-current" : ""}`} />
                 {isSaved ? 'Saved' : 'Save'}
               </Button>
               
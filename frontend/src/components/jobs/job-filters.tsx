@@ -1,25 +1,122 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface FacetBucket {
+  value: string;
+  count: number;
+  min?: number;
+  max?: number;
+}
+
+interface JobFacets {
+  type: FacetBucket[];
+  workMode: FacetBucket[];
+  experienceLevel: FacetBucket[];
+  location: FacetBucket[];
+  skills: FacetBucket[];
+  schedule: FacetBucket[];
+  benefits: FacetBucket[];
+  salary: FacetBucket[];
+  total: number;
+}
 
 interface JobFiltersProps {
   initialFilters?: {
     jobType?: string[];
     experienceLevel?: string[];
+    workMode?: string[];
+    location?: string;
+    radiusKm?: string;
+    includeRemote?: boolean;
+    skills?: string[];
+    schedule?: string[];
+    benefits?: string[];
     salary?: number[];
   };
+  // Current search as a query string, used to fetch live filter counts
+  facetQuery?: string;
 }
 
-const JobFilters = ({ initialFilters }: JobFiltersProps) => {
+const jobTypeOptions = [
+  { value: "full-time", label: "Full-time" },
+  { value: "part-time", label: "Part-time" },
+  { value: "contract", label: "Contract" },
+  { value: "internship", label: "Internship" },
+];
+
+const experienceLevelOptions = [
+  { value: "entry", label: "Entry Level" },
+  { value: "intermediate", label: "Mid Level" },
+  { value: "senior", label: "Senior Level" },
+];
+
+const workModeOptions = [
+  { value: "remote", label: "Remote" },
+  { value: "hybrid", label: "Hybrid" },
+  { value: "onsite", label: "On-site" },
+];
+
+// "exact" matches the city itself, the rest search within a radius of it
+const radiusOptions = [
+  { value: "exact", label: "This city only" },
+  { value: "10", label: "Within 10 km" },
+  { value: "25", label: "Within 25 km" },
+  { value: "50", label: "Within 50 km" },
+  { value: "100", label: "Within 100 km" },
+];
+
+// Salary filter bounds, in rupees per annum
+export const SALARY_FILTER_MAX = 5000000;
+const SALARY_FILTER_STEP = 100000;
+
+const toLakhs = (value: number) => `${value / 100000}L`;
+
+const formatSalaryBucket = (bucket: FacetBucket) => {
+  if (bucket.max === undefined) {
+    return `₹${toLakhs(bucket.min || 0)}+`;
+  }
+  return `₹${toLakhs(bucket.min || 0)} - ${toLakhs(bucket.max)}`;
+};
+
+const JobFilters = ({ initialFilters, facetQuery = "" }: JobFiltersProps) => {
   const [, setLocation] = useLocation();
   
   const [jobTypes, setJobTypes] = useState<string[]>(initialFilters?.jobType || []);
   const [experienceLevels, setExperienceLevels] = useState<string[]>(initialFilters?.experienceLevel || []);
-  const [salaryRange, setSalaryRange] = useState<number[]>(initialFilters?.salary || [0, 200000]);
+  const [workModes, setWorkModes] = useState<string[]>(initialFilters?.workMode || []);
+  const [selectedLocation, setSelectedLocation] = useState<string>(initialFilters?.location || "");
+  const [radiusKm, setRadiusKm] = useState<string>(initialFilters?.radiusKm || "exact");
+  const [includeRemote, setIncludeRemote] = useState<boolean>(initialFilters?.includeRemote || false);
+  const [skills, setSkills] = useState<string[]>(initialFilters?.skills || []);
+  const [schedules, setSchedules] = useState<string[]>(initialFilters?.schedule || []);
+  const [benefits, setBenefits] = useState<string[]>(initialFilters?.benefits || []);
+  const [salaryRange, setSalaryRange] = useState<number[]>(initialFilters?.salary || [0, SALARY_FILTER_MAX]);
+  
+  // Live counts for each filter value, computed against the other active filters
+  const { data: facets } = useQuery<JobFacets>({
+    queryKey: [`/api/jobs/facets${facetQuery ? `?${facetQuery}` : ""}`],
+  });
+  
+  const getCount = (buckets: FacetBucket[] | undefined, value: string) => {
+    return buckets?.find(bucket => bucket.value === value)?.count ?? 0;
+  };
+  
+  const toggleValue = (values: string[], value: string, checked: boolean) => {
+    return checked ? [...values, value] : values.filter(v => v !== value);
+  };
   
   const handleJobTypeChange = (type: string, checked: boolean) => {
     if (checked) {
@@ -37,6 +134,22 @@ const JobFilters = ({ initialFilters }: JobFiltersProps) => {
     }
   };
   
+  const handleWorkModeChange = (mode: string, checked: boolean) => {
+    setWorkModes(toggleValue(workModes, mode, checked));
+  };
+  
+  const handleSkillChange = (skill: string, checked: boolean) => {
+    setSkills(toggleValue(skills, skill, checked));
+  };
+  
+  const handleScheduleChange = (schedule: string, checked: boolean) => {
+    setSchedules(toggleValue(schedules, schedule, checked));
+  };
+  
+  const handleBenefitChange = (benefit: string, checked: boolean) => {
+    setBenefits(toggleValue(benefits, benefit, checked));
+  };
+  
   const handleSalaryChange = (value: number[]) => {
     setSalaryRange(value);
   };
@@ -58,15 +171,65 @@ const JobFilters = ({ initialFilters }: JobFiltersProps) => {
       queryParams.delete('experience');
     }
     
-    // Update or remove salary range filter
-    if (salaryRange[0] > 0 || salaryRange[1] < 200000) {
+    // Update or remove work mode filter
+    if (workModes.length > 0) {
+      queryParams.set('workMode', workModes.join(','));
+    } else {
+      queryParams.delete('workMode');
+    }
+    
+    // Update or remove location filter. A radius turns the city into a
+    // distance search around it.
+    queryParams.delete('location');
+    queryParams.delete('near');
+    queryParams.delete('radiusKm');
+    if (selectedLocation && radiusKm !== "exact") {
+      queryParams.set('near', selectedLocation);
+      queryParams.set('radiusKm', radiusKm);
+    } else if (selectedLocation) {
+      queryParams.set('location', selectedLocation);
+    }
+    
+    if (selectedLocation && includeRemote) {
+      queryParams.set('includeRemote', 'true');
+    } else {
+      queryParams.delete('includeRemote');
+    }
+    
+    // Update or remove skills filter
+    if (skills.length > 0) {
+      queryParams.set('skills', skills.join(','));
+    } else {
+      queryParams.delete('skills');
+    }
+    
+    // Update or remove schedule and benefit filters
+    if (schedules.length > 0) {
+      queryParams.set('schedule', schedules.join(','));
+    } else {
+      queryParams.delete('schedule');
+    }
+    if (benefits.length > 0) {
+      queryParams.set('benefits', benefits.join(','));
+    } else {
+      queryParams.delete('benefits');
+    }
+    
+    // Update or remove salary range filter. The top of the slider means
+    // "no upper limit", so maxSalary is only sent below it.
+    if (salaryRange[0] > 0) {
       queryParams.set('minSalary', salaryRange[0].toString());
-      queryParams.set('maxSalary', salaryRange[1].toString());
     } else {
       queryParams.delete('minSalary');
+    }
+    if (salaryRange[1] < SALARY_FILTER_MAX) {
+      queryParams.set('maxSalary', salaryRange[1].toString());
+    } else {
       queryParams.delete('maxSalary');
     }
     
+    queryParams.delete('page');
+    
     const queryString = queryParams.toString();
     setLocation(`/jobs${queryString ? `?${queryString}` : ""}`);
   };
@@ -74,17 +237,32 @@ const JobFilters = ({ initialFilters }: JobFiltersProps) => {
   const handleResetFilters = () => {
     setJobTypes([]);
     setExperienceLevels([]);
-    setSalaryRange([0, 200000]);
+    setWorkModes([]);
+    setSkills([]);
+    setSchedules([]);
+    setBenefits([]);
+    setSalaryRange([0, SALARY_FILTER_MAX]);
+    
+    setRadiusKm("exact");
+    setIncludeRemote(false);
     
     // Remove filter parameters from URL, keep search and location if present
     const queryParams = new URLSearchParams(window.location.search);
     const search = queryParams.get('search');
-    const location = queryParams.get('location');
+    const location = queryParams.get('location') || queryParams.get('near');
     
     queryParams.delete('type');
     queryParams.delete('experience');
+    queryParams.delete('workMode');
+    queryParams.delete('near');
+    queryParams.delete('radiusKm');
+    queryParams.delete('includeRemote');
+    queryParams.delete('skills');
+    queryParams.delete('schedule');
+    queryParams.delete('benefits');
     queryParams.delete('minSalary');
     queryParams.delete('maxSalary');
+    queryParams.delete('page');
     
     if (search) queryParams.set('search', search);
     if (location) queryParams.set('location', location);
@@ -103,100 +281,206 @@ const JobFilters = ({ initialFilters }: JobFiltersProps) => {
           <div>
             <h4 className="text-sm font-medium text-gray-900 mb-2">Job Type</h4>
             <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="filter-full-time" 
-                  checked={jobTypes.includes('full-time')}
-                  onCheckedChange={(checked) => 
-                    handleJobTypeChange('full-time', checked === true)
-                  }
-                />
-                <Label htmlFor="filter-full-time">Full-time</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="filter-part-time" 
-                  checked={jobTypes.includes('part-time')}
-                  onCheckedChange={(checked) => 
-                    handleJobTypeChange('part-time', checked === true)
-                  }
-                />
-                <Label htmlFor="filter-part-time">Part-time</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="filter-contract" 
-                  checked={jobTypes.includes('contract')}
-                  onCheckedChange={(checked) => 
-                    handleJobTypeChange('contract', checked === true)
-                  }
-                />
-                <Label htmlFor="filter-contract">Contract</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="filter-internship" 
-                  checked={jobTypes.includes('internship')}
-                  onCheckedChange={(checked) => 
-                    handleJobTypeChange('internship', checked === true)
-                  }
-                />
-                <Label htmlFor="filter-internship">Internship</Label>
-              </div>
+              {jobTypeOptions.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <Checkbox 
+                    id={`filter-${option.value}`} 
+                    checked={jobTypes.includes(option.value)}
+                    onCheckedChange={(checked) => 
+                      handleJobTypeChange(option.value, checked === true)
+                    }
+                  />
+                  <Label htmlFor={`filter-${option.value}`} className="flex-1">{option.label}</Label>
+                  {facets && (
+                    <span className="text-xs text-gray-500">({getCount(facets.type, option.value)})</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Work Mode</h4>
+            <div className="space-y-2">
+              {workModeOptions.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <Checkbox 
+                    id={`filter-${option.value}`} 
+                    checked={workModes.includes(option.value)}
+                    onCheckedChange={(checked) => 
+                      handleWorkModeChange(option.value, checked === true)
+                    }
+                  />
+                  <Label htmlFor={`filter-${option.value}`} className="flex-1">{option.label}</Label>
+                  {facets && (
+                    <span className="text-xs text-gray-500">({getCount(facets.workMode, option.value)})</span>
+                  )}
+                </div>
+              ))}
             </div>
           </div>
           
           <div>
             <h4 className="text-sm font-medium text-gray-900 mb-2">Experience Level</h4>
             <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="filter-entry" 
-                  checked={experienceLevels.includes('entry')}
-                  onCheckedChange={(checked) => 
-                    handleExperienceLevelChange('entry', checked === true)
-                  }
-                />
-                <Label htmlFor="filter-entry">Entry Level</Label>
+              {experienceLevelOptions.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <Checkbox 
+                    id={`filter-${option.value}`} 
+                    checked={experienceLevels.includes(option.value)}
+                    onCheckedChange={(checked) => 
+                      handleExperienceLevelChange(option.value, checked === true)
+                    }
+                  />
+                  <Label htmlFor={`filter-${option.value}`} className="flex-1">{option.label}</Label>
+                  {facets && (
+                    <span className="text-xs text-gray-500">({getCount(facets.experienceLevel, option.value)})</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          {facets && facets.location.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Location</h4>
+              <div className="space-y-2">
+                {facets.location.slice(0, 6).map((bucket) => (
+                  <div key={bucket.value} className="flex items-center space-x-2">
+                    <Checkbox 
+                      id={`filter-location-${bucket.value}`} 
+                      checked={selectedLocation === bucket.value}
+                      onCheckedChange={(checked) => 
+                        setSelectedLocation(checked === true ? bucket.value : "")
+                      }
+                    />
+                    <Label htmlFor={`filter-location-${bucket.value}`} className="flex-1 truncate">{bucket.value}</Label>
+                    <span className="text-xs text-gray-500">({bucket.count})</span>
+                  </div>
+                ))}
               </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="filter-mid" 
-                  checked={experienceLevels.includes('mid')}
-                  onCheckedChange={(checked) => 
-                    handleExperienceLevelChange('mid', checked === true)
-                  }
-                />
-                <Label htmlFor="filter-mid">Mid Level</Label>
+              {selectedLocation && (
+                <div className="mt-3 space-y-2">
+                  <Select value={radiusKm} onValueChange={setRadiusKm}>
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue placeholder="Distance" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {radiusOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox 
+                      id="filter-include-remote" 
+                      checked={includeRemote}
+                      onCheckedChange={(checked) => setIncludeRemote(checked === true)}
+                    />
+                    <Label htmlFor="filter-include-remote">Include remote jobs</Label>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {facets && facets.skills.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Skills</h4>
+              <div className="space-y-2">
+                {facets.skills.slice(0, 8).map((bucket) => (
+                  <div key={bucket.value} className="flex items-center space-x-2">
+                    <Checkbox 
+                      id={`filter-skill-${bucket.value}`} 
+                      checked={skills.includes(bucket.value)}
+                      onCheckedChange={(checked) => 
+                        handleSkillChange(bucket.value, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`filter-skill-${bucket.value}`} className="flex-1 truncate capitalize">{bucket.value}</Label>
+                    <span className="text-xs text-gray-500">({bucket.count})</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          {facets && facets.schedule.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Schedule</h4>
+              <div className="space-y-2">
+                {facets.schedule.slice(0, 8).map((bucket) => (
+                  <div key={bucket.value} className="flex items-center space-x-2">
+                    <Checkbox 
+                      id={`filter-schedule-${bucket.value}`} 
+                      checked={schedules.includes(bucket.value)}
+                      onCheckedChange={(checked) => 
+                        handleScheduleChange(bucket.value, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`filter-schedule-${bucket.value}`} className="flex-1 truncate">{bucket.value}</Label>
+                    <span className="text-xs text-gray-500">({bucket.count})</span>
+                  </div>
+                ))}
               </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="filter-senior" 
-                  checked={experienceLevels.includes('senior')}
-                  onCheckedChange={(checked) => 
-                    handleExperienceLevelChange('senior', checked === true)
-                  }
-                />
-                <Label htmlFor="filter-senior">Senior Level</Label>
+            </div>
+          )}
+          
+          {facets && facets.benefits.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Benefits</h4>
+              <div className="space-y-2">
+                {facets.benefits.slice(0, 8).map((bucket) => (
+                  <div key={bucket.value} className="flex items-center space-x-2">
+                    <Checkbox 
+                      id={`filter-benefit-${bucket.value}`} 
+                      checked={benefits.includes(bucket.value)}
+                      onCheckedChange={(checked) => 
+                        handleBenefitChange(bucket.value, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`filter-benefit-${bucket.value}`} className="flex-1 truncate">{bucket.value}</Label>
+                    <span className="text-xs text-gray-500">({bucket.count})</span>
+                  </div>
+                ))}
               </div>
             </div>
-          </div>
+          )}
           
           <div>
             <h4 className="text-sm font-medium text-gray-900 mb-2">Salary Range</h4>
             <div className="mt-2">
               <Slider
-                defaultValue={[0, 200000]}
-                max={200000}
-                step={10000}
+                defaultValue={[0, SALARY_FILTER_MAX]}
+                max={SALARY_FILTER_MAX}
+                step={SALARY_FILTER_STEP}
                 value={salaryRange}
                 onValueChange={handleSalaryChange}
                 className="mt-6"
               />
               <div className="flex justify-between mt-2 text-xs text-gray-500">
-                <span>${salaryRange[0].toLocaleString()}</span>
-                <span>${salaryRange[1].toLocaleString()}+</span>
+                <span>₹{toLakhs(salaryRange[0])}</span>
+                <span>₹{toLakhs(salaryRange[1])}{salaryRange[1] >= SALARY_FILTER_MAX ? "+" : ""} per year</span>
               </div>
+              {facets && facets.salary.length > 0 && (
+                <ul className="mt-3 space-y-1 text-xs text-gray-500">
+                  {facets.salary.map((bucket) => (
+                    <li key={bucket.value}>
+                      <button
+                        type="button"
+                        className="flex w-full justify-between hover:text-primary"
+                        onClick={() => handleSalaryChange([
+                          bucket.min || 0,
+                          Math.min(bucket.max ?? SALARY_FILTER_MAX, SALARY_FILTER_MAX),
+                        ])}
+                      >
+                        <span>{formatSalaryBucket(bucket)}</span>
+                        <span>({bucket.count})</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
           
@@ -32,6 +32,8 @@ import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
+import { getDuplicateJobWarning, type DuplicateJobWarning } from "@/utils/api";
+import DuplicateJobDialog from "@/components/jobs/duplicate-job-dialog";
 
 const JobForm = () => {
   const { user } = useAuth();
@@ -40,6 +42,7 @@ const JobForm = () => {
   const [date, setDate] = useState<Date | undefined>(
     new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // Default 30 days from now
   );
+  const [duplicateWarning, setDuplicateWarning] = useState<DuplicateJobWarning | null>(null);
   
   const form = useForm<InsertJob>({
     resolver: zodResolver(insertJobSchema),
@@ -57,10 +60,11 @@ const JobForm = () => {
   });
   
   const createJobMutation = useMutation({
-    mutationFn: async (data: InsertJob) => {
+    mutationFn: async ({ allowDuplicate, ...data }: InsertJob & { allowDuplicate?: boolean }) => {
       const res = await apiRequest("POST", "/api/jobs", {
         ...data,
         deadline: date?.toISOString(),
+        allowDuplicate,
       });
       return await res.json();
     },
@@ -78,6 +82,11 @@ const JobForm = () => {
       setLocation("/employer/dashboard");
     },
     onError: (error: Error) => {
+      const duplicate = getDuplicateJobWarning(error);
+      if (duplicate) {
+        setDuplicateWarning(duplicate);
+        return;
+      }
       toast({
         title: "Error creating job listing",
         description: error.message,
@@ -295,6 +304,14 @@ const JobForm = () => {
             </div>
           </form>
         </Form>
+        
+        <DuplicateJobDialog
+          duplicate={duplicateWarning}
+          isPosting={createJobMutation.isPending}
+          onRefreshed={() => setLocation("/employer/dashboard")}
+          onPostAnyway={() => createJobMutation.mutate({ ...form.getValues(), allowDuplicate: true })}
+          onClose={() => setDuplicateWarning(null)}
+        />
       </CardContent>
     </Card>
   );
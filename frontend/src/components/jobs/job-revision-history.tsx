@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { JobRevisionField, SalaryRange, ScreeningQuestion } from "@shared/mongodb-types";
+import { History, Loader2 } from "lucide-react";
+
+interface RevisionSummary {
+  _id: string;
+  version: number;
+  changedFields: JobRevisionField[];
+  changedAt: string;
+  changedByUser?: { name: string; role: string };
+  // Applications submitted while this version was live
+  applications: number;
+}
+
+interface RevisionChange {
+  field: JobRevisionField;
+  before: unknown;
+  after: unknown;
+  lines?: { type: "same" | "added" | "removed"; text: string }[];
+}
+
+interface RevisionDiff {
+  from: { version: number; changedAt: string };
+  to: { version: number; changedAt: string };
+  changes: RevisionChange[];
+}
+
+const FIELD_LABELS: Record<JobRevisionField, string> = {
+  title: "Job title",
+  company: "Company",
+  location: "Location",
+  description: "Description",
+  type: "Job type",
+  workMode: "Work mode",
+  salary: "Salary",
+  minSalary: "Minimum salary",
+  maxSalary: "Maximum salary",
+  salaryRange: "Salary range",
+  salaryNegotiable: "Salary negotiable",
+  supplementalPay: "Supplemental pay",
+  benefits: "Benefits",
+  requirements: "Requirements",
+  additionalQualifications: "Additional qualifications",
+  experienceLevel: "Experience level",
+  skills: "Required skills",
+  preferredSkills: "Preferred skills",
+  schedule: "Schedule",
+  numberOfOpenings: "Openings",
+  recruitmentTimeline: "Hiring timeline",
+  startDate: "Start date",
+  deadline: "Application deadline",
+  contactEmail: "Contact email",
+  screeningQuestions: "Screening questions",
+  knockoutAction: "Knockout action",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+const formatValue = (field: JobRevisionField, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "salaryRange") {
+    const range = value as SalaryRange;
+    const amounts = [range.min, range.max].filter((amount) => amount !== undefined).join(" – ");
+    return `${range.currency} ${amounts} per ${range.period}`;
+  }
+  if (field === "screeningQuestions") {
+    const questions = value as ScreeningQuestion[];
+    return questions.length > 0 ? questions.map((question) => question.question).join("; ") : "—";
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && ISO_DATE.test(value)) return format(new Date(value), "MMM d, yyyy");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+interface JobRevisionHistoryProps {
+  jobId: string;
+  jobTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every saved version of a job posting, and what changed in each edit
+const JobRevisionHistory = ({ jobId, jobTitle, open, onOpenChange }: JobRevisionHistoryProps) => {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  const { data: historyResponse, isLoading } = useQuery<{
+    success: boolean;
+    data: { currentVersion: number; revisions: RevisionSummary[] };
+  }>({
+    queryKey: [`/api/job-revisions/${jobId}`],
+    enabled: open,
+  });
+
+  const revisions = historyResponse?.data.revisions || [];
+
+  // Start on the latest edit
+  useEffect(() => {
+    if (open && selectedVersion === null && historyResponse) {
+      setSelectedVersion(historyResponse.data.currentVersion);
+    }
+  }, [open, selectedVersion, historyResponse]);
+
+  const { data: diffResponse, isLoading: isDiffLoading } = useQuery<{ success: boolean; data: RevisionDiff }>({
+    queryKey: [`/api/job-revisions/${jobId}/diff?from=${(selectedVersion || 1) - 1}&to=${selectedVersion}`],
+    enabled: open && !!selectedVersion && selectedVersion > 1,
+  });
+
+  const changes = diffResponse?.data.changes || [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setSelectedVersion(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5 text-gray-500" />
+            Revision history
+          </DialogTitle>
+          <DialogDescription>{jobTitle}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">
+            This job hasn't been edited since it was posted.
+          </p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+            <ul className="max-h-[60vh] space-y-1 overflow-y-auto">
+              {revisions.map((revision) => (
+                <li key={revision._id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedVersion(revision.version)}
+                    className={cn(
+                      "w-full rounded-md px-3 py-2 text-left text-sm hover:bg-gray-100",
+                      selectedVersion === revision.version && "bg-primary/10 hover:bg-primary/10"
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Version {revision.version}</span>
+                      {revision.version === historyResponse?.data.currentVersion && (
+                        <Badge variant="outline" className="text-xs">Live</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(revision.changedAt), "MMM d, yyyy 'at' h:mm a")}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {revision.version === 1 ? "Posted" : "Edited"} by {revision.changedByUser?.name || "unknown user"}
+                    </p>
+                    {revision.applications > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {revision.applications} application{revision.applications === 1 ? "" : "s"}
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+              {selectedVersion === 1 ? (
+                <p className="text-sm text-gray-500">The job as it was first posted.</p>
+              ) : isDiffLoading ? (
+                <div className="flex justify-center py-10">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : changes.length === 0 ? (
+                <p className="text-sm text-gray-500">No changes to the posting's content.</p>
+              ) : (
+                changes.map((change) => (
+                  <div key={change.field} className="rounded-lg border p-4">
+                    <p className="mb-2 text-sm font-medium text-gray-900">{FIELD_LABELS[change.field]}</p>
+                    {change.lines ? (
+                      <pre className="whitespace-pre-wrap font-sans text-sm">
+                        {change.lines.map((line, index) => (
+                          <div
+                            key={index}
+                            className={cn(
+                              line.type === "added" && "bg-green-50 text-green-800",
+                              line.type === "removed" && "bg-red-50 text-red-800 line-through"
+                            )}
+                          >
+                            {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                            {line.text}
+                          </div>
+                        ))}
+                      </pre>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-3 text-sm">
+                        <div className="rounded bg-red-50 p-2 text-red-800">
+                          {formatValue(change.field, change.before)}
+                        </div>
+                        <div className="rounded bg-green-50 p-2 text-green-800">
+                          {formatValue(change.field, change.after)}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JobRevisionHistory;
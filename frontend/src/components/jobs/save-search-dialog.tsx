@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { BellPlus } from "lucide-react";
+
+interface SaveSearchDialogProps {
+  // Current search filters as GET /api/jobs query parameters
+  filters: URLSearchParams;
+  defaultName?: string;
+}
+
+const SaveSearchDialog = ({ filters, defaultName = "" }: SaveSearchDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(defaultName);
+  const [frequency, setFrequency] = useState("daily");
+
+  const createAlertMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/job-alerts", {
+        name,
+        frequency,
+        filters: Object.fromEntries(filters.entries()),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Job alert created",
+        description: `We'll email you ${frequency === "daily" ? "daily" : "weekly"} when new jobs match this search.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-alerts"] });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not create job alert",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Alerts need an account and at least one filter to match on
+  if (!user || Array.from(filters.keys()).length === 0) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="bg-white">
+          <BellPlus className="mr-2 h-4 w-4" />
+          Save search
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create a job alert</DialogTitle>
+          <DialogDescription>
+            Get an email digest of new jobs that match this search.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="alert-name">Alert name</Label>
+            <Input
+              id="alert-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. React jobs in Pune"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Email me</Label>
+            <Select value={frequency} onValueChange={setFrequency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary-600"
+            onClick={() => createAlertMutation.mutate()}
+            disabled={createAlertMutation.isPending}
+          >
+            Create alert
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveSearchDialog;
@@ -0,0 +1,254 @@
+import type { KnockoutAction, ScreeningQuestion, ScreeningQuestionType } from "@shared/mongodb-types";
+import { MAX_SCREENING_QUESTIONS } from "@shared/job-schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, X } from "lucide-react";
+
+interface ScreeningQuestionEditorProps {
+  questions: ScreeningQuestion[];
+  knockoutAction: KnockoutAction;
+  onChange: (questions: ScreeningQuestion[]) => void;
+  onKnockoutActionChange: (action: KnockoutAction) => void;
+}
+
+const QUESTION_TYPES: { value: ScreeningQuestionType; label: string }[] = [
+  { value: "yes-no", label: "Yes / No" },
+  { value: "number", label: "Number" },
+  { value: "multiple-choice", label: "Multiple choice" },
+  { value: "text", label: "Free text" },
+];
+
+const newQuestion = (): ScreeningQuestion => ({
+  id: `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  type: "yes-no",
+  question: "",
+  required: true,
+  knockout: null,
+});
+
+const ScreeningQuestionEditor = ({
+  questions,
+  knockoutAction,
+  onChange,
+  onKnockoutActionChange,
+}: ScreeningQuestionEditorProps) => {
+  const updateQuestion = (id: string, changes: Partial<ScreeningQuestion>) => {
+    onChange(questions.map((question) => (question.id === id ? { ...question, ...changes } : question)));
+  };
+
+  const removeQuestion = (id: string) => {
+    onChange(questions.filter((question) => question.id !== id));
+  };
+
+  // A new type needs its own options and knockout rule
+  const changeType = (question: ScreeningQuestion, type: ScreeningQuestionType) => {
+    updateQuestion(question.id, {
+      type,
+      options: type === "multiple-choice" ? question.options || ["", ""] : undefined,
+      knockout: null,
+    });
+  };
+
+  const updateOption = (question: ScreeningQuestion, index: number, value: string) => {
+    const previous = question.options?.[index];
+    const options = (question.options || []).map((option, i) => (i === index ? value : option));
+    const acceptedOptions = question.knockout?.acceptedOptions?.map((option) => (option === previous ? value : option));
+    updateQuestion(question.id, {
+      options,
+      knockout: acceptedOptions ? { acceptedOptions } : question.knockout,
+    });
+  };
+
+  const removeOption = (question: ScreeningQuestion, index: number) => {
+    const removed = question.options?.[index];
+    const acceptedOptions = question.knockout?.acceptedOptions?.filter((option) => option !== removed);
+    updateQuestion(question.id, {
+      options: (question.options || []).filter((_, i) => i !== index),
+      knockout: acceptedOptions?.length ? { acceptedOptions } : null,
+    });
+  };
+
+  const toggleAcceptedOption = (question: ScreeningQuestion, option: string, accepted: boolean) => {
+    const current = question.knockout?.acceptedOptions || [];
+    const acceptedOptions = accepted ? [...current, option] : current.filter((value) => value !== option);
+    updateQuestion(question.id, { knockout: acceptedOptions.length ? { acceptedOptions } : null });
+  };
+
+  const updateRange = (question: ScreeningQuestion, bound: "min" | "max", value: string) => {
+    const knockout = { ...question.knockout, [bound]: value === "" ? undefined : Number(value) };
+    updateQuestion(question.id, {
+      knockout: knockout.min === undefined && knockout.max === undefined ? null : knockout,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, index) => (
+        <div key={question.id} className="border p-4 rounded-lg space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor={`question-${question.id}`}>Question {index + 1}</Label>
+              <Input
+                id={`question-${question.id}`}
+                placeholder="e.g. Do you have a valid driving licence?"
+                value={question.question}
+                onChange={(e) => updateQuestion(question.id, { question: e.target.value })}
+              />
+            </div>
+            <Button type="button" variant="ghost" size="sm" className="mt-6" onClick={() => removeQuestion(question.id)}>
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Remove question</span>
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <Select
+              value={question.type}
+              onValueChange={(value) => changeType(question, value as ScreeningQuestionType)}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUESTION_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`required-${question.id}`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(question.id, { required: checked === true })}
+              />
+              <Label htmlFor={`required-${question.id}`}>Answer required</Label>
+            </div>
+          </div>
+
+          {question.type === "multiple-choice" && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Options</p>
+              {(question.options || []).map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <Input
+                    placeholder={`Option ${optionIndex + 1}`}
+                    value={option}
+                    onChange={(e) => updateOption(question, optionIndex, e.target.value)}
+                  />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(question, optionIndex)}>
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Remove option</span>
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="link"
+                className="px-0"
+                onClick={() => updateQuestion(question.id, { options: [...(question.options || []), ""] })}
+              >
+                Add option
+              </Button>
+            </div>
+          )}
+
+          {question.type !== "text" && (
+            <div className="bg-purple-50 p-3 rounded-md space-y-2">
+              <p className="text-sm font-medium">Deal breaker</p>
+              {question.type === "yes-no" && (
+                <Select
+                  value={question.knockout?.expected === undefined ? "none" : question.knockout.expected ? "yes" : "no"}
+                  onValueChange={(value) =>
+                    updateQuestion(question.id, { knockout: value === "none" ? null : { expected: value === "yes" } })
+                  }
+                >
+                  <SelectTrigger className="w-64 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any answer is fine</SelectItem>
+                    <SelectItem value="yes">Applicants must answer Yes</SelectItem>
+                    <SelectItem value="no">Applicants must answer No</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {question.type === "number" && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Answer must be between</span>
+                  <Input
+                    type="number"
+                    className="w-24 bg-white"
+                    placeholder="Min"
+                    value={question.knockout?.min ?? ""}
+                    onChange={(e) => updateRange(question, "min", e.target.value)}
+                  />
+                  <span>and</span>
+                  <Input
+                    type="number"
+                    className="w-24 bg-white"
+                    placeholder="Max"
+                    value={question.knockout?.max ?? ""}
+                    onChange={(e) => updateRange(question, "max", e.target.value)}
+                  />
+                </div>
+              )}
+              {question.type === "multiple-choice" && (
+                <div className="space-y-1">
+                  <p className="text-xs text-gray-600">Tick the options that pass. Leave all unticked to accept any answer.</p>
+                  {(question.options || []).filter(Boolean).map((option) => (
+                    <div key={option} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`accept-${question.id}-${option}`}
+                        checked={question.knockout?.acceptedOptions?.includes(option) || false}
+                        onCheckedChange={(checked) => toggleAcceptedOption(question, option, checked === true)}
+                      />
+                      <Label htmlFor={`accept-${question.id}-${option}`}>{option}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {questions.length < MAX_SCREENING_QUESTIONS && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full justify-start"
+          onClick={() => onChange([...questions, newQuestion()])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add a screening question
+        </Button>
+      )}
+
+      {questions.some((question) => question.knockout) && (
+        <div className="space-y-1">
+          <Label>Applicants who fail a deal breaker</Label>
+          <Select value={knockoutAction} onValueChange={(value) => onKnockoutActionChange(value as KnockoutAction)}>
+            <SelectTrigger className="w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="tag">Tag them as "Failed screening"</SelectItem>
+              <SelectItem value="reject">Reject them automatically</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScreeningQuestionEditor;
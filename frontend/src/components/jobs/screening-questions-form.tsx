@@ -0,0 +1,106 @@
+import type { ScreeningQuestion } from "@shared/mongodb-types";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Answers keyed by question ID, as POST /api/jobs/:id/apply expects them
+export type ScreeningAnswers = Record<string, string | boolean>;
+
+interface ScreeningQuestionsFormProps {
+  questions: ScreeningQuestion[];
+  answers: ScreeningAnswers;
+  onChange: (answers: ScreeningAnswers) => void;
+}
+
+/**
+ * First required question without an answer, if any
+ */
+export const findUnansweredQuestion = (questions: ScreeningQuestion[], answers: ScreeningAnswers) =>
+  questions.find((question) => {
+    const answer = answers[question.id];
+    return question.required && (answer === undefined || (typeof answer === "string" && !answer.trim()));
+  });
+
+const ScreeningQuestionsForm = ({ questions, answers, onChange }: ScreeningQuestionsFormProps) => {
+  const setAnswer = (id: string, value: string | boolean) => onChange({ ...answers, [id]: value });
+
+  return (
+    <div className="grid gap-4">
+      {questions.map((question) => {
+        const inputId = `screening-${question.id}`;
+        const answer = answers[question.id];
+
+        return (
+          <div key={question.id} className="grid gap-2">
+            <Label htmlFor={inputId}>
+              {question.question}
+              {question.required ? <span className="text-red-500"> *</span> : " (Optional)"}
+            </Label>
+
+            {question.type === "yes-no" && (
+              <RadioGroup
+                id={inputId}
+                className="flex gap-6"
+                value={answer === undefined ? "" : answer ? "yes" : "no"}
+                onValueChange={(value) => setAnswer(question.id, value === "yes")}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="yes" id={`${inputId}-yes`} />
+                  <Label htmlFor={`${inputId}-yes`}>Yes</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="no" id={`${inputId}-no`} />
+                  <Label htmlFor={`${inputId}-no`}>No</Label>
+                </div>
+              </RadioGroup>
+            )}
+
+            {question.type === "number" && (
+              <Input
+                id={inputId}
+                type="number"
+                value={typeof answer === "string" ? answer : ""}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+              />
+            )}
+
+            {question.type === "multiple-choice" && (
+              <Select
+                value={typeof answer === "string" ? answer : undefined}
+                onValueChange={(value) => setAnswer(question.id, value)}
+              >
+                <SelectTrigger id={inputId}>
+                  <SelectValue placeholder="Select an answer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(question.options || []).map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {question.type === "text" && (
+              <Textarea
+                id={inputId}
+                rows={3}
+                value={typeof answer === "string" ? answer : ""}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScreeningQuestionsForm;
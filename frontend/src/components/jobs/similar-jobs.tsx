@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Building, MapPin, Users } from "lucide-react";
+
+interface SimilarJobEntry {
+  _id: string;
+  title: string;
+  company: string;
+  location: string;
+  type: string;
+  similarityReasons: string[];
+  // Applicants of the viewed job who also applied to this one
+  alsoAppliedCount: number;
+}
+
+interface SimilarJobsProps {
+  jobId: string | number;
+}
+
+// Sidebar of open jobs like the one being viewed, so candidates who decide
+// it isn't for them have somewhere to go next
+const SimilarJobs = ({ jobId }: SimilarJobsProps) => {
+  const { data: similarJobs, isLoading } = useQuery<SimilarJobEntry[]>({
+    queryKey: [`/api/jobs/${jobId}/similar`],
+  });
+
+  const alsoApplied = (similarJobs || []).filter((job) => job.alsoAppliedCount > 0);
+  const similar = (similarJobs || []).filter((job) => job.alsoAppliedCount === 0);
+
+  const renderJob = (job: SimilarJobEntry) => (
+    <li key={job._id}>
+      <Link href={`/jobs/${job._id}`} className="block rounded-md p-2 hover:bg-gray-50">
+        <p className="font-medium text-gray-900">{job.title}</p>
+        <p className="mt-1 flex items-center text-sm text-gray-500">
+          <Building className="mr-1 h-3.5 w-3.5" />
+          {job.company}
+        </p>
+        <p className="flex items-center text-sm text-gray-500">
+          <MapPin className="mr-1 h-3.5 w-3.5" />
+          {job.location}
+        </p>
+        {job.similarityReasons.length > 0 && (
+          <p className="mt-1 text-xs text-gray-500">{job.similarityReasons.join(" · ")}</p>
+        )}
+      </Link>
+    </li>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Similar jobs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[0, 1, 2].map((index) => (
+                <Skeleton key={index} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : similar.length === 0 ? (
+            <p className="text-sm text-gray-500">No similar open jobs right now.</p>
+          ) : (
+            <ul className="space-y-1">{similar.map(renderJob)}</ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {alsoApplied.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-lg">
+              <Users className="mr-2 h-4 w-4 text-gray-500" />
+              People also applied to
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1">{alsoApplied.map(renderJob)}</ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default SimilarJobs;
@@ -2,7 +2,6 @@ import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { 
-  Bell,
   ChevronDown,
   Menu,
   Briefcase,
@@ -21,6 +20,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import NotificationsMenu from "./notifications-menu";
 
 const Navbar = () => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -122,11 +122,7 @@ const Navbar = () => {
             {/* Logged In State */}
             {user && (
               <div className="hidden md:flex md:items-center space-x-4">
-                <Button variant="ghost" size="icon" className="relative p-1 rounded-full text-gray-400 hover:text-gray-500">
-                  <span className="sr-only">View notifications</span>
-                  <Bell className="h-5 w-5" />
-                  <span className="absolute top-0 right-0 block h-2 w-2 rounded-full bg-red-400"></span>
-                </Button>
+                <NotificationsMenu />
                 
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -0,0 +1,134 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+
+interface NotificationEntry {
+  _id: string;
+  type: "application_status" | "mention" | "new_job" | "message" | "reminder" | "system";
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt: string;
+}
+
+// Poll so application updates show up without a reload
+const NOTIFICATIONS_REFETCH_MS = 60 * 1000;
+
+const NotificationsMenu = () => {
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+
+  const { data: notificationsResponse } = useQuery<{
+    success: boolean;
+    data: { notifications: NotificationEntry[]; unreadCount: number };
+  }>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: NOTIFICATIONS_REFETCH_MS,
+  });
+  const notifications = notificationsResponse?.data.notifications || [];
+  const unreadCount = notificationsResponse?.data.unreadCount || 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("PATCH", `/api/notifications/${id}/read`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/notifications/read-all");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const openNotification = (notification: NotificationEntry) => {
+    if (!notification.read) {
+      markReadMutation.mutate(notification._id);
+    }
+    if (notification.type === "application_status") {
+      // Candidates hear about their applications, employers about withdrawals
+      if (user?.role === "employer") {
+        navigate("/employer/dashboard");
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/user/applications/timeline"] });
+        navigate("/dashboard");
+      }
+    } else if (notification.type === "mention") {
+      // A teammate mentioned the employer in a note on an applicant
+      navigate("/employer/dashboard");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative p-1 rounded-full text-gray-400 hover:text-gray-500">
+          <span className="sr-only">View notifications</span>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-0 right-0 block h-2 w-2 rounded-full bg-red-400"></span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-2 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification._id}
+                className="flex cursor-pointer flex-col items-start gap-1 py-2"
+                onSelect={() => openNotification(notification)}
+              >
+                <span className={`text-sm ${notification.read ? "text-gray-700" : "font-medium text-gray-900"}`}>
+                  {notification.title}
+                </span>
+                <span className="text-xs text-gray-500">{notification.message}</span>
+                <span className="text-xs text-gray-400">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationsMenu;
@@ -38,6 +38,14 @@ export function ProtectedRoute({
     );
   }
 
+  if (path.endsWith("/applicants") && user.role !== "employer") {
+    return (
+      <Route path={path}>
+        <Redirect to="/dashboard" />
+      </Route>
+    );
+  }
+
   if (path === "/admin/dashboard" && user.role !== "admin") {
     return (
       <Route path={path}>
@@ -46,7 +54,7 @@ export function ProtectedRoute({
     );
   }
 
-  if (path === "/post-job" && user.role !== "employer" && user.role !== "admin") {
+  if (path.startsWith("/post-job") && user.role !== "employer" && user.role !== "admin") {
     return (
       <Route path={path}>
         <Redirect to="/dashboard" />
@@ -139,44 +139,56 @@ const CompanyTypeFilter = ({ onChange }: { onChange: (selected: string[]) => voi
   );
 };
 
-const LocationFilter = ({ onChange }: { onChange: (selected: string[]) => void }) => {
+interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+interface CompanyFacets {
+  location: FacetBucket[];
+  industry: FacetBucket[];
+  experience: FacetBucket[];
+}
+
+const experienceLabels: Record<string, string> = {
+  "experienced": "Experienced",
+  "entry-level": "Entry Level",
+};
+
+// Turn facet buckets into filter options, labelled with the raw value unless a label is given
+const toFilterOptions = (buckets: FacetBucket[] = [], labels: Record<string, string> = {}) => {
+  return buckets.map((bucket) => ({
+    id: bucket.value,
+    label: labels[bucket.value] || bucket.value,
+    count: bucket.count,
+  }));
+};
+
+const LocationFilter = ({ buckets, onChange }: { buckets?: FacetBucket[]; onChange: (selected: string[]) => void }) => {
   return (
     <CompanyFilter
       title="Location"
-      options={[
-        { id: "bangalore", label: "Bengaluru", count: 3372 },
-        { id: "delhi-ncr", label: "Delhi / NCR", count: 5264 },
-        { id: "mumbai", label: "Mumbai (All Areas)", count: 2846 },
-        { id: "hyderabad", label: "Hyderabad", count: 2375 },
-      ]}
+      options={toFilterOptions(buckets)}
       onChange={onChange}
     />
   );
 };
 
-const IndustryFilter = ({ onChange }: { onChange: (selected: string[]) => void }) => {
+const IndustryFilter = ({ buckets, onChange }: { buckets?: FacetBucket[]; onChange: (selected: string[]) => void }) => {
   return (
     <CompanyFilter
       title="Industry"
-      options={[
-        { id: "it-services", label: "IT Services & Consulting", count: 2324 },
-        { id: "software-product", label: "Software Product", count: 480 },
-        { id: "education", label: "Education / Training", count: 268 },
-        { id: "medical", label: "Medical Services / Hospital", count: 265 },
-      ]}
+      options={toFilterOptions(buckets)}
       onChange={onChange}
     />
   );
 };
 
-const ExperienceFilter = ({ onChange }: { onChange: (selected: string[]) => void }) => {
+const ExperienceFilter = ({ buckets, onChange }: { buckets?: FacetBucket[]; onChange: (selected: string[]) => void }) => {
   return (
     <CompanyFilter
       title="Experience"
-      options={[
-        { id: "experienced", label: "Experienced", count: 8281 },
-        { id: "entry-level", label: "Entry Level", count: 2186 },
-      ]}
+      options={toFilterOptions(buckets, experienceLabels)}
       onChange={onChange}
     />
   );
@@ -211,6 +223,17 @@ const Companies = () => {
   const [industries, setIndustries] = useState<string[]>([]);
   const [experience, setExperience] = useState<string[]>([]);
 
+  // Live filter counts, each respecting the other selected filters
+  const facetParams = new URLSearchParams();
+  if (locations.length > 0) facetParams.set("location", locations.join(","));
+  if (industries.length > 0) facetParams.set("industry", industries.join(","));
+  if (experience.length > 0) facetParams.set("experience", experience.join(","));
+  const facetQuery = facetParams.toString();
+
+  const { data: facets } = useQuery<CompanyFacets>({
+    queryKey: [`/api/companies/facets${facetQuery ? `?${facetQuery}` : ""}`],
+  });
+
   // Mock fetch companies (replace with actual API call)
   const { data: companies, isLoading } = useQuery<Company[]>({
     queryKey: ["/api/companies", { search: searchTerm, types: companyTypes, locations, industries, experience }],
@@ -319,9 +342,9 @@ const Companies = () => {
             <div className="bg-white p-5 rounded-lg shadow-sm border border-gray-200 mb-6">
               <h2 className="font-bold text-lg mb-4">All Filters</h2>
               
-              <LocationFilter onChange={setLocations} />
-              <IndustryFilter onChange={setIndustries} />
-              <ExperienceFilter onChange={setExperience} />
+              <LocationFilter buckets={facets?.location} onChange={setLocations} />
+              <IndustryFilter buckets={facets?.industry} onChange={setIndustries} />
+              <ExperienceFilter buckets={facets?.experience} onChange={setExperience} />
               <CompanyTypeFilter onChange={setCompanyTypes} />
             </div>
           </div>
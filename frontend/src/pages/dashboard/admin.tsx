@@ -3,6 +3,9 @@ import { useAuth } from "@/hooks/use-auth";
 import { Link } from "wouter";
 import { User, Job } from "@shared/schema";
 import StatsCard from "@/components/dashboard/stats-card";
+import RiskReviewQueue from "@/components/dashboard/risk-review-queue";
+import RiskRulesSettings from "@/components/dashboard/risk-rules-settings";
+import DuplicateOffendersReport from "@/components/dashboard/duplicate-offenders-report";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -428,6 +431,17 @@ const AdminDashboard = () => {
           </Card>
         </div>
         
+        {/* Jobs held by the scam and spam checks */}
+        <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <RiskReviewQueue />
+          <RiskRulesSettings />
+        </div>
+        
+        {/* Employers reposting the same openings */}
+        <div className="mt-8">
+          <DuplicateOffendersReport />
+        </div>
+        
         {/* Recent Activity */}
         <div className="mt-8">
           <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Activity</h2>
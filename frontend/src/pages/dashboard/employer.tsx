@@ -1,35 +1,54 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Link } from "wouter";
 import { Job } from "@shared/schema";
 import StatsCard from "@/components/dashboard/stats-card";
 import JobListItem from "@/components/dashboard/job-list-item";
+import JobDraftItem, { JobDraftEntry } from "@/components/dashboard/job-draft-item";
+import JobTemplateItem, { JobTemplateEntry } from "@/components/dashboard/job-template-item";
+import JobFunnelAnalytics from "@/components/dashboard/job-funnel-analytics";
+import SponsoredSpendReport from "@/components/dashboard/sponsored-spend-report";
+import JobImportDialog from "@/components/dashboard/job-import-dialog";
+import PipelineStagesEditor from "@/components/dashboard/pipeline-stages-editor";
+import HiringTeamDialog from "@/components/dashboard/hiring-team-dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import {
-  BarChart,
-  Bar,
-  XAxis,
-  YAxis,
-  Tooltip,
-  ResponsiveContainer,
-} from "recharts";
 import {
   Briefcase,
   Users,
   BarChart2,
   PlusCircle,
-  Loader2
+  Loader2,
+  Upload,
+  UserPlus,
+  Workflow
 } from "lucide-react";
 
 const EmployerDashboard = () => {
   const { user } = useAuth();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isPipelineOpen, setIsPipelineOpen] = useState(false);
+  const [isTeamOpen, setIsTeamOpen] = useState(false);
   
   // Fetch employer jobs
   const { data: jobs, isLoading: isLoadingJobs } = useQuery<Job[]>({
     queryKey: ["/api/employer/jobs"],
   });
   
+  // Fetch unfinished job posts
+  const { data: draftsResponse } = useQuery<{ success: boolean; data: JobDraftEntry[] }>({
+    queryKey: ["/api/job-drafts"],
+  });
+  
+  const drafts = draftsResponse?.data || [];
+  
+  // Templates shared by the employer's company
+  const { data: templatesResponse } = useQuery<{ success: boolean; data: JobTemplateEntry[] }>({
+    queryKey: ["/api/job-templates"],
+  });
+  const templates = templatesResponse?.data || [];
+  
   // Fetch employer statistics
   const { data: stats, isLoading: isLoadingStats } = useQuery<{
     activeListings: number;
@@ -39,16 +58,6 @@ const EmployerDashboard = () => {
     queryKey: ["/api/employer/stats"],
   });
   
-  // Mock data for charts - in a real app, this would come from the API
-  const applicantsData = [
-    { name: 'Jan', value: 12 },
-    { name: 'Feb', value: 19 },
-    { name: 'Mar', value: 15 },
-    { name: 'Apr', value: 18 },
-    { name: 'May', value: 25 },
-    { name: 'Jun', value: 22 },
-  ];
-  
   if (!user || user.role !== 'employer') {
     return (
       <div className="flex justify-center items-center h-[70vh]">
@@ -64,7 +73,19 @@ const EmployerDashboard = () => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="md:flex md:items-center md:justify-between mb-8">
           <h1 className="text-2xl font-bold text-gray-900">Employer Dashboard</h1>
-          <div className="mt-4 md:mt-0">
+          <div className="mt-4 flex gap-3 md:mt-0">
+            <Button variant="outline" onClick={() => setIsPipelineOpen(true)}>
+              <Workflow className="mr-2 h-4 w-4" />
+              Hiring Pipeline
+            </Button>
+            <Button variant="outline" onClick={() => setIsTeamOpen(true)}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Hiring Team
+            </Button>
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import Jobs
+            </Button>
             <Link href="/post-job">
               <Button className="bg-primary hover:bg-primary-600">
                 <PlusCircle className="mr-2 h-4 w-4" />
@@ -74,6 +95,10 @@ const EmployerDashboard = () => {
           </div>
         </div>
         
+        <JobImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+        <PipelineStagesEditor open={isPipelineOpen} onOpenChange={setIsPipelineOpen} />
+        <HiringTeamDialog open={isTeamOpen} onOpenChange={setIsTeamOpen} />
+        
         {/* Stats Cards */}
         <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
           <StatsCard
@@ -107,6 +132,34 @@ const EmployerDashboard = () => {
           />
         </div>
         
+        {/* Drafts */}
+        {drafts.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">My Drafts</h2>
+            <Card>
+              <ul className="divide-y divide-gray-200">
+                {drafts.map(draft => (
+                  <JobDraftItem key={draft._id} draft={draft} />
+                ))}
+              </ul>
+            </Card>
+          </div>
+        )}
+        
+        {/* Templates */}
+        {templates.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Job Templates</h2>
+            <Card>
+              <ul className="divide-y divide-gray-200">
+                {templates.map(template => (
+                  <JobTemplateItem key={template._id} template={template} />
+                ))}
+              </ul>
+            </Card>
+          </div>
+        )}
+        
         {/* Job Listings */}
         <div className="mt-8">
           <h2 className="text-lg font-medium text-gray-900 mb-4">Your Job Listings</h2>
@@ -150,31 +203,12 @@ const EmployerDashboard = () => {
         {/* Analytics */}
         <div className="mt-8">
           <h2 className="text-lg font-medium text-gray-900 mb-4">Applicant Trends</h2>
-          <Card>
-            <CardHeader>
-              <CardTitle>Monthly Applications</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart
-                    data={applicantsData}
-                    margin={{
-                      top: 20,
-                      right: 30,
-                      left: 20,
-                      bottom: 5,
-                    }}
-                  >
-                    <XAxis dataKey="name" />
-                    <YAxis />
-                    <Tooltip />
-                    <Bar dataKey="value" fill="#3B82F6" />
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
-            </CardContent>
-          </Card>
+          <JobFunnelAnalytics />
+        </div>
+        
+        {/* Sponsored job spend, shown once a job has been sponsored */}
+        <div className="mt-8">
+          <SponsoredSpendReport />
         </div>
         
         {/* Tips & Resources */}
@@ -3,6 +3,9 @@ import { useAuth } from "@/hooks/use-auth";
 import { Link } from "wouter";
 import { Application, Job } from "@shared/schema";
 import JobCard from "@/components/jobs/job-card";
+import SavedJobItem, { SavedJobEntry } from "@/components/dashboard/saved-job-item";
+import JobAlertItem, { JobAlertEntry } from "@/components/dashboard/job-alert-item";
+import ApplicationTimeline from "@/components/dashboard/application-timeline";
 import StatsCard from "@/components/dashboard/stats-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -13,6 +16,7 @@ import {
   UserIcon, 
   FileText, 
   BookmarkIcon, 
+  Bell,
   CheckCircle,
   Clock, 
   Building,
@@ -29,10 +33,33 @@ const JobSeekerDashboard = () => {
   });
   
   // Fetch recommended jobs based on the job seeker's profile
-  const { data: recommendedJobs, isLoading: isLoadingRecommended } = useQuery<Job[]>({
+  const { data: recommendedResponse, isLoading: isLoadingRecommended } = useQuery<{
+    jobs: (Job & { matchScore?: number; matchReasons?: string[] })[];
+  }>({
     queryKey: ["/api/jobs?recommended=true"],
   });
   
+  const recommendedJobs = recommendedResponse?.jobs;
+  
+  // Fetch saved jobs, with warnings for ones that are closing or closed
+  const { data: savedJobsResponse, isLoading: isLoadingSaved } = useQuery<{ success: boolean; data: SavedJobEntry[] }>({
+    queryKey: ["/api/saved-jobs"],
+  });
+  
+  const savedJobs = savedJobsResponse?.data || [];
+  const savedJobWarnings = savedJobs.filter(savedJob => savedJob.warning !== null).length;
+  
+  // Fetch saved searches with email alerts
+  const { data: alertsResponse, isLoading: isLoadingAlerts } = useQuery<{ success: boolean; data: JobAlertEntry[] }>({
+    queryKey: ["/api/job-alerts"],
+  });
+  
+  const jobAlerts = alertsResponse?.data || [];
+  
+  // Open the saved jobs or alerts tab when linked to directly
+  const requestedTab = new URLSearchParams(window.location.search).get('tab');
+  const initialTab = requestedTab === 'saved' || requestedTab === 'alerts' ? requestedTab : 'applications';
+  
   // Count applications by status
   const getApplicationCounts = () => {
     if (!applications) return { total: 0, pending: 0, reviewed: 0, interviewed: 0 };
@@ -60,6 +87,8 @@ const JobSeekerDashboard = () => {
         return <Badge className="bg-green-100 text-green-800">Accepted</Badge>;
       case 'rejected':
         return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+      case 'withdrawn':
+        return <Badge className="bg-gray-100 text-gray-800">Withdrawn</Badge>;
       default:
         return null;
     }
@@ -112,10 +141,10 @@ const JobSeekerDashboard = () => {
           
           <StatsCard
             title="Saved Jobs"
-            value="0"
+            value={savedJobs.length}
             icon={<BookmarkIcon />}
             linkText="View all"
-            linkHref="/dashboard/saved-jobs"
+            linkHref="/dashboard?tab=saved"
             iconBgColor="bg-indigo-100"
             iconColor="text-indigo-600"
           />
@@ -123,9 +152,16 @@ const JobSeekerDashboard = () => {
         
         {/* Applications and Recommended Jobs Tabs */}
         <div className="mt-8">
-          <Tabs defaultValue="applications">
-            <TabsList className="grid w-full max-w-md grid-cols-2">
+          <Tabs defaultValue={initialTab}>
+            <TabsList className="grid w-full max-w-2xl grid-cols-4">
               <TabsTrigger value="applications">Your Applications</TabsTrigger>
+              <TabsTrigger value="saved">
+                Saved
+                {savedJobWarnings > 0 && (
+                  <Badge className="ml-2 bg-yellow-100 text-yellow-800">{savedJobWarnings}</Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="alerts">Job Alerts</TabsTrigger>
               <TabsTrigger value="recommended">Recommended Jobs</TabsTrigger>
             </TabsList>
             
@@ -203,6 +239,88 @@ const JobSeekerDashboard = () => {
                   </CardContent>
                 </Card>
               )}
+              
+              <div className="mt-6">
+                <ApplicationTimeline />
+              </div>
+            </TabsContent>
+            
+            {/* Saved Jobs Tab */}
+            <TabsContent value="saved" className="mt-6">
+              {isLoadingSaved ? (
+                <div className="flex justify-center py-10">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : savedJobs.length === 0 ? (
+                <Card>
+                  <CardContent className="py-10">
+                    <div className="text-center">
+                      <BookmarkIcon className="mx-auto h-12 w-12 text-gray-400" />
+                      <h3 className="mt-2 text-lg font-medium text-gray-900">No saved jobs</h3>
+                      <p className="mt-1 text-sm text-gray-500">
+                        Save jobs while you browse to come back to them later.
+                      </p>
+                      <Link href="/jobs">
+                        <Button className="mt-6 bg-primary hover:bg-primary-600">
+                          Browse Jobs
+                        </Button>
+                      </Link>
+                    </div>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Saved Jobs</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y divide-gray-200">
+                      {savedJobs.map((savedJob) => (
+                        <SavedJobItem key={savedJob._id} savedJob={savedJob} />
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+            
+            {/* Job Alerts Tab */}
+            <TabsContent value="alerts" className="mt-6">
+              {isLoadingAlerts ? (
+                <div className="flex justify-center py-10">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : jobAlerts.length === 0 ? (
+                <Card>
+                  <CardContent className="py-10">
+                    <div className="text-center">
+                      <Bell className="mx-auto h-12 w-12 text-gray-400" />
+                      <h3 className="mt-2 text-lg font-medium text-gray-900">No job alerts</h3>
+                      <p className="mt-1 text-sm text-gray-500">
+                        Search for jobs and choose "Save search" to get new matches by email.
+                      </p>
+                      <Link href="/jobs">
+                        <Button className="mt-6 bg-primary hover:bg-primary-600">
+                          Browse Jobs
+                        </Button>
+                      </Link>
+                    </div>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Job Alerts</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y divide-gray-200">
+                      {jobAlerts.map((alert) => (
+                        <JobAlertItem key={alert._id} alert={alert} />
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
             
             {/* Recommended Jobs Tab */}
@@ -232,8 +350,13 @@ const JobSeekerDashboard = () => {
                 </Card>
               ) : (
                 <div className="space-y-4">
-                  {Array.isArray(recommendedJobs) && recommendedJobs.map((job) => (
-                    <JobCard key={job.id} job={job} />
+                  {recommendedJobs.map((job) => (
+                    <JobCard
+                      key={job.id}
+                      job={job}
+                      matchScore={job.matchScore}
+                      matchReasons={job.matchReasons}
+                    />
                   ))}
                 </div>
               )}
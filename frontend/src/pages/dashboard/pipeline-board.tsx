@@ -0,0 +1,466 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import ApplicationMaterialsDialog from "@/components/dashboard/application-materials-dialog";
+import ApplicationReviewDialog, { StarRating } from "@/components/dashboard/application-review-dialog";
+import PipelineStagesEditor, {
+  ApplicationStatus,
+  PipelineSource,
+  STATUS_LABELS,
+} from "@/components/dashboard/pipeline-stages-editor";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, FileText, Loader2, MessageSquare, Settings2 } from "lucide-react";
+
+interface BoardApplication {
+  _id: string;
+  status: ApplicationStatus;
+  stageId: string;
+  appliedAt: string;
+  knockedOut?: boolean;
+  tags?: string[];
+  averageRating?: number | null;
+  ratingCount?: number;
+  withdrawnAt?: string | null;
+  withdrawalReason?: string | null;
+  resumeId?: string | null;
+  documents?: { _id: string; type: string; originalName: string }[];
+  user: { _id: string; name: string; email: string };
+}
+
+// Tag the server gives applicants who fail a knockout question, shown as its own badge
+const KNOCKOUT_TAG = "Failed screening";
+
+interface BoardStage {
+  id: string;
+  name: string;
+  status: ApplicationStatus;
+  count: number;
+  applications: BoardApplication[];
+}
+
+interface PendingMove {
+  application: BoardApplication;
+  stage: BoardStage;
+}
+
+interface PipelineBoard {
+  job: { _id: string; title: string; status: string };
+  source: PipelineSource;
+  total: number;
+  stages: BoardStage[];
+  // Candidates who withdrew, kept out of the stages
+  withdrawn: BoardApplication[];
+}
+
+// Opens the resume and documents a candidate applied with
+const MaterialsButton = ({
+  application,
+  onOpen,
+}: {
+  application: BoardApplication;
+  onOpen: (application: BoardApplication) => void;
+}) => {
+  const documentCount = application.documents?.length || 0;
+  return (
+    <Button
+      variant="link"
+      size="sm"
+      className="mt-1 h-auto px-0 text-xs"
+      onClick={() => onOpen(application)}
+    >
+      <FileText className="mr-1 h-3 w-3" />
+      {application.resumeId ? "Resume" : "No resume"}
+      {documentCount > 0 && ` + ${documentCount} document${documentCount !== 1 ? "s" : ""}`}
+    </Button>
+  );
+};
+
+// Kanban of a job's applications by hiring stage; cards are dragged
+// between columns to move candidates along
+const PipelineBoardPage = () => {
+  const params = useParams<{ id: string }>();
+  const jobId = params.id;
+  const { toast } = useToast();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // A dropped card waits here while the employer adds a note and decides
+  // whether the candidate hears about it
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [moveNote, setMoveNote] = useState("");
+  const [notifyCandidate, setNotifyCandidate] = useState(true);
+  const [viewing, setViewing] = useState<BoardApplication | null>(null);
+  const [reviewing, setReviewing] = useState<BoardApplication | null>(null);
+  // Review filters; the tag box applies when submitted
+  const [tagInput, setTagInput] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [minRating, setMinRating] = useState("any");
+
+  const filterParams = new URLSearchParams();
+  if (tagFilter) filterParams.set("tag", tagFilter);
+  if (minRating !== "any") filterParams.set("minRating", minRating);
+  const filterQuery = filterParams.toString();
+  const isFiltered = filterQuery !== "";
+
+  const boardKey = [`/api/hiring-pipelines/jobs/${jobId}/board${isFiltered ? `?${filterQuery}` : ""}`];
+
+  const { data: boardResponse, isLoading, error } = useQuery<{ success: boolean; data: PipelineBoard }>({
+    queryKey: boardKey,
+  });
+  const board = boardResponse?.data;
+
+  const moveMutation = useMutation({
+    mutationFn: async ({
+      applicationId,
+      stageId,
+      note,
+      notifyCandidate,
+    }: {
+      applicationId: string;
+      stageId: string;
+      note: string;
+      notifyCandidate: boolean;
+    }) => {
+      const res = await apiRequest("PATCH", `/api/hiring-pipelines/applications/${applicationId}/stage`, {
+        stageId,
+        note,
+        notifyCandidate,
+      });
+      return await res.json();
+    },
+    // Move the card straight away; the refetch puts it back if the move fails
+    onMutate: ({ applicationId, stageId }) => {
+      queryClient.setQueryData<{ success: boolean; data: PipelineBoard }>(boardKey, (current) => {
+        if (!current) return current;
+        const moved = current.data.stages
+          .flatMap((stage) => stage.applications)
+          .find((application) => application._id === applicationId);
+        if (!moved) return current;
+        const stages = current.data.stages.map((stage) => {
+          const applications = stage.applications.filter((application) => application._id !== applicationId);
+          if (stage.id === stageId) {
+            applications.unshift({ ...moved, stageId, status: stage.status });
+          }
+          return { ...stage, applications, count: applications.length };
+        });
+        return { ...current, data: { ...current.data, stages } };
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error moving application",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: boardKey });
+    },
+  });
+
+  const handleDrop = (event: React.DragEvent, stage: BoardStage) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const applicationId = event.dataTransfer.getData("text/plain");
+    const application = board?.stages
+      .flatMap((column) => column.applications)
+      .find((candidate) => candidate._id === applicationId);
+    if (application && application.stageId !== stage.id) {
+      setMoveNote("");
+      setNotifyCandidate(true);
+      setPendingMove({ application, stage });
+    }
+  };
+
+  const confirmMove = () => {
+    if (!pendingMove) return;
+    moveMutation.mutate({
+      applicationId: pendingMove.application._id,
+      stageId: pendingMove.stage.id,
+      note: moveNote,
+      notifyCandidate,
+    });
+    setPendingMove(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-[70vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !board) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-16 text-center">
+        <h1 className="text-xl font-semibold text-gray-900">Pipeline not available</h1>
+        <p className="mt-2 text-gray-500">This job doesn't exist or isn't one of yours.</p>
+        <Link href="/employer/dashboard">
+          <Button variant="outline" className="mt-6">Back to dashboard</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-8 bg-gray-50 min-h-screen">
+      <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="md:flex md:items-center md:justify-between mb-6">
+          <div>
+            <Link href="/employer/dashboard" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Employer Dashboard
+            </Link>
+            <h1 className="mt-2 text-2xl font-bold text-gray-900">{board.job.title}</h1>
+            <p className="text-sm text-gray-500">
+              {board.total} {isFiltered ? "matching " : ""}applicant{board.total !== 1 ? "s" : ""} ·{" "}
+              {board.source === "job" ? "Stages for this job" : board.source === "company" ? "Company stages" : "Default stages"}
+            </p>
+          </div>
+          <Button variant="outline" className="mt-4 md:mt-0" onClick={() => setIsEditorOpen(true)}>
+            <Settings2 className="mr-2 h-4 w-4" />
+            Edit stages
+          </Button>
+        </div>
+
+        <PipelineStagesEditor open={isEditorOpen} onOpenChange={setIsEditorOpen} jobId={jobId} />
+
+        <ApplicationMaterialsDialog
+          applicationId={viewing?._id || null}
+          candidateName={viewing?.user.name}
+          onOpenChange={(open) => !open && setViewing(null)}
+        />
+
+        <ApplicationReviewDialog
+          applicationId={reviewing?._id || null}
+          candidateName={reviewing?.user.name}
+          onOpenChange={(open) => !open && setReviewing(null)}
+          onReviewChange={() =>
+            // Every filtered view of the board, as ratings and tags decide who matches
+            queryClient.invalidateQueries({
+              predicate: (query) => String(query.queryKey[0]).startsWith(`/api/hiring-pipelines/jobs/${jobId}/board`),
+            })
+          }
+        />
+
+        <form
+          className="mb-4 flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setTagFilter(tagInput.trim());
+          }}
+        >
+          <Input
+            className="w-56 bg-white"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Filter by tags, comma-separated"
+          />
+          <Select value={minRating} onValueChange={setMinRating}>
+            <SelectTrigger className="w-40 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any rating</SelectItem>
+              {[5, 4, 3, 2, 1].map((rating) => (
+                <SelectItem key={rating} value={String(rating)}>
+                  {rating === 5 ? "5 stars" : `${rating}+ stars`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" variant="outline">
+            Apply
+          </Button>
+          {isFiltered && (
+            <Button
+              type="button"
+              variant="link"
+              onClick={() => {
+                setTagInput("");
+                setTagFilter("");
+                setMinRating("any");
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
+        </form>
+
+        <Dialog open={!!pendingMove} onOpenChange={(open) => !open && setPendingMove(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Move to {pendingMove?.stage.name}</DialogTitle>
+              <DialogDescription>
+                {pendingMove?.application.user.name} moves from{" "}
+                {board.stages.find((stage) => stage.id === pendingMove?.application.stageId)?.name} to{" "}
+                {pendingMove?.stage.name}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="move-note">Note (optional)</Label>
+                <Textarea
+                  id="move-note"
+                  value={moveNote}
+                  onChange={(e) => setMoveNote(e.target.value)}
+                  placeholder="e.g. We'll be in touch to schedule your interview."
+                  maxLength={1000}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="notify-candidate"
+                  checked={notifyCandidate}
+                  onCheckedChange={(checked) => setNotifyCandidate(checked === true)}
+                />
+                <Label htmlFor="notify-candidate">Show this update and note to the candidate</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPendingMove(null)}>
+                Cancel
+              </Button>
+              <Button onClick={confirmMove}>Move</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {board.stages.map((stage) => (
+            <div
+              key={stage.id}
+              className={`flex w-72 flex-shrink-0 flex-col rounded-lg border bg-gray-100 ${
+                dropTarget === stage.id ? "border-primary ring-2 ring-primary/30" : "border-gray-200"
+              }`}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setDropTarget(stage.id);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === stage.id ? null : current))}
+              onDrop={(event) => handleDrop(event, stage)}
+            >
+              <div className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <h2 className="font-medium text-gray-900">{stage.name}</h2>
+                  <p className="text-xs text-gray-500">Shown as "{STATUS_LABELS[stage.status]}"</p>
+                </div>
+                <Badge variant="secondary">{stage.count}</Badge>
+              </div>
+              <div className="flex-1 space-y-2 px-2 pb-2 min-h-[120px]">
+                {stage.applications.map((application) => (
+                  <Card
+                    key={application._id}
+                    draggable
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData("text/plain", application._id);
+                      event.dataTransfer.effectAllowed = "move";
+                    }}
+                    className="cursor-grab active:cursor-grabbing"
+                  >
+                    <CardContent className="p-3">
+                      <p className="font-medium text-gray-900">{application.user.name}</p>
+                      <p className="truncate text-sm text-gray-500">{application.user.email}</p>
+                      <div className="mt-2 flex flex-wrap items-center gap-1">
+                        <span className="text-xs text-gray-400">
+                          Applied {formatDistanceToNow(new Date(application.appliedAt), { addSuffix: true })}
+                        </span>
+                        {application.knockedOut && (
+                          <Badge variant="outline" className="text-xs text-red-600 border-red-200">
+                            Knocked out
+                          </Badge>
+                        )}
+                        {application.tags
+                          ?.filter((tag) => !application.knockedOut || tag !== KNOCKOUT_TAG)
+                          .map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                      </div>
+                      {application.averageRating != null && (
+                        <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                          <StarRating value={application.averageRating} className="h-3 w-3" />
+                          {application.averageRating.toFixed(1)} ({application.ratingCount})
+                        </p>
+                      )}
+                      <div className="flex items-center gap-3">
+                        <MaterialsButton application={application} onOpen={setViewing} />
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="mt-1 h-auto px-0 text-xs"
+                          onClick={() => setReviewing(application)}
+                        >
+                          <MessageSquare className="mr-1 h-3 w-3" />
+                          Review
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {board.withdrawn.length > 0 && (
+            <div className="flex w-72 flex-shrink-0 flex-col rounded-lg border border-dashed border-gray-300 bg-white">
+              <div className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <h2 className="font-medium text-gray-500">Withdrawn</h2>
+                  <p className="text-xs text-gray-400">Not counted as applicants</p>
+                </div>
+                <Badge variant="outline">{board.withdrawn.length}</Badge>
+              </div>
+              <div className="flex-1 space-y-2 px-2 pb-2">
+                {board.withdrawn.map((application) => (
+                  <Card key={application._id} className="bg-gray-50">
+                    <CardContent className="p-3">
+                      <p className="font-medium text-gray-700">{application.user.name}</p>
+                      <p className="truncate text-sm text-gray-500">{application.user.email}</p>
+                      {application.withdrawnAt && (
+                        <p className="mt-2 text-xs text-gray-400">
+                          Withdrew {formatDistanceToNow(new Date(application.withdrawnAt), { addSuffix: true })}
+                        </p>
+                      )}
+                      {application.withdrawalReason && (
+                        <p className="mt-1 text-sm italic text-gray-600">"{application.withdrawalReason}"</p>
+                      )}
+                      <MaterialsButton application={application} onOpen={setViewing} />
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineBoardPage;
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
 import { Job } from "@shared/schema";
+import type { ResumeSource, ScreeningQuestion } from "@shared/mongodb-types";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -23,6 +24,15 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import ScreeningQuestionsForm, {
+  findUnansweredQuestion,
+  type ScreeningAnswers,
+} from "@/components/jobs/screening-questions-form";
+import ApplicationMaterialsForm, {
+  buildApplicationFormData,
+  type AttachedDocument,
+} from "@/components/jobs/application-materials-form";
+import SimilarJobs from "@/components/jobs/similar-jobs";
 
 import {
   Briefcase,
@@ -34,28 +44,64 @@ import {
   Share2,
   Bookmark,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Users,
+  Mail,
+  Zap
 } from "lucide-react";
 
+// Details from the post-job wizard that the base Job type doesn't cover
+type JobWithDetails = Job & {
+  schedule?: string[];
+  benefits?: string[];
+  supplementalPay?: string[];
+  salaryNegotiable?: boolean;
+  preferredSkills?: string[];
+  additionalQualifications?: string;
+  numberOfOpenings?: number;
+  recruitmentTimeline?: string | null;
+  startDate?: string | null;
+  contactEmail?: string | null;
+  allowContact?: boolean;
+  showCompanyDetails?: boolean;
+  screeningQuestions?: ScreeningQuestion[];
+  resumeRequired?: boolean;
+  urgentlyHiring?: boolean;
+  // schema.org JobPosting for search engines, while the job is open
+  structuredData?: Record<string, unknown> | null;
+};
+
 const JobDetails = () => {
   const params = useParams<{ id: string }>();
   const jobId = parseInt(params.id);
   const { user } = useAuth();
   const { toast } = useToast();
   const [coverLetter, setCoverLetter] = useState("");
+  const [screeningAnswers, setScreeningAnswers] = useState<ScreeningAnswers>({});
+  const [resumeSource, setResumeSource] = useState<ResumeSource | null>(null);
+  const [documents, setDocuments] = useState<AttachedDocument[]>([]);
   const [applying, setApplying] = useState(false);
   const [applicationSuccess, setApplicationSuccess] = useState(false);
   
   // Fetch job details
-  const { data: job, isLoading, error } = useQuery<Job>({
+  const { data: job, isLoading, error } = useQuery<JobWithDetails>({
     queryKey: [`/api/jobs/${jobId}`],
   });
   
   // Application mutation
   const applyMutation = useMutation({
+    // Sent as a form so the attached documents go with it
     mutationFn: async () => {
-      const res = await apiRequest("POST", `/api/jobs/${jobId}/apply`, { coverLetter });
-      return await res.json();
+      const res = await fetch(`/api/jobs/${jobId}/apply`, {
+        method: "POST",
+        body: buildApplicationFormData({ coverLetter, answers: screeningAnswers }, resumeSource, documents),
+        credentials: "include",
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.message || "Failed to submit application");
+      }
+      return result;
     },
     onSuccess: () => {
       setApplicationSuccess(true);
@@ -65,6 +111,7 @@ const JobDetails = () => {
         description: "Your application has been successfully submitted!",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/applications/timeline"] });
     },
     onError: (error: Error) => {
       setApplying(false);
@@ -77,6 +124,9 @@ const JobDetails = () => {
   });
   
   const handleApply = () => {
+    // Count the click in the employer's funnel even if the candidate can't apply yet
+    apiRequest("POST", `/api/jobs/${jobId}/apply-click`).catch(() => {});
+    
     if (!user) {
       toast({
         title: "Authentication required",
@@ -99,6 +149,25 @@ const JobDetails = () => {
   };
   
   const submitApplication = () => {
+    const unanswered = findUnansweredQuestion(job?.screeningQuestions || [], screeningAnswers);
+    if (unanswered) {
+      toast({
+        title: "Answer required",
+        description: `Please answer "${unanswered.question}"`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (job?.resumeRequired && !resumeSource) {
+      toast({
+        title: "Resume required",
+        description: "This employer asks for a resume with every application",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     applyMutation.mutate();
   };
   
@@ -155,9 +224,21 @@ const JobDetails = () => {
     );
   }
   
+  // Jobs stop accepting applications once the deadline has passed, even
+  // before the expiry worker closes them
+  const isAcceptingApplications = job.status === 'active' &&
+    (!job.deadline || new Date(job.deadline).getTime() >= Date.now());
+  
   return (
     <div className="bg-gray-50 py-10">
-      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      {job.structuredData && (
+        <script
+          type="application/ld+json"
+          // Escape "<" so the description can't close the script tag
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(job.structuredData).replace(/</g, "\\u003c") }}
+        />
+      )}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Apply Success Alert */}
         {applicationSuccess && (
           <Alert className="mb-6 bg-green-50 border-green-200">
@@ -169,214 +250,293 @@ const JobDetails = () => {
           </Alert>
         )}
         
-        {/* Job Card */}
-        <Card className="mb-8">
-          <CardHeader className="pb-4">
-            <div className="flex justify-between items-start">
-              <div>
-                <CardTitle className="text-2xl font-bold text-gray-900">{job.title}</CardTitle>
-                <CardDescription className="mt-1 flex items-center text-base">
-                  <Building className="mr-1 h-4 w-4 text-gray-500" />
-                  {job.company}
-                </CardDescription>
-              </div>
+        <div className="lg:grid lg:grid-cols-3 lg:gap-8">
+          <div className="lg:col-span-2">
+            {/* Job Card */}
+            <Card className="mb-8">
+              <CardHeader className="pb-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-2xl font-bold text-gray-900">{job.title}</CardTitle>
+                    {job.urgentlyHiring && (
+                      <Badge className="mt-2 bg-red-50 text-red-700 border-red-100">
+                        <Zap className="mr-1 h-3 w-3" />
+                        Urgently hiring
+                      </Badge>
+                    )}
+                    <CardDescription className="mt-1 flex items-center text-base">
+                      <Building className="mr-1 h-4 w-4 text-gray-500" />
+                      {job.company}
+                    </CardDescription>
+                  </div>
               
-              <div className="flex space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleSaveJob}
-                >
-                  <Bookmark className="mr-2 h-4 w-4" />
-                  Save
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleShareJob}
-                >
-                  <Share2 className="mr-2 h-4 w-4" />
-                  Share
-                </Button>
-              </div>
-            </div>
-          </CardHeader>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSaveJob}
+                    >
+                      <Bookmark className="mr-2 h-4 w-4" />
+                      Save
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleShareJob}
+                    >
+                      <Share2 className="mr-2 h-4 w-4" />
+                      Share
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
           
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-              <div className="flex items-center">
-                <MapPin className="h-5 w-5 text-gray-400 mr-2" />
-                <span>{job.location}</span>
-              </div>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                  <div className="flex items-center">
+                    <MapPin className="h-5 w-5 text-gray-400 mr-2" />
+                    <span>{job.location}</span>
+                  </div>
               
-              <div className="flex items-center">
-                <Briefcase className="h-5 w-5 text-gray-400 mr-2" />
-                <span>
-                  {job.type === 'full-time' ? 'Full-time' : 
-                   job.type === 'part-time' ? 'Part-time' : 
-                   job.type === 'contract' ? 'Contract' : 
-                   job.type === 'internship' ? 'Internship' : job.type}
-                </span>
-              </div>
+                  <div className="flex items-center">
+                    <Briefcase className="h-5 w-5 text-gray-400 mr-2" />
+                    <span>
+                      {job.type === 'full-time' ? 'Full-time' : 
+                       job.type === 'part-time' ? 'Part-time' : 
+                       job.type === 'contract' ? 'Contract' : 
+                       job.type === 'internship' ? 'Internship' : job.type}
+                    </span>
+                  </div>
               
-              {job.salary && (
-                <div className="flex items-center">
-                  <DollarSign className="h-5 w-5 text-gray-400 mr-2" />
-                  <span>{job.salary}</span>
-                </div>
-              )}
+                  {job.salary && (
+                    <div className="flex items-center">
+                      <DollarSign className="h-5 w-5 text-gray-400 mr-2" />
+                      <span>{job.salary}{job.salaryNegotiable ? " (negotiable)" : ""}</span>
+                    </div>
+                  )}
               
-              <div className="flex items-center">
-                <Clock className="h-5 w-5 text-gray-400 mr-2" />
-                <span>Posted {job.createdAt && format(new Date(job.createdAt), 'MMM dd, yyyy')}</span>
-              </div>
+                  {job.numberOfOpenings && job.numberOfOpenings > 1 && (
+                    <div className="flex items-center">
+                      <Users className="h-5 w-5 text-gray-400 mr-2" />
+                      <span>Hiring {job.numberOfOpenings} people{job.recruitmentTimeline ? ` within ${job.recruitmentTimeline}` : ""}</span>
+                    </div>
+                  )}
               
-              {job.deadline && (
-                <div className="flex items-center">
-                  <Calendar className="h-5 w-5 text-gray-400 mr-2" />
-                  <span>Apply before {format(new Date(job.deadline), 'MMM dd, yyyy')}</span>
-                </div>
-              )}
+                  {job.startDate && (
+                    <div className="flex items-center">
+                      <Calendar className="h-5 w-5 text-gray-400 mr-2" />
+                      <span>Starts {format(new Date(job.startDate), 'MMM dd, yyyy')}</span>
+                    </div>
+                  )}
+              
+                  <div className="flex items-center">
+                    <Clock className="h-5 w-5 text-gray-400 mr-2" />
+                    <span>Posted {job.createdAt && format(new Date(job.createdAt), 'MMM dd, yyyy')}</span>
+                  </div>
+              
+                  {job.deadline && (
+                    <div className="flex items-center">
+                      <Calendar className="h-5 w-5 text-gray-400 mr-2" />
+                      <span>Apply before {format(new Date(job.deadline), 'MMM dd, yyyy')}</span>
+                    </div>
+                  )}
               
-              {job.experienceLevel && (
-                <div className="flex items-center">
-                  <svg className="h-5 w-5 text-gray-400 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
-                  </svg>
-                  <span>
-                    {job.experienceLevel === 'entry' ? 'Entry Level' : 
-                     job.experienceLevel === 'mid' ? 'Mid Level' : 
-                     job.experienceLevel === 'senior' ? 'Senior Level' : 
-                     job.experienceLevel === 'executive' ? 'Executive Level' : job.experienceLevel}
-                  </span>
+                  {job.experienceLevel && (
+                    <div className="flex items-center">
+                      <svg className="h-5 w-5 text-gray-400 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                      </svg>
+                      <span>
+                        {job.experienceLevel === 'entry' ? 'Entry Level' : 
+                         job.experienceLevel === 'mid' ? 'Mid Level' : 
+                         job.experienceLevel === 'senior' ? 'Senior Level' : 
+                         job.experienceLevel === 'executive' ? 'Executive Level' : job.experienceLevel}
+                      </span>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
             
-            <div className="flex flex-wrap gap-2 mb-6">
-              {formatRequirements(job.requirements).map((req, index) => (
-                <Badge key={index} variant="outline" className="bg-blue-50 text-blue-700 border-blue-100">
-                  {req}
-                </Badge>
-              ))}
-            </div>
+                <div className="flex flex-wrap gap-2 mb-6">
+                  {formatRequirements(job.requirements).map((req, index) => (
+                    <Badge key={index} variant="outline" className="bg-blue-50 text-blue-700 border-blue-100">
+                      {req}
+                    </Badge>
+                  ))}
+                </div>
             
-            <Separator className="my-6" />
+                <Separator className="my-6" />
             
-            <div className="prose max-w-none">
-              <h3 className="text-lg font-medium text-gray-900">Job Description</h3>
-              <div className="mt-2 whitespace-pre-line">
-                {job.description}
-              </div>
+                <div className="prose max-w-none">
+                  <h3 className="text-lg font-medium text-gray-900">Job Description</h3>
+                  <div className="mt-2 whitespace-pre-line">
+                    {job.description}
+                  </div>
               
-              {formatRequirements(job.requirements).length > 0 && (
-                <>
-                  <h3 className="text-lg font-medium text-gray-900 mt-6">Requirements</h3>
-                  <ul className="mt-2 list-disc pl-5 space-y-1">
-                    {formatRequirements(job.requirements).map((req, index) => (
-                      <li key={index}>{req}</li>
-                    ))}
-                  </ul>
-                </>
-              )}
-            </div>
+                  {formatRequirements(job.requirements).length > 0 && (
+                    <>
+                      <h3 className="text-lg font-medium text-gray-900 mt-6">Requirements</h3>
+                      <ul className="mt-2 list-disc pl-5 space-y-1">
+                        {formatRequirements(job.requirements).map((req, index) => (
+                          <li key={index}>{req}</li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+              
+                  {((job.preferredSkills && job.preferredSkills.length > 0) || job.additionalQualifications) && (
+                    <>
+                      <h3 className="text-lg font-medium text-gray-900 mt-6">Nice to have</h3>
+                      <ul className="mt-2 list-disc pl-5 space-y-1">
+                        {job.preferredSkills?.map((skill) => (
+                          <li key={skill}>{skill}</li>
+                        ))}
+                        {job.additionalQualifications && <li>{job.additionalQualifications}</li>}
+                      </ul>
+                    </>
+                  )}
+                </div>
             
-            <div className="mt-8 flex justify-center">
-              {job.status === 'active' && !applicationSuccess ? (
-                <Dialog open={applying} onOpenChange={setApplying}>
-                  <DialogTrigger asChild>
-                    <Button 
-                      size="lg" 
-                      className="bg-primary hover:bg-primary-600 w-full md:w-auto"
-                      onClick={handleApply}
-                    >
-                      Apply for this position
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="sm:max-w-[525px]">
-                    <DialogHeader>
-                      <DialogTitle>Apply for {job.title}</DialogTitle>
-                      <DialogDescription>
-                        Submit your application for this position at {job.company}
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="grid gap-4 py-4">
-                      <div className="grid gap-2">
-                        <label htmlFor="cover-letter" className="text-sm font-medium">
-                          Cover Letter (Optional)
-                        </label>
-                        <Textarea
-                          id="cover-letter"
-                          placeholder="Tell the employer why you're a good fit for this position..."
-                          rows={8}
-                          value={coverLetter}
-                          onChange={(e) => setCoverLetter(e.target.value)}
-                        />
-                      </div>
+                {[
+                  { title: "Schedule", values: job.schedule },
+                  { title: "Benefits", values: job.benefits },
+                  { title: "Supplemental pay", values: job.supplementalPay },
+                ].filter(section => section.values && section.values.length > 0).map((section) => (
+                  <div key={section.title} className="mt-6">
+                    <h3 className="text-lg font-medium text-gray-900">{section.title}</h3>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {section.values!.map((value) => (
+                        <Badge key={value} variant="outline">{value}</Badge>
+                      ))}
                     </div>
-                    <DialogFooter>
-                      <Button 
-                        variant="outline" 
-                        onClick={() => setApplying(false)}
-                      >
-                        Cancel
-                      </Button>
-                      <Button 
-                        onClick={submitApplication}
-                        disabled={applyMutation.isPending}
-                        className="bg-primary hover:bg-primary-600"
-                      >
-                        {applyMutation.isPending ? "Submitting..." : "Submit Application"}
+                  </div>
+                ))}
+            
+                {job.allowContact && job.contactEmail && (
+                  <div className="mt-6 flex items-center text-sm text-gray-600">
+                    <Mail className="h-4 w-4 text-gray-400 mr-2" />
+                    <span>
+                      Questions about this job? Email{" "}
+                      <a href={`mailto:${job.contactEmail}`} className="text-primary hover:text-primary-600">
+                        {job.contactEmail}
+                      </a>
+                    </span>
+                  </div>
+                )}
+            
+                <div className="mt-8 flex justify-center">
+                  {isAcceptingApplications && !applicationSuccess ? (
+                    <Dialog open={applying} onOpenChange={setApplying}>
+                      <DialogTrigger asChild>
+                        <Button 
+                          size="lg" 
+                          className="bg-primary hover:bg-primary-600 w-full md:w-auto"
+                          onClick={handleApply}
+                        >
+                          Apply for this position
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="sm:max-w-[525px]">
+                        <DialogHeader>
+                          <DialogTitle>Apply for {job.title}</DialogTitle>
+                          <DialogDescription>
+                            Submit your application for this position at {job.company}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="grid gap-4 py-4 max-h-[60vh] overflow-y-auto">
+                          {job.screeningQuestions && job.screeningQuestions.length > 0 && (
+                            <ScreeningQuestionsForm
+                              questions={job.screeningQuestions}
+                              answers={screeningAnswers}
+                              onChange={setScreeningAnswers}
+                            />
+                          )}
+                          <ApplicationMaterialsForm
+                            resumeRequired={!!job.resumeRequired}
+                            resumeSource={resumeSource}
+                            onResumeSourceChange={setResumeSource}
+                            documents={documents}
+                            onDocumentsChange={setDocuments}
+                            onInvalidFile={(message) =>
+                              toast({ title: "Can't attach file", description: message, variant: "destructive" })
+                            }
+                          />
+                          <div className="grid gap-2">
+                            <label htmlFor="cover-letter" className="text-sm font-medium">
+                              Cover Letter (Optional)
+                            </label>
+                            <Textarea
+                              id="cover-letter"
+                              placeholder="Tell the employer why you're a good fit for this position..."
+                              rows={8}
+                              value={coverLetter}
+                              onChange={(e) => setCoverLetter(e.target.value)}
+                            />
+                          </div>
+                        </div>
+                        <DialogFooter>
+                          <Button 
+                            variant="outline" 
+                            onClick={() => setApplying(false)}
+                          >
+                            Cancel
+                          </Button>
+                          <Button 
+                            onClick={submitApplication}
+                            disabled={applyMutation.isPending}
+                            className="bg-primary hover:bg-primary-600"
+                          >
+                            {applyMutation.isPending ? "Submitting..." : "Submit Application"}
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  ) : isAcceptingApplications && applicationSuccess ? (
+                    <Link href="/dashboard">
+                      <Button className="bg-green-600 hover:bg-green-700">
+                        View your applications
                       </Button>
-                    </DialogFooter>
-                  </DialogContent>
-                </Dialog>
-              ) : job.status === 'active' && applicationSuccess ? (
-                <Link href="/dashboard">
-                  <Button className="bg-green-600 hover:bg-green-700">
-                    View your applications
-                  </Button>
-                </Link>
-              ) : (
-                <Button disabled className="cursor-not-allowed">
-                  This job is no longer accepting applications
-                </Button>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Company Info */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-xl">About {job.company}</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="flex items-center mb-4">
-              <div className="flex-shrink-0 h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center text-primary text-2xl font-bold">
-                {job.company.charAt(0)}
-              </div>
-              <div className="ml-4">
-                <h3 className="text-lg font-medium">{job.company}</h3>
-                <div className="flex mt-1 space-x-4">
-                  <Link href={`/companies/${encodeURIComponent(job.company)}`} className="text-primary hover:text-primary-600 text-sm font-medium">
-                    View company profile
-                  </Link>
-                  <Link href={`/companies/${encodeURIComponent(job.company)}/jobs`} className="text-primary hover:text-primary-600 text-sm font-medium">
-                    View all jobs
-                  </Link>
+                    </Link>
+                  ) : (
+                    <Button disabled className="cursor-not-allowed">
+                      This job is no longer accepting applications
+                    </Button>
+                  )}
                 </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+
+            {/* Company Info, unless the employer chose to hide it */}
+            {job.showCompanyDetails !== false && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl">About {job.company}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center mb-4">
+                    <div className="flex-shrink-0 h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center text-primary text-2xl font-bold">
+                      {job.company.charAt(0)}
+                    </div>
+                    <div className="ml-4">
+                      <h3 className="text-lg font-medium">{job.company}</h3>
+                      <div className="flex mt-1 space-x-4">
+                        <Link href={`/companies/${encodeURIComponent(job.company)}`} className="text-primary hover:text-primary-600 text-sm font-medium">
+                          View company profile
+                        </Link>
+                        <Link href={`/companies/${encodeURIComponent(job.company)}/jobs`} className="text-primary hover:text-primary-600 text-sm font-medium">
+                          View all jobs
+                        </Link>
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
 
-        {/* Similar Jobs - placeholder for future implementation */}
-        <div className="mt-12">
-          <h2 className="text-xl font-bold text-gray-900 mb-4">Similar Jobs</h2>
-          <p className="text-center py-8 text-gray-500">
-            Similar job recommendations will appear here as they become available.
-          </p>
+          {/* Similar jobs and where other applicants applied */}
+          <aside className="mt-8 lg:mt-0">
+            <SimilarJobs jobId={jobId} />
+          </aside>
         </div>
       </div>
     </div>
@@ -2,9 +2,11 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
 import { Job } from "@shared/schema";
+import type { SearchHighlight } from "@shared/mongodb-types";
 import JobCard from "@/components/jobs/job-card";
 import JobSearch from "@/components/jobs/job-search";
-import JobFilters from "@/components/jobs/job-filters";
+import JobFilters, { SALARY_FILTER_MAX } from "@/components/jobs/job-filters";
+import SaveSearchDialog from "@/components/jobs/save-search-dialog";
 import { 
   Card, 
   CardContent, 
@@ -22,7 +24,14 @@ import {
   PaginationPrevious
 } from "@/components/ui/pagination";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Loader2, Rss } from "lucide-react";
 
 const JobListings = () => {
   const [location, setLocation] = useLocation();
@@ -35,10 +44,18 @@ const JobListings = () => {
     return {
       search: params.get('search') || '',
       location: params.get('location') || '',
+      near: params.get('near') || '',
+      radiusKm: params.get('radiusKm') || '',
+      includeRemote: params.get('includeRemote') === 'true',
       type: params.get('type')?.split(',') || [],
       experience: params.get('experience')?.split(',') || [],
+      workMode: params.get('workMode')?.split(',') || [],
+      skills: params.get('skills')?.split(',') || [],
+      schedule: params.get('schedule')?.split(',') || [],
+      benefits: params.get('benefits')?.split(',') || [],
       minSalary: params.get('minSalary') ? parseInt(params.get('minSalary')!) : 0,
-      maxSalary: params.get('maxSalary') ? parseInt(params.get('maxSalary')!) : 200000,
+      maxSalary: params.get('maxSalary') ? parseInt(params.get('maxSalary')!) : SALARY_FILTER_MAX,
+      sort: params.get('sort') || '',
       page: params.get('page') ? parseInt(params.get('page')!) : 1,
     };
   };
@@ -51,15 +68,32 @@ const JobListings = () => {
     setPage(params.page);
   }, [location]);
   
-  // Build API query string
-  const buildQueryString = () => {
+  // Build the filter part of the API query string, shared by the job list and its facet counts
+  const buildFilterParams = () => {
     const params = new URLSearchParams();
     
     if (queryParams.search) params.append('search', queryParams.search);
     if (queryParams.location) params.append('location', queryParams.location);
+    if (queryParams.near) params.append('near', queryParams.near);
+    if (queryParams.radiusKm) params.append('radiusKm', queryParams.radiusKm);
+    if (queryParams.includeRemote) params.append('includeRemote', 'true');
     if (queryParams.type.length > 0) params.append('type', queryParams.type.join(','));
     if (queryParams.experience.length > 0) params.append('experience', queryParams.experience.join(','));
+    if (queryParams.workMode.length > 0) params.append('workMode', queryParams.workMode.join(','));
+    if (queryParams.skills.length > 0) params.append('skills', queryParams.skills.join(','));
+    if (queryParams.schedule.length > 0) params.append('schedule', queryParams.schedule.join(','));
+    if (queryParams.benefits.length > 0) params.append('benefits', queryParams.benefits.join(','));
+    if (queryParams.minSalary > 0) params.append('minSalary', queryParams.minSalary.toString());
+    if (queryParams.maxSalary < SALARY_FILTER_MAX) params.append('maxSalary', queryParams.maxSalary.toString());
+    
+    return params;
+  };
+  
+  // Build API query string
+  const buildQueryString = () => {
+    const params = buildFilterParams();
     
+    if (queryParams.sort) params.append('sort', queryParams.sort);
     params.append('page', page.toString());
     params.append('limit', limit.toString());
     
@@ -67,7 +101,7 @@ const JobListings = () => {
   };
   
   // Fetch jobs with filters
-  const { data, isLoading, error } = useQuery<{jobs: Job[], total: number}>({
+  const { data, isLoading, error } = useQuery<{jobs: (Job & { highlights?: SearchHighlight[]; distanceKm?: number; sponsored?: boolean })[], total: number}>({
     queryKey: [`/api/jobs?${buildQueryString()}`],
   });
   
@@ -78,6 +112,17 @@ const JobListings = () => {
     setLocation(`/jobs?${currentParams.toString()}`);
   };
   
+  const handleSortChange = (sort: string) => {
+    const currentParams = new URLSearchParams(window.location.search);
+    if (sort === 'relevance') {
+      currentParams.delete('sort');
+    } else {
+      currentParams.set('sort', sort);
+    }
+    currentParams.delete('page');
+    setLocation(`/jobs?${currentParams.toString()}`);
+  };
+  
   // Calculate pagination values
   const totalPages = data ? Math.ceil(data.total / limit) : 0;
   const showingStart = ((page - 1) * limit) + 1;
@@ -159,17 +204,57 @@ const JobListings = () => {
               </div>
             )}
           </div>
+          <div className="mt-4 flex lg:mt-0 lg:ml-4 items-center space-x-2">
+            {queryParams.search && (
+              <>
+                <span className="text-sm text-gray-500">Sort by</span>
+                <Select
+                  value={queryParams.sort === 'date' ? 'date' : 'relevance'}
+                  onValueChange={handleSortChange}
+                >
+                  <SelectTrigger className="w-36 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="relevance">Relevance</SelectItem>
+                    <SelectItem value="date">Newest</SelectItem>
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+            <SaveSearchDialog
+              key={buildFilterParams().toString()}
+              filters={buildFilterParams()}
+              defaultName={queryParams.search}
+            />
+            {/* Feed of new jobs matching this search, for feed readers */}
+            <Button variant="outline" size="icon" asChild>
+              <a href={`/feeds/jobs.rss?${buildFilterParams().toString()}`} title="RSS feed for this search">
+                <Rss className="h-4 w-4" />
+                <span className="sr-only">RSS feed for this search</span>
+              </a>
+            </Button>
+          </div>
         </div>
         
         <div className="lg:grid lg:grid-cols-3 lg:gap-8">
           {/* Filters */}
           <div className="hidden lg:block">
             <JobFilters 
+              key={buildFilterParams().toString()}
               initialFilters={{
                 jobType: queryParams.type,
                 experienceLevel: queryParams.experience,
+                workMode: queryParams.workMode,
+                location: queryParams.location || queryParams.near,
+                radiusKm: queryParams.radiusKm || undefined,
+                includeRemote: queryParams.includeRemote,
+                skills: queryParams.skills,
+                schedule: queryParams.schedule,
+                benefits: queryParams.benefits,
                 salary: [queryParams.minSalary, queryParams.maxSalary],
               }} 
+              facetQuery={buildFilterParams().toString()}
             />
             
             <Card className="mt-6">
@@ -222,7 +307,13 @@ const JobListings = () => {
               <div>
                 <div className="space-y-4">
                   {data.jobs.map((job) => (
-                    <JobCard key={job.id} job={job} />
+                    <JobCard
+                      key={`${job.sponsored ? "sponsored-" : ""}${job.id}`}
+                      job={job}
+                      highlights={job.highlights}
+                      distanceKm={job.distanceKm}
+                      sponsored={job.sponsored}
+                    />
                   ))}
                 </div>
                 
@@ -1,6 +1,6 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useEffect } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import JobForm from "@/components/jobs/job-form";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -40,6 +40,13 @@ const JobPostPage = () => {
             <p className="mt-1 text-sm text-gray-500">
               Fill out the form below to create a new job listing for your company.
             </p>
+            <p className="mt-1 text-sm text-gray-500">
+              Prefer a step-by-step guide?{" "}
+              <Link href="/post-job/wizard" className="text-primary hover:text-primary-600">
+                Use the job posting wizard
+              </Link>
+              , which saves your progress as a draft and lets you schedule when the job goes live.
+            </p>
           </div>
           
           <JobForm />
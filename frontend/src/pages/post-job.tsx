@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Link, useLocation } from "wouter";
@@ -26,7 +27,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ArrowRight, Check, Loader2 } from "lucide-react";
-import { postJob } from "@/utils/api";
+import { formatDistanceToNow } from "date-fns";
+import { postJob, getDuplicateJobWarning, type DuplicateJobWarning } from "@/utils/api";
+import ScreeningQuestionEditor from "@/components/jobs/screening-question-editor";
+import DuplicateJobDialog from "@/components/jobs/duplicate-job-dialog";
+import type { ScreeningQuestion } from "@shared/mongodb-types";
+import { DEFAULT_REAPPLY_AFTER_DAYS } from "@shared/job-schema";
 
 enum PostJobStep {
   DETAILS = 1,
@@ -39,20 +45,160 @@ enum PostJobStep {
   REVIEW = 8,
 }
 
+// Select value for jobs where only a repost lets candidates who withdrew apply again
+const REAPPLY_AFTER_REPOST_ONLY = "repost";
+
+const REAPPLY_OPTIONS = [
+  { value: "0", label: "Any time" },
+  { value: "30", label: "After 30 days" },
+  { value: "90", label: "After 90 days" },
+  { value: "180", label: "After 180 days" },
+  { value: REAPPLY_AFTER_REPOST_ONLY, label: "Not until the job is reposted" },
+];
+
+// Map the wizard's answers onto the job model accepted by POST /api/jobs
+const toJobPayload = (data: any) => ({
+  title: data.title,
+  company: data.company,
+  location: data.location,
+  description: data.description,
+  // The first job type picked is the job's main type
+  type: data.jobType?.[0] || data.type,
+  workMode: data.workMode,
+  experienceLevel: data.experience,
+  minSalary: data.minSalary || null,
+  maxSalary: data.maxSalary || null,
+  currency: data.currency,
+  salaryPeriod: data.salaryPeriod,
+  payType: data.payType,
+  salaryNegotiable: data.negotiable === true,
+  supplementalPay: (data.supplementalPay || []).map((pay: string) =>
+    pay === "Other" && data.otherSupplementalPay ? data.otherSupplementalPay : pay
+  ),
+  benefits: [...(data.benefits || []), ...(data.additionalBenefits || [])],
+  skills: data.requiredSkills || [],
+  preferredSkills: data.preferredSkills || [],
+  additionalQualifications: data.additionalQualifications || "",
+  schedule: data.schedule || [],
+  numberOfOpenings: data.numberOfOpenings,
+  recruitmentTimeline: data.recruitmentTimeline,
+  startDate: data.hasStartDate ? data.startDate : null,
+  deadline: data.hasDeadline ? data.applicationDeadline : null,
+  contactEmail: data.contactEmail,
+  allowContact: data.allowContact === true,
+  emailUpdates: data.sendEmailUpdates === true,
+  resumeRequired: data.resumeRequired === true,
+  showCompanyDetails: data.showCompanyDetails !== false,
+  featured: data.featured === true,
+  urgentlyHiring: data.urgentLabel === true,
+  // Drafts saved before questions were typed stored plain strings
+  screeningQuestions: (data.screeningQuestions || []).filter(
+    (question: ScreeningQuestion | string) => typeof question === "object" && question.question.trim()
+  ),
+  knockoutAction: data.knockoutAction || "tag",
+  reapplyAfterDays: data.reapplyAfterDays === undefined
+    ? undefined
+    : data.reapplyAfterDays === REAPPLY_AFTER_REPOST_ONLY ? null : Number(data.reapplyAfterDays),
+  reapplyAfterRepost: data.reapplyAfterRepost !== false,
+  // Jobs are only sponsored when the employer sets a budget
+  sponsorship: Number(data.adBudget) > 0
+    ? {
+        dailyBudget: Number(data.adBudget),
+        costPerClick: data.costPerClick ? Number(data.costPerClick) : undefined,
+        durationDays: parseInt(data.adDuration || "30 days", 10),
+        currency: data.currency,
+      }
+    : null,
+});
+
+// Fill the wizard from an existing job or a template, the reverse of toJobPayload
+const fromJobContent = (job: Record<string, any>) => {
+  const values: Record<string, any> = {
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    description: job.description,
+    requirements: job.requirements,
+    additionalQualifications: job.additionalQualifications,
+    jobType: job.type ? [job.type.charAt(0).toUpperCase() + job.type.slice(1)] : undefined,
+    workMode: job.workMode,
+    experience: job.experienceLevel,
+    minSalary: job.minSalary ?? undefined,
+    maxSalary: job.maxSalary ?? undefined,
+    currency: job.salaryRange?.currency,
+    salaryPeriod: job.salaryRange?.period === "annual" ? "yearly" : job.salaryRange?.period,
+    negotiable: job.salaryNegotiable,
+    supplementalPay: job.supplementalPay,
+    benefits: job.benefits,
+    requiredSkills: job.skills,
+    preferredSkills: job.preferredSkills,
+    schedule: job.schedule,
+    numberOfOpenings: job.numberOfOpenings !== undefined ? String(job.numberOfOpenings) : undefined,
+    recruitmentTimeline: job.recruitmentTimeline ?? undefined,
+    contactEmail: job.contactEmail ?? undefined,
+    allowContact: job.allowContact,
+    sendEmailUpdates: job.emailUpdates,
+    resumeRequired: job.resumeRequired,
+    showCompanyDetails: job.showCompanyDetails,
+    screeningQuestions: job.screeningQuestions,
+    knockoutAction: job.knockoutAction,
+    reapplyAfterDays: job.reapplyAfterDays === undefined
+      ? undefined
+      : job.reapplyAfterDays === null ? REAPPLY_AFTER_REPOST_ONLY : String(job.reapplyAfterDays),
+    reapplyAfterRepost: job.reapplyAfterRepost,
+  };
+  return Object.keys(values).reduce<Record<string, any>>((filled, key) => {
+    if (values[key] !== undefined) filled[key] = values[key];
+    return filled;
+  }, {});
+};
+
+interface JobTemplateSummary {
+  _id: string;
+  name: string;
+  usageCount: number;
+}
+
+interface JobDraftResponse {
+  success: boolean;
+  data: {
+    _id: string;
+    step: PostJobStep;
+    data: Record<string, any>;
+    updatedAt: string;
+  };
+}
+
 const JobPostPage = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [currentStep, setCurrentStep] = useState<PostJobStep>(PostJobStep.DETAILS);
+  // Draft being edited, from ?draft=<id> when resuming one from the dashboard
+  const [resumeDraftId] = useState(() => new URLSearchParams(window.location.search).get("draft"));
+  // Job to duplicate (?clone=<id>) or template to start from (?template=<id>)
+  const [startFrom, setStartFrom] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    return { cloneJobId: params.get("clone"), templateId: params.get("template") };
+  });
+  const [draftId, setDraftId] = useState<string | null>(resumeDraftId);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [isDraftRestored, setIsDraftRestored] = useState(!resumeDraftId);
+  // Open posting the submitted job repeats, and the submission to resend if
+  // the employer posts it anyway
+  const [duplicateWarning, setDuplicateWarning] = useState<DuplicateJobWarning | null>(null);
+  const [pendingJobPayload, setPendingJobPayload] = useState<any>(null);
   const [jobPostData, setJobPostData] = useState<any>({
     jobType: ["Full-time"],
     schedule: [],
     payType: "Range",
+    currency: "INR",
     sponsorPlan: "Basic",
     skills: [],
     benefits: [],
     supplementalPay: [],
     screeningQuestions: [],
+    knockoutAction: "tag",
     showCompanyDetails: true,
     remote: false,
     featured: false
@@ -64,10 +210,10 @@ const JobPostPage = () => {
       company: user?.company || "",
       location: "",
       type: "Full-time",
-      workMode: "on-site",
+      workMode: "onsite",
       description: "",
       requirements: "",
-      experience: "mid-level",
+      experience: "intermediate",
       minSalary: 0,
       maxSalary: 0,
       salaryPeriod: "monthly",
@@ -87,16 +233,140 @@ const JobPostPage = () => {
     }
   });
 
+  const { data: resumedDraft, error: resumeDraftError } = useQuery<JobDraftResponse>({
+    queryKey: [`/api/job-drafts/${resumeDraftId}`],
+    enabled: !!resumeDraftId,
+  });
+  
+  // Put the wizard back where the draft was left
+  useEffect(() => {
+    if (isDraftRestored || !resumedDraft?.data) return;
+    const { step, data, updatedAt } = resumedDraft.data;
+    form.reset({ ...form.getValues(), ...data });
+    setJobPostData((prev: any) => ({ ...prev, ...data }));
+    setCurrentStep(step);
+    setDraftSavedAt(new Date(updatedAt));
+    setIsDraftRestored(true);
+  }, [resumedDraft, isDraftRestored, form]);
+  
+  const { data: templatesResponse } = useQuery<{ success: boolean; data: JobTemplateSummary[] }>({
+    queryKey: ["/api/job-templates"],
+    enabled: user?.role === "employer",
+  });
+  const templates = templatesResponse?.data || [];
+  
+  const { data: clonedJob, error: cloneJobError } = useQuery<Record<string, any>>({
+    queryKey: [`/api/jobs/${startFrom.cloneJobId}`],
+    enabled: !!startFrom.cloneJobId,
+  });
+  
+  const applyJobContent = (content: Record<string, any>) => {
+    const values = fromJobContent(content);
+    form.reset({ ...form.getValues(), ...values });
+    setJobPostData((prev: any) => ({ ...prev, ...values }));
+    setCurrentStep(PostJobStep.DETAILS);
+  };
+  
+  // Start the wizard from a company template, counting the use
+  const applyTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const res = await apiRequest("POST", `/api/job-templates/${templateId}/use`);
+      return await res.json();
+    },
+    onSuccess: (response) => {
+      applyJobContent(response.data);
+      setJobPostData((prev: any) => ({ ...prev, templateId: response.data._id }));
+      toast({
+        title: "Template applied",
+        description: `Started from "${response.data.name}". Review each step before posting.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't use template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Copy the job being duplicated into a new posting
+  useEffect(() => {
+    if (!clonedJob) return;
+    applyJobContent(clonedJob);
+    setStartFrom((prev) => ({ ...prev, cloneJobId: null }));
+  }, [clonedJob]);
+  
+  useEffect(() => {
+    if (!cloneJobError) return;
+    toast({
+      title: "Couldn't copy job",
+      description: "Starting a new job post instead.",
+      variant: "destructive",
+    });
+    setStartFrom((prev) => ({ ...prev, cloneJobId: null }));
+  }, [cloneJobError, toast]);
+  
+  useEffect(() => {
+    if (!startFrom.templateId) return;
+    applyTemplateMutation.mutate(startFrom.templateId);
+    setStartFrom((prev) => ({ ...prev, templateId: null }));
+  }, [startFrom.templateId]);
+  
+  useEffect(() => {
+    if (!resumeDraftError) return;
+    toast({
+      title: "Couldn't open draft",
+      description: "Starting a new job post instead.",
+      variant: "destructive",
+    });
+    setDraftId(null);
+    setIsDraftRestored(true);
+  }, [resumeDraftError, toast]);
+  
+  // Autosave the wizard, creating the draft on the first save
+  const saveDraftMutation = useMutation({
+    mutationFn: async ({ step, data }: { step: PostJobStep; data: any }) => {
+      const res = draftId
+        ? await apiRequest("PUT", `/api/job-drafts/${draftId}`, { step, data })
+        : await apiRequest("POST", "/api/job-drafts", { step, data });
+      return await res.json();
+    },
+    onSuccess: (response) => {
+      if (response.data?._id) {
+        setDraftId(response.data._id);
+      }
+      setDraftSavedAt(new Date());
+      queryClient.invalidateQueries({ queryKey: ["/api/job-drafts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Draft not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const postJobMutation = useMutation({
     mutationFn: (data: any) => postJob(data),
-    onSuccess: () => {
+    onSuccess: (response) => {
       toast({
-        title: "Job Posted",
-        description: "Your job has been posted successfully.",
+        title: response?.status === "scheduled" ? "Job Scheduled" : "Job Posted",
+        description: response?.status === "scheduled"
+          ? "Your job will go live at the time you picked."
+          : "Your job has been posted successfully.",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-drafts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employer/jobs"] });
       setLocation("/employer/dashboard");
     },
     onError: (error: any) => {
+      const duplicate = getDuplicateJobWarning(error);
+      if (duplicate) {
+        setDuplicateWarning(duplicate);
+        return;
+      }
       toast({
         title: "Error",
         description: error.message || "An error occurred while posting the job.",
@@ -105,17 +375,49 @@ const JobPostPage = () => {
     }
   });
 
+  // The employer refreshed their existing posting instead, so the draft is done with
+  const handleDuplicateRefreshed = () => {
+    if (draftId) {
+      apiRequest("DELETE", `/api/job-drafts/${draftId}`)
+        .catch(() => undefined)
+        .finally(() => queryClient.invalidateQueries({ queryKey: ["/api/job-drafts"] }));
+    }
+    setLocation("/employer/dashboard");
+  };
+
+  const submitJob = (payload: any) => {
+    setPendingJobPayload(payload);
+    postJobMutation.mutate(payload);
+  };
+
   const handleNextStep = (data: any) => {
     // Update the job post data with the form data from the current step
-    setJobPostData((prev: any) => ({ ...prev, ...data }));
+    const updatedData = { ...jobPostData, ...data };
+    setJobPostData(updatedData);
     
     if (currentStep < PostJobStep.REVIEW) {
       setCurrentStep(currentStep + 1);
+      saveDraftMutation.mutate({ step: currentStep + 1, data: updatedData });
     } else {
       // Submit the job post
-      postJobMutation.mutate(jobPostData);
+      submitJob({
+        ...toJobPayload(updatedData),
+        // datetime-local values are in the employer's timezone
+        publishAt: updatedData.schedulePublish && updatedData.publishAt
+          ? new Date(updatedData.publishAt).toISOString()
+          : null,
+        draftId,
+        templateId: updatedData.templateId || null,
+      });
     }
   };
+  
+  const handleSaveAndExit = () => {
+    saveDraftMutation.mutate(
+      { step: currentStep, data: { ...jobPostData, ...form.getValues() } },
+      { onSuccess: () => setLocation("/employer/dashboard") }
+    );
+  };
 
   const handleBackStep = () => {
     if (currentStep > PostJobStep.DETAILS) {
@@ -126,6 +428,7 @@ const JobPostPage = () => {
   const handleSkip = () => {
     if (currentStep < PostJobStep.REVIEW) {
       setCurrentStep(currentStep + 1);
+      saveDraftMutation.mutate({ step: currentStep + 1, data: jobPostData });
     }
   };
 
@@ -188,6 +491,28 @@ const JobPostPage = () => {
               </div>
             </div>
 
+            {templates.length > 0 && (
+              <div className="rounded-lg border border-dashed p-4">
+                <p className="mb-2 text-sm font-medium">Start from a template</p>
+                <Select
+                  value={jobPostData.templateId || ""}
+                  onValueChange={(templateId) => applyTemplateMutation.mutate(templateId)}
+                  disabled={applyTemplateMutation.isPending}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose one of your company's templates" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template._id} value={template._id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <Form {...form}>
               <form onSubmit={form.handleSubmit(handleNextStep)} className="space-y-6">
                 <div className="space-y-4">
@@ -233,6 +558,53 @@ const JobPostPage = () => {
                     )}
                   />
 
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="workMode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Work mode</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="onsite">On-site</SelectItem>
+                              <SelectItem value="hybrid">Hybrid</SelectItem>
+                              <SelectItem value="remote">Remote</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="experience"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Experience level</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="entry">Entry level</SelectItem>
+                              <SelectItem value="intermediate">Mid level</SelectItem>
+                              <SelectItem value="senior">Senior level</SelectItem>
+                              <SelectItem value="executive">Executive</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <h3 className="text-sm font-medium">Job type <span className="text-red-500">*</span></h3>
                     <div className="flex flex-wrap gap-2">
@@ -324,6 +696,21 @@ const JobPostPage = () => {
                         <label htmlFor="start-date-no">No</label>
                       </div>
                     </div>
+                    
+                    {jobPostData.hasStartDate && (
+                      <FormField
+                        control={form.control}
+                        name="startDate"
+                        render={({ field }) => (
+                          <FormItem className="max-w-xs">
+                            <FormControl>
+                              <Input {...field} type="date" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
                   </div>
 
                   <FormField
@@ -654,6 +1041,49 @@ const JobPostPage = () => {
                           Let potential candidates contact you about this job by email to the address provided
                         </label>
                       </div>
+                      <div>
+                        <Checkbox
+                          id="show-company-details"
+                          checked={jobPostData.showCompanyDetails}
+                          onCheckedChange={(checked) => 
+                            setJobPostData({ ...jobPostData, showCompanyDetails: checked === true })
+                          }
+                        />
+                        <label htmlFor="show-company-details" className="ml-2 text-sm">
+                          Show company details on the job post
+                        </label>
+                      </div>
+                    </div>
+                    
+                    <div className="mt-4">
+                      <h3 className="text-sm font-medium mb-2">If a candidate withdraws, when can they apply again?</h3>
+                      <Select
+                        value={jobPostData.reapplyAfterDays ?? String(DEFAULT_REAPPLY_AFTER_DAYS)}
+                        onValueChange={(reapplyAfterDays) => setJobPostData({ ...jobPostData, reapplyAfterDays })}
+                      >
+                        <SelectTrigger className="w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REAPPLY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="mt-2">
+                        <Checkbox
+                          id="reapply-after-repost"
+                          checked={jobPostData.reapplyAfterRepost !== false}
+                          onCheckedChange={(checked) => 
+                            setJobPostData({ ...jobPostData, reapplyAfterRepost: checked === true })
+                          }
+                        />
+                        <label htmlFor="reapply-after-repost" className="ml-2 text-sm">
+                          Also as soon as I renew or refresh the job
+                        </label>
+                      </div>
                     </div>
                     
                     <div className="mt-4">
@@ -1066,16 +1496,34 @@ const JobPostPage = () => {
                     value={jobPostData.adBudget || ""}
                     onChange={(e) => setJobPostData({ ...jobPostData, adBudget: e.target.value })}
                   />
-                  <span>daily average</span>
+                  <span>daily budget</span>
                 </div>
                 <p className="mt-2 text-xs text-gray-500">
-                  Daily spend may fluctuate based on your post's activity, but you will spend ₹4,800.00 daily max.
+                  Spend is spread through the day and you will never spend more than
+                  ₹{Number(jobPostData.adBudget || 0).toLocaleString("en-IN")} in a day.
                 </p>
                 <p className="text-xs text-gray-500">
                   You can change the amount, pause, or close your job at any time.
                 </p>
               </div>
 
+              <div>
+                <h3 className="text-sm font-medium mb-2">Cost per click</h3>
+                <p className="text-xs text-gray-500">
+                  You pay this when a candidate opens your job from a sponsored slot. Higher bids are shown first.
+                </p>
+                <div className="mt-2 flex items-center gap-4">
+                  <span>₹</span>
+                  <Input
+                    type="number"
+                    placeholder="20"
+                    value={jobPostData.costPerClick || ""}
+                    onChange={(e) => setJobPostData({ ...jobPostData, costPerClick: e.target.value })}
+                  />
+                  <span>per click</span>
+                </div>
+              </div>
+
               <div className="mt-8 p-4 bg-gray-50 rounded-lg">
                 <h3 className="text-sm font-medium">Looks like you need to hire fast</h3>
                 <p className="text-xs text-gray-500 mt-1">
@@ -1138,19 +1586,18 @@ const JobPostPage = () => {
                 </div>
               </div>
 
-              <div className="border p-4 rounded-lg">
-                <div className="flex justify-between items-center">
-                  <p className="text-sm">Screening question: Please list 2-3 dates and time ranges that you could do an interview.</p>
-                  <button type="button" className="text-gray-400">×</button>
-                </div>
-                <p className="text-xs text-gray-500">Ask applicants to list some dates and times they could do an interview.</p>
-              </div>
-
-              <div>
-                <Button variant="outline" className="w-full justify-start">
-                  Browse more questions
-                </Button>
-              </div>
+              <ScreeningQuestionEditor
+                questions={(jobPostData.screeningQuestions || []).filter(
+                  (question: ScreeningQuestion | string) => typeof question === "object"
+                )}
+                knockoutAction={jobPostData.knockoutAction || "tag"}
+                onChange={(screeningQuestions) =>
+                  setJobPostData((prev: any) => ({ ...prev, screeningQuestions }))
+                }
+                onKnockoutActionChange={(knockoutAction) =>
+                  setJobPostData((prev: any) => ({ ...prev, knockoutAction }))
+                }
+              />
 
               <div className="pt-6 flex justify-between">
                 <Button variant="ghost" onClick={handleBackStep}>
@@ -1159,15 +1606,7 @@ const JobPostPage = () => {
                 <Button 
                   variant="default" 
                   className="bg-primary hover:bg-primary-600"
-                  onClick={() => {
-                    const data = form.getValues();
-                    handleNextStep({
-                      ...data,
-                      screeningQuestions: [
-                        "Please list 2-3 dates and time ranges that you could do an interview."
-                      ]
-                    });
-                  }}
+                  onClick={() => handleNextStep(form.getValues())}
                 >
                   Continue <ArrowRight className="ml-2 h-4 w-4" />
                 </Button>
@@ -1366,6 +1805,42 @@ const JobPostPage = () => {
                 </div>
               </div>
 
+              <div className="border rounded-lg p-4">
+                <h3 className="text-sm font-medium mb-2">When should this job go live?</h3>
+                <div className="flex gap-4">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      id="publish-now"
+                      name="publish-time"
+                      checked={!jobPostData.schedulePublish}
+                      onChange={() => setJobPostData({ ...jobPostData, schedulePublish: false })}
+                    />
+                    <label htmlFor="publish-now">Now</label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      id="publish-later"
+                      name="publish-time"
+                      checked={jobPostData.schedulePublish === true}
+                      onChange={() => setJobPostData({ ...jobPostData, schedulePublish: true })}
+                    />
+                    <label htmlFor="publish-later">Schedule for later</label>
+                  </div>
+                </div>
+                
+                {jobPostData.schedulePublish && (
+                  <div className="mt-2 max-w-xs">
+                    <Input
+                      type="datetime-local"
+                      value={jobPostData.publishAt || ""}
+                      onChange={(e) => setJobPostData({ ...jobPostData, publishAt: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+
               <div className="pt-6 flex justify-between">
                 <Button variant="ghost" onClick={handleBackStep}>
                   Back
@@ -1374,7 +1849,7 @@ const JobPostPage = () => {
                   variant="default" 
                   className="bg-primary hover:bg-primary-600"
                   onClick={() => handleNextStep(form.getValues())}
-                  disabled={postJobMutation.isPending}
+                  disabled={postJobMutation.isPending || (jobPostData.schedulePublish && !jobPostData.publishAt)}
                 >
                   {postJobMutation.isPending ? (
                     <>
@@ -1384,7 +1859,7 @@ const JobPostPage = () => {
                   ) : (
                     <>
                       <Check className="mr-2 h-4 w-4" />
-                      Post Job
+                      {jobPostData.schedulePublish ? "Schedule Job" : "Post Job"}
                     </>
                   )}
                 </Button>
@@ -1423,6 +1898,14 @@ const JobPostPage = () => {
     );
   }
 
+  if (!isDraftRestored) {
+    return (
+      <div className="flex justify-center items-center h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-3xl mx-auto px-4 py-8">
@@ -1431,6 +1914,33 @@ const JobPostPage = () => {
             {renderStepContent()}
           </CardContent>
         </Card>
+        
+        <DuplicateJobDialog
+          duplicate={duplicateWarning}
+          isPosting={postJobMutation.isPending}
+          onRefreshed={handleDuplicateRefreshed}
+          onPostAnyway={() => submitJob({ ...pendingJobPayload, allowDuplicate: true })}
+          onClose={() => setDuplicateWarning(null)}
+        />
+        
+        {/* Autosave status */}
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+          <span>
+            {saveDraftMutation.isPending
+              ? "Saving draft..."
+              : draftSavedAt
+                ? `Draft saved ${formatDistanceToNow(draftSavedAt, { addSuffix: true })}`
+                : "Your progress is saved as a draft after each step"}
+          </span>
+          <Button
+            variant="link"
+            className="px-0"
+            onClick={handleSaveAndExit}
+            disabled={saveDraftMutation.isPending}
+          >
+            Save and exit
+          </Button>
+        </div>
       </div>
     </div>
   );
@@ -85,6 +85,31 @@ export const getJobDetails = async (jobId: string) => {
   }
 };
 
+// An open posting the employer already has for the job they are posting
+export interface DuplicateJobWarning {
+  _id: string;
+  title: string;
+  company: string;
+  location: string;
+  status: string;
+  createdAt: string;
+  // Percentage of the description that matches
+  similarity: number;
+  refreshableAt: string;
+}
+
+// The backend answers 409 when a new job repeats one of the employer's open postings
+export const getDuplicateJobWarning = (error: unknown): DuplicateJobWarning | null => {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) {
+    return null;
+  }
+  try {
+    return JSON.parse(error.message.slice(4)).duplicate || null;
+  } catch {
+    return null;
+  }
+};
+
 export const postJob = async (jobData: any) => {
   try {
     // First, try to post to our backend
@@ -93,6 +118,11 @@ export const postJob = async (jobData: any) => {
       const localJobData = await localApiResponse.json();
       return localJobData;
     } catch (localError) {
+      // Let the employer decide what to do about a repost
+      if (getDuplicateJobWarning(localError)) {
+        throw localError;
+      }
+      
       console.warn("Couldn't post job to local API, trying Adjuna API:", localError);
       
       // Fallback to Adjuna API
@@ -128,10 +158,18 @@ export const applyForJob = async (jobId: string, applicationData: any) => {
   }
 };
 
-export const getEmployerApplications = async (jobId?: string) => {
+export const getEmployerApplications = async (
+  jobId?: string,
+  filters: { tags?: string[]; minRating?: number; maxRating?: number } = {}
+) => {
   try {
+    const params = new URLSearchParams();
+    (filters.tags || []).forEach((tag) => params.append("tag", tag));
+    if (filters.minRating !== undefined) params.set("minRating", String(filters.minRating));
+    if (filters.maxRating !== undefined) params.set("maxRating", String(filters.maxRating));
+    const query = params.toString();
     const endpoint = jobId 
-      ? `/api/jobs/${jobId}/applications` 
+      ? `/api/jobs/${jobId}/applications${query ? `?${query}` : ""}` 
       : "/api/employer/applications";
     return await apiRequest("GET", endpoint);
   } catch (error) {
@@ -140,9 +178,13 @@ export const getEmployerApplications = async (jobId?: string) => {
   }
 };
 
-export const updateApplicationStatus = async (applicationId: string, status: string) => {
+export const updateApplicationStatus = async (
+  applicationId: string,
+  status: string,
+  options: { note?: string; notifyCandidate?: boolean } = {}
+) => {
   try {
-    return await apiRequest("PATCH", `/api/applications/${applicationId}/status`, { status });
+    return await apiRequest("PATCH", `/api/applications/${applicationId}/status`, { status, ...options });
   } catch (error) {
     console.error("Error updating application status:", error);
     throw error;
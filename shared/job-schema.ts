@@ -0,0 +1,305 @@
+import { z } from "zod";
+
+// Validation for jobs posted to the MongoDB API. Accepts the values both
+// job forms send (e.g. "Full-time", "on-site", "mid") and normalizes them
+// to the stored values.
+
+export const JOB_TYPES = ["full-time", "part-time", "contract", "internship", "temporary", "volunteer"] as const;
+export const WORK_MODES = ["remote", "hybrid", "onsite"] as const;
+export const EXPERIENCE_LEVELS = ["entry", "intermediate", "senior", "executive"] as const;
+export const SALARY_PERIODS = ["hourly", "daily", "weekly", "monthly", "annual"] as const;
+// How the salary figures are meant: a range, or one end of it, or one amount
+export const PAY_TYPES = ["range", "starting", "maximum", "exact"] as const;
+
+// Options offered by the post-job wizard. Jobs can be filtered on these.
+export const JOB_SCHEDULES = [
+  "Day shift",
+  "Morning shift",
+  "Rotational shift",
+  "Night shift",
+  "Monday to Friday",
+  "Evening shift",
+  "Weekend availability",
+  "Fixed shift",
+  "US shift",
+  "UK shift",
+  "Weekend only",
+  "Other",
+];
+
+export const JOB_BENEFITS = [
+  "Health insurance",
+  "Provident Fund",
+  "Cell phone reimbursement",
+  "Paid sick time",
+  "Work from home",
+  "Flexible schedule",
+  "Food provided",
+  "Dental insurance",
+  "Vision insurance",
+  "Employee discount",
+  "Parental leave",
+  "Company car",
+  "Gym membership",
+  "Tuition reimbursement",
+  "Life insurance",
+];
+
+export const SUPPLEMENTAL_PAY = [
+  "Performance bonus",
+  "Yearly bonus",
+  "Commission pay",
+  "Overtime pay",
+  "Quarterly bonus",
+  "Shift allowance",
+  "Joining bonus",
+  "Other",
+];
+
+export const RECRUITMENT_TIMELINES = ["1-3 days", "3-7 days", "1-2 weeks", "2-4 weeks", "More than a month"];
+
+export const SCREENING_QUESTION_TYPES = ["yes-no", "number", "multiple-choice", "text"] as const;
+export const KNOCKOUT_ACTIONS = ["tag", "reject"] as const;
+
+const MAX_LIST_LENGTH = 50;
+const MAX_OPENINGS = 1000;
+export const MAX_SCREENING_QUESTIONS = 10;
+// Days a candidate who withdrew waits before applying to the same job again
+export const DEFAULT_REAPPLY_AFTER_DAYS = 90;
+export const MAX_REAPPLY_AFTER_DAYS = 365;
+const MAX_SCREENING_OPTIONS = 20;
+
+const WORK_MODE_ALIASES: Record<string, string> = {
+  "on-site": "onsite",
+  "on site": "onsite",
+  "in-office": "onsite",
+  "office": "onsite",
+};
+
+// Other names for the salary periods, also accepted in salary searches
+export const SALARY_PERIOD_ALIASES: Record<string, string> = {
+  "hour": "hourly",
+  "day": "daily",
+  "week": "weekly",
+  "month": "monthly",
+  "year": "annual",
+  "yearly": "annual",
+  "annually": "annual",
+};
+
+const EXPERIENCE_ALIASES: Record<string, string> = {
+  "entry-level": "entry",
+  "mid": "intermediate",
+  "mid-level": "intermediate",
+  "senior-level": "senior",
+  "executive-level": "executive",
+};
+
+// Lowercase a string value and map it through a table of alternative spellings
+const normalizeWith = (aliases: Record<string, string> = {}) => (value: unknown) => {
+  if (typeof value !== "string") return value;
+  const normalized = value.trim().toLowerCase();
+  return aliases[normalized] || normalized;
+};
+
+// "per month", "Monthly" and "month" all mean monthly
+const normalizeSalaryPeriod = (value: unknown) =>
+  normalizeWith(SALARY_PERIOD_ALIASES)(typeof value === "string" ? value.replace(/^\s*per\s+/i, "") : value);
+
+// Treat empty form values as "not set"
+const emptyToNull = (value: unknown) => (value === "" || value === undefined ? null : value);
+
+// Optional free text, where null means empty
+const optionalText = (max: number) => z.preprocess(value => value ?? "", z.string().trim().max(max));
+
+const stringList = (label: string) =>
+  z
+    .array(z.string().trim().min(1).max(100), { invalid_type_error: `${label} must be a list` })
+    .max(MAX_LIST_LENGTH, `${label} can have at most ${MAX_LIST_LENGTH} entries`)
+    // Drop repeated entries
+    .transform(values => values.filter((value, index) => values.indexOf(value) === index));
+
+const optionalNumber = (label: string) =>
+  z.preprocess(emptyToNull, z.coerce.number({ invalid_type_error: `${label} must be a number` }).nonnegative().nullable());
+
+const optionalDate = (label: string) =>
+  z.preprocess(
+    emptyToNull,
+    z.coerce.date({ errorMap: () => ({ message: `${label} must be a valid date` }) }).nullable()
+  );
+
+const knockoutRuleSchema = z.object({
+  expected: z.boolean().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  acceptedOptions: z.array(z.string().trim().min(1)).optional(),
+});
+
+export const screeningQuestionSchema = z
+  .object({
+    id: z.string().trim().min(1).max(50),
+    type: z.enum(SCREENING_QUESTION_TYPES, { errorMap: () => ({ message: "Invalid screening question type" }) }),
+    question: z.string().trim().min(1, "Screening questions can't be empty").max(500),
+    required: z.boolean().default(true),
+    options: z.array(z.string().trim().min(1).max(200)).max(MAX_SCREENING_OPTIONS).optional(),
+    knockout: knockoutRuleSchema.nullable().optional(),
+  })
+  .superRefine((question, ctx) => {
+    if (question.type === "multiple-choice" && (!question.options || question.options.length < 2)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${question.question}" needs at least two options` });
+    }
+    const accepted = question.knockout?.acceptedOptions || [];
+    if (accepted.some(option => !question.options?.includes(option))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${question.question}" accepts an option it doesn't offer` });
+    }
+    const { min, max } = question.knockout || {};
+    if (min !== undefined && max !== undefined && min > max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${question.question}" has a minimum above its maximum` });
+    }
+  })
+  // Keep only the options and knockout fields that apply to the question type
+  .transform(question => {
+    const rule = question.knockout || {};
+    const knockout =
+      question.type === "yes-no" && rule.expected !== undefined ? { expected: rule.expected } :
+      question.type === "number" && (rule.min !== undefined || rule.max !== undefined) ? {
+        ...(rule.min !== undefined ? { min: rule.min } : {}),
+        ...(rule.max !== undefined ? { max: rule.max } : {}),
+      } :
+      question.type === "multiple-choice" && rule.acceptedOptions?.length ? { acceptedOptions: rule.acceptedOptions } :
+      null;
+    return {
+      id: question.id,
+      type: question.type,
+      question: question.question,
+      required: question.required,
+      ...(question.type === "multiple-choice" ? { options: question.options } : {}),
+      knockout,
+    };
+  });
+
+export const jobSchema = z.object({
+  title: z.string({ required_error: "Job title is required" }).trim().min(1, "Job title is required").max(200),
+  company: z.string({ required_error: "Company is required" }).trim().min(1, "Company is required").max(200),
+  description: z.string({ required_error: "Job description is required" }).trim().min(1, "Job description is required").max(20000),
+  location: z.string({ required_error: "Location is required" }).trim().min(1, "Location is required").max(200),
+  type: z.preprocess(
+    normalizeWith(),
+    z.enum(JOB_TYPES, { errorMap: () => ({ message: "Invalid job type" }) })
+  ),
+  workMode: z
+    .preprocess(normalizeWith(WORK_MODE_ALIASES), z.enum(WORK_MODES, { errorMap: () => ({ message: "Invalid work mode" }) }))
+    .default("onsite"),
+  salary: optionalText(200).default(""),
+  minSalary: optionalNumber("Minimum salary").default(null),
+  maxSalary: optionalNumber("Maximum salary").default(null),
+  // Used with the salary fields to build the structured salary range
+  currency: z.preprocess(
+    emptyToNull,
+    z
+      .string({ invalid_type_error: "Currency must be a 3-letter code" })
+      .trim()
+      .regex(/^[a-zA-Z]{3}$/, "Currency must be a 3-letter code")
+      .transform(value => value.toUpperCase())
+      .nullable()
+  ).default(null),
+  salaryPeriod: z.preprocess(
+    value => emptyToNull(normalizeSalaryPeriod(value)),
+    z.enum(SALARY_PERIODS, { errorMap: () => ({ message: "Invalid salary period" }) }).nullable()
+  ).default(null),
+  payType: z.preprocess(
+    value => emptyToNull(normalizeWith()(value)),
+    z.enum(PAY_TYPES, { errorMap: () => ({ message: "Invalid pay type" }) }).nullable()
+  ).default(null),
+  salaryNegotiable: z.boolean().default(false),
+  supplementalPay: stringList("Supplemental pay").default([]),
+  benefits: stringList("Benefits").default([]),
+  requirements: optionalText(20000).default(""),
+  additionalQualifications: optionalText(2000).default(""),
+  experienceLevel: z
+    .preprocess(normalizeWith(EXPERIENCE_ALIASES), z.enum(EXPERIENCE_LEVELS, { errorMap: () => ({ message: "Invalid experience level" }) }))
+    .default("entry"),
+  skills: stringList("Skills").default([]),
+  preferredSkills: stringList("Preferred skills").default([]),
+  schedule: stringList("Schedule").default([]),
+  numberOfOpenings: z.coerce
+    .number({ invalid_type_error: "Number of openings must be a number" })
+    .int()
+    .min(1, "Number of openings must be at least 1")
+    .max(MAX_OPENINGS)
+    .default(1),
+  recruitmentTimeline: z.preprocess(
+    emptyToNull,
+    z.enum(RECRUITMENT_TIMELINES as [string, ...string[]], { errorMap: () => ({ message: "Invalid recruitment timeline" }) }).nullable()
+  ).default(null),
+  startDate: optionalDate("Start date").default(null),
+  deadline: optionalDate("Deadline").default(null),
+  contactEmail: z.preprocess(emptyToNull, z.string().trim().email("Invalid contact email").nullable()).default(null),
+  // Let candidates email the contact address directly
+  allowContact: z.boolean().default(false),
+  // Email the employer about each new application
+  emailUpdates: z.boolean().default(true),
+  resumeRequired: z.boolean().default(false),
+  showCompanyDetails: z.boolean().default(true),
+  featured: z.boolean().default(false),
+  urgentlyHiring: z.boolean().default(false),
+  screeningQuestions: z
+    .array(screeningQuestionSchema)
+    .max(MAX_SCREENING_QUESTIONS, `Jobs can have at most ${MAX_SCREENING_QUESTIONS} screening questions`)
+    .refine(
+      questions => new Set(questions.map(question => question.id)).size === questions.length,
+      "Screening question IDs must be unique"
+    )
+    .default([]),
+  knockoutAction: z.enum(KNOCKOUT_ACTIONS, { errorMap: () => ({ message: "Knockout action must be tag or reject" }) }).default("tag"),
+  // Empty when candidates who withdrew can only apply again after a repost
+  reapplyAfterDays: z
+    .preprocess(
+      emptyToNull,
+      z.coerce
+        .number({ invalid_type_error: "Re-apply days must be a number" })
+        .int("Re-apply days must be a whole number")
+        .min(0, "Re-apply days can't be negative")
+        .max(MAX_REAPPLY_AFTER_DAYS, `Re-apply days can be at most ${MAX_REAPPLY_AFTER_DAYS}`)
+        .nullable()
+    )
+    .default(DEFAULT_REAPPLY_AFTER_DAYS),
+  reapplyAfterRepost: z.boolean().default(true),
+});
+
+// Updates validate only the fields that are sent
+export const jobUpdateSchema = jobSchema.partial();
+
+// Content a company can reuse for repeat postings of the same role
+export const jobTemplateSchema = jobSchema
+  .pick({
+    title: true,
+    description: true,
+    requirements: true,
+    additionalQualifications: true,
+    type: true,
+    workMode: true,
+    experienceLevel: true,
+    skills: true,
+    preferredSkills: true,
+    benefits: true,
+    supplementalPay: true,
+    schedule: true,
+    screeningQuestions: true,
+    knockoutAction: true,
+  })
+  .partial({ title: true, type: true })
+  .extend({
+    name: z.string({ required_error: "Template name is required" }).trim().min(1, "Template name is required").max(100),
+  });
+
+export const jobTemplateUpdateSchema = jobTemplateSchema.partial();
+
+export type JobInput = z.infer<typeof jobSchema>;
+export type JobUpdateInput = z.infer<typeof jobUpdateSchema>;
+
+// First validation problem, as shown to the user
+export function formatJobValidationError(error: z.ZodError): string {
+  const issue = error.errors[0];
+  return issue ? issue.message : "Invalid job data";
+}
@@ -30,30 +30,503 @@ export interface Job {
   company: string;
   description: string;
   location: string;
-  type: 'full-time' | 'part-time' | 'contract' | 'internship' | 'temporary';
+  // Set when the location matches a city in the gazetteer
+  locationCity?: string | null;
+  geo?: GeoPoint | null;
+  type: 'full-time' | 'part-time' | 'contract' | 'internship' | 'temporary' | 'volunteer';
   workMode: 'remote' | 'hybrid' | 'onsite';
   salary?: string;
   minSalary?: number;
   maxSalary?: number;
+  salaryRange?: SalaryRange | null;
+  salaryNegotiable?: boolean;
+  supplementalPay?: string[];
+  benefits?: string[];
   requirements: string;
+  additionalQualifications?: string;
   experienceLevel: 'entry' | 'intermediate' | 'senior' | 'executive';
   skills: string[];
+  preferredSkills?: string[];
+  // Shifts and working days, e.g. "Night shift", "Monday to Friday"
+  schedule?: string[];
+  numberOfOpenings?: number;
+  // How soon the employer wants to hire, e.g. "1-2 weeks"
+  recruitmentTimeline?: string | null;
+  startDate?: Date | null;
+  contactEmail?: string | null;
+  allowContact?: boolean;
+  emailUpdates?: boolean;
+  resumeRequired?: boolean;
+  showCompanyDetails?: boolean;
+  featured?: boolean;
+  urgentlyHiring?: boolean;
+  screeningQuestions?: ScreeningQuestion[];
+  // What happens to applicants who fail a knockout question
+  knockoutAction?: KnockoutAction;
   postedBy: ObjectId;
-  status: 'active' | 'closed' | 'pending' | 'flagged';
+  status: 'active' | 'closed' | 'pending' | 'flagged' | 'scheduled';
   createdAt: Date;
   updatedAt: Date;
   deadline?: Date;
+  // Scheduled jobs go active at this time
+  publishAt?: Date | null;
+  // When the job first went live, after any review or scheduling
+  publishedAt?: Date | null;
+  // Last application received, used to close abandoned listings
+  lastActivityAt?: Date;
+  closedAt?: Date | null;
+  closedReason?: JobClosedReason | null;
+  // Set once the employer has been warned the job is about to expire
+  expiryReminderSentAt?: Date | null;
+  renewals?: JobRenewal[];
+  sponsorship?: JobSponsorship | null;
+  // Fingerprint of the description, used to spot copies posted by other employers
+  contentHash?: string | null;
+  riskAssessment?: JobRiskAssessment | null;
+  // Fingerprint of the normalized title, company and location
+  duplicateKey?: string | null;
+  // First posting of the same opening when this job is a repost of it
+  duplicateGroupId?: ObjectId | null;
+  // Set when the employer moves the posting back to the top of the listings
+  refreshedAt?: Date | null;
+  firstPostedAt?: Date;
+  // Current revision of the posting's content, counting from 1
+  version?: number;
+  // Template the wizard was started from
+  templateId?: ObjectId | null;
+  // Employer's own reference for the job, used to match rows on re-import
+  externalId?: string | null;
+  // Days before a candidate who withdrew may apply again; null when only
+  // a repost lets them
+  reapplyAfterDays?: number | null;
+  // Let candidates who withdrew apply again once the job is renewed or refreshed
+  reapplyAfterRepost?: boolean;
 }
 
+// Job fields whose changes are kept in the revision history
+export type JobRevisionField =
+  | 'title'
+  | 'company'
+  | 'location'
+  | 'description'
+  | 'type'
+  | 'workMode'
+  | 'salary'
+  | 'minSalary'
+  | 'maxSalary'
+  | 'salaryRange'
+  | 'salaryNegotiable'
+  | 'supplementalPay'
+  | 'benefits'
+  | 'requirements'
+  | 'additionalQualifications'
+  | 'experienceLevel'
+  | 'skills'
+  | 'preferredSkills'
+  | 'schedule'
+  | 'numberOfOpenings'
+  | 'recruitmentTimeline'
+  | 'startDate'
+  | 'deadline'
+  | 'contactEmail'
+  | 'screeningQuestions'
+  | 'knockoutAction';
+
+export type JobTemplateField =
+  | 'title'
+  | 'description'
+  | 'requirements'
+  | 'additionalQualifications'
+  | 'type'
+  | 'workMode'
+  | 'experienceLevel'
+  | 'skills'
+  | 'preferredSkills'
+  | 'benefits'
+  | 'supplementalPay'
+  | 'schedule'
+  | 'screeningQuestions'
+  | 'knockoutAction';
+
+// Reusable job content shared by the employers of a company
+export interface JobTemplate extends Partial<Pick<Job, JobTemplateField>> {
+  _id: ObjectId;
+  name: string;
+  // Company of the employer who made it; without one the template is theirs alone
+  company: string | null;
+  createdBy: ObjectId;
+  // Times the wizard was started from the template
+  usageCount: number;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type JobRevisionSnapshot = Partial<Pick<Job, JobRevisionField>>;
+
+// What a job posting said at one version, and who changed it
+export interface JobRevision {
+  _id: ObjectId;
+  jobId: ObjectId;
+  version: number;
+  snapshot: JobRevisionSnapshot;
+  // Fields that differ from the previous version; empty for the first one
+  changedFields: JobRevisionField[];
+  changedBy: ObjectId;
+  changedAt: Date;
+}
+
+export type JobRiskRule = 'upfront-fee' | 'messaging-app' | 'unrealistic-salary' | 'duplicate-content' | 'new-employer';
+
+export interface JobRiskReason {
+  rule: JobRiskRule;
+  score: number;
+  detail: string;
+}
+
+// Result of the scam and spam checks run when a job is posted or edited
+export interface JobRiskAssessment {
+  score: number;
+  reasons: JobRiskReason[];
+  // Held for admin review because the score reached the threshold
+  held: boolean;
+  assessedAt: Date;
+  reviewedBy?: ObjectId;
+  reviewedAt?: Date;
+}
+
+interface JobRiskRuleSettings {
+  enabled: boolean;
+  // Added to the job's risk score when the rule matches
+  weight: number;
+}
+
+// Admin-configurable settings for the job risk checks, stored as a single document
+export interface JobRiskRules {
+  _id: string;
+  // Jobs scoring at least this much are held for review
+  threshold: number;
+  upfrontFee: JobRiskRuleSettings & { phrases: string[] };
+  messagingApps: JobRiskRuleSettings & { keywords: string[] };
+  unrealisticSalary: JobRiskRuleSettings & {
+    currency: string;
+    // Highest believable annual salary for each experience level
+    maxAnnualByLevel: Record<'entry' | 'intermediate' | 'senior' | 'executive', number>;
+  };
+  duplicateContent: JobRiskRuleSettings & {
+    // Shorter descriptions are too generic to count as copies
+    minLength: number;
+  };
+  newEmployer: JobRiskRuleSettings & {
+    // Unverified accounts younger than this count as new
+    accountAgeDays: number;
+  };
+  updatedAt: Date;
+  updatedBy?: ObjectId;
+}
+
+export type SponsorshipStatus = 'active' | 'paused' | 'ended';
+
+// Paid placement of a job in search results, charged per click
+export interface JobSponsorship {
+  status: SponsorshipStatus;
+  // Most the employer is charged in a day; spend is paced across the day
+  dailyBudget: number;
+  costPerClick: number;
+  currency: string;
+  startsAt: Date;
+  endsAt: Date | null;
+  updatedAt: Date;
+}
+
+export type ScreeningQuestionType = 'yes-no' | 'number' | 'multiple-choice' | 'text';
+
+export type KnockoutAction = 'tag' | 'reject';
+
+// Answers that fail the rule knock the applicant out. Which fields apply
+// depends on the question type; free-text questions have no rule.
+export interface KnockoutRule {
+  // yes-no: the answer applicants must give
+  expected?: boolean;
+  // number: allowed range, inclusive
+  min?: number;
+  max?: number;
+  // multiple-choice: options that pass
+  acceptedOptions?: string[];
+}
+
+export interface ScreeningQuestion {
+  id: string;
+  type: ScreeningQuestionType;
+  question: string;
+  required: boolean;
+  // multiple-choice only
+  options?: string[];
+  knockout?: KnockoutRule | null;
+}
+
+export interface ScreeningAnswer {
+  questionId: string;
+  // Question text when the candidate answered, in case the job is edited
+  question: string;
+  answer: boolean | number | string | null;
+  knockedOut: boolean;
+}
+
+export type JobClosedReason = 'deadline' | 'inactive' | 'manual';
+
+export interface JobRenewal {
+  renewedAt: Date;
+  renewedBy: ObjectId;
+  previousDeadline?: Date | null;
+  newDeadline: Date;
+  // Status the job had before the renewal, e.g. 'closed' for an expired job
+  previousStatus: Job['status'];
+}
+
+// GeoJSON point, coordinates are [longitude, latitude]
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+export type SalaryPeriod = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'annual';
+
+// Structured salary derived from the employer's input. `min`/`max` are in
+// the posted currency and period, `annualMin`/`annualMax` are normalized to
+// a yearly figure for filtering and comparison.
+export interface SalaryRange {
+  currency: string;
+  period: SalaryPeriod;
+  min?: number;
+  max?: number;
+  annualMin?: number;
+  annualMax?: number;
+}
+
+export interface SearchHighlightFragment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHighlight {
+  field: 'title' | 'company' | 'skills' | 'requirements' | 'description';
+  fragments: SearchHighlightFragment[];
+}
+
+// Where an application stands, as the candidate sees it
+// Only the candidate can set 'withdrawn'
+export type ApplicationStatus = 'pending' | 'reviewed' | 'interviewed' | 'accepted' | 'rejected' | 'withdrawn';
+
 export interface Application {
   _id: ObjectId;
   jobId: ObjectId;
   userId: ObjectId;
-  status: 'pending' | 'reviewed' | 'interviewed' | 'accepted' | 'rejected';
+  status: ApplicationStatus;
+  // Pipeline stage the employer moved the application to. Applications
+  // without one sit in the first stage for their status.
+  stageId?: string | null;
   coverLetter: string;
   appliedAt: Date;
   updatedAt: Date;
-  resumeId?: ObjectId;
+  // Snapshot of the resume sent with the application, in resumeSnapshots
+  resumeId?: ObjectId | null;
+  // Portfolio, certificates and other files attached when applying
+  documents?: ApplicationDocument[];
+  screeningAnswers?: ScreeningAnswer[];
+  // Set when an answer failed a knockout rule; never shown to the candidate
+  knockedOut?: boolean;
+  // Labels the hiring team files the applicant under; never shown to the candidate
+  tags?: string[];
+  // One rating per reviewer, with the average kept alongside for filtering;
+  // never shown to the candidate
+  reviewRatings?: ReviewRating[];
+  averageRating?: number | null;
+  ratingCount?: number;
+  // Version of the job posting that was live when the candidate applied
+  jobVersion?: number;
+  withdrawnAt?: Date | null;
+  withdrawalReason?: string | null;
+  // Set when a candidate applies again after withdrawing
+  reappliedAt?: Date | null;
+}
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  // Status candidates see while their application is in this stage
+  status: ApplicationStatus;
+}
+
+// Stages applications move through. A company's pipeline applies to all
+// its jobs unless a job has its own.
+export interface HiringPipeline {
+  _id: ObjectId;
+  company: string | null;
+  // Set for a job's own pipeline
+  jobId: ObjectId | null;
+  // Owner of a company-wide pipeline when the employer has no company
+  createdBy: ObjectId;
+  stages: PipelineStage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReviewRating {
+  reviewerId: ObjectId;
+  // 1 to 5 stars
+  rating: number;
+  ratedAt: Date;
+}
+
+// A private note the hiring team leaves on an application
+export interface ApplicationNote {
+  _id: ObjectId;
+  applicationId: ObjectId;
+  jobId: ObjectId;
+  authorId: ObjectId;
+  body: string;
+  // Teammates notified of the note
+  mentions: ObjectId[];
+  createdAt: Date;
+}
+
+// An employer added to review another employer's applicants. Only the
+// employer who owns the team can add or remove members.
+export interface HiringTeamMember {
+  _id: ObjectId;
+  // The employer whose jobs the member reviews
+  ownerId: ObjectId;
+  memberId: ObjectId;
+  addedAt: Date;
+}
+
+// A file kept with an application. Files are copied when the candidate
+// applies, so replacing or deleting their own copy changes nothing here.
+export interface ApplicationFile {
+  // Name on disk in the application files folder
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+export type ApplicationDocumentType = 'portfolio' | 'certificate' | 'other';
+
+export interface ApplicationDocument extends ApplicationFile {
+  _id: ObjectId;
+  type: ApplicationDocumentType;
+  uploadedAt: Date;
+}
+
+export type ResumeSource = 'built' | 'uploaded';
+
+// The resume exactly as it was when the candidate applied; never updated
+export interface ResumeSnapshot {
+  _id: ObjectId;
+  applicationId: ObjectId;
+  userId: ObjectId;
+  source: ResumeSource;
+  builtResume?: BuiltResume;
+  file?: ApplicationFile;
+  createdAt: Date;
+}
+
+// One move of an application between statuses or pipeline stages
+export interface ApplicationEvent {
+  _id: ObjectId;
+  applicationId: ObjectId;
+  jobId: ObjectId;
+  // The candidate, so their timeline is one query
+  userId: ObjectId;
+  // Null for the event that records the application being submitted
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus;
+  // Stage names at the time of the move, kept if the stage is later renamed
+  fromStage?: string | null;
+  toStage?: string | null;
+  actorId: ObjectId;
+  actorRole: 'jobseeker' | 'employer' | 'admin';
+  note?: string | null;
+  // Shown on the candidate's timeline and notified to them
+  candidateVisible: boolean;
+  createdAt: Date;
+}
+
+export interface SavedJob {
+  _id: ObjectId;
+  userId: ObjectId;
+  jobId: ObjectId;
+  notes: string;
+  savedAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobAlert {
+  _id: ObjectId;
+  userId: ObjectId;
+  name: string;
+  // GET /api/jobs query parameters the alert matches on
+  filters: Record<string, string>;
+  frequency: 'daily' | 'weekly';
+  status: 'active' | 'paused';
+  unsubscribeToken: string;
+  lastRunAt: Date;
+  lastSentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Unfinished post-job wizard, saved after each step
+export interface JobDraft {
+  _id: ObjectId;
+  employerId: ObjectId;
+  title: string;
+  // Wizard step to resume at
+  step: number;
+  // Wizard form values as entered so far
+  data: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Steps of the job funnel, from appearing in search results to applying
+export type JobEventType = 'impression' | 'view' | 'apply_click' | 'application';
+
+// Marks that a session has already been counted for a job event today
+export interface JobEventSession {
+  _id?: ObjectId;
+  jobId: ObjectId;
+  type: JobEventType | 'sponsored_click';
+  sessionId: string;
+  // UTC day, YYYY-MM-DD
+  day: string;
+  createdAt: Date;
+}
+
+// Unique sessions per funnel step for one job on one day
+export interface JobStatsDaily {
+  _id?: ObjectId;
+  jobId: ObjectId;
+  employerId: ObjectId;
+  // UTC day, YYYY-MM-DD
+  day: string;
+  impressions: number;
+  views: number;
+  applyClicks: number;
+  applications: number;
+}
+
+// Sponsored placements and spend for one job on one day
+export interface SponsoredSpendDaily {
+  _id?: ObjectId;
+  jobId: ObjectId;
+  employerId: ObjectId;
+  // UTC day, YYYY-MM-DD
+  day: string;
+  impressions: number;
+  clicks: number;
+  spend: number;
 }
 
 export interface Company {
@@ -182,7 +655,7 @@ export interface Message {
 export interface Notification {
   _id: ObjectId;
   userId: ObjectId;
-  type: 'application_status' | 'new_job' | 'message' | 'reminder' | 'system';
+  type: 'application_status' | 'mention' | 'new_job' | 'message' | 'reminder' | 'system';
   title: string;
   message: string;
   read: boolean;
@@ -5,7 +5,7 @@ import { z } from "zod";
 // Enums for our schema
 export const userRoleEnum = pgEnum('user_role', ['jobseeker', 'employer', 'admin']);
 export const jobStatusEnum = pgEnum('job_status', ['active', 'closed', 'pending', 'flagged']);
-export const applicationStatusEnum = pgEnum('application_status', ['pending', 'reviewed', 'interviewed', 'accepted', 'rejected']);
+export const applicationStatusEnum = pgEnum('application_status', ['pending', 'reviewed', 'interviewed', 'accepted', 'rejected', 'withdrawn']);
 export const jobTypeEnum = pgEnum('job_type', ['full-time', 'part-time', 'contract', 'internship']);
 export const experienceLevelEnum = pgEnum('experience_level', ['entry', 'mid', 'senior', 'executive']);
 